@@ -0,0 +1,37 @@
+import { ConfigContext, ExpoConfig } from 'expo/config';
+
+// app.json plus what depends on the environment. Universal links are only claimed when
+// EXPO_PUBLIC_LINK_BASE_URL is set; its host must serve apple-app-site-association and assetlinks.json.
+// The committed native projects read the same host at build time: the LINK_HOST build setting
+// on iOS (xcodebuild LINK_HOST=...) and EXPO_PUBLIC_LINK_BASE_URL in android/app/build.gradle.
+
+const LINK_PATHS = ['/lot', '/navigate', '/car'];
+
+const linkHost = process.env.EXPO_PUBLIC_LINK_BASE_URL
+  ? new URL(process.env.EXPO_PUBLIC_LINK_BASE_URL).hostname
+  : null;
+
+export default ({ config }: ConfigContext): ExpoConfig => {
+  const expoConfig = config as ExpoConfig;
+  if (!linkHost) return expoConfig;
+
+  return {
+    ...expoConfig,
+    ios: {
+      ...expoConfig.ios,
+      associatedDomains: [...(expoConfig.ios?.associatedDomains ?? []), `applinks:${linkHost}`],
+    },
+    android: {
+      ...expoConfig.android,
+      intentFilters: [
+        ...(expoConfig.android?.intentFilters ?? []),
+        {
+          action: 'VIEW',
+          autoVerify: true,
+          data: LINK_PATHS.map(pathPrefix => ({ scheme: 'https', host: linkHost, pathPrefix })),
+          category: ['BROWSABLE', 'DEFAULT'],
+        },
+      ],
+    },
+  };
+};
@@ -0,0 +1,13 @@
+import { deepLinkToPath, parseDeepLink } from '@/utils/deepLinks';
+
+// Rewrites incoming URLs, including the one that cold-started the app, into routes.
+// Our links open the map focused on their target; anything else is routed as is.
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  try {
+    const link = parseDeepLink(path);
+    return link ? deepLinkToPath(link) : path;
+  } catch (err) {
+    console.warn('Could not open link:', err);
+    return '/';
+  }
+}
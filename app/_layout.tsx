@@ -1,18 +1,41 @@
 import { useEffect } from 'react';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
+import { useSettings } from '@/hooks/useSettings';
+import { useTranslation } from '@/hooks/useTranslation';
+
+// Status bar content contrasts with the chosen theme
+const STATUS_BAR_STYLES = { system: 'auto', light: 'dark', dark: 'light' } as const;
+
+// Screens opened straight from a link keep the map below them to go back to
+export const unstable_settings = {
+  initialRouteName: 'index',
+};
 
 export default function RootLayout() {
   useFrameworkReady();
+  const { settings } = useSettings();
+  const { t } = useTranslation();
 
   return (
-    <>
+    <GestureHandlerRootView style={{ flex: 1 }}>
       <Stack screenOptions={{ headerShown: false }}>
         <Stack.Screen name="index" options={{ headerShown: false }} />
+        <Stack.Screen name="lot/[id]" options={{ headerShown: true, title: t('common.parkingLot') }} />
+        <Stack.Screen name="search" options={{ headerShown: true, title: t('menu.search') }} />
+        <Stack.Screen name="favorites" options={{ headerShown: true, title: t('menu.favorites') }} />
+        <Stack.Screen name="history" options={{ headerShown: true, title: t('menu.history') }} />
+        <Stack.Screen name="wallet" options={{ headerShown: true, title: t('menu.wallet') }} />
+        <Stack.Screen name="reservations" options={{ headerShown: true, title: t('menu.reservations') }} />
+        <Stack.Screen name="settings" options={{ headerShown: true, title: t('menu.settings') }} />
+        <Stack.Screen name="help" options={{ headerShown: true, title: t('menu.help') }} />
+        <Stack.Screen name="profile" options={{ headerShown: true, title: t('profile.title') }} />
+        <Stack.Screen name="sign-in" options={{ headerShown: true, title: t('auth.title'), presentation: 'modal' }} />
         <Stack.Screen name="+not-found" />
       </Stack>
-      <StatusBar style="auto" />
-    </>
+      <StatusBar style={STATUS_BAR_STYLES[settings.theme]} />
+    </GestureHandlerRootView>
   );
 }
\ No newline at end of file
@@ -0,0 +1,159 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList } from 'react-native';
+import { router } from 'expo-router';
+import { ChevronRight, Search, Star } from 'lucide-react-native';
+import { useFavorites } from '@/hooks/useFavorites';
+import { useTranslation } from '@/hooks/useTranslation';
+import { FavoriteLot } from '@/types/favorite';
+import { ParkingLot } from '@/types/parking';
+import { getSpaceColor } from '@/utils/parkingColors';
+
+function FavoriteRow({ favorite, lot, onPress, onRemove }: {
+  favorite: FavoriteLot;
+  lot: ParkingLot | null;
+  onPress: () => void;
+  onRemove: () => void;
+}) {
+  const { t } = useTranslation();
+  return (
+    <TouchableOpacity style={styles.row} onPress={onPress} activeOpacity={0.7}>
+      <TouchableOpacity style={styles.starButton} onPress={onRemove} hitSlop={8}>
+        <Star size={18} color="#F59E0B" fill="#F59E0B" />
+      </TouchableOpacity>
+      <View style={styles.rowDetails}>
+        <Text style={styles.rowTitle} numberOfLines={1}>{lot?.name ?? favorite.name}</Text>
+        <Text style={styles.rowSubtitle} numberOfLines={1}>{lot ? `${lot.city} · ${t('favorites.capacity', { count: lot.capacity })}` : t('common.loading')}</Text>
+      </View>
+      {lot && (
+        <View style={[styles.spacesBadge, { backgroundColor: getSpaceColor(lot.availability.freeSpaces) }]}>
+          <Text style={styles.spacesText}>{lot.availability.freeSpaces}</Text>
+        </View>
+      )}
+      <ChevronRight size={16} color="#D1D5DB" />
+    </TouchableOpacity>
+  );
+}
+
+// Starred lots with their live free spaces
+export default function FavoritesScreen() {
+  const { t } = useTranslation();
+  const favorites = useFavorites();
+
+  const removeFavorite = (lotId: string) => {
+    favorites.removeFavorite(lotId).catch(err => console.warn('Could not remove favorite:', err));
+  };
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={favorites.favorites}
+        keyExtractor={favorite => favorite.lotId}
+        renderItem={({ item }) => (
+          <FavoriteRow
+            favorite={item}
+            lot={favorites.favoriteLots[item.lotId] ?? null}
+            onPress={() => router.push({ pathname: '/lot/[id]', params: { id: item.lotId } })}
+            onRemove={() => removeFavorite(item.lotId)}
+          />
+        )}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <Star size={28} color="#D1D5DB" />
+            <Text style={styles.emptyText}>
+              {favorites.isLoaded ? t('menu.favoritesEmpty') : t('common.loading')}
+            </Text>
+            {favorites.isLoaded && (
+              <TouchableOpacity style={styles.searchButton} onPress={() => router.push('/search')}>
+                <Search size={16} color="#FFFFFF" />
+                <Text style={styles.searchText}>{t('favorites.search')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  starButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#FEF3C7',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowDetails: {
+    flex: 1,
+    marginHorizontal: 10,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  spacesBadge: {
+    minWidth: 32,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginRight: 6,
+  },
+  spacesText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    paddingHorizontal: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  searchButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#3B82F6',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+    marginTop: 16,
+  },
+  searchText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+});
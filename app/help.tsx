@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { ChevronDown, ChevronRight } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { formatNumber } from '@/utils/i18n';
+import {
+  ARRIVAL_GRACE_MINUTES,
+  CHECK_IN_WINDOW_MINUTES,
+  FREE_CANCELLATION_MINUTES,
+  LATE_CANCELLATION_REFUND,
+} from '@/utils/reservationRules';
+
+const TOPIC_IDS = ['availability', 'search', 'sessions', 'reservations', 'receipts', 'privacy', 'security'] as const;
+
+// Placeholders of the reservation rules answer
+const RESERVATION_RULES = {
+  freeMinutes: FREE_CANCELLATION_MINUTES,
+  checkInMinutes: CHECK_IN_WINDOW_MINUTES,
+  graceMinutes: ARRIVAL_GRACE_MINUTES,
+};
+
+// Frequently asked questions; `topic` opens one of them (e.g. from the privacy menu entry)
+export default function HelpScreen() {
+  const { t, locale } = useTranslation();
+  const params = useLocalSearchParams<{ topic?: string }>();
+  const [openTopicId, setOpenTopicId] = useState<string | null>(params.topic ?? null);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {TOPIC_IDS.map(topicId => {
+        const isOpen = topicId === openTopicId;
+        return (
+          <TouchableOpacity
+            key={topicId}
+            style={styles.topic}
+            onPress={() => setOpenTopicId(isOpen ? null : topicId)}
+            activeOpacity={0.7}
+          >
+            <View style={styles.questionRow}>
+              <Text style={styles.question}>{t(`help.topics.${topicId}.question`)}</Text>
+              {isOpen ? <ChevronDown size={16} color="#6B7280" /> : <ChevronRight size={16} color="#D1D5DB" />}
+            </View>
+            {isOpen && (
+              <Text style={styles.answer}>
+                {t(`help.topics.${topicId}.answer`, {
+                  ...RESERVATION_RULES,
+                  refund: formatNumber(LATE_CANCELLATION_REFUND, { style: 'percent' }, locale),
+                })}
+              </Text>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  topic: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  questionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  question: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+    marginRight: 8,
+  },
+  answer: {
+    fontSize: 13,
+    color: '#374151',
+    lineHeight: 20,
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, SectionList, Modal, Alert } from 'react-native';
+import { Car, CalendarCheck, History, Share2 } from 'lucide-react-native';
+import { HistoryEntryDetails } from '@/components/HistoryEntryDetails';
+import { useParkingHistory } from '@/hooks/useParkingHistory';
+import { useAuth } from '@/hooks/useAuth';
+import { useTranslation } from '@/hooks/useTranslation';
+import { exportReceipts, ReceiptFormat } from '@/services/receiptExport';
+import { ParkingHistoryEntry } from '@/types/parkingHistory';
+import { getLocale } from '@/utils/i18n';
+import { HistoryMonth } from '@/utils/parkingHistory';
+import { formatAmount, formatStayDuration } from '@/utils/parkingFormat';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(getLocale(), { weekday: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatTotals = (totals: Record<string, number>) =>
+  Object.entries(totals)
+    .map(([currency, total]) => formatAmount(total, currency))
+    .join(' · ');
+
+function HistoryRow({ entry, onPress }: { entry: ParkingHistoryEntry; onPress: () => void }) {
+  const { t } = useTranslation();
+  const Icon = entry.source === 'reservation' ? CalendarCheck : Car;
+  return (
+    <TouchableOpacity style={styles.row} onPress={onPress}>
+      <View style={styles.rowIcon}>
+        <Icon size={18} color="#3B82F6" />
+      </View>
+      <View style={styles.rowDetails}>
+        <Text style={styles.rowTitle} numberOfLines={1}>{entry.lotName ?? t('common.parkingLot')}</Text>
+        <Text style={styles.rowDate}>
+          {formatDate(entry.arrivedAt)} · {formatStayDuration(entry.departedAt - entry.arrivedAt)}
+        </Text>
+      </View>
+      <Text style={styles.rowAmount}>{entry.currency ? formatAmount(entry.cost, entry.currency) : '—'}</Text>
+    </TouchableOpacity>
+  );
+}
+
+// Every past stay grouped by month, with receipts to share for expense reports
+export default function HistoryScreen() {
+  const history = useParkingHistory();
+  const auth = useAuth();
+  const { t } = useTranslation();
+  const [selectedEntry, setSelectedEntry] = useState<ParkingHistoryEntry | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportEntries = async (entries: ParkingHistoryEntry[], format: ReceiptFormat, title: string) => {
+    setIsExporting(true);
+    try {
+      await exportReceipts(entries, format, { title, holder: auth.user ?? undefined });
+    } catch (err) {
+      console.warn('Could not export receipts:', err);
+      Alert.alert(t('common.error'), t('history.exportFailed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportMonth = (month: HistoryMonth) => {
+    Alert.alert(t('history.exportTitle'), t('history.exportMessage', { count: month.data.length, month: month.title }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: 'CSV', onPress: () => exportEntries(month.data, 'csv', month.title) },
+      { text: 'PDF', onPress: () => exportEntries(month.data, 'pdf', month.title) },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <SectionList
+        sections={history.months}
+        keyExtractor={entry => entry.id}
+        renderItem={({ item }) => <HistoryRow entry={item} onPress={() => setSelectedEntry(item)} />}
+        renderSectionHeader={({ section }) => (
+          <View style={styles.sectionHeader}>
+            <View style={styles.sectionDetails}>
+              <Text style={styles.sectionTitle}>{section.title}</Text>
+              <Text style={styles.sectionTotals}>
+                {t('history.stays', { count: section.data.length })}
+                {Object.keys(section.totals).length > 0 ? ` · ${formatTotals(section.totals)}` : ''}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={styles.exportButton}
+              onPress={() => handleExportMonth(section)}
+              disabled={isExporting}
+            >
+              <Share2 size={14} color="#3B82F6" />
+              <Text style={styles.exportText}>{t('history.export')}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        stickySectionHeadersEnabled={false}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <History size={28} color="#D1D5DB" />
+            <Text style={styles.emptyText}>
+              {history.isLoaded ? t('history.empty') : t('common.loading')}
+            </Text>
+          </View>
+        }
+      />
+
+      <Modal
+        visible={selectedEntry !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setSelectedEntry(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            {selectedEntry && (
+              <HistoryEntryDetails
+                entry={selectedEntry}
+                isExporting={isExporting}
+                onExport={format => exportEntries([selectedEntry], format, selectedEntry.lotName ?? t('common.parkingLot'))}
+                onClose={() => setSelectedEntry(null)}
+              />
+            )}
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  sectionDetails: {
+    flex: 1,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    textTransform: 'capitalize',
+  },
+  sectionTotals: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#EFF6FF',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  exportText: {
+    color: '#3B82F6',
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  rowIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#EFF6FF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowDetails: {
+    flex: 1,
+    marginHorizontal: 10,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  rowDate: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  rowAmount: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginTop: 8,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+  },
+});
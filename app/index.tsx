@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -8,13 +8,75 @@ import {
   Platform,
   TextInput,
   Modal,
+  Share,
+  Keyboard,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import MapView, { Marker, Region, Camera } from 'react-native-maps';
+import { Href, router, useLocalSearchParams } from 'expo-router';
+import MapView, { Marker, Polyline, Region, Camera } from 'react-native-maps';
 import { NativeUserLocationMarker } from '@/components/NativeUserLocationMarker';
 import { LocationPermissionScreen } from '@/components/LocationPermissionScreen';
 import { FloatingMenu } from '@/components/FloatingMenu';
+import { ParkingClusterMarker } from '@/components/ParkingClusterMarker';
+import { ParkingLotMarker } from '@/components/ParkingLotMarker';
+import { AvailabilityStatusBadge } from '@/components/AvailabilityStatusBadge';
+import { ParkingLotSheet, ParkingLotSheetSnap } from '@/components/ParkingLotSheet';
+import { NavigationBanner } from '@/components/NavigationBanner';
+import { NavigationSummary } from '@/components/NavigationSummary';
+import { OffscreenLotPointers } from '@/components/OffscreenLotPointers';
+import { SearchResultsList } from '@/components/SearchResultsList';
+import { DestinationLotsPanel } from '@/components/DestinationLotsPanel';
+import { VoiceListeningOverlay } from '@/components/VoiceListeningOverlay';
+import { ParkedCarMarker } from '@/components/ParkedCarMarker';
+import { SaveParkedCarForm } from '@/components/SaveParkedCarForm';
+import { WalkBackPanel } from '@/components/WalkBackPanel';
+import { ParkingProposalBanner } from '@/components/ParkingProposalBanner';
+import { ParkingSessionTimer } from '@/components/ParkingSessionTimer';
+import { StartParkingSessionForm } from '@/components/StartParkingSessionForm';
+import { ReservationMarker } from '@/components/ReservationMarker';
+import { ReservationForm } from '@/components/ReservationForm';
+import { ReservationDetails } from '@/components/ReservationDetails';
 import { useLocationTracking } from '@/hooks/useLocationTracking';
+import { useParkingLots } from '@/hooks/useParkingLots';
+import { useAvailabilityFeed } from '@/hooks/useAvailabilityFeed';
+import { useRouteGuidance } from '@/hooks/useRouteGuidance';
+import { usePlaceSearch } from '@/hooks/usePlaceSearch';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useVoiceSearch } from '@/hooks/useVoiceSearch';
+import { useParkedCar } from '@/hooks/useParkedCar';
+import { useParkingDetection } from '@/hooks/useParkingDetection';
+import { useParkingSession } from '@/hooks/useParkingSession';
+import { useWallet } from '@/hooks/useWallet';
+import { useReservations } from '@/hooks/useReservations';
+import { useAuth } from '@/hooks/useAuth';
+import { useVehicles } from '@/hooks/useVehicles';
+import { useFavorites } from '@/hooks/useFavorites';
+import { useSettings } from '@/hooks/useSettings';
+import { useParkingHistory } from '@/hooks/useParkingHistory';
+import { clusterParkingLots, ParkingCluster } from '@/utils/parkingClusters';
+import { getOffscreenPointers } from '@/utils/offscreenPointers';
+import { rankLotsByWalkingDistance } from '@/utils/destinationLots';
+import { rankFavoritesByDistance } from '@/utils/favorites';
+import { calculateBearing, calculateDistance, relativeBearing } from '@/utils/geo';
+import { VoiceCommand } from '@/utils/voiceCommands';
+import { getSessionRate } from '@/utils/parkingCost';
+import { formatAmount } from '@/utils/parkingFormat';
+import { GPS_PROFILES, NAVIGATION_CAMERAS, getSpeechLanguage } from '@/utils/settings';
+import { buildDeepLink, buildMapsUrl } from '@/utils/deepLinks';
+import { GpsTrace, loadLatestTrace } from '@/utils/gpsTrace';
+import { createSimulatedLocationProvider } from '@/utils/simulatedLocationProvider';
+import { parkingRepository } from '@/services/parkingRepository';
+import { parkingBilling, SessionSettlement } from '@/services/parkingBilling';
+import { parkingHistoryStore } from '@/services/parkingHistoryStore';
+import { mapViewportStore } from '@/services/mapViewportStore';
+import { simulatedLocationSources } from '@/data/simulatedRoutes';
+import { isInsufficientBalanceError } from '@/services/walletStore';
+import { LatLng, ParkingLot } from '@/types/parking';
+import { ParkingSession } from '@/types/parkingSession';
+import { FavoriteLot } from '@/types/favorite';
+import { MapType } from '@/types/settings';
+import { PlaceResult } from '@/types/places';
 import { 
   MapPin, 
   Navigation, 
@@ -24,25 +86,51 @@ import {
   Menu, 
   Search, 
   Mic, 
+  X,
+  Car,
   Layers as Layers3
 } from 'lucide-react-native';
 
 const { width, height } = Dimensions.get('window');
 
-// Reduced parking data - 4 strategic locations in China
-const chinaParkingData = [
-  // Beijing (2 locations)
-  { id: 'bj1', latitude: 39.9042, longitude: 116.4074, name: 'Forbidden City', spaces: 45, city: 'Beijing' },
-  { id: 'bj2', latitude: 39.9163, longitude: 116.3972, name: 'Beihai Park', spaces: 28, city: 'Beijing' },
-  
-  // Shanghai (1 location)
-  { id: 'sh1', latitude: 31.2304, longitude: 121.4737, name: 'The Bund', spaces: 35, city: 'Shanghai' },
-  
-  // Guangzhou (1 location)
-  { id: 'gz1', latitude: 23.1291, longitude: 113.2644, name: 'Canton Tower', spaces: 52, city: 'Guangzhou' },
-];
+// Bottom space taken by the search bar (offset + bar height + gap)
+const SEARCH_BAR_SPACE = 110;
+
+const SESSION_EXTEND_MINUTES = 30;
+const REMINDER_OPTIONS: (number | null)[] = [15, 10, 5, null];
+
+// Development GPS recordings are written to disk this often (ms)
+const TRACE_SAVE_INTERVAL = 30 * 1000;
+
+// Keep off-screen pointers clear of the top controls and the search bar
+const POINTER_INSETS = { top: 180, bottom: SEARCH_BAR_SPACE + 20, left: 30, right: 30 };
+
+// Map screen params, from other screens and deep links: a lot to select (and optionally
+// navigate to), a place to show, or `focus=car` for the saved car
+type MapScreenParams = {
+  lotId?: string;
+  navigate?: string;
+  placeName?: string;
+  latitude?: string;
+  longitude?: string;
+  focus?: string;
+};
 
 export default function MapScreen() {
+  const params = useLocalSearchParams<MapScreenParams>();
+  const { settings } = useSettings();
+  const { t } = useTranslation();
+  const gpsProfile = GPS_PROFILES[settings.gpsProfile];
+  const cameraZoom = NAVIGATION_CAMERAS[settings.navigationZoom];
+  // Development builds can record the GPS session, replay the last recording or follow a scripted route instead
+  const locationSource = __DEV__ ? settings.locationSource : 'device';
+  const [latestTrace, setLatestTrace] = useState<GpsTrace | null>(null);
+  const recordTrace = locationSource === 'record';
+  const replayTrace = locationSource === 'replay' ? latestTrace : null;
+  const simulatedProvider = useMemo(() => {
+    const simulation = simulatedLocationSources[locationSource];
+    return simulation ? createSimulatedLocationProvider(simulation) : undefined;
+  }, [locationSource]);
   const {
     location,
     hasPermission,
@@ -52,28 +140,191 @@ export default function MapScreen() {
     lastUpdate,
     startTracking,
     stopTracking,
+    resetTracking,
     recenterMap,
     requestPermissions,
+    saveRecordedTrace,
+    clearRecordedTrace,
   } = useLocationTracking({
-    enableHighAccuracy: true,
-    distanceInterval: 1,
-    timeInterval: 500,
-    minAccuracy: 30,
-    headingSamples: 5,
+    enableHighAccuracy: gpsProfile.enableHighAccuracy,
+    distanceInterval: gpsProfile.distanceInterval,
+    timeInterval: gpsProfile.timeInterval,
+    minAccuracy: gpsProfile.minAccuracy,
+    headingSamples: gpsProfile.headingSamples,
+    recordTrace,
+    replayTrace,
+    provider: simulatedProvider,
   });
 
-  const [mapType, setMapType] = useState<'standard' | 'satellite' | 'hybrid'>('standard');
-  const [isTrackingMode, setIsTrackingMode] = useState(false);
+  const [mapType, setMapType] = useState<MapType>(settings.mapType);
+  // Reopen where the map was left when this screen is recreated
+  const [savedViewport] = useState(mapViewportStore.get);
+  const [isTrackingMode, setIsTrackingMode] = useState(savedViewport?.isTrackingMode ?? false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [currentRegion, setCurrentRegion] = useState<Region | null>(null);
-  const [currentCamera, setCurrentCamera] = useState<Camera | null>(null);
-  const [isFollowingUser, setIsFollowingUser] = useState(true);
-  const [userHasInteracted, setUserHasInteracted] = useState(false);
+  const [currentRegion, setCurrentRegion] = useState<Region | null>(savedViewport?.region ?? null);
+  const [currentCamera, setCurrentCamera] = useState<Camera | null>(savedViewport?.camera ?? null);
+  const [isFollowingUser, setIsFollowingUser] = useState(savedViewport?.isFollowingUser ?? true);
+  const [userHasInteracted, setUserHasInteracted] = useState(savedViewport ? !savedViewport.isFollowingUser : false);
+  const [selectedLotId, setSelectedLotId] = useState<string | null>(null);
+  const [sheetSnap, setSheetSnap] = useState<ParkingLotSheetSnap>('collapsed');
+  const [isSearchFocused, setIsSearchFocused] = useState(false);
+  const [searchDestination, setSearchDestination] = useState<PlaceResult | null>(null);
+  const [isVoiceResultsOpen, setIsVoiceResultsOpen] = useState(false);
+  const [isVoiceOverlayOpen, setIsVoiceOverlayOpen] = useState(false);
+  const [voiceAutoSelectQuery, setVoiceAutoSelectQuery] = useState<string | null>(null);
+  const [isSaveCarOpen, setIsSaveCarOpen] = useState(false);
+  const [isWalkingBack, setIsWalkingBack] = useState(false);
+  const [isCarFocusPending, setIsCarFocusPending] = useState(false);
+  const [sessionFormLot, setSessionFormLot] = useState<ParkingLot | undefined>();
+  const [isStartSessionOpen, setIsStartSessionOpen] = useState(false);
+  const [reservationLot, setReservationLot] = useState<ParkingLot | null>(null);
+  const [selectedReservationId, setSelectedReservationId] = useState<string | null>(null);
   
   const mapRef = useRef<MapView>(null);
   const lastLocationUpdate = useRef<number>(0);
   const isAnimatingToUser = useRef<boolean>(false);
+  const trackedGpsProfile = useRef(settings.gpsProfile);
+  const trackedLocationSource = useRef({ recordTrace, replayTrace, simulatedProvider });
+  const saveRecordedTraceRef = useRef(saveRecordedTrace);
+  saveRecordedTraceRef.current = saveRecordedTrace;
+  const isFinishingSession = useRef(false);
+
+  // Coordinates of the last valid fix, so memos follow the position rather than every update
+  const userLatitude = location?.isValid ? location.latitude : null;
+  const userLongitude = location?.isValid ? location.longitude : null;
+
+  // Parking lots around the visible region (falls back to the user's surroundings before the first region change)
+  const parkingRegion = useMemo<Region | null>(
+    () => currentRegion ?? (userLatitude !== null && userLongitude !== null ? {
+      latitude: userLatitude,
+      longitude: userLongitude,
+      latitudeDelta: 0.008,
+      longitudeDelta: 0.008,
+    } : null),
+    [currentRegion, userLatitude, userLongitude]
+  );
+  // Only lots the default vehicle fits in (height limits, EV-only and motorcycle bays)
+  const { defaultVehicle } = useVehicles();
+  const { lots: parkingLots } = useParkingLots(parkingRegion, { vehicle: defaultVehicle });
+  // Wider ring around the viewport for the off-screen pointers
+  const { lots: nearbyLots } = useParkingLots(parkingRegion, { padding: 2, vehicle: defaultVehicle });
+  const availabilityFeed = useAvailabilityFeed();
+  const guidance = useRouteGuidance(location);
+  const placeSearch = usePlaceSearch(searchQuery, {
+    near: location && location.isValid ? location : null,
+    vehicle: defaultVehicle,
+  });
+
+  // Lots around the chosen search destination, closest walk first
+  const destinationRegion: Region | null = searchDestination ? {
+    latitude: searchDestination.coordinate.latitude,
+    longitude: searchDestination.coordinate.longitude,
+    latitudeDelta: 0.03,
+    longitudeDelta: 0.03,
+  } : null;
+  const { parkedCar, isLoaded: isParkedCarLoaded, parkHere, clearParkedCar } = useParkedCar();
+  // Offer to save the spot after driving → stopping → walking; forget it once driving again
+  const parkingDetection = useParkingDetection(location, {
+    parkedCar,
+    onReturnedToCar: () => {
+      console.log('🚗 Clearing saved car: user is driving again');
+      setIsWalkingBack(false);
+      clearParkedCar();
+    },
+  });
+  const parkingSession = useParkingSession();
+  const wallet = useWallet();
+  const reservations = useReservations();
+  const auth = useAuth();
+  const favorites = useFavorites();
+  const parkingHistory = useParkingHistory();
+  const selectedReservation = selectedReservationId
+    ? reservations.reservations.find(reservation => reservation.id === selectedReservationId)
+    : undefined;
+  const voiceSearch = useVoiceSearch({
+    onCommand: (command) => handleVoiceCommand(command),
+    defaultLanguage: getSpeechLanguage(settings.language),
+  });
+
+  const { lots: destinationAreaLots, isLoading: isLoadingDestinationLots } = useParkingLots(destinationRegion, { padding: 0, vehicle: defaultVehicle });
+  const destinationLots = useMemo(
+    () => searchDestination ? rankLotsByWalkingDistance(destinationAreaLots, searchDestination.coordinate) : [],
+    [destinationAreaLots, searchDestination]
+  );
+
+  // Menu favourites: closest first, with live availability
+  const rankedFavorites = useMemo(
+    () =>
+      rankFavoritesByDistance(
+        favorites.favorites,
+        favorites.favoriteLots,
+        userLatitude !== null && userLongitude !== null ? { latitude: userLatitude, longitude: userLongitude } : null
+      ),
+    [favorites.favorites, favorites.favoriteLots, userLatitude, userLongitude]
+  );
+
+  // Clusters at low zoom, individual P markers at street level
+  const parkingMarkers = useMemo(
+    () => clusterParkingLots(parkingLots, parkingRegion),
+    [parkingLots, parkingRegion]
+  );
+
+  const mapHeading = currentCamera?.heading ?? 0;
+  const offscreenPointers = useMemo(
+    () => parkingRegion && userLatitude !== null && userLongitude !== null
+      ? getOffscreenPointers(
+        nearbyLots,
+        parkingRegion,
+        { latitude: userLatitude, longitude: userLongitude },
+        { width, height },
+        POINTER_INSETS,
+        { heading: mapHeading }
+      )
+      : [],
+    [nearbyLots, parkingRegion, mapHeading, userLatitude, userLongitude]
+  );
+
+  // Walk-back guidance to the saved car
+  const carDistance = parkedCar && location && location.isValid
+    ? calculateDistance(location.latitude, location.longitude, parkedCar.latitude, parkedCar.longitude)
+    : null;
+  const carBearing = parkedCar && location && location.isValid
+    ? calculateBearing(location.latitude, location.longitude, parkedCar.latitude, parkedCar.longitude)
+    : null;
+  // Within GPS error of the car (never tighter than 15m)
+  const hasReachedCar = carDistance !== null && carDistance <= Math.max(15, parkedCar?.accuracy ?? 0);
+  const isNavigating = guidance.isActive || isWalkingBack;
+
+  // Lot the user is standing in, if any (for the saved car)
+  const currentLot = useMemo(() => {
+    if (userLatitude === null || userLongitude === null) return undefined;
+    return parkingLots
+      .map(lot => ({
+        lot,
+        distance: calculateDistance(userLatitude, userLongitude, lot.location.latitude, lot.location.longitude),
+      }))
+      .filter(({ distance }) => distance <= 80)
+      .sort((a, b) => a.distance - b.distance)[0]?.lot;
+  }, [parkingLots, userLatitude, userLongitude]);
+
+  // Lot the detected parking spot belongs to, if any
+  const proposalLot = useMemo(() => {
+    const proposal = parkingDetection.proposal;
+    if (!proposal) return undefined;
+    return parkingLots
+      .map(lot => ({
+        lot,
+        distance: calculateDistance(proposal.latitude, proposal.longitude, lot.location.latitude, lot.location.longitude),
+      }))
+      .filter(({ distance }) => distance <= 80)
+      .sort((a, b) => a.distance - b.distance)[0]?.lot;
+  }, [parkingLots, parkingDetection.proposal]);
+
+  // Selected lot stays live even after it scrolls out of the loaded region
+  const selectedLot = selectedLotId
+    ? parkingLots.find(lot => lot.id === selectedLotId) ?? parkingRepository.getCachedLot(selectedLotId)
+    : undefined;
 
   // Auto-start tracking when permissions are granted
   useEffect(() => {
@@ -82,13 +333,86 @@ export default function MapScreen() {
     }
   }, [hasPermission]);
 
+  // The position watch keeps the options it started with: restart it for a new GPS profile
+  useEffect(() => {
+    if (trackedGpsProfile.current === settings.gpsProfile) return;
+    trackedGpsProfile.current = settings.gpsProfile;
+    if (isTracking) {
+      console.log('⚙️ GPS profile changed - restarting tracking:', settings.gpsProfile);
+      stopTracking();
+      startTracking();
+    }
+  }, [settings.gpsProfile, isTracking, startTracking, stopTracking]);
+
+  // Replaying needs the last recording read from disk
+  useEffect(() => {
+    if (locationSource !== 'replay') return;
+    let isActive = true;
+    loadLatestTrace()
+      .then(trace => {
+        if (!isActive) return;
+        if (!trace) console.warn('⏯️ No GPS trace recorded yet - using the device GPS');
+        setLatestTrace(trace);
+      })
+      .catch(err => console.warn('Could not load GPS trace:', err));
+    return () => {
+      isActive = false;
+    };
+  }, [locationSource]);
+
+  // Recording, replay and simulation are set up when tracking starts: restart it from scratch for a new source
+  useEffect(() => {
+    const tracked = trackedLocationSource.current;
+    if (
+      tracked.recordTrace === recordTrace &&
+      tracked.replayTrace === replayTrace &&
+      tracked.simulatedProvider === simulatedProvider
+    ) return;
+    trackedLocationSource.current = { recordTrace, replayTrace, simulatedProvider };
+    if (recordTrace) clearRecordedTrace();
+    if (isTracking) {
+      console.log('⚙️ Location source changed - restarting tracking:', locationSource);
+      resetTracking();
+      startTracking();
+    }
+  }, [
+    recordTrace,
+    replayTrace,
+    simulatedProvider,
+    locationSource,
+    isTracking,
+    clearRecordedTrace,
+    resetTracking,
+    startTracking,
+  ]);
+
+  // Save the recording as it grows (one file per recording) and when it stops
+  useEffect(() => {
+    if (!recordTrace) return;
+    const interval = setInterval(() => saveRecordedTraceRef.current(), TRACE_SAVE_INTERVAL);
+    return () => {
+      clearInterval(interval);
+      saveRecordedTraceRef.current();
+    };
+  }, [recordTrace]);
+
+  // Open with the map type chosen in the settings (the layers button still cycles it)
+  useEffect(() => {
+    setMapType(settings.mapType);
+  }, [settings.mapType]);
+
+  // Remember the viewport for when this screen is recreated, and for searches from other screens
+  useEffect(() => {
+    mapViewportStore.save({ region: currentRegion, camera: currentCamera, isTrackingMode, isFollowingUser });
+  }, [currentRegion, currentCamera, isTrackingMode, isFollowingUser]);
+
   // Update region/camera when location changes and following user
   useEffect(() => {
     if (location && location.isValid && isFollowingUser && !userHasInteracted) {
       const now = Date.now();
       
       // Throttle location updates to avoid excessive animations
-      if (now - lastLocationUpdate.current < 800) return;
+      if (now - lastLocationUpdate.current < gpsProfile.followThrottle) return;
       lastLocationUpdate.current = now;
 
       if (isTrackingMode) {
@@ -103,8 +427,8 @@ export default function MapScreen() {
           },
           pitch: 0, // NO 3D - Keep it flat
           heading: heading, // SAME heading as arrow - SYNCHRONIZED
-          altitude: 200, // Closer to ground for navigation feel
-          zoom: 19, // Very close zoom for navigation
+          altitude: cameraZoom.tracking.altitude, // Closer to ground for navigation feel
+          zoom: cameraZoom.tracking.zoom, // Close zoom for navigation
         };
         
         setCurrentCamera(newCamera);
@@ -138,7 +462,15 @@ export default function MapScreen() {
         }
       }
     }
-  }, [location, isFollowingUser, userHasInteracted, isTrackingMode]);
+  }, [
+    location,
+    isFollowingUser,
+    userHasInteracted,
+    isTrackingMode,
+    gpsProfile.followThrottle,
+    cameraZoom.tracking.altitude,
+    cameraZoom.tracking.zoom,
+  ]);
 
   // Handle when user starts interacting with the map
   const handleUserInteractionStart = () => {
@@ -149,6 +481,14 @@ export default function MapScreen() {
     }
   };
 
+  // Panning the map collapses the lot sheet so the map stays visible
+  const handleMapPanDrag = () => {
+    handleUserInteractionStart();
+    if (selectedLotId && sheetSnap !== 'collapsed') {
+      setSheetSnap('collapsed');
+    }
+  };
+
   // Handle map region changes (when user manually moves the map)
   const handleRegionChange = (region: Region) => {
     if (isAnimatingToUser.current) return;
@@ -200,8 +540,8 @@ export default function MapScreen() {
           },
           pitch: 0, // NO 3D - Keep it completely flat
           heading: heading, // SAME heading as arrow - SYNCHRONIZED
-          altitude: 200, // Close to ground but no 3D tilt
-          zoom: 19, // Very close for navigation
+          altitude: cameraZoom.tracking.altitude, // Close to ground but no 3D tilt
+          zoom: cameraZoom.tracking.zoom, // Close for navigation
         };
         
         setCurrentCamera(camera);
@@ -227,8 +567,8 @@ export default function MapScreen() {
           },
           pitch: 0, // Top-down view
           heading: 0, // North up
-          altitude: 500,
-          zoom: 17,
+          altitude: cameraZoom.overview.altitude,
+          zoom: cameraZoom.overview.zoom,
         };
         
         setCurrentRegion(region);
@@ -240,7 +580,7 @@ export default function MapScreen() {
 
   // Cycle through map types
   const cycleMapType = () => {
-    const types: Array<'standard' | 'satellite' | 'hybrid'> = ['standard', 'satellite', 'hybrid'];
+    const types: MapType[] = ['standard', 'satellite', 'hybrid'];
     const currentIndex = types.indexOf(mapType);
     const nextIndex = (currentIndex + 1) % types.length;
     setMapType(types[nextIndex]);
@@ -262,8 +602,8 @@ export default function MapScreen() {
           },
           pitch: 0, // NO 3D
           heading: heading, // SAME heading as arrow - SYNCHRONIZED
-          altitude: 200,
-          zoom: 19,
+          altitude: cameraZoom.tracking.altitude,
+          zoom: cameraZoom.tracking.zoom,
         };
         
         setCurrentCamera(newCamera);
@@ -291,6 +631,520 @@ export default function MapScreen() {
     }
   };
 
+  // Zoom into a cluster so its lots split into individual markers
+  const handleClusterPress = (cluster: ParkingCluster) => {
+    setIsFollowingUser(false);
+    setUserHasInteracted(true);
+    setCurrentRegion(cluster.region);
+    mapRef.current?.animateToRegion(cluster.region, 600);
+  };
+
+  // Fly to a lot from its off-screen pointer and show its details
+  const handlePointerPress = (lot: ParkingLot) => {
+    const region: Region = {
+      latitude: lot.location.latitude,
+      longitude: lot.location.longitude,
+      latitudeDelta: currentRegion?.latitudeDelta || 0.008,
+      longitudeDelta: currentRegion?.longitudeDelta || 0.008,
+    };
+
+    setIsFollowingUser(false);
+    setUserHasInteracted(true);
+    setCurrentRegion(region);
+    mapRef.current?.animateToRegion(region, 800);
+    handleLotPress(lot);
+  };
+
+  // Fly to a search result; parking results open their sheet, places list the lots around them
+  const handleSelectSearchResult = async (result: PlaceResult) => {
+    Keyboard.dismiss();
+    setIsSearchFocused(false);
+    setIsVoiceResultsOpen(false);
+    setSearchQuery(result.name);
+
+    const region: Region = {
+      latitude: result.coordinate.latitude,
+      longitude: result.coordinate.longitude,
+      latitudeDelta: 0.008,
+      longitudeDelta: 0.008,
+    };
+    setIsFollowingUser(false);
+    setUserHasInteracted(true);
+    setCurrentRegion(region);
+    mapRef.current?.animateToRegion(region, 800);
+
+    if (result.kind === 'parking' && result.lotId) {
+      setSearchDestination(null);
+      const lot = await parkingRepository.getLot(result.lotId);
+      if (lot) handleLotPress(lot);
+    } else {
+      handleCloseLotSheet();
+      setSearchDestination(result);
+    }
+  };
+
+  // Effects call the handler of the latest render without re-running for every new one
+  const handleSelectSearchResultRef = useRef(handleSelectSearchResult);
+  handleSelectSearchResultRef.current = handleSelectSearchResult;
+
+  // "Take me to X": jump straight to the first result once the search for X completes
+  useEffect(() => {
+    if (!voiceAutoSelectQuery || placeSearch.isSearching) return;
+    if (placeSearch.resultsQuery !== voiceAutoSelectQuery) return;
+
+    setVoiceAutoSelectQuery(null);
+    if (placeSearch.results.length > 0) {
+      handleSelectSearchResultRef.current(placeSearch.results[0]);
+    }
+  }, [voiceAutoSelectQuery, placeSearch.results, placeSearch.resultsQuery, placeSearch.isSearching]);
+
+  const handleVoiceCommand = (command: VoiceCommand) => {
+    if (command.type === 'nearestFreeLot') {
+      const origin = location && location.isValid ? location : null;
+      const nearest = origin && nearbyLots
+        .filter(lot => lot.availability.freeSpaces > 0)
+        .map(lot => ({
+          lot,
+          distance: calculateDistance(origin.latitude, origin.longitude, lot.location.latitude, lot.location.longitude),
+        }))
+        .sort((a, b) => a.distance - b.distance)[0];
+
+      if (!nearest) {
+        voiceSearch.reportError('noFreeLotsNearby');
+        return;
+      }
+      setIsVoiceOverlayOpen(false);
+      navigateToLot(nearest.lot);
+      return;
+    }
+
+    setIsVoiceOverlayOpen(false);
+    setSearchDestination(null);
+    setSearchQuery(command.query);
+    setIsVoiceResultsOpen(true);
+    setVoiceAutoSelectQuery(command.navigate ? command.query : null);
+  };
+
+  const handleMicPressIn = () => {
+    setIsVoiceOverlayOpen(true);
+    voiceSearch.startListening();
+  };
+
+  const handleSubmitSearch = () => {
+    if (placeSearch.results.length > 0) {
+      handleSelectSearchResult(placeSearch.results[0]);
+    }
+  };
+
+  const handleClearSearch = () => {
+    setSearchQuery('');
+    setSearchDestination(null);
+    setIsVoiceResultsOpen(false);
+  };
+
+  const handleSaveParkedCar = (details: { note?: string; photoUri?: string }) => {
+    if (!location || !location.isValid) return;
+    setIsSaveCarOpen(false);
+    parkHere(location, { ...details, lotId: currentLot?.id }).catch(err => {
+      console.warn('🚫 Could not save parked car:', err);
+    });
+    // Parked in a paid lot: offer to start the meter
+    if (currentLot && !parkingSession.session) {
+      handleOpenStartSession(currentLot);
+    }
+  };
+
+  const handleEditProfile = () => {
+    setIsMenuOpen(false);
+    router.push('/profile');
+  };
+
+  const handleSignIn = () => {
+    setIsMenuOpen(false);
+    router.push('/sign-in');
+  };
+
+  // Paying and reserving need an account: send guests to sign in first
+  const requireSignIn = () => {
+    if (auth.isSignedIn) return true;
+    handleSignIn();
+    return false;
+  };
+
+  const handleOpenStartSession = (lot?: ParkingLot) => {
+    setSessionFormLot(lot);
+    setIsStartSessionOpen(true);
+  };
+
+  // Not enough balance for a prepaid session: offer a top-up
+  const handlePaymentError = (err: unknown) => {
+    if (!isInsufficientBalanceError(err)) {
+      Alert.alert(t('common.error'), t('wallet.paymentFailed'));
+      return;
+    }
+    Alert.alert(t('map.payment.insufficientTitle'), t('map.payment.insufficientMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('wallet.addFunds'), onPress: handleAddFunds },
+    ]);
+  };
+
+  const handleStartSession = async (durationMinutes: number | null) => {
+    const lot = sessionFormLot;
+    const rate = lot ? getSessionRate(lot.pricing) : undefined;
+    setIsStartSessionOpen(false);
+    const input = {
+      lotId: lot?.id,
+      lotName: lot?.name,
+      paidUntil: durationMinutes === null ? null : Date.now() + durationMinutes * 60 * 1000,
+      rate,
+      currency: rate ? lot?.pricing.currency : undefined,
+      dailyMax: lot?.pricing.dailyMax,
+    };
+    if (durationMinutes !== null && parkingBilling.isBillable(input) && !requireSignIn()) return;
+
+    let prepaid = 0;
+    try {
+      // Timed sessions are paid up front; open-ended ones when they end
+      prepaid = durationMinutes === null ? 0 : await parkingBilling.prepay(input, durationMinutes);
+      await parkingSession.startSession({ ...input, prepaid });
+    } catch (err) {
+      console.warn('🚫 Could not start parking session:', err);
+      handlePaymentError(err);
+      await parkingBilling.returnPrepayment(input, prepaid).catch(refundErr => {
+        console.warn('🚫 Could not return session payment:', refundErr);
+      });
+    }
+  };
+
+  const handleExtendSession = async () => {
+    const session = parkingSession.session;
+    if (!session || session.paidUntil === null) return;
+    const paidUntil = Math.max(session.paidUntil, Date.now()) + SESSION_EXTEND_MINUTES * 60 * 1000;
+
+    let prepaid = session.prepaid ?? 0;
+    try {
+      prepaid = await parkingBilling.prepay(session, (paidUntil - session.startedAt) / 60000);
+      await parkingSession.extendSession(SESSION_EXTEND_MINUTES, { prepaid });
+    } catch (err) {
+      console.warn('🚫 Could not extend parking session:', err);
+      handlePaymentError(err);
+      await parkingBilling.returnPrepayment(session, prepaid - (session.prepaid ?? 0)).catch(refundErr => {
+        console.warn('🚫 Could not return extension payment:', refundErr);
+      });
+    }
+  };
+
+  // Charge overstay or refund unused prepaid time, then report the total. The session
+  // only ends once it is settled, so a failed payment leaves it running to try again
+  const finishSession = async () => {
+    const running = parkingSession.session;
+    if (!running || isFinishingSession.current) return;
+    isFinishingSession.current = true;
+    let settlement: SessionSettlement;
+    let session: ParkingSession | null;
+    try {
+      settlement = await parkingBilling.settle(running, (Date.now() - running.startedAt) / 60000);
+      session = await parkingSession.endSession();
+    } finally {
+      isFinishingSession.current = false;
+    }
+    if (!session) return;
+    const isBillable = parkingBilling.isBillable(session);
+    const lot = session.lotId ? parkingRepository.getCachedLot(session.lotId) : undefined;
+    parkingHistoryStore.record({
+      source: 'session',
+      referenceId: session.id,
+      lotId: session.lotId,
+      lotName: session.lotName,
+      location: lot?.location ?? (parkedCar ? { latitude: parkedCar.latitude, longitude: parkedCar.longitude } : undefined),
+      arrivedAt: session.startedAt,
+      departedAt: Date.now(),
+      cost: isBillable ? settlement.total : 0,
+      currency: isBillable ? session.currency : undefined,
+    }).catch(err => console.warn('Could not log parking stay:', err));
+    if (isBillable && session.currency) {
+      const details = [
+        t('map.session.total', { amount: formatAmount(settlement.total, session.currency) }),
+        settlement.refunded > 0 ? t('map.session.refunded', { amount: formatAmount(settlement.refunded, session.currency) }) : null,
+        settlement.charged > 0 ? t('map.session.charged', { amount: formatAmount(settlement.charged, session.currency) }) : null,
+      ].filter(Boolean).join('\n');
+      Alert.alert(t('map.session.endedTitle'), details);
+    }
+  };
+
+  const handleEndSession = () => {
+    Alert.alert(t('map.session.endTitle'), t('map.session.endMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('map.session.end'),
+        style: 'destructive',
+        onPress: () => {
+          finishSession().catch(err => {
+            console.warn('🚫 Could not end parking session:', err);
+            handlePaymentError(err);
+          });
+        },
+      },
+    ]);
+  };
+
+  // Clock stat in the menu: start a session where the car is, or show the running one
+  const handleSessionStatPress = () => {
+    setIsMenuOpen(false);
+    if (parkingSession.session) return;
+    const carLot = parkedCar?.lotId ? parkingRepository.getCachedLot(parkedCar.lotId) : undefined;
+    handleOpenStartSession(carLot ?? currentLot);
+  };
+
+  const handleOpenWallet = () => {
+    if (!requireSignIn()) return;
+    setIsMenuOpen(false);
+    router.push('/wallet');
+  };
+
+  // Menu entries that open another screen; the map stays mounted below it
+  const handleNavigate = (href: Href) => {
+    setIsMenuOpen(false);
+    router.push(href);
+  };
+
+  const handleAddFunds = () => {
+    if (!requireSignIn()) return;
+    setIsMenuOpen(false);
+    router.push({ pathname: '/wallet', params: { topUp: '1' } });
+  };
+
+  // Notificaciones entry: cycle the expiry reminder lead time
+  const handleReminderPress = () => {
+    const index = REMINDER_OPTIONS.indexOf(parkingSession.reminderMinutes);
+    parkingSession.setReminderMinutes(REMINDER_OPTIONS[(index + 1) % REMINDER_OPTIONS.length]).catch(err => {
+      console.warn('🚫 Could not update reminders:', err);
+    });
+  };
+
+  const handleAcceptParkingProposal = () => {
+    const proposal = parkingDetection.proposal;
+    if (!proposal) return;
+    parkingDetection.dismissProposal();
+    parkHere(proposal, { lotId: proposalLot?.id }).catch(err => {
+      console.warn('🚫 Could not save detected parking spot:', err);
+    });
+    if (proposalLot && !parkingSession.session) {
+      handleOpenStartSession(proposalLot);
+    }
+  };
+
+  // Car button: save the spot, or walk back to an already saved one
+  const handleCarButtonPress = () => {
+    if (!parkedCar) {
+      setIsSaveCarOpen(true);
+      return;
+    }
+    if (isWalkingBack) {
+      setIsWalkingBack(false);
+      return;
+    }
+
+    guidance.stopGuidance();
+    handleCloseLotSheet();
+    setIsWalkingBack(true);
+    handleRecenter();
+  };
+
+  const handleClearParkedCar = () => {
+    setIsWalkingBack(false);
+    clearParkedCar();
+  };
+
+  // Open the lot sheet in its collapsed state
+  const handleLotPress = (lot: ParkingLot) => {
+    setSelectedLotId(lot.id);
+    setSheetSnap('collapsed');
+  };
+
+  const handleCloseLotSheet = () => {
+    setSelectedLotId(null);
+    setSheetSnap('collapsed');
+  };
+
+  const toggleFavoriteLot = (lot: ParkingLot) => {
+    favorites.toggleFavorite(lot).catch(err => {
+      console.warn('🚫 Could not update favorite:', err);
+    });
+  };
+
+  // Stop following the user and center the map on a point (also before the map is shown)
+  const focusMapOn = (target: LatLng) => {
+    const region: Region = {
+      latitude: target.latitude,
+      longitude: target.longitude,
+      latitudeDelta: 0.008,
+      longitudeDelta: 0.008,
+    };
+    setIsFollowingUser(false);
+    setUserHasInteracted(true);
+    setCurrentRegion(region);
+    mapRef.current?.animateToRegion(region, 800);
+  };
+
+  // Center the map on a lot and open its sheet; `location` moves the map before the lot loads
+  const showLotOnMap = async (lotId: string, location?: LatLng) => {
+    if (location) focusMapOn(location);
+    const lot = await parkingRepository.getLot(lotId);
+    if (!lot) return null;
+    if (!location) focusMapOn(lot.location);
+    handleLotPress(lot);
+    return lot;
+  };
+
+  // Favourites list in the menu
+  const handleOpenFavorite = (favorite: FavoriteLot) => {
+    setIsMenuOpen(false);
+    showLotOnMap(favorite.lotId, favorite.location).catch(err => {
+      console.warn('🚫 Could not open favorite:', err);
+    });
+  };
+
+  // Start turn-by-turn guidance to the lot in tracking mode
+  const navigateToLot = (lot: ParkingLot) => {
+    handleCloseLotSheet();
+    setIsWalkingBack(false);
+    guidance.startGuidance(lot);
+
+    if (!isTrackingMode) {
+      toggleTrackingMode();
+    } else {
+      setIsFollowingUser(true);
+      setUserHasInteracted(false);
+    }
+  };
+
+  const navigateToLotRef = useRef(navigateToLot);
+  navigateToLotRef.current = navigateToLot;
+  const showLotOnMapRef = useRef(showLotOnMap);
+  showLotOnMapRef.current = showLotOnMap;
+
+  // Requests from other screens (lot details, search, reservations) and deep links arrive as params
+  const { lotId, navigate, placeName, latitude, longitude, focus } = params;
+  useEffect(() => {
+    if (lotId && navigate === '1') {
+      parkingRepository
+        .getLot(lotId)
+        .then(lot => {
+          if (lot) navigateToLotRef.current(lot);
+        })
+        .catch(err => console.warn('🚫 Could not open parking lot:', err));
+    } else if (lotId) {
+      showLotOnMapRef.current(lotId).catch(err => console.warn('🚫 Could not open parking lot:', err));
+    } else if (placeName && latitude && longitude) {
+      handleSelectSearchResultRef.current({
+        id: `place-${latitude},${longitude}`,
+        kind: 'address',
+        name: placeName,
+        coordinate: { latitude: Number(latitude), longitude: Number(longitude) },
+      });
+    } else if (focus === 'car') {
+      setIsCarFocusPending(true);
+    } else {
+      return;
+    }
+    // Handled: clear them so the same request can be made again
+    router.setParams({
+      lotId: undefined,
+      navigate: undefined,
+      placeName: undefined,
+      latitude: undefined,
+      longitude: undefined,
+      focus: undefined,
+    });
+  }, [lotId, navigate, placeName, latitude, longitude, focus]);
+
+  // A car link can arrive (cold start) before the saved car is read from disk
+  useEffect(() => {
+    if (!isCarFocusPending || !isParkedCarLoaded) return;
+    setIsCarFocusPending(false);
+    if (!parkedCar) {
+      Alert.alert(t('map.parkedCar.title'), t('map.parkedCar.notSaved'));
+      return;
+    }
+    focusMapOn(parkedCar);
+    setIsWalkingBack(true);
+  }, [isCarFocusPending, isParkedCarLoaded, parkedCar, t]);
+
+  const handleOpenReservation = (lot: ParkingLot) => {
+    if (!requireSignIn()) return;
+    handleCloseLotSheet();
+    setReservationLot(lot);
+  };
+
+  const handleConfirmReservation = async (arrivalAt: number, durationMinutes: number) => {
+    if (!reservationLot) return;
+    const reservation = await reservations.reserve(reservationLot, arrivalAt, durationMinutes);
+    setReservationLot(null);
+    setSelectedReservationId(reservation.id);
+  };
+
+  const handleReservationAddFunds = () => {
+    setReservationLot(null);
+    handleAddFunds();
+  };
+
+  const handleCancelReservation = (reservationId: string) => {
+    Alert.alert(t('reservations.cancel.title'), t('reservations.cancel.message'), [
+      { text: t('common.no'), style: 'cancel' },
+      {
+        text: t('reservations.cancel.title'),
+        style: 'destructive',
+        onPress: () => {
+          reservations.cancel(reservationId).catch(err => {
+            console.warn('🚫 Could not cancel reservation:', err);
+            Alert.alert(t('common.error'), t('reservations.cancel.failed'));
+          });
+        },
+      },
+    ]);
+  };
+
+  const handleCheckInReservation = (reservationId: string) => {
+    reservations.checkIn(reservationId).catch(err => {
+      console.warn('🚫 Could not check in:', err);
+    });
+  };
+
+  const navigateToReservation = (lotId: string) => {
+    const lot = parkingRepository.getCachedLot(lotId);
+    if (!lot) return;
+    setSelectedReservationId(null);
+    navigateToLot(lot);
+  };
+
+  // Shared links open the lot in the app; the maps link is for people without it
+  const shareLot = (lot: ParkingLot) => {
+    Share.share({
+      message: [
+        t('map.share.lot', { name: lot.name, city: lot.city, count: lot.availability.freeSpaces }),
+        buildDeepLink({ type: 'lot', lotId: lot.id }),
+        buildMapsUrl(lot.location),
+      ].join('\n'),
+    }).catch(err => {
+      console.warn('🚫 Could not share parking lot:', err);
+    });
+  };
+
+  const shareParkedCar = () => {
+    if (!parkedCar) return;
+    const coordinate = { latitude: parkedCar.latitude, longitude: parkedCar.longitude };
+    Share.share({
+      message: [
+        parkedCar.note ? t('map.share.parkedCarWithNote', { note: parkedCar.note }) : t('map.share.parkedCar'),
+        buildDeepLink({ type: 'car', coordinate, note: parkedCar.note }),
+        buildMapsUrl(coordinate),
+      ].join('\n'),
+    }).catch(err => {
+      console.warn('🚫 Could not share parked car:', err);
+    });
+  };
+
   // Get map type icon
   const getMapTypeIcon = () => {
     switch (mapType) {
@@ -310,7 +1164,7 @@ export default function MapScreen() {
     return (
       <View style={styles.loadingContainer}>
         <Navigation size={48} color="#3B82F6" />
-        <Text style={styles.loadingText}>Verificando permisos...</Text>
+        <Text style={styles.loadingText}>{t('map.location.checkingPermissions')}</Text>
       </View>
     );
   }
@@ -324,10 +1178,10 @@ export default function MapScreen() {
     return (
       <View style={styles.loadingContainer}>
         <MapPin size={48} color="#EF4444" />
-        <Text style={styles.loadingText}>Error de ubicación</Text>
-        <Text style={styles.loadingSubtext}>{error}</Text>
+        <Text style={styles.loadingText}>{t('map.location.errorTitle')}</Text>
+        <Text style={styles.loadingSubtext}>{t(`errors.location.${error}`)}</Text>
         <TouchableOpacity style={styles.retryButton} onPress={startTracking}>
-          <Text style={styles.retryButtonText}>Reintentar</Text>
+          <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -339,17 +1193,17 @@ export default function MapScreen() {
       <View style={styles.loadingContainer}>
         <MapPin size={48} color="#3B82F6" />
         <Text style={styles.loadingText}>
-          {error || 'Obteniendo ubicación GPS...'}
+          {error ? t(`errors.location.${error}`) : t('map.location.locating')}
         </Text>
         <Text style={styles.loadingSubtext}>
           {Platform.OS === 'web' 
-            ? 'Esta app está diseñada para dispositivos móviles con GPS'
-            : 'Asegúrate de que el GPS esté activado'
+            ? t('map.location.mobileOnly')
+            : t('map.location.enableGps')
           }
         </Text>
         {!isTracking && (
           <TouchableOpacity style={styles.retryButton} onPress={startTracking}>
-            <Text style={styles.retryButtonText}>Iniciar seguimiento</Text>
+            <Text style={styles.retryButtonText}>{t('map.location.startTracking')}</Text>
           </TouchableOpacity>
         )}
       </View>
@@ -370,8 +1224,8 @@ export default function MapScreen() {
     },
     pitch: 0, // NO 3D by default
     heading: isTrackingMode ? location.smoothedHeading : 0, // SYNCHRONIZED with arrow
-    altitude: isTrackingMode ? 200 : 500,
-    zoom: isTrackingMode ? 19 : 17,
+    altitude: isTrackingMode ? cameraZoom.tracking.altitude : cameraZoom.overview.altitude,
+    zoom: isTrackingMode ? cameraZoom.tracking.zoom : cameraZoom.overview.zoom,
   };
 
   return (
@@ -387,6 +1241,7 @@ export default function MapScreen() {
         showsMyLocationButton={false}
         showsCompass={true} // Native compass enabled
         mapType={mapType}
+        userInterfaceStyle={settings.theme === 'system' ? undefined : settings.theme}
         
         // ENABLE ALL MAP NAVIGATION
         pitchEnabled={true}        // Allow 3D tilt (user can manually enable if wanted)
@@ -404,7 +1259,7 @@ export default function MapScreen() {
         
         // Handle user interactions
         onTouchStart={handleUserInteractionStart}
-        onPanDrag={handleUserInteractionStart}
+        onPanDrag={handleMapPanDrag}
         onRegionChange={handleRegionChange}
         onRegionChangeComplete={handleRegionChangeComplete}
         onCameraChange={handleCameraChange}
@@ -418,22 +1273,95 @@ export default function MapScreen() {
         loadingIndicatorColor="#3B82F6"
       >
         {/* Parking markers at their actual locations */}
-        {chinaParkingData.map((parking) => (
+        {parkingMarkers.map((item) => item.type === 'cluster' ? (
           <Marker
-            key={parking.id}
-            coordinate={{
-              latitude: parking.latitude,
-              longitude: parking.longitude,
-            }}
+            key={item.cluster.id}
+            coordinate={item.cluster.coordinate}
+            anchor={{ x: 0.5, y: 0.5 }}
+            zIndex={1400}
+            onPress={() => handleClusterPress(item.cluster)}
+          >
+            <ParkingClusterMarker
+              lotCount={item.cluster.lots.length}
+              totalFreeSpaces={item.cluster.totalFreeSpaces}
+            />
+          </Marker>
+        ) : (
+          <Marker
+            key={item.lot.id}
+            coordinate={item.lot.location}
             anchor={{ x: 0.5, y: 0.5 }}
             zIndex={1500}
+            onPress={() => handleLotPress(item.lot)}
+          >
+            <ParkingLotMarker
+              freeSpaces={item.lot.availability.freeSpaces}
+              isStale={availabilityFeed.isStale}
+              isFavorite={favorites.favoriteIds.has(item.lot.id)}
+            />
+          </Marker>
+        ))}
+        
+        {/* Search destination */}
+        {searchDestination && (
+          <Marker
+            coordinate={searchDestination.coordinate}
+            title={searchDestination.name}
+            pinColor="#7C3AED"
+            zIndex={1600}
+          />
+        )}
+
+        {/* Upcoming reservations */}
+        {reservations.upcoming.map(reservation => (
+          <Marker
+            key={reservation.id}
+            coordinate={reservation.lotLocation}
+            anchor={{ x: 0.5, y: 1 }}
+            zIndex={1650}
+            onPress={() => setSelectedReservationId(reservation.id)}
           >
-            <View style={styles.parkingMarker}>
-              <Text style={styles.parkingText}>P</Text>
-              <Text style={styles.parkingSpaces}>{parking.spaces}</Text>
-            </View>
+            <ReservationMarker status={reservation.status} arrivalAt={reservation.arrivalAt} />
           </Marker>
         ))}
+
+        {/* Saved car */}
+        {parkedCar && (
+          <Marker
+            coordinate={{ latitude: parkedCar.latitude, longitude: parkedCar.longitude }}
+            anchor={{ x: 0.5, y: 1 }}
+            zIndex={1700}
+            onPress={handleCarButtonPress}
+          >
+            <ParkedCarMarker />
+          </Marker>
+        )}
+
+        {/* Straight walking line back to the car */}
+        {isWalkingBack && parkedCar && !hasReachedCar && (
+          <Polyline
+            coordinates={[
+              { latitude: location.latitude, longitude: location.longitude },
+              { latitude: parkedCar.latitude, longitude: parkedCar.longitude },
+            ]}
+            strokeColor="#7C3AED"
+            strokeWidth={4}
+            lineDashPattern={[8, 8]}
+            zIndex={1000}
+          />
+        )}
+
+        {/* Active route */}
+        {guidance.route && guidance.status !== 'arrived' && (
+          <Polyline
+            coordinates={guidance.route.coordinates}
+            strokeColor="#3B82F6"
+            strokeWidth={6}
+            lineCap="round"
+            lineJoin="round"
+            zIndex={1000}
+          />
+        )}
         
         {/* Custom user location marker */}
         <Marker
@@ -445,10 +1373,18 @@ export default function MapScreen() {
           flat={true}
           zIndex={2000}
         >
-          <NativeUserLocationMarker location={location} />
+          <NativeUserLocationMarker
+            location={location}
+            targetBearing={isWalkingBack && carBearing !== null ? carBearing : undefined}
+          />
         </Marker>
       </MapView>
 
+      {/* Pointers to nearby lots outside the visible map */}
+      {!isNavigating && (
+        <OffscreenLotPointers pointers={offscreenPointers} onPress={handlePointerPress} units={settings.units} />
+      )}
+
       {/* Menu Button - Top Left */}
       <TouchableOpacity 
         style={styles.menuButton}
@@ -457,6 +1393,43 @@ export default function MapScreen() {
         <Menu size={24} color="#374151" />
       </TouchableOpacity>
 
+      {/* Next maneuver while guiding */}
+      {(guidance.status === 'guiding' || guidance.status === 'rerouting') && (
+        <View style={styles.navigationBanner}>
+          <NavigationBanner
+            step={guidance.progress?.nextStep ?? null}
+            distanceToStep={guidance.progress?.distanceToNextStep ?? 0}
+            isRerouting={guidance.status === 'rerouting'}
+            units={settings.units}
+          />
+        </View>
+      )}
+
+      {/* Parking session countdown */}
+      {parkingSession.session && parkingSession.elapsed !== null && guidance.status !== 'guiding' && guidance.status !== 'rerouting' && (
+        <View style={styles.sessionTimer}>
+          <ParkingSessionTimer
+            session={parkingSession.session}
+            remaining={parkingSession.remaining}
+            elapsed={parkingSession.elapsed}
+            extendMinutes={SESSION_EXTEND_MINUTES}
+            onExtend={handleExtendSession}
+            onEnd={handleEndSession}
+          />
+        </View>
+      )}
+
+      {/* Live availability status - only when a feed is configured */}
+      {availabilityFeed.isEnabled && !isNavigating && (
+        <View style={styles.availabilityBadge}>
+          <AvailabilityStatusBadge
+            status={availabilityFeed.status}
+            age={availabilityFeed.age}
+            isStale={availabilityFeed.isStale}
+          />
+        </View>
+      )}
+
       {/* Top Right Controls - POSITIONED BELOW NATIVE COMPASS */}
       <View style={styles.topRightControls}>
         {/* Map type toggle */}
@@ -481,6 +1454,20 @@ export default function MapScreen() {
           />
         </TouchableOpacity>
 
+        {/* Parked car: save the spot / walk back to it */}
+        <TouchableOpacity 
+          style={[
+            styles.controlButton,
+            { backgroundColor: isWalkingBack ? '#7C3AED' : '#FFFFFF' }
+          ]}
+          onPress={handleCarButtonPress}
+        >
+          <Car 
+            size={18} 
+            color={isWalkingBack ? "#FFFFFF" : parkedCar ? "#7C3AED" : "#374151"} 
+          />
+        </TouchableOpacity>
+
         {/* Recenter button - with visual indicator */}
         <TouchableOpacity 
           style={[
@@ -496,22 +1483,210 @@ export default function MapScreen() {
         </TouchableOpacity>
       </View>
 
+      {/* Distance back to the car replaces the search bar while walking back */}
+      {isWalkingBack && parkedCar && carDistance !== null && carBearing !== null && (
+        <View style={styles.searchContainer}>
+          <WalkBackPanel
+            parkedCar={parkedCar}
+            distance={carDistance}
+            relativeBearing={relativeBearing(carBearing, location.smoothedHeading)}
+            hasArrived={hasReachedCar}
+            onStop={() => setIsWalkingBack(false)}
+            onClearCar={handleClearParkedCar}
+            onShare={shareParkedCar}
+            units={settings.units}
+          />
+        </View>
+      )}
+
+      {/* Remaining distance/ETA replaces the search bar while guiding */}
+      {guidance.isActive && guidance.destination && (
+        <View style={styles.searchContainer}>
+          <NavigationSummary
+            destinationName={guidance.destination.lot.name}
+            distanceRemaining={guidance.progress?.distanceRemaining ?? null}
+            durationRemaining={guidance.progress?.durationRemaining ?? null}
+            hasArrived={guidance.status === 'arrived'}
+            error={guidance.error}
+            onStop={guidance.stopGuidance}
+            units={settings.units}
+          />
+        </View>
+      )}
+
       {/* Search Bar - Bottom */}
-      <View style={styles.searchContainer}>
-        <View style={styles.searchBar}>
-          <Search size={20} color="#9CA3AF" style={styles.searchIcon} />
-          <TextInput
-            style={styles.searchInput}
-            placeholder="Buscar lugar o dirección"
-            placeholderTextColor="#9CA3AF"
-            value={searchQuery}
-            onChangeText={setSearchQuery}
+      {!isNavigating && (
+        <View style={styles.searchContainer}>
+          <View style={styles.searchBar}>
+            <Search size={20} color="#9CA3AF" style={styles.searchIcon} />
+            <TextInput
+              style={styles.searchInput}
+              placeholder={t('map.searchPlaceholder')}
+              placeholderTextColor="#9CA3AF"
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              onFocus={() => setIsSearchFocused(true)}
+              onBlur={() => setIsSearchFocused(false)}
+              onSubmitEditing={handleSubmitSearch}
+              returnKeyType="search"
+            />
+            {searchQuery.length > 0 && (
+              <TouchableOpacity style={styles.micButton} onPress={handleClearSearch}>
+                <X size={18} color="#9CA3AF" />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.micButton}
+              onPressIn={handleMicPressIn}
+              onPressOut={voiceSearch.stopListening}
+            >
+              <Mic size={20} color={voiceSearch.isListening ? '#3B82F6' : '#9CA3AF'} />
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {/* Autocomplete results above the search bar */}
+      {(isSearchFocused || isVoiceResultsOpen) && !isVoiceOverlayOpen && !isNavigating && searchQuery.trim().length >= 2 && (
+        <View style={styles.searchPanel}>
+          <SearchResultsList
+            results={placeSearch.results}
+            isSearching={placeSearch.isSearching}
+            error={placeSearch.error}
+            onSelect={handleSelectSearchResult}
+            units={settings.units}
           />
-          <TouchableOpacity style={styles.micButton}>
-            <Mic size={20} color="#9CA3AF" />
-          </TouchableOpacity>
         </View>
-      </View>
+      )}
+
+      {/* Lots around the search destination */}
+      {searchDestination && !selectedLot && !isSearchFocused && !isVoiceOverlayOpen && !isNavigating && (
+        <View style={styles.searchPanel}>
+          <DestinationLotsPanel
+            destinationName={searchDestination.name}
+            lots={destinationLots}
+            isLoading={isLoadingDestinationLots}
+            onSelectLot={handleLotPress}
+            onClose={handleClearSearch}
+            units={settings.units}
+          />
+        </View>
+      )}
+
+      {/* Voice input: listening state, transcript and language */}
+      {isVoiceOverlayOpen && !isNavigating && (
+        <View style={styles.searchPanel}>
+          <VoiceListeningOverlay
+            isListening={voiceSearch.isListening}
+            transcript={voiceSearch.transcript}
+            error={voiceSearch.error}
+            language={voiceSearch.language}
+            onToggleLanguage={voiceSearch.toggleLanguage}
+            onClose={() => {
+              voiceSearch.cancelListening();
+              setIsVoiceOverlayOpen(false);
+            }}
+          />
+        </View>
+      )}
+
+      {/* Detected parking: offer to save the spot */}
+      {parkingDetection.proposal && !selectedLot && !isSearchFocused && !searchDestination && !isVoiceOverlayOpen && !isNavigating && (
+        <View style={styles.searchPanel}>
+          <ParkingProposalBanner
+            parkedAt={parkingDetection.proposal.parkedAt}
+            lotName={proposalLot?.name}
+            onSave={handleAcceptParkingProposal}
+            onDismiss={parkingDetection.dismissProposal}
+          />
+        </View>
+      )}
+
+      {/* Parking lot details - sits above the search bar */}
+      {selectedLot && (
+        <ParkingLotSheet
+          key={selectedLot.id}
+          lot={selectedLot}
+          userLocation={location}
+          snap={sheetSnap}
+          onSnapChange={setSheetSnap}
+          onClose={handleCloseLotSheet}
+          bottomOffset={SEARCH_BAR_SPACE}
+          isStale={availabilityFeed.isStale}
+          isFavorite={favorites.favoriteIds.has(selectedLot.id)}
+          onNavigate={() => navigateToLot(selectedLot)}
+          onToggleFavorite={() => toggleFavoriteLot(selectedLot)}
+          onReserve={() => handleOpenReservation(selectedLot)}
+          onShare={() => shareLot(selectedLot)}
+          units={settings.units}
+        />
+      )}
+
+      {/* Save parked car, then optionally start a parking session (one modal, so they can follow each other) */}
+      <Modal
+        visible={isSaveCarOpen || isStartSessionOpen}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => {
+          setIsSaveCarOpen(false);
+          setIsStartSessionOpen(false);
+        }}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            {isSaveCarOpen ? (
+              <SaveParkedCarForm
+                lotName={currentLot?.name}
+                accuracy={accuracy}
+                onSave={handleSaveParkedCar}
+                onCancel={() => setIsSaveCarOpen(false)}
+              />
+            ) : (
+              <StartParkingSessionForm
+                lot={sessionFormLot}
+                walletBalance={wallet.balance}
+                walletCurrency={wallet.currency}
+                onStart={handleStartSession}
+                onCancel={() => setIsStartSessionOpen(false)}
+              />
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Reserve a space, then the reservation's gate pass */}
+      <Modal
+        visible={!!reservationLot || !!selectedReservation}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => {
+          setReservationLot(null);
+          setSelectedReservationId(null);
+        }}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            {reservationLot ? (
+              <ReservationForm
+                lot={reservationLot}
+                walletBalance={wallet.balance}
+                walletCurrency={wallet.currency}
+                onConfirm={handleConfirmReservation}
+                onAddFunds={handleReservationAddFunds}
+                onCancel={() => setReservationLot(null)}
+              />
+            ) : selectedReservation ? (
+              <ReservationDetails
+                reservation={selectedReservation}
+                onCheckIn={() => handleCheckInReservation(selectedReservation.id)}
+                onCancelReservation={() => handleCancelReservation(selectedReservation.id)}
+                onNavigate={() => navigateToReservation(selectedReservation.lotId)}
+                onClose={() => setSelectedReservationId(null)}
+              />
+            ) : null}
+          </View>
+        </View>
+      </Modal>
 
       {/* Floating Menu Modal */}
       <Modal
@@ -532,6 +1707,24 @@ export default function MapScreen() {
                 location={location}
                 isTracking={isTracking}
                 accuracy={accuracy}
+                walletBalance={wallet.balance}
+                walletCurrency={wallet.currency}
+                onOpenWallet={handleOpenWallet}
+                historyCount={parkingHistory.entries.length}
+                upcomingReservationCount={reservations.upcoming.length}
+                onNavigate={handleNavigate}
+                units={settings.units}
+                onAddFunds={handleAddFunds}
+                parkingSession={parkingSession.session}
+                sessionRemaining={parkingSession.remaining}
+                sessionElapsed={parkingSession.elapsed}
+                reminderMinutes={parkingSession.reminderMinutes}
+                onSessionPress={handleSessionStatPress}
+                onReminderPress={handleReminderPress}
+                onSignIn={handleSignIn}
+                onEditProfile={handleEditProfile}
+                favorites={rankedFavorites}
+                onFavoritePress={handleOpenFavorite}
               />
             </TouchableOpacity>
           </View>
@@ -582,32 +1775,6 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
-  parkingMarker: {
-    width: 30,
-    height: 30,
-    backgroundColor: '#10B981',
-    borderRadius: 15,
-    alignItems: 'center',
-    justifyContent: 'center',
-    borderWidth: 2,
-    borderColor: '#FFFFFF',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.25,
-    shadowRadius: 4,
-    elevation: 5,
-  },
-  parkingText: {
-    color: '#FFFFFF',
-    fontSize: 12,
-    fontWeight: 'bold',
-  },
-  parkingSpaces: {
-    color: '#FFFFFF',
-    fontSize: 8,
-    fontWeight: '600',
-    marginTop: -2,
-  },
   menuButton: {
     position: 'absolute',
     top: 60,
@@ -627,6 +1794,26 @@ const styles = StyleSheet.create({
     borderColor: '#E5E7EB',
     zIndex: 1000,
   },
+  sessionTimer: {
+    position: 'absolute',
+    top: 60,
+    left: 80,
+    right: 20,
+    zIndex: 1000,
+  },
+  navigationBanner: {
+    position: 'absolute',
+    top: 60,
+    left: 80,
+    right: 20,
+    zIndex: 1000,
+  },
+  availabilityBadge: {
+    position: 'absolute',
+    top: 120,
+    left: 20,
+    zIndex: 1000,
+  },
   topRightControls: {
     position: 'absolute',
     top: 120, // MOVED DOWN: Below the native compass (compass is usually around 60-80px from top)
@@ -656,6 +1843,13 @@ const styles = StyleSheet.create({
     right: 20,
     zIndex: 1000,
   },
+  searchPanel: {
+    position: 'absolute',
+    bottom: SEARCH_BAR_SPACE,
+    left: 20,
+    right: 20,
+    zIndex: 1000,
+  },
   searchBar: {
     flexDirection: 'row',
     alignItems: 'center',
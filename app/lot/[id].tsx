@@ -0,0 +1,315 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Image } from 'react-native';
+import { router, Stack, useLocalSearchParams } from 'expo-router';
+import { Clock, Map, MapPin, Navigation, Star } from 'lucide-react-native';
+import { useFavorites } from '@/hooks/useFavorites';
+import { useTranslation } from '@/hooks/useTranslation';
+import { parkingRepository } from '@/services/parkingRepository';
+import { ParkingLot } from '@/types/parking';
+import { getSpaceColor } from '@/utils/parkingColors';
+import { formatAge, formatAmenity, formatPricing, formatWeeklyHours, isOpenAt } from '@/utils/parkingFormat';
+
+// Full details of one lot, with shortcuts back to it on the map
+export default function LotScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const favorites = useFavorites();
+  const { t } = useTranslation();
+  const [lot, setLot] = useState<ParkingLot | null>(parkingRepository.getCachedLot(id) ?? null);
+  const [isLoading, setIsLoading] = useState(!lot);
+
+  // Load the lot, then follow live availability updates
+  useEffect(() => {
+    let isActive = true;
+    parkingRepository
+      .getLot(id)
+      .then(loadedLot => {
+        if (isActive) setLot(loadedLot);
+      })
+      .catch(err => console.warn('Could not load parking lot:', err))
+      .finally(() => {
+        if (isActive) setIsLoading(false);
+      });
+    const unsubscribe = parkingRepository.subscribe(() => {
+      const cachedLot = parkingRepository.getCachedLot(id);
+      if (isActive && cachedLot) setLot(cachedLot);
+    });
+    return () => {
+      isActive = false;
+      unsubscribe();
+    };
+  }, [id]);
+
+  if (!lot) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Text style={styles.emptyText}>{isLoading ? t('common.loading') : t('lot.notFound')}</Text>
+      </View>
+    );
+  }
+
+  const freeSpaces = lot.availability.freeSpaces;
+  const isOpen = isOpenAt(lot.openingHours);
+  const isFavorite = favorites.favoriteIds.has(lot.id);
+  const updatedAge = lot.availability.source === 'static' ? null : Date.now() - lot.availability.updatedAt;
+
+  // Back to the map screen already in the stack (keeps its camera) with the lot selected
+  const showOnMap = (navigate: boolean) => {
+    router.dismissTo({ pathname: '/', params: navigate ? { lotId: lot.id, navigate: '1' } : { lotId: lot.id } });
+  };
+
+  const toggleFavorite = () => {
+    favorites.toggleFavorite(lot).catch(err => console.warn('Could not update favorite:', err));
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Stack.Screen options={{ title: lot.name }} />
+
+      <View style={styles.summaryCard}>
+        <View style={[styles.spacesBadge, { backgroundColor: getSpaceColor(freeSpaces) }]}>
+          <Text style={styles.spacesText}>{freeSpaces}</Text>
+          <Text style={styles.spacesLabel}>{t('lot.free', { count: freeSpaces })}</Text>
+        </View>
+        <View style={styles.summaryDetails}>
+          <Text style={styles.city}>{lot.city}</Text>
+          <Text style={styles.capacityText}>{t('lot.capacity', { count: lot.capacity })}</Text>
+          <Text style={styles.updatedText}>
+            {t(lot.availability.source === 'live' ? 'lot.updated' : 'lot.estimated', { age: formatAge(updatedAge) })}
+          </Text>
+        </View>
+        <View style={[styles.openBadge, { backgroundColor: isOpen ? '#D1FAE5' : '#FEE2E2' }]}>
+          <Text style={[styles.openText, { color: isOpen ? '#047857' : '#B91C1C' }]}>
+            {isOpen ? t('lot.open') : t('lot.closed')}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={[styles.actionButton, styles.primaryAction]} onPress={() => showOnMap(true)}>
+          <Navigation size={18} color="#FFFFFF" />
+          <Text style={[styles.actionText, styles.primaryActionText]}>{t('lot.actions.navigate')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={() => showOnMap(false)}>
+          <Map size={18} color="#374151" />
+          <Text style={styles.actionText}>{t('lot.actions.showOnMap')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={toggleFavorite}>
+          <Star size={18} color={isFavorite ? '#F59E0B' : '#374151'} fill={isFavorite ? '#F59E0B' : 'none'} />
+          <Text style={styles.actionText}>{isFavorite ? t('lot.actions.saved') : t('lot.actions.save')}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {lot.photos && lot.photos.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.photos}>
+          {lot.photos.map(uri => (
+            <Image key={uri} source={{ uri }} style={styles.photo} />
+          ))}
+        </ScrollView>
+      )}
+
+      {lot.address && (
+        <View style={styles.section}>
+          <View style={styles.sectionTitleRow}>
+            <MapPin size={14} color="#6B7280" />
+            <Text style={styles.sectionTitle}>{t('lot.sections.address')}</Text>
+          </View>
+          <Text style={styles.sectionText}>{lot.address}</Text>
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('lot.sections.prices')}</Text>
+        {formatPricing(lot.pricing).map(line => (
+          <Text key={line} style={styles.sectionText}>{line}</Text>
+        ))}
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.sectionTitleRow}>
+          <Clock size={14} color="#6B7280" />
+          <Text style={styles.sectionTitle}>{t('lot.sections.hours')}</Text>
+        </View>
+        {formatWeeklyHours(lot.openingHours).map(({ day, hours }) => (
+          <View key={day} style={styles.hoursRow}>
+            <Text style={styles.sectionText}>{day}</Text>
+            <Text style={styles.sectionText}>{hours}</Text>
+          </View>
+        ))}
+      </View>
+
+      {lot.amenities.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('lot.sections.amenities')}</Text>
+          <View style={styles.amenities}>
+            {lot.amenities.map(amenity => (
+              <View key={amenity} style={styles.amenityChip}>
+                <Text style={styles.amenityText}>{formatAmenity(amenity)}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      )}
+
+      <Text style={styles.operatorText}>{t('lot.operator', { name: lot.operator.name })}</Text>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  summaryCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  spacesBadge: {
+    width: 64,
+    height: 64,
+    borderRadius: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  spacesText: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  spacesLabel: {
+    fontSize: 11,
+    color: '#FFFFFF',
+  },
+  summaryDetails: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  city: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  capacityText: {
+    fontSize: 13,
+    color: '#374151',
+    marginTop: 2,
+  },
+  updatedText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  openBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  openText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginVertical: 16,
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  primaryAction: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  actionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 4,
+  },
+  primaryActionText: {
+    color: '#FFFFFF',
+  },
+  photos: {
+    marginBottom: 16,
+  },
+  photo: {
+    width: 160,
+    height: 100,
+    borderRadius: 10,
+    marginRight: 8,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  sectionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 6,
+  },
+  sectionText: {
+    fontSize: 13,
+    color: '#374151',
+    lineHeight: 20,
+  },
+  hoursRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  amenities: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  amenityChip: {
+    backgroundColor: '#EFF6FF',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  amenityText: {
+    fontSize: 12,
+    color: '#1D4ED8',
+  },
+  operatorText: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,373 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Modal,
+  Image,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import * as ImagePicker from 'expo-image-picker';
+import { Camera, Car, ChevronRight, LogIn, Plus, Star, Zap } from 'lucide-react-native';
+import { VehicleForm } from '@/components/VehicleForm';
+import { useAuth } from '@/hooks/useAuth';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useVehicles } from '@/hooks/useVehicles';
+import { VehicleInput } from '@/services/vehicleStore';
+import { Vehicle } from '@/types/vehicle';
+import { describeVehicle, formatVehicleSize } from '@/utils/vehicleFit';
+
+function VehicleRow({ vehicle, isDefault, onPress }: { vehicle: Vehicle; isDefault: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity style={styles.vehicleRow} onPress={onPress} activeOpacity={0.7}>
+      <View style={styles.vehicleIcon}>
+        <Car size={18} color="#3B82F6" />
+      </View>
+      <View style={styles.vehicleDetails}>
+        <View style={styles.vehicleTitleRow}>
+          <Text style={styles.vehiclePlate}>{vehicle.plate}</Text>
+          {vehicle.isElectric && <Zap size={12} color="#10B981" />}
+          {isDefault && <Star size={12} color="#F59E0B" fill="#F59E0B" />}
+        </View>
+        <Text style={styles.vehicleDescription} numberOfLines={1}>
+          {describeVehicle(vehicle)} · {formatVehicleSize(vehicle.size)}
+        </Text>
+      </View>
+      <ChevronRight size={16} color="#9CA3AF" />
+    </TouchableOpacity>
+  );
+}
+
+// Profile details and the vehicles the parking search filters for
+export default function ProfileScreen() {
+  const { t } = useTranslation();
+  const auth = useAuth();
+  const garage = useVehicles();
+  const [name, setName] = useState(auth.user?.name ?? '');
+  const [email, setEmail] = useState(auth.user?.email ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingVehicle, setEditingVehicle] = useState<Vehicle | 'new' | null>(null);
+
+  useEffect(() => {
+    setName(auth.user?.name ?? '');
+    setEmail(auth.user?.email ?? '');
+  }, [auth.user?.name, auth.user?.email]);
+
+  if (auth.status === 'signedOut' || !auth.user) {
+    return (
+      <View style={[styles.container, styles.signedOut]}>
+        <Text style={styles.signedOutText}>{t('profile.signedOut')}</Text>
+        <TouchableOpacity style={styles.primaryButton} onPress={() => router.push('/sign-in')}>
+          <LogIn size={16} color="#FFFFFF" />
+          <Text style={styles.primaryButtonText}>{t('auth.signIn')}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const user = auth.user;
+  const hasProfileChanges = name.trim() !== user.name || email.trim() !== user.email;
+  const isProfileValid = name.trim().length > 0 && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+
+  const saveProfile = async () => {
+    if (!hasProfileChanges || !isProfileValid || isSaving) return;
+    setIsSaving(true);
+    try {
+      await auth.updateProfile({ name: name.trim(), email: email.trim() });
+    } catch (err) {
+      console.warn('🚫 Could not update profile:', err);
+      Alert.alert(t('common.error'), t('profile.saveFailed'));
+    }
+    setIsSaving(false);
+  };
+
+  const pickPhoto = async () => {
+    try {
+      const { granted } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!granted) {
+        Alert.alert(t('profile.photo.deniedTitle'), t('profile.photo.deniedMessage'));
+        return;
+      }
+      const result = await ImagePicker.launchImageLibraryAsync({ quality: 0.5, allowsEditing: true, aspect: [1, 1] });
+      if (!result.canceled && result.assets[0]) {
+        await auth.updateProfile({ photoUri: result.assets[0].uri });
+      }
+    } catch (err) {
+      console.warn('🚫 Could not change profile photo:', err);
+      Alert.alert(t('common.error'), t('profile.photo.failed'));
+    }
+  };
+
+  const saveVehicle = async (input: VehicleInput, makeDefault: boolean) => {
+    let vehicleId: string;
+    if (editingVehicle && editingVehicle !== 'new') {
+      await garage.editVehicle(editingVehicle.id, input);
+      vehicleId = editingVehicle.id;
+    } else {
+      vehicleId = (await garage.addVehicle(input)).id;
+    }
+    if (makeDefault) await garage.setDefaultVehicle(vehicleId);
+  };
+
+  const confirmRemoveVehicle = (vehicle: Vehicle) => {
+    Alert.alert(t('vehicles.remove.title'), t('vehicles.remove.message', { plate: vehicle.plate }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('vehicles.remove.confirm'),
+        style: 'destructive',
+        onPress: () => {
+          setEditingVehicle(null);
+          garage.removeVehicle(vehicle.id).catch(err => console.warn('🚫 Could not remove vehicle:', err));
+        },
+      },
+    ]);
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.card}>
+        <TouchableOpacity style={styles.avatarContainer} onPress={pickPhoto} activeOpacity={0.8}>
+          {user.avatarUrl ? (
+            <Image source={{ uri: user.avatarUrl }} style={styles.avatar} />
+          ) : (
+            <Text style={styles.avatarEmoji}>🏎️</Text>
+          )}
+          <View style={styles.cameraBadge}>
+            <Camera size={12} color="#FFFFFF" />
+          </View>
+        </TouchableOpacity>
+
+        <Text style={styles.label}>{t('profile.name')}</Text>
+        <TextInput style={styles.input} value={name} onChangeText={setName} autoComplete="name" />
+        <Text style={styles.label}>{t('profile.email')}</Text>
+        <TextInput
+          style={styles.input}
+          value={email}
+          onChangeText={setEmail}
+          autoCapitalize="none"
+          autoComplete="email"
+          keyboardType="email-address"
+        />
+
+        <TouchableOpacity
+          style={[styles.primaryButton, (!hasProfileChanges || !isProfileValid || isSaving) && styles.buttonDisabled]}
+          onPress={saveProfile}
+          disabled={!hasProfileChanges || !isProfileValid || isSaving}
+        >
+          {isSaving ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.primaryButtonText}>{t('profile.saveChanges')}</Text>}
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.sectionTitle}>{t('profile.vehicles')}</Text>
+      <Text style={styles.sectionHint}>
+        {t('profile.vehiclesHint')}
+      </Text>
+      {garage.vehicles.map(vehicle => (
+        <VehicleRow
+          key={vehicle.id}
+          vehicle={vehicle}
+          isDefault={vehicle.id === garage.defaultVehicle?.id}
+          onPress={() => setEditingVehicle(vehicle)}
+        />
+      ))}
+      <TouchableOpacity style={styles.addVehicleButton} onPress={() => setEditingVehicle('new')}>
+        <Plus size={16} color="#3B82F6" />
+        <Text style={styles.addVehicleText}>{t('vehicles.form.addTitle')}</Text>
+      </TouchableOpacity>
+
+      <Modal
+        visible={editingVehicle !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setEditingVehicle(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            {editingVehicle !== null && (
+              <VehicleForm
+                vehicle={editingVehicle === 'new' ? undefined : editingVehicle}
+                isDefault={editingVehicle !== 'new' && editingVehicle.id === garage.defaultVehicle?.id}
+                onSave={saveVehicle}
+                onDelete={editingVehicle === 'new' ? undefined : () => confirmRemoveVehicle(editingVehicle)}
+                onClose={() => setEditingVehicle(null)}
+              />
+            )}
+          </View>
+        </View>
+      </Modal>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  signedOut: {
+    justifyContent: 'center',
+    padding: 32,
+  },
+  signedOutText: {
+    fontSize: 15,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginBottom: 20,
+  },
+  avatarContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: '#FEF3C7',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  avatar: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+  },
+  avatarEmoji: {
+    fontSize: 40,
+  },
+  cameraBadge: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#374151',
+    marginBottom: 12,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3B82F6',
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 10,
+  },
+  vehicleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  vehicleIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#DBEAFE',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  vehicleDetails: {
+    flex: 1,
+    marginHorizontal: 10,
+  },
+  vehicleTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  vehiclePlate: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  vehicleDescription: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  addVehicleButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#93C5FD',
+  },
+  addVehicleText: {
+    color: '#3B82F6',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+  },
+});
@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, SectionList, Modal, Alert } from 'react-native';
+import { router } from 'expo-router';
+import { CalendarCheck, ChevronRight } from 'lucide-react-native';
+import { ReservationDetails, RESERVATION_STATUS_COLORS } from '@/components/ReservationDetails';
+import { useReservations } from '@/hooks/useReservations';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Reservation } from '@/types/reservation';
+import { getLocale } from '@/utils/i18n';
+import { formatAmount } from '@/utils/parkingFormat';
+import { isUpcomingReservation } from '@/utils/reservationRules';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(getLocale(), { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+function ReservationRow({ reservation, onPress }: { reservation: Reservation; onPress: () => void }) {
+  const { t } = useTranslation();
+  return (
+    <TouchableOpacity style={styles.row} onPress={onPress} activeOpacity={0.7}>
+      <View style={styles.rowIcon}>
+        <CalendarCheck size={18} color="#0D9488" />
+      </View>
+      <View style={styles.rowDetails}>
+        <Text style={styles.rowTitle} numberOfLines={1}>{reservation.lotName}</Text>
+        <Text style={styles.rowDate}>
+          {formatDate(reservation.arrivalAt)} · {formatAmount(reservation.price, reservation.currency)}
+        </Text>
+      </View>
+      <View style={[styles.statusBadge, { backgroundColor: RESERVATION_STATUS_COLORS[reservation.status] }]}>
+        <Text style={styles.statusText}>{t(`reservations.status.${reservation.status}`)}</Text>
+      </View>
+      <ChevronRight size={16} color="#D1D5DB" />
+    </TouchableOpacity>
+  );
+}
+
+// Upcoming reservations with their gate pass, then past ones
+export default function ReservationsScreen() {
+  const reservations = useReservations();
+  const { t } = useTranslation();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = reservations.reservations.find(reservation => reservation.id === selectedId) ?? null;
+
+  const sections = useMemo(() => {
+    const past = reservations.reservations
+      .filter(reservation => !isUpcomingReservation(reservation))
+      .sort((a, b) => b.arrivalAt - a.arrivalAt);
+    const upcoming = [...reservations.upcoming].sort((a, b) => a.arrivalAt - b.arrivalAt);
+    return [
+      { title: t('reservations.upcoming'), data: upcoming },
+      { title: t('reservations.past'), data: past },
+    ].filter(section => section.data.length > 0);
+  }, [reservations.reservations, reservations.upcoming, t]);
+
+  const handleCancel = (reservationId: string) => {
+    Alert.alert(t('reservations.cancel.title'), t('reservations.cancel.message'), [
+      { text: t('common.no'), style: 'cancel' },
+      {
+        text: t('reservations.cancel.title'),
+        style: 'destructive',
+        onPress: () => {
+          reservations.cancel(reservationId).catch(err => {
+            console.warn('🚫 Could not cancel reservation:', err);
+            Alert.alert(t('common.error'), t('reservations.cancel.failed'));
+          });
+        },
+      },
+    ]);
+  };
+
+  const handleCheckIn = (reservationId: string) => {
+    reservations.checkIn(reservationId).catch(err => {
+      console.warn('🚫 Could not check in:', err);
+    });
+  };
+
+  // Guidance runs on the map screen already in the stack
+  const handleNavigate = (lotId: string) => {
+    setSelectedId(null);
+    router.dismissTo({ pathname: '/', params: { lotId, navigate: '1' } });
+  };
+
+  return (
+    <View style={styles.container}>
+      <SectionList
+        sections={sections}
+        keyExtractor={reservation => reservation.id}
+        renderItem={({ item }) => <ReservationRow reservation={item} onPress={() => setSelectedId(item.id)} />}
+        renderSectionHeader={({ section }) => <Text style={styles.sectionTitle}>{section.title}</Text>}
+        stickySectionHeadersEnabled={false}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <CalendarCheck size={28} color="#D1D5DB" />
+            <Text style={styles.emptyText}>
+              {reservations.isLoaded ? t('reservations.empty') : t('common.loading')}
+            </Text>
+          </View>
+        }
+      />
+
+      <Modal
+        visible={selected !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setSelectedId(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            {selected && (
+              <ReservationDetails
+                reservation={selected}
+                onCheckIn={() => handleCheckIn(selected.id)}
+                onCancelReservation={() => handleCancel(selected.id)}
+                onNavigate={() => handleNavigate(selected.lotId)}
+                onClose={() => setSelectedId(null)}
+              />
+            )}
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  rowIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#CCFBF1',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowDetails: {
+    flex: 1,
+    marginHorizontal: 10,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  rowDate: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+    marginRight: 6,
+  },
+  statusText: {
+    color: '#FFFFFF',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginTop: 8,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+  },
+});
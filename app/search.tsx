@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { View, TextInput, StyleSheet, TouchableOpacity, Keyboard } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Search, X } from 'lucide-react-native';
+import { SearchResultsList } from '@/components/SearchResultsList';
+import { usePlaceSearch } from '@/hooks/usePlaceSearch';
+import { useVehicles } from '@/hooks/useVehicles';
+import { useSettings } from '@/hooks/useSettings';
+import { useTranslation } from '@/hooks/useTranslation';
+import { mapViewportStore } from '@/services/mapViewportStore';
+import { PlaceResult } from '@/types/places';
+
+// Full-screen place and parking search; the chosen result opens on the map
+export default function SearchScreen() {
+  const { t } = useTranslation();
+  const params = useLocalSearchParams<{ q?: string }>();
+  const [query, setQuery] = useState(params.q ?? '');
+  const { defaultVehicle } = useVehicles();
+  const { settings } = useSettings();
+
+  // Search around wherever the map was left
+  const viewport = mapViewportStore.get();
+  const near = viewport?.region ?? viewport?.camera?.center ?? null;
+  const placeSearch = usePlaceSearch(query, { near, vehicle: defaultVehicle });
+
+  const handleSelect = (result: PlaceResult) => {
+    Keyboard.dismiss();
+    router.dismissTo({
+      pathname: '/',
+      params: result.kind === 'parking' && result.lotId
+        ? { lotId: result.lotId }
+        : {
+            placeName: result.name,
+            latitude: String(result.coordinate.latitude),
+            longitude: String(result.coordinate.longitude),
+          },
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchBar}>
+        <Search size={18} color="#6B7280" />
+        <TextInput
+          style={styles.input}
+          placeholder={t('search.placeholder')}
+          placeholderTextColor="#9CA3AF"
+          value={query}
+          onChangeText={setQuery}
+          autoFocus={true}
+          returnKeyType="search"
+          onSubmitEditing={() => placeSearch.results[0] && handleSelect(placeSearch.results[0])}
+        />
+        {query.length > 0 && (
+          <TouchableOpacity onPress={() => setQuery('')} hitSlop={8}>
+            <X size={18} color="#9CA3AF" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {query.trim().length >= 2 && (
+        <SearchResultsList
+          results={placeSearch.results}
+          isSearching={placeSearch.isSearching}
+          error={placeSearch.error}
+          onSelect={handleSelect}
+          units={settings.units}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+    padding: 16,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    color: '#111827',
+    paddingVertical: 12,
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,136 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { RotateCcw } from 'lucide-react-native';
+import { useSettings } from '@/hooks/useSettings';
+import { useTranslation } from '@/hooks/useTranslation';
+import { AppSettings } from '@/types/settings';
+import { TranslationKey } from '@/utils/i18n';
+import { SETTING_OPTIONS } from '@/utils/settings';
+
+const SECTIONS: (keyof AppSettings)[] = [
+  'units',
+  'mapType',
+  'navigationZoom',
+  'gpsProfile',
+  'language',
+  'theme',
+  // GPS recording, replay and simulation are development tools
+  ...(__DEV__ ? ['locationSource' as const] : []),
+];
+
+// Units, map, navigation, GPS power and appearance preferences
+export default function SettingsScreen() {
+  const { t } = useTranslation();
+  const { settings, updateSettings, resetSettings } = useSettings();
+
+  const select = (changes: Partial<AppSettings>) => {
+    updateSettings(changes).catch(err => console.warn('Could not update settings:', err));
+  };
+
+  const confirmReset = () => {
+    Alert.alert(t('settings.reset.title'), t('settings.reset.message'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('settings.reset.confirm'), style: 'destructive', onPress: () => resetSettings() },
+    ]);
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {SECTIONS.map(section => (
+        <View key={section} style={styles.section}>
+          <Text style={styles.sectionTitle}>{t(`settings.sections.${section}.title`)}</Text>
+          <Text style={styles.sectionDescription}>{t(`settings.sections.${section}.description`)}</Text>
+          <View style={styles.options}>
+            {SETTING_OPTIONS[section].map(value => {
+              const isSelected = settings[section] === value;
+              return (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.option, isSelected && styles.optionSelected]}
+                  onPress={() => select({ [section]: value } as Partial<AppSettings>)}
+                >
+                  <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+                    {/* Each section's values have a label under its own key */}
+                    {t(`settings.options.${section}.${value}` as TranslationKey)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.resetButton} onPress={confirmReset}>
+        <RotateCcw size={16} color="#6B7280" />
+        <Text style={styles.resetText}>{t('settings.reset.button')}</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  sectionDescription: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+    marginBottom: 12,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#F9FAFB',
+  },
+  optionSelected: {
+    borderColor: '#3B82F6',
+    backgroundColor: '#3B82F6',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
+  },
+  resetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+  },
+  resetText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500',
+    marginLeft: 6,
+  },
+});
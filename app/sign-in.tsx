@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator, Platform, KeyboardAvoidingView } from 'react-native';
+import { router } from 'expo-router';
+import { UserCircle } from 'lucide-react-native';
+import { useAuth } from '@/hooks/useAuth';
+import { useTranslation } from '@/hooks/useTranslation';
+import { OAuthProviderName } from '@/types/auth';
+import { TranslationKey } from '@/utils/i18n';
+
+const OAUTH_BUTTONS: { provider: OAuthProviderName; name: string }[] = [
+  { provider: 'google', name: 'Google' },
+  { provider: 'apple', name: 'Apple' },
+];
+
+const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Sign in or create an account; closes itself once a session exists
+export default function SignInScreen() {
+  const { t } = useTranslation();
+  const auth = useAuth();
+  const [mode, setMode] = useState<'signIn' | 'signUp'>('signIn');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<TranslationKey | null>(null);
+
+  const isSignUp = mode === 'signUp';
+  const isValid =
+    isValidEmail(email) && password.length >= MIN_PASSWORD_LENGTH && (!isSignUp || name.trim().length > 0);
+
+  const close = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/');
+    }
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const session = await action();
+      if (session) {
+        close();
+        return;
+      }
+    } catch (err) {
+      console.warn('🚫 Sign-in failed:', err);
+      setError(isSignUp ? 'auth.signUpFailed' : 'auth.signInFailed');
+    }
+    setIsSubmitting(false);
+  };
+
+  const submit = () => {
+    if (!isValid) return;
+    run(() => (isSignUp ? auth.signUp(name, email, password) : auth.signIn(email, password)));
+  };
+
+  return (
+    <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      <View style={styles.card}>
+        <View style={styles.iconContainer}>
+          <UserCircle size={32} color="#3B82F6" />
+        </View>
+        <Text style={styles.title}>{isSignUp ? t('auth.createAccount') : t('auth.signIn')}</Text>
+        <Text style={styles.subtitle}>{t('auth.subtitle')}</Text>
+
+        {isSignUp && (
+          <TextInput
+            style={styles.input}
+            placeholder={t('profile.name')}
+            placeholderTextColor="#9CA3AF"
+            autoComplete="name"
+            value={name}
+            onChangeText={setName}
+          />
+        )}
+        <TextInput
+          style={styles.input}
+          placeholder={t('profile.email')}
+          placeholderTextColor="#9CA3AF"
+          autoCapitalize="none"
+          autoComplete="email"
+          keyboardType="email-address"
+          value={email}
+          onChangeText={setEmail}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder={t('auth.password', { count: MIN_PASSWORD_LENGTH })}
+          placeholderTextColor="#9CA3AF"
+          autoCapitalize="none"
+          autoComplete={isSignUp ? 'new-password' : 'current-password'}
+          secureTextEntry={true}
+          value={password}
+          onChangeText={setPassword}
+          onSubmitEditing={submit}
+        />
+
+        {error && <Text style={styles.errorText}>{t(error)}</Text>}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, (!isValid || isSubmitting) && styles.buttonDisabled]}
+          onPress={submit}
+          disabled={!isValid || isSubmitting}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.primaryButtonText}>{isSignUp ? t('auth.createAccount') : t('auth.submit')}</Text>
+          )}
+        </TouchableOpacity>
+
+        <View style={styles.divider}>
+          <View style={styles.dividerLine} />
+          <Text style={styles.dividerText}>{t('auth.or')}</Text>
+          <View style={styles.dividerLine} />
+        </View>
+
+        {OAUTH_BUTTONS.map(({ provider, name }) => (
+          <TouchableOpacity
+            key={provider}
+            style={[styles.oauthButton, isSubmitting && styles.buttonDisabled]}
+            onPress={() => run(() => auth.signInWithOAuth(provider))}
+            disabled={isSubmitting}
+          >
+            <Text style={styles.oauthButtonText}>{t('auth.continueWith', { provider: name })}</Text>
+          </TouchableOpacity>
+        ))}
+
+        <TouchableOpacity
+          style={styles.switchButton}
+          onPress={() => {
+            setMode(isSignUp ? 'signIn' : 'signUp');
+            setError(null);
+          }}
+          disabled={isSubmitting}
+        >
+          <Text style={styles.switchText}>
+            {isSignUp ? t('auth.haveAccount') : t('auth.noAccount')}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  iconContainer: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#DBEAFE',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#111827',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 20,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#374151',
+    marginBottom: 10,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#EF4444',
+    marginBottom: 4,
+  },
+  primaryButton: {
+    backgroundColor: '#3B82F6',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  divider: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 16,
+  },
+  dividerLine: {
+    flex: 1,
+    height: 1,
+    backgroundColor: '#E5E7EB',
+  },
+  dividerText: {
+    fontSize: 13,
+    color: '#9CA3AF',
+    marginHorizontal: 10,
+  },
+  oauthButton: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  oauthButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  switchButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+    marginTop: 4,
+  },
+  switchText: {
+    fontSize: 14,
+    color: '#3B82F6',
+    fontWeight: '500',
+  },
+});
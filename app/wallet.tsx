@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, Modal } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowDownLeft, ArrowUpRight, Car, LogIn, Plus, RotateCcw } from 'lucide-react-native';
+import { TopUpForm } from '@/components/TopUpForm';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useWallet } from '@/hooks/useWallet';
+import { useAuth } from '@/hooks/useAuth';
+import { WalletTransaction } from '@/types/wallet';
+import { getLocale } from '@/utils/i18n';
+import { formatAmount } from '@/utils/parkingFormat';
+
+const TRANSACTION_ICONS = {
+  topUp: { Icon: ArrowDownLeft, color: '#10B981' },
+  parkingCharge: { Icon: Car, color: '#8B5CF6' },
+  refund: { Icon: RotateCcw, color: '#3B82F6' },
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(getLocale(), { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+function TransactionRow({ transaction }: { transaction: WalletTransaction }) {
+  const { Icon, color } = TRANSACTION_ICONS[transaction.type];
+  return (
+    <View style={styles.row}>
+      <View style={[styles.rowIcon, { backgroundColor: `${color}1A` }]}>
+        <Icon size={18} color={color} />
+      </View>
+      <View style={styles.rowDetails}>
+        <Text style={styles.rowTitle} numberOfLines={1}>{transaction.description}</Text>
+        <Text style={styles.rowDate}>{formatDate(transaction.createdAt)}</Text>
+      </View>
+      <Text style={[styles.rowAmount, { color: transaction.amount >= 0 ? '#10B981' : '#111827' }]}>
+        {transaction.amount >= 0 ? '+' : ''}{formatAmount(transaction.amount, transaction.currency)}
+      </Text>
+    </View>
+  );
+}
+
+// Balance, top-ups and the full transaction history
+export default function WalletScreen() {
+  const params = useLocalSearchParams<{ topUp?: string }>();
+  const wallet = useWallet();
+  const auth = useAuth();
+  const { t } = useTranslation();
+  const [isTopUpOpen, setIsTopUpOpen] = useState(params.topUp === '1');
+
+  useEffect(() => {
+    if (params.topUp === '1') setIsTopUpOpen(true);
+  }, [params.topUp]);
+
+  if (auth.status === 'signedOut') {
+    return (
+      <View style={[styles.container, styles.signedOut]}>
+        <Text style={styles.signedOutText}>{t('wallet.signedOut')}</Text>
+        <TouchableOpacity style={styles.addFundsButton} onPress={() => router.push('/sign-in')}>
+          <LogIn size={16} color="#FFFFFF" />
+          <Text style={styles.addFundsText}>{t('auth.signIn')}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.balanceCard}>
+        <Text style={styles.balanceLabel}>{t('wallet.balance')}</Text>
+        <Text style={[styles.balanceAmount, wallet.balance < 0 && styles.negativeBalance]}>
+          {formatAmount(wallet.balance, wallet.currency)}
+        </Text>
+        <TouchableOpacity style={styles.addFundsButton} onPress={() => setIsTopUpOpen(true)}>
+          <Plus size={16} color="#FFFFFF" />
+          <Text style={styles.addFundsText}>{t('wallet.addFunds')}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.sectionTitle}>{t('wallet.transactions')}</Text>
+      <FlatList
+        data={wallet.transactions}
+        keyExtractor={transaction => transaction.id}
+        renderItem={({ item }) => <TransactionRow transaction={item} />}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <ArrowUpRight size={28} color="#D1D5DB" />
+            <Text style={styles.emptyText}>
+              {wallet.isLoaded ? t('wallet.empty') : t('common.loading')}
+            </Text>
+          </View>
+        }
+      />
+
+      <Modal
+        visible={isTopUpOpen}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setIsTopUpOpen(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <TopUpForm currency={wallet.currency} onTopUp={wallet.topUp} onClose={() => setIsTopUpOpen(false)} />
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  signedOut: {
+    justifyContent: 'center',
+    padding: 32,
+  },
+  signedOutText: {
+    fontSize: 15,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  balanceCard: {
+    backgroundColor: '#F0FDF4',
+    borderRadius: 16,
+    padding: 20,
+    margin: 16,
+    borderWidth: 1,
+    borderColor: '#BBF7D0',
+  },
+  balanceLabel: {
+    fontSize: 13,
+    color: '#059669',
+    fontWeight: '500',
+  },
+  balanceAmount: {
+    fontSize: 34,
+    fontWeight: 'bold',
+    color: '#065F46',
+    marginVertical: 8,
+  },
+  negativeBalance: {
+    color: '#EF4444',
+  },
+  addFundsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#10B981',
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  addFundsText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  rowIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowDetails: {
+    flex: 1,
+    marginHorizontal: 10,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  rowDate: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  rowAmount: {
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginTop: 8,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+  },
+});
@@ -0,0 +1,68 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { AvailabilityFeedStatus } from '@/services/availabilityFeed';
+import { formatAge } from '@/utils/parkingFormat';
+
+interface AvailabilityStatusBadgeProps {
+  status: AvailabilityFeedStatus;
+  age: number | null; // ms since the last availability update
+  isStale: boolean;
+}
+
+export function AvailabilityStatusBadge({ status, age, isStale }: AvailabilityStatusBadgeProps) {
+  const { t } = useTranslation();
+
+  const getLabel = () => {
+    if (status === 'connecting' && age === null) return t('availability.connecting');
+    if (!isStale) return t('availability.live');
+    if (status === 'live') return t('availability.noUpdates');
+    return t('availability.offline');
+  };
+
+  return (
+    <View style={[styles.badge, isStale && styles.badgeStale]}>
+      <View style={[styles.dot, { backgroundColor: isStale ? '#F59E0B' : '#10B981' }]} />
+      <Text style={styles.label}>{getLabel()}</Text>
+      <Text style={styles.age}>· {formatAge(age)}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  badgeStale: {
+    backgroundColor: '#FFFBEB',
+    borderColor: '#FDE68A',
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  age: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginLeft: 4,
+  },
+});
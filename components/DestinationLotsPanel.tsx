@@ -0,0 +1,157 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { Footprints, X } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { ParkingLot } from '@/types/parking';
+import { DestinationLot } from '@/utils/destinationLots';
+import { getSpaceColor } from '@/utils/parkingColors';
+import { DistanceUnits } from '@/types/settings';
+import { formatDistance } from '@/utils/geo';
+import { formatStayDuration } from '@/utils/parkingFormat';
+
+interface DestinationLotsPanelProps {
+  destinationName: string;
+  lots: DestinationLot[];
+  isLoading?: boolean;
+  onSelectLot: (lot: ParkingLot) => void;
+  onClose: () => void;
+  units?: DistanceUnits;
+}
+
+const formatWalkingTime = (seconds: number) => formatStayDuration(Math.max(60 * 1000, seconds * 1000));
+
+export function DestinationLotsPanel({ destinationName, lots, isLoading = false, onSelectLot, onClose, units = 'metric' }: DestinationLotsPanelProps) {
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>{t('destinationLots.title')}</Text>
+          <Text style={styles.destination} numberOfLines={1}>{destinationName}</Text>
+        </View>
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <X size={18} color="#6B7280" />
+        </TouchableOpacity>
+      </View>
+
+      {lots.length === 0 ? (
+        <Text style={styles.emptyText}>
+          {isLoading ? t('destinationLots.loading') : t('destinationLots.empty')}
+        </Text>
+      ) : (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.list}>
+          {lots.map(({ lot, walkingDistance, walkingTime }) => (
+            <TouchableOpacity key={lot.id} style={styles.card} onPress={() => onSelectLot(lot)}>
+              <View style={styles.cardHeader}>
+                <View style={[styles.spacesBadge, { backgroundColor: getSpaceColor(lot.availability.freeSpaces) }]}>
+                  <Text style={styles.spacesText}>{lot.availability.freeSpaces}</Text>
+                </View>
+                <Text style={styles.lotName} numberOfLines={1}>{lot.name}</Text>
+              </View>
+              <View style={styles.walkRow}>
+                <Footprints size={14} color="#6B7280" />
+                <Text style={styles.walkText}>
+                  {formatWalkingTime(walkingTime)} · {formatDistance(walkingDistance, units)}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    paddingVertical: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    marginBottom: 10,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  destination: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  closeButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 12,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#6B7280',
+    paddingHorizontal: 16,
+  },
+  list: {
+    paddingHorizontal: 12,
+    gap: 8,
+  },
+  card: {
+    width: 180,
+    padding: 10,
+    borderRadius: 12,
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  spacesBadge: {
+    minWidth: 28,
+    height: 22,
+    borderRadius: 11,
+    paddingHorizontal: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 8,
+  },
+  spacesText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  lotName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  walkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 6,
+  },
+  walkText: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+});
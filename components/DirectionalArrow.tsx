@@ -1,34 +1,23 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
+import { getSpaceColor } from '@/utils/parkingColors';
+import { DistanceUnits } from '@/types/settings';
+import { formatDistance } from '@/utils/geo';
 
 interface DirectionalArrowProps {
   distance?: number;
-  bearing: number; // Angle from user to parking (0-360 degrees)
+  bearing: number; // Angle to parking relative to the map heading (0-360 degrees)
   spaces: number;
   parkingName?: string;
+  units?: DistanceUnits;
 }
 
-export function DirectionalArrow({ distance, bearing, spaces, parkingName }: DirectionalArrowProps) {
+export function DirectionalArrow({ distance, bearing, spaces, parkingName, units = 'metric' }: DirectionalArrowProps) {
   // Calculate arrow rotation to point toward parking
   const arrowRotation = bearing;
   
   // Determine color based on available spaces
-  const getSpaceColor = () => {
-    if (spaces >= 40) return '#10B981'; // Green - many spaces
-    if (spaces >= 20) return '#22C55E'; // Light green - good spaces
-    if (spaces >= 10) return '#F59E0B'; // Yellow - moderate spaces
-    if (spaces >= 5) return '#EF4444';  // Red - few spaces
-    return '#9CA3AF'; // Gray - very few spaces
-  };
-
-  const spaceColor = getSpaceColor();
-
-  // Format distance for display
-  const formatDistance = () => {
-    if (!distance) return '';
-    if (distance < 1000) return `${Math.round(distance)}m`;
-    return `${(distance / 1000).toFixed(1)}km`;
-  };
+  const spaceColor = getSpaceColor(spaces);
 
   return (
     <View style={styles.container}>
@@ -59,10 +48,10 @@ export function DirectionalArrow({ distance, bearing, spaces, parkingName }: Dir
       </View>
       
       {/* Distance label below arrow */}
-      {distance && (
+      {distance !== undefined && (
         <View style={styles.distanceContainer}>
           <Text style={styles.distanceText}>
-            {formatDistance()}
+            {formatDistance(distance, units)}
           </Text>
         </View>
       )}
@@ -6,6 +6,8 @@ import {
   TouchableOpacity,
   ScrollView,
   Platform,
+  Alert,
+  Image,
 } from 'react-native';
 import { 
   X, 
@@ -18,6 +20,9 @@ import {
   Wifi, 
   WifiOff, 
   Clock, 
+  History,
+  CalendarCheck,
+  Search,
   Bell, 
   Shield, 
   CircleHelp as HelpCircle, 
@@ -25,8 +30,20 @@ import {
   ChevronRight, 
   Star, 
   Plus, 
-  CreditCard as Edit 
+  CreditCard as Edit,
+  LogIn
 } from 'lucide-react-native';
+import { Href } from 'expo-router';
+import { useAuth } from '@/hooks/useAuth';
+import { useTranslation } from '@/hooks/useTranslation';
+import { ParkingSession } from '@/types/parkingSession';
+import { FavoriteLot } from '@/types/favorite';
+import { DistanceUnits } from '@/types/settings';
+import { RankedFavorite } from '@/utils/favorites';
+import { formatAmount, formatCountdown } from '@/utils/parkingFormat';
+import { formatDistance } from '@/utils/geo';
+import { formatNumber } from '@/utils/i18n';
+import { getSpaceColor } from '@/utils/parkingColors';
 
 interface LocationData {
   latitude: number;
@@ -45,18 +62,52 @@ interface FloatingMenuProps {
   location: LocationData | null;
   isTracking: boolean;
   accuracy: number | null;
+  walletBalance: number;
+  walletCurrency: string;
+  onOpenWallet?: () => void;
+  onAddFunds?: () => void;
+  parkingSession?: ParkingSession | null;
+  sessionRemaining?: number | null; // ms until paid-until
+  sessionElapsed?: number | null; // ms since the session started
+  reminderMinutes?: number | null; // Expiry reminder lead time; null = only at expiry
+  onSessionPress?: () => void;
+  onReminderPress?: () => void;
+  onSignIn?: () => void;
+  onEditProfile?: () => void;
+  favorites?: RankedFavorite[]; // Closest first
+  onFavoritePress?: (favorite: FavoriteLot) => void;
+  historyCount?: number; // Logged parking stays
+  upcomingReservationCount?: number;
+  onNavigate?: (href: Href) => void; // Open another screen
+  units?: DistanceUnits;
 }
 
-export function FloatingMenu({ onClose, location, isTracking, accuracy }: FloatingMenuProps) {
-  // User data (mock data for now)
-  const userData = {
-    name: 'Carlos M.',
-    email: 'carlos.m@email.com',
-    memberSince: '2024',
-    walletBalance: 0,
-    totalTrips: 47,
-    favoriteSpots: 12,
-  };
+export function FloatingMenu({
+  onClose,
+  location,
+  isTracking,
+  accuracy,
+  walletBalance,
+  walletCurrency,
+  onOpenWallet,
+  onAddFunds,
+  parkingSession,
+  sessionRemaining = null,
+  sessionElapsed = null,
+  reminderMinutes = null,
+  onSessionPress,
+  onReminderPress,
+  onSignIn,
+  onEditProfile,
+  favorites = [],
+  onFavoritePress,
+  historyCount = 0,
+  upcomingReservationCount = 0,
+  onNavigate,
+  units = 'metric',
+}: FloatingMenuProps) {
+  const { user, signOut } = useAuth();
+  const { t } = useTranslation();
 
   // Get signal strength icon and text
   const getSignalIcon = () => {
@@ -76,22 +127,29 @@ export function FloatingMenu({ onClose, location, isTracking, accuracy }: Floati
   };
 
   const getSignalText = () => {
-    if (!location) return 'Sin señal';
+    if (!location) return t('menu.gps.signal.none');
     
     switch (location.signalStrength) {
       case 'excellent':
-        return 'Excelente';
+        return t('menu.gps.signal.excellent');
       case 'good':
-        return 'Buena';
+        return t('menu.gps.signal.good');
       case 'poor':
-        return 'Regular';
+        return t('menu.gps.signal.poor');
       case 'lost':
-        return 'Perdida';
+        return t('menu.gps.signal.lost');
       default:
-        return 'Desconocida';
+        return t('menu.gps.signal.unknown');
     }
   };
 
+  const confirmSignOut = () => {
+    Alert.alert(t('menu.signOut.title'), t('menu.signOut.message'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('menu.signOut.confirm'), style: 'destructive', onPress: () => signOut() },
+    ]);
+  };
+
   return (
     <View style={styles.container}>
       {/* Header */}
@@ -107,107 +165,211 @@ export function FloatingMenu({ onClose, location, isTracking, accuracy }: Floati
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         {/* User Profile Section */}
-        <TouchableOpacity style={styles.userSection} activeOpacity={0.7}>
-          <View style={styles.carAvatarContainer}>
-            <Text style={styles.carEmoji}>🏎️</Text>
-          </View>
-          <View style={styles.userInfo}>
-            <Text style={styles.userName}>{userData.name}</Text>
-            <Text style={styles.userEmail}>{userData.email}</Text>
-            <View style={styles.memberBadge}>
-              <User size={10} color="#3B82F6" />
-              <Text style={styles.memberText}>Miembro desde {userData.memberSince}</Text>
+        {user ? (
+          <TouchableOpacity style={styles.userSection} onPress={onEditProfile} activeOpacity={0.7}>
+            <View style={styles.carAvatarContainer}>
+              {user.avatarUrl ? (
+                <Image source={{ uri: user.avatarUrl }} style={styles.avatarImage} />
+              ) : (
+                <Text style={styles.carEmoji}>🏎️</Text>
+              )}
             </View>
-          </View>
-          <TouchableOpacity style={styles.editButton}>
-            <Edit size={16} color="#6B7280" />
+            <View style={styles.userInfo}>
+              <Text style={styles.userName}>{user.name}</Text>
+              <Text style={styles.userEmail}>{user.email}</Text>
+              <View style={styles.memberBadge}>
+                <User size={10} color="#3B82F6" />
+                <Text style={styles.memberText}>{t('menu.memberSince', { year: String(new Date(user.createdAt).getFullYear()) })}</Text>
+              </View>
+            </View>
+            <TouchableOpacity style={styles.editButton} onPress={onEditProfile}>
+              <Edit size={16} color="#6B7280" />
+            </TouchableOpacity>
           </TouchableOpacity>
-        </TouchableOpacity>
+        ) : (
+          <TouchableOpacity style={styles.userSection} onPress={onSignIn} activeOpacity={0.7}>
+            <View style={styles.carAvatarContainer}>
+              <User size={24} color="#9CA3AF" />
+            </View>
+            <View style={styles.userInfo}>
+              <Text style={styles.userName}>{t('menu.guest')}</Text>
+              <Text style={styles.userEmail}>{t('menu.guestHint')}</Text>
+              <View style={styles.memberBadge}>
+                <LogIn size={10} color="#3B82F6" />
+                <Text style={styles.memberText}>{t('auth.signIn')}</Text>
+              </View>
+            </View>
+            <ChevronRight size={16} color="#9CA3AF" />
+          </TouchableOpacity>
+        )}
 
         {/* Wallet Section */}
-        <View style={styles.walletSection}>
+        <TouchableOpacity style={styles.walletSection} onPress={onOpenWallet} activeOpacity={0.8}>
           <View style={styles.walletHeader}>
             <View style={styles.walletIconContainer}>
               <Wallet size={18} color="#10B981" />
             </View>
-            <Text style={styles.walletTitle}>Billetera</Text>
+            <Text style={styles.walletTitle}>{t('menu.wallet')}</Text>
           </View>
           
           <View style={styles.walletBalance}>
-            <Text style={styles.balanceLabel}>Saldo disponible</Text>
-            <Text style={styles.balanceAmount}>${userData.walletBalance.toFixed(2)}</Text>
+            <Text style={styles.balanceLabel}>{t('wallet.balance')}</Text>
+            <Text style={[styles.balanceAmount, walletBalance < 0 && styles.negativeBalance]}>
+              {formatAmount(walletBalance, walletCurrency)}
+            </Text>
           </View>
           
-          <TouchableOpacity style={styles.addFundsButton}>
+          <TouchableOpacity style={styles.addFundsButton} onPress={onAddFunds}>
             <Plus size={16} color="#FFFFFF" />
-            <Text style={styles.addFundsText}>Agregar fondos</Text>
+            <Text style={styles.addFundsText}>{t('wallet.addFunds')}</Text>
           </TouchableOpacity>
-        </View>
+        </TouchableOpacity>
 
         {/* Quick Stats */}
         <View style={styles.statsSection}>
-          <View style={styles.statItem}>
+          <TouchableOpacity style={styles.statItem} onPress={() => onNavigate?.('/favorites')} activeOpacity={0.7}>
             <Star size={16} color="#F59E0B" />
-            <Text style={styles.statNumber}>{userData.favoriteSpots}</Text>
-            <Text style={styles.statLabel}>Favoritos</Text>
-          </View>
+            <Text style={styles.statNumber}>{favorites.length}</Text>
+            <Text style={styles.statLabel}>{t('menu.favorites')}</Text>
+          </TouchableOpacity>
           <View style={styles.statDivider} />
-          <View style={styles.statItem}>
-            <Clock size={16} color="#8B5CF6" />
-            <Text style={styles.statNumber}>{userData.totalTrips}</Text>
-            <Text style={styles.statLabel}>Viajes</Text>
+          {/* Active parking session countdown, or start one */}
+          <TouchableOpacity style={styles.statItem} onPress={onSessionPress} activeOpacity={0.7}>
+            <Clock size={16} color={sessionRemaining !== null && sessionRemaining <= 0 ? '#EF4444' : '#8B5CF6'} />
+            {parkingSession ? (
+              <>
+                <Text style={styles.statNumber}>
+                  {formatCountdown(sessionRemaining ?? sessionElapsed ?? 0)}
+                </Text>
+                <Text style={styles.statLabel}>
+                  {t(sessionRemaining === null ? 'menu.session.parked' : sessionRemaining > 0 ? 'menu.session.remaining' : 'menu.session.expired')}
+                </Text>
+              </>
+            ) : (
+              <>
+                <Text style={styles.statNumber}>0:00</Text>
+                <Text style={styles.statLabel}>{t('menu.session.start')}</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {/* Favorite lots */}
+        <View style={styles.favoritesSection}>
+          <View style={styles.favoritesHeader}>
+            <Text style={styles.favoritesTitle}>{t('menu.favorites')}</Text>
+            {favorites.length > 0 && (
+              <TouchableOpacity onPress={() => onNavigate?.('/favorites')} hitSlop={8}>
+                <Text style={styles.favoritesLink}>{t('menu.seeAll')}</Text>
+              </TouchableOpacity>
+            )}
           </View>
+          {favorites.length === 0 ? (
+            <Text style={styles.favoritesEmpty}>{t('menu.favoritesEmpty')}</Text>
+          ) : (
+            favorites.map(({ favorite, lot, distance }) => (
+              <TouchableOpacity
+                key={favorite.lotId}
+                style={styles.favoriteItem}
+                onPress={() => onFavoritePress?.(favorite)}
+              >
+                <Star size={14} color="#F59E0B" fill="#F59E0B" />
+                <View style={styles.favoriteInfo}>
+                  <Text style={styles.favoriteName} numberOfLines={1}>{lot?.name ?? favorite.name}</Text>
+                  {distance !== null && <Text style={styles.favoriteDistance}>{formatDistance(distance, units)}</Text>}
+                </View>
+                {lot && (
+                  <View style={[styles.favoriteSpaces, { backgroundColor: getSpaceColor(lot.availability.freeSpaces) }]}>
+                    <Text style={styles.favoriteSpacesText}>{lot.availability.freeSpaces}</Text>
+                  </View>
+                )}
+                <ChevronRight size={16} color="#D1D5DB" />
+              </TouchableOpacity>
+            ))
+          )}
         </View>
 
         {/* Menu Options */}
         <View style={styles.menuSection}>
-          <TouchableOpacity style={styles.menuItem}>
+          <TouchableOpacity style={styles.menuItem} onPress={() => onNavigate?.('/search')}>
+            <View style={styles.menuIconContainer}>
+              <Search size={18} color="#6B7280" />
+            </View>
+            <Text style={styles.menuText}>{t('menu.search')}</Text>
+            <ChevronRight size={16} color="#D1D5DB" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.menuItem} onPress={() => onNavigate?.('/reservations')}>
+            <View style={styles.menuIconContainer}>
+              <CalendarCheck size={18} color="#6B7280" />
+            </View>
+            <Text style={styles.menuText}>{t('menu.reservations')}</Text>
+            {upcomingReservationCount > 0 && <Text style={styles.menuValue}>{t('menu.upcomingReservations', { count: upcomingReservationCount })}</Text>}
+            <ChevronRight size={16} color="#D1D5DB" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.menuItem} onPress={() => onNavigate?.('/history')}>
+            <View style={styles.menuIconContainer}>
+              <History size={18} color="#6B7280" />
+            </View>
+            <Text style={styles.menuText}>{t('menu.history')}</Text>
+            <Text style={styles.menuValue}>{historyCount}</Text>
+            <ChevronRight size={16} color="#D1D5DB" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.menuItem} onPress={onReminderPress}>
             <View style={styles.menuIconContainer}>
               <Bell size={18} color="#6B7280" />
             </View>
-            <Text style={styles.menuText}>Notificaciones</Text>
+            <Text style={styles.menuText}>{t('menu.notifications')}</Text>
+            <Text style={styles.menuValue}>
+              {reminderMinutes === null ? t('menu.reminder.atExpiry') : t('menu.reminder.before', { minutes: reminderMinutes })}
+            </Text>
             <ChevronRight size={16} color="#D1D5DB" />
           </TouchableOpacity>
           
-          <TouchableOpacity style={styles.menuItem}>
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => onNavigate?.({ pathname: '/help', params: { topic: 'privacy' } })}
+          >
             <View style={styles.menuIconContainer}>
               <Shield size={18} color="#6B7280" />
             </View>
-            <Text style={styles.menuText}>Privacidad y seguridad</Text>
+            <Text style={styles.menuText}>{t('menu.privacy')}</Text>
             <ChevronRight size={16} color="#D1D5DB" />
           </TouchableOpacity>
           
-          <TouchableOpacity style={styles.menuItem}>
+          <TouchableOpacity style={styles.menuItem} onPress={() => onNavigate?.('/settings')}>
             <View style={styles.menuIconContainer}>
               <Settings size={18} color="#6B7280" />
             </View>
-            <Text style={styles.menuText}>Configuración</Text>
+            <Text style={styles.menuText}>{t('menu.settings')}</Text>
             <ChevronRight size={16} color="#D1D5DB" />
           </TouchableOpacity>
           
-          <TouchableOpacity style={styles.menuItem}>
+          <TouchableOpacity style={styles.menuItem} onPress={() => onNavigate?.('/help')}>
             <View style={styles.menuIconContainer}>
               <HelpCircle size={18} color="#6B7280" />
             </View>
-            <Text style={styles.menuText}>Ayuda y soporte</Text>
+            <Text style={styles.menuText}>{t('menu.help')}</Text>
             <ChevronRight size={16} color="#D1D5DB" />
           </TouchableOpacity>
         </View>
 
         {/* GPS Status */}
         <View style={styles.gpsSection}>
-          <Text style={styles.gpsSectionTitle}>Estado del GPS</Text>
+          <Text style={styles.gpsSectionTitle}>{t('menu.gps.title')}</Text>
           
           <View style={styles.gpsStatus}>
             <View style={styles.gpsRow}>
               {getSignalIcon()}
-              <Text style={styles.gpsLabel}>Señal: {getSignalText()}</Text>
+              <Text style={styles.gpsLabel}>{t('menu.gps.signalLabel', { signal: getSignalText() })}</Text>
               <View style={[
                 styles.statusBadge,
                 { backgroundColor: isTracking ? '#10B981' : '#EF4444' }
               ]}>
                 <Text style={styles.statusText}>
-                  {isTracking ? 'ACTIVO' : 'INACTIVO'}
+                  {isTracking ? t('menu.gps.active') : t('menu.gps.inactive')}
                 </Text>
               </View>
             </View>
@@ -217,7 +379,7 @@ export function FloatingMenu({ onClose, location, isTracking, accuracy }: Floati
                 <View style={styles.gpsRow}>
                   <Target size={12} color="#6B7280" />
                   <Text style={styles.gpsLabel}>
-                    Precisión: ±{accuracy?.toFixed(0) || 'N/A'}m
+                    {t('menu.gps.accuracy', { accuracy: accuracy?.toFixed(0) || 'N/A' })}
                   </Text>
                 </View>
 
@@ -225,13 +387,13 @@ export function FloatingMenu({ onClose, location, isTracking, accuracy }: Floati
                   <View style={styles.gpsRow}>
                     <Activity size={12} color="#3B82F6" />
                     <Text style={styles.gpsLabel}>
-                      Velocidad: {(location.speed * 3.6).toFixed(1)} km/h
+                      {t('menu.gps.speed', { speed: formatNumber(location.speed * 3.6, { maximumFractionDigits: 1 }) })}
                     </Text>
                   </View>
                 )}
 
                 <View style={styles.coordinatesContainer}>
-                  <Text style={styles.coordinatesLabel}>Coordenadas:</Text>
+                  <Text style={styles.coordinatesLabel}>{t('menu.gps.coordinates')}</Text>
                   <Text style={styles.coordinatesText}>
                     {location.latitude.toFixed(6)}, {location.longitude.toFixed(6)}
                   </Text>
@@ -242,10 +404,12 @@ export function FloatingMenu({ onClose, location, isTracking, accuracy }: Floati
         </View>
 
         {/* Logout */}
-        <TouchableOpacity style={styles.logoutButton} activeOpacity={0.7}>
-          <LogOut size={18} color="#EF4444" />
-          <Text style={styles.logoutText}>Cerrar sesión</Text>
-        </TouchableOpacity>
+        {user && (
+          <TouchableOpacity style={styles.logoutButton} onPress={confirmSignOut} activeOpacity={0.7}>
+            <LogOut size={18} color="#EF4444" />
+            <Text style={styles.logoutText}>{t('menu.signOut.confirm')}</Text>
+          </TouchableOpacity>
+        )}
       </ScrollView>
 
       {/* Footer */}
@@ -318,6 +482,11 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: '#DBEAFE',
   },
+  avatarImage: {
+    width: 46,
+    height: 46,
+    borderRadius: 23,
+  },
   carEmoji: {
     fontSize: 24,
   },
@@ -391,6 +560,9 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginBottom: 4,
   },
+  negativeBalance: {
+    color: '#EF4444',
+  },
   balanceAmount: {
     fontSize: 28,
     fontWeight: 'bold',
@@ -443,6 +615,65 @@ const styles = StyleSheet.create({
     marginHorizontal: 16,
   },
 
+  // Favorites Section
+  favoritesSection: {
+    marginBottom: 16,
+  },
+  favoritesHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  favoritesTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  favoritesLink: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  favoritesEmpty: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  favoriteItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  favoriteInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  favoriteName: {
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  favoriteDistance: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 1,
+  },
+  favoriteSpaces: {
+    minWidth: 28,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginRight: 6,
+  },
+  favoriteSpacesText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+
   // Menu Section
   menuSection: {
     marginBottom: 16,
@@ -469,6 +700,11 @@ const styles = StyleSheet.create({
     flex: 1,
     fontWeight: '500',
   },
+  menuValue: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginRight: 6,
+  },
 
   // GPS Section
   gpsSection: {
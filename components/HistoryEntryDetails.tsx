@@ -0,0 +1,169 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import MapView, { Marker } from 'react-native-maps';
+import { FileSpreadsheet, FileText, X } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { ParkingHistoryEntry } from '@/types/parkingHistory';
+import { ReceiptFormat } from '@/services/receiptExport';
+import { getLocale } from '@/utils/i18n';
+import { formatAmount, formatClockTime, formatStayDuration } from '@/utils/parkingFormat';
+
+interface HistoryEntryDetailsProps {
+  entry: ParkingHistoryEntry;
+  isExporting?: boolean;
+  onExport: (format: ReceiptFormat) => void;
+  onClose: () => void;
+}
+
+const formatDay = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(getLocale(), { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+
+// One stay: where (non-interactive mini-map), when, how much, and its receipt
+export function HistoryEntryDetails({ entry, isExporting = false, onExport, onClose }: HistoryEntryDetailsProps) {
+  const { t } = useTranslation();
+  const rows = [
+    { label: t('history.details.date'), value: formatDay(entry.arrivedAt) },
+    { label: t('history.details.time'), value: `${formatClockTime(entry.arrivedAt)} – ${formatClockTime(entry.departedAt)}` },
+    { label: t('history.details.duration'), value: formatStayDuration(entry.departedAt - entry.arrivedAt) },
+    { label: t('history.details.amount'), value: entry.currency ? formatAmount(entry.cost, entry.currency) : t('history.details.noCost') },
+    { label: t('history.details.vehicle'), value: entry.vehicle ? `${entry.vehicle.plate} · ${entry.vehicle.description}` : '—' },
+    { label: t('history.details.type'), value: t(`history.sources.${entry.source}`) },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title} numberOfLines={1}>{entry.lotName ?? t('common.parkingLot')}</Text>
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <X size={18} color="#6B7280" />
+        </TouchableOpacity>
+      </View>
+
+      {entry.location && (
+        <MapView
+          style={styles.miniMap}
+          liteMode={true}
+          scrollEnabled={false}
+          zoomEnabled={false}
+          rotateEnabled={false}
+          pitchEnabled={false}
+          toolbarEnabled={false}
+          initialRegion={{
+            latitude: entry.location.latitude,
+            longitude: entry.location.longitude,
+            latitudeDelta: 0.005,
+            longitudeDelta: 0.005,
+          }}
+        >
+          <Marker coordinate={entry.location} pinColor="#3B82F6" />
+        </MapView>
+      )}
+
+      {rows.map(row => (
+        <View key={row.label} style={styles.row}>
+          <Text style={styles.rowLabel}>{row.label}</Text>
+          <Text style={styles.rowValue}>{row.value}</Text>
+        </View>
+      ))}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.exportButton, isExporting && styles.exportButtonDisabled]}
+          onPress={() => onExport('pdf')}
+          disabled={isExporting}
+        >
+          <FileText size={16} color="#FFFFFF" />
+          <Text style={styles.exportButtonText}>{t('history.details.pdfReceipt')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.exportButton, styles.secondaryExportButton, isExporting && styles.exportButtonDisabled]}
+          onPress={() => onExport('csv')}
+          disabled={isExporting}
+        >
+          <FileSpreadsheet size={16} color="#374151" />
+          <Text style={[styles.exportButtonText, styles.secondaryExportText]}>CSV</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  miniMap: {
+    height: 140,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  rowLabel: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  rowValue: {
+    flex: 1,
+    fontSize: 13,
+    color: '#111827',
+    fontWeight: '500',
+    textAlign: 'right',
+    marginLeft: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  exportButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3B82F6',
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  secondaryExportButton: {
+    backgroundColor: '#F3F4F6',
+  },
+  exportButtonDisabled: {
+    opacity: 0.6,
+  },
+  exportButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  secondaryExportText: {
+    color: '#374151',
+  },
+});
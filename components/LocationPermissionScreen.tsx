@@ -7,12 +7,15 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MapPin, Shield, Navigation, Target } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface LocationPermissionScreenProps {
   onRetry: () => void;
 }
 
 export function LocationPermissionScreen({ onRetry }: LocationPermissionScreenProps) {
+  const { t } = useTranslation();
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.content}>
@@ -20,43 +23,41 @@ export function LocationPermissionScreen({ onRetry }: LocationPermissionScreenPr
           <MapPin size={64} color="#3B82F6" />
         </View>
         
-        <Text style={styles.title}>Ubicación requerida</Text>
+        <Text style={styles.title}>{t('locationPermission.title')}</Text>
         
         <Text style={styles.description}>
-          ParkingFinder necesita acceso a tu ubicación para funcionar correctamente.
-          Esta aplicación está diseñada específicamente para dispositivos móviles con GPS.
+          {t('locationPermission.description')}
         </Text>
         
         <View style={styles.featureList}>
           <View style={styles.featureItem}>
             <Navigation size={20} color="#3B82F6" />
             <Text style={styles.featureText}>
-              Seguimiento GPS en tiempo real
+              {t('locationPermission.tracking')}
             </Text>
           </View>
           
           <View style={styles.featureItem}>
             <Target size={20} color="#3B82F6" />
             <Text style={styles.featureText}>
-              Detección precisa de orientación
+              {t('locationPermission.heading')}
             </Text>
           </View>
           
           <View style={styles.featureItem}>
             <Shield size={20} color="#3B82F6" />
             <Text style={styles.featureText}>
-              Datos seguros y privados
+              {t('locationPermission.privacy')}
             </Text>
           </View>
         </View>
         
         <TouchableOpacity style={styles.button} onPress={onRetry}>
-          <Text style={styles.buttonText}>Permitir ubicación</Text>
+          <Text style={styles.buttonText}>{t('locationPermission.allow')}</Text>
         </TouchableOpacity>
         
         <Text style={styles.footerText}>
-          Tu ubicación solo se usa dentro de la aplicación y nunca se comparte.
-          Para la mejor experiencia, usa esta app en un dispositivo iOS o Android.
+          {t('locationPermission.footer')}
         </Text>
       </View>
     </SafeAreaView>
@@ -15,6 +15,7 @@ interface LocationData {
   heading: number;
   smoothedHeading: number;
   accuracy?: number;
+  uncertainty?: number;
   speed?: number;
   isMoving: boolean;
   signalStrength: 'excellent' | 'good' | 'poor' | 'lost';
@@ -22,12 +23,22 @@ interface LocationData {
 
 interface NativeUserLocationMarkerProps {
   location: LocationData;
+  targetBearing?: number; // Absolute bearing to a walking target (e.g. the parked car)
 }
 
-export function NativeUserLocationMarker({ location }: NativeUserLocationMarkerProps) {
+// Shortest rotation from `current` to `target`, avoiding 359° -> 0° jumps
+const shortestRotation = (current: number, target: number) => {
+  let diff = target - current;
+  while (diff > 180) diff -= 360;
+  while (diff < -180) diff += 360;
+  return current + diff;
+};
+
+export function NativeUserLocationMarker({ location, targetBearing }: NativeUserLocationMarkerProps) {
   // Animation values
   const pulseAnim = useSharedValue(1);
   const rotationAnim = useSharedValue(0);
+  const targetRotationAnim = useSharedValue(targetBearing ?? 0);
   const scaleAnim = useSharedValue(1);
   const opacityAnim = useSharedValue(1);
 
@@ -58,15 +69,7 @@ export function NativeUserLocationMarker({ location }: NativeUserLocationMarkerP
 
   // Smooth rotation animation using smoothed heading
   useEffect(() => {
-    const targetHeading = location.smoothedHeading;
-    const currentHeading = rotationAnim.value;
-    
-    // Calculate shortest rotation path to avoid 359° -> 0° jumps
-    let diff = targetHeading - currentHeading;
-    while (diff > 180) diff -= 360;
-    while (diff < -180) diff += 360;
-    
-    const newHeading = currentHeading + diff;
+    const newHeading = shortestRotation(rotationAnim.value, location.smoothedHeading);
     
     // Smooth spring animation for rotation
     rotationAnim.value = withSpring(newHeading, {
@@ -76,6 +79,16 @@ export function NativeUserLocationMarker({ location }: NativeUserLocationMarkerP
     });
   }, [location.smoothedHeading]);
 
+  // Target pointer follows the bearing with the same spring as the heading
+  useEffect(() => {
+    if (targetBearing === undefined) return;
+    targetRotationAnim.value = withSpring(shortestRotation(targetRotationAnim.value, targetBearing), {
+      damping: 15,
+      stiffness: 100,
+      mass: 0.8,
+    });
+  }, [targetBearing, targetRotationAnim]);
+
   // Scale animation based on movement and signal strength
   useEffect(() => {
     let targetScale = 1;
@@ -108,13 +121,15 @@ export function NativeUserLocationMarker({ location }: NativeUserLocationMarkerP
     }
   }, [location.signalStrength]);
 
+  // Prefer the fused uncertainty so the circle grows smoothly while fixes are rejected
   const getAccuracyCircleSize = useMemo(() => {
-    if (!location.accuracy) return 40;
+    const radius = location.uncertainty ?? location.accuracy;
+    if (!radius) return 40;
     const baseSize = 35;
     const maxSize = 60;
-    const scaleFactor = Math.min(location.accuracy / 30, 1);
+    const scaleFactor = Math.min(radius / 30, 1);
     return baseSize + (maxSize - baseSize) * scaleFactor;
-  }, [location.accuracy]);
+  }, [location.uncertainty, location.accuracy]);
 
   const signalColor = getSignalColor;
   const accuracyCircleSize = getAccuracyCircleSize;
@@ -125,6 +140,10 @@ export function NativeUserLocationMarker({ location }: NativeUserLocationMarkerP
     opacity: 0.2,
   }));
 
+  const targetPointerStyle = useAnimatedStyle(() => ({
+    transform: [{ rotate: `${targetRotationAnim.value}deg` }],
+  }));
+
   const containerStyle = useAnimatedStyle(() => ({
     transform: [
       { scale: scaleAnim.value },
@@ -149,6 +168,13 @@ export function NativeUserLocationMarker({ location }: NativeUserLocationMarkerP
         ]}
       />
       
+      {/* Pointer orbiting the marker towards the walking target */}
+      {targetBearing !== undefined && (
+        <Animated.View style={[styles.targetPointerOrbit, targetPointerStyle]}>
+          <View style={styles.targetPointer} />
+        </Animated.View>
+      )}
+      
       {/* Main marker with integrated arrow (Waze/Google Maps style) */}
       <Animated.View style={[styles.markerBody, containerStyle]}>
         {/* Teardrop/chevron shape pointing forward */}
@@ -194,6 +220,22 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 255, 255, 0.3)',
   },
+  targetPointerOrbit: {
+    position: 'absolute',
+    width: 80,
+    height: 80,
+    alignItems: 'center',
+  },
+  targetPointer: {
+    width: 0,
+    height: 0,
+    borderLeftWidth: 7,
+    borderRightWidth: 7,
+    borderBottomWidth: 12,
+    borderLeftColor: 'transparent',
+    borderRightColor: 'transparent',
+    borderBottomColor: '#7C3AED',
+  },
   markerBody: {
     alignItems: 'center',
     justifyContent: 'center',
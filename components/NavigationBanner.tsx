@@ -0,0 +1,141 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import {
+  ArrowUp,
+  ArrowUpLeft,
+  ArrowUpRight,
+  CornerUpLeft,
+  CornerUpRight,
+  Undo2,
+  RotateCw,
+  Flag,
+} from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { RouteStep } from '@/services/routingProvider';
+import { DistanceUnits } from '@/types/settings';
+import { formatDistance } from '@/utils/geo';
+import { Translate, TranslationKey } from '@/utils/i18n';
+
+interface NavigationBannerProps {
+  step: RouteStep | null;
+  distanceToStep: number;
+  isRerouting?: boolean;
+  units?: DistanceUnits;
+}
+
+const MODIFIER_KEYS: Record<string, TranslationKey> = {
+  uturn: 'navigation.maneuvers.uturn',
+  'sharp right': 'navigation.maneuvers.sharpRight',
+  right: 'navigation.maneuvers.right',
+  'slight right': 'navigation.maneuvers.slightRight',
+  straight: 'navigation.maneuvers.straight',
+  'slight left': 'navigation.maneuvers.slightLeft',
+  left: 'navigation.maneuvers.left',
+  'sharp left': 'navigation.maneuvers.sharpLeft',
+};
+
+// Instruction for a maneuver in the app language
+const describeStep = (step: RouteStep, t: Translate): string => {
+  const { type, modifier, exit } = step.maneuver;
+  const onto = (instruction: string) =>
+    step.name ? t('navigation.maneuvers.onto', { instruction, street: step.name }) : instruction;
+
+  switch (type) {
+    case 'arrive':
+      return t('navigation.maneuvers.arrive');
+    case 'depart':
+      return step.name ? t('navigation.maneuvers.departOnto', { street: step.name }) : t('navigation.maneuvers.depart');
+    case 'roundabout':
+    case 'rotary':
+      return onto(t('navigation.maneuvers.roundabout', { exit: exit ?? 1 }));
+    default:
+      return onto(t(MODIFIER_KEYS[modifier ?? 'straight'] ?? 'navigation.maneuvers.continue'));
+  }
+};
+
+const ManeuverIcon = ({ step }: { step: RouteStep }) => {
+  const props = { size: 32, color: '#FFFFFF' };
+  const { type, modifier } = step.maneuver;
+
+  if (type === 'arrive') return <Flag {...props} />;
+  if (type === 'roundabout' || type === 'rotary') return <RotateCw {...props} />;
+
+  switch (modifier) {
+    case 'uturn':
+      return <Undo2 {...props} />;
+    case 'sharp right':
+    case 'right':
+      return <CornerUpRight {...props} />;
+    case 'slight right':
+      return <ArrowUpRight {...props} />;
+    case 'sharp left':
+    case 'left':
+      return <CornerUpLeft {...props} />;
+    case 'slight left':
+      return <ArrowUpLeft {...props} />;
+    default:
+      return <ArrowUp {...props} />;
+  }
+};
+
+export function NavigationBanner({ step, distanceToStep, isRerouting = false, units = 'metric' }: NavigationBannerProps) {
+  const { t } = useTranslation();
+
+  if (isRerouting || !step) {
+    return (
+      <View style={[styles.banner, styles.bannerRerouting]}>
+        <RotateCw size={28} color="#FFFFFF" />
+        <Text style={[styles.instruction, styles.reroutingText]}>{t('navigation.rerouting')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.banner}>
+      <View style={styles.iconColumn}>
+        <ManeuverIcon step={step} />
+        <Text style={styles.distance}>{formatDistance(distanceToStep, units)}</Text>
+      </View>
+      <Text style={styles.instruction} numberOfLines={2}>{describeStep(step, t)}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#166534',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  bannerRerouting: {
+    backgroundColor: '#92400E',
+  },
+  iconColumn: {
+    alignItems: 'center',
+    minWidth: 56,
+  },
+  distance: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: 'bold',
+    marginTop: 2,
+  },
+  instruction: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontSize: 17,
+    fontWeight: '600',
+    marginLeft: 12,
+  },
+  reroutingText: {
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,135 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { X, Flag } from 'lucide-react-native';
+import { GuidanceErrorCode } from '@/hooks/useRouteGuidance';
+import { useTranslation } from '@/hooks/useTranslation';
+import { DistanceUnits } from '@/types/settings';
+import { formatDistance } from '@/utils/geo';
+import { formatStayDuration } from '@/utils/parkingFormat';
+
+interface NavigationSummaryProps {
+  destinationName: string;
+  distanceRemaining: number | null; // meters, null while the first route loads
+  durationRemaining: number | null; // seconds
+  hasArrived: boolean;
+  error?: GuidanceErrorCode | null;
+  onStop: () => void;
+  units?: DistanceUnits;
+}
+
+// At least "1 min" while still driving
+const formatDuration = (seconds: number) => formatStayDuration(Math.max(60 * 1000, seconds * 1000));
+
+const formatArrivalTime = (seconds: number) => {
+  const arrival = new Date(Date.now() + seconds * 1000);
+  return `${arrival.getHours().toString().padStart(2, '0')}:${arrival.getMinutes().toString().padStart(2, '0')}`;
+};
+
+export function NavigationSummary({
+  destinationName,
+  distanceRemaining,
+  durationRemaining,
+  hasArrived,
+  error,
+  onStop,
+  units = 'metric',
+}: NavigationSummaryProps) {
+  const { t } = useTranslation();
+
+  if (hasArrived) {
+    return (
+      <View style={[styles.container, styles.arrivedContainer]}>
+        <Flag size={24} color="#FFFFFF" />
+        <View style={styles.details}>
+          <Text style={[styles.primary, styles.arrivedText]}>{t('navigation.arrived')}</Text>
+          <Text style={[styles.secondary, styles.arrivedText]} numberOfLines={1}>{destinationName}</Text>
+        </View>
+        <TouchableOpacity style={[styles.stopButton, styles.finishButton]} onPress={onStop}>
+          <Text style={styles.finishText}>{t('navigation.finish')}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.details}>
+        {distanceRemaining !== null && durationRemaining !== null ? (
+          <>
+            <Text style={styles.primary}>
+              {formatDuration(durationRemaining)} · {formatDistance(distanceRemaining, units)}
+            </Text>
+            <Text style={styles.secondary} numberOfLines={1}>
+              {t('navigation.arrival', { time: formatArrivalTime(durationRemaining) })} · {destinationName}
+            </Text>
+          </>
+        ) : (
+          <>
+            <Text style={styles.primary}>{error ? t(`errors.guidance.${error}`) : t('navigation.routing')}</Text>
+            <Text style={styles.secondary} numberOfLines={1}>{destinationName}</Text>
+          </>
+        )}
+      </View>
+      <TouchableOpacity style={styles.stopButton} onPress={onStop}>
+        <X size={22} color="#FFFFFF" />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  arrivedContainer: {
+    backgroundColor: '#166534',
+    borderColor: '#166534',
+  },
+  details: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+  primary: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  secondary: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  arrivedText: {
+    color: '#FFFFFF',
+  },
+  stopButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#EF4444',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  finishButton: {
+    width: undefined,
+    paddingHorizontal: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  finishText: {
+    color: '#166534',
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,49 @@
+import React from 'react';
+import { StyleSheet, TouchableOpacity } from 'react-native';
+import { DirectionalArrow } from '@/components/DirectionalArrow';
+import { ParkingLot } from '@/types/parking';
+import { DistanceUnits } from '@/types/settings';
+import { OffscreenPointer } from '@/utils/offscreenPointers';
+
+interface OffscreenLotPointersProps {
+  pointers: OffscreenPointer[];
+  onPress: (lot: ParkingLot) => void;
+  units?: DistanceUnits;
+}
+
+// DirectionalArrow container size, used to center each arrow on its edge point
+const ARROW_WIDTH = 36;
+const ARROW_HEIGHT = 50;
+
+export function OffscreenLotPointers({ pointers, onPress, units = 'metric' }: OffscreenLotPointersProps) {
+  return (
+    <>
+      {pointers.map(pointer => (
+        <TouchableOpacity
+          key={pointer.lot.id}
+          style={[
+            styles.pointer,
+            { left: pointer.x - ARROW_WIDTH / 2, top: pointer.y - ARROW_HEIGHT / 2 },
+          ]}
+          onPress={() => onPress(pointer.lot)}
+          hitSlop={8}
+        >
+          <DirectionalArrow
+            bearing={pointer.bearing}
+            distance={pointer.distance}
+            spaces={pointer.lot.availability.freeSpaces}
+            units={units}
+            parkingName={pointer.lot.name}
+          />
+        </TouchableOpacity>
+      ))}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  pointer: {
+    position: 'absolute',
+    zIndex: 800,
+  },
+});
@@ -0,0 +1,46 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Car } from 'lucide-react-native';
+
+export function ParkedCarMarker() {
+  return (
+    <View style={styles.container}>
+      <View style={styles.bubble}>
+        <Car size={18} color="#FFFFFF" />
+      </View>
+      <View style={styles.pointer} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  bubble: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#7C3AED',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 3,
+    borderColor: '#FFFFFF',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  pointer: {
+    width: 0,
+    height: 0,
+    marginTop: -2,
+    borderLeftWidth: 6,
+    borderRightWidth: 6,
+    borderTopWidth: 8,
+    borderLeftColor: 'transparent',
+    borderRightColor: 'transparent',
+    borderTopColor: '#7C3AED',
+  },
+});
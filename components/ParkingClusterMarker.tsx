@@ -0,0 +1,55 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { getSpaceColor } from '@/utils/parkingColors';
+
+interface ParkingClusterMarkerProps {
+  lotCount: number;
+  totalFreeSpaces: number;
+}
+
+export function ParkingClusterMarker({ lotCount, totalFreeSpaces }: ParkingClusterMarkerProps) {
+  // Bubble grows with the number of lots it groups
+  const size = Math.min(36 + Math.log2(lotCount) * 6, 64);
+
+  return (
+    <View
+      style={[
+        styles.bubble,
+        {
+          width: size,
+          height: size,
+          borderRadius: size / 2,
+          backgroundColor: getSpaceColor(totalFreeSpaces),
+        },
+      ]}
+    >
+      <Text style={styles.spacesText}>{totalFreeSpaces}</Text>
+      <Text style={styles.lotsText}>{lotCount} P</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bubble: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 3,
+    borderColor: '#FFFFFF',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  spacesText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  lotsText: {
+    color: '#FFFFFF',
+    fontSize: 9,
+    fontWeight: '600',
+    marginTop: -2,
+  },
+});
@@ -0,0 +1,71 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Star } from 'lucide-react-native';
+import { getSpaceColor } from '@/utils/parkingColors';
+
+interface ParkingLotMarkerProps {
+  freeSpaces: number;
+  isStale?: boolean; // Availability no longer live - shown faded with a grey border
+  isFavorite?: boolean; // Gold border and a star badge
+}
+
+export function ParkingLotMarker({ freeSpaces, isStale = false, isFavorite = false }: ParkingLotMarkerProps) {
+  return (
+    <View
+      style={[
+        styles.parkingMarker,
+        {
+          backgroundColor: getSpaceColor(freeSpaces),
+          borderColor: isFavorite ? '#F59E0B' : isStale ? '#9CA3AF' : '#FFFFFF',
+          opacity: isStale ? 0.6 : 1,
+        },
+      ]}
+    >
+      <Text style={styles.parkingText}>P</Text>
+      <Text style={styles.parkingSpaces}>{freeSpaces}</Text>
+      {isFavorite && (
+        <View style={styles.favoriteBadge}>
+          <Star size={8} color="#FFFFFF" fill="#FFFFFF" />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  parkingMarker: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  parkingText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  parkingSpaces: {
+    color: '#FFFFFF',
+    fontSize: 8,
+    fontWeight: '600',
+    marginTop: -2,
+  },
+  favoriteBadge: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    backgroundColor: '#F59E0B',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -0,0 +1,431 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Image, Dimensions } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, { useSharedValue, useAnimatedStyle, withSpring, runOnJS } from 'react-native-reanimated';
+import { Navigation, Star, CalendarCheck, Share2, X, Clock, MapPin } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { ParkingLot } from '@/types/parking';
+import { DistanceUnits } from '@/types/settings';
+import { getSpaceColor } from '@/utils/parkingColors';
+import { calculateDistance, calculateBearing, bearingToCardinal, formatDistance } from '@/utils/geo';
+import { formatAge, formatAmenity, formatPricing, formatWeeklyHours, isOpenAt } from '@/utils/parkingFormat';
+
+const { height } = Dimensions.get('window');
+
+export type ParkingLotSheetSnap = 'collapsed' | 'expanded';
+
+// Sheet heights: collapsed shows the summary header, expanded the full details
+const EXPANDED_HEIGHT = Math.min(height * 0.6, 520);
+const COLLAPSED_HEIGHT = 150;
+const COLLAPSED_OFFSET = EXPANDED_HEIGHT - COLLAPSED_HEIGHT;
+
+const SPRING = { damping: 20, stiffness: 200 };
+
+interface ParkingLotSheetProps {
+  lot: ParkingLot;
+  userLocation: { latitude: number; longitude: number } | null;
+  snap: ParkingLotSheetSnap;
+  onSnapChange: (snap: ParkingLotSheetSnap) => void;
+  onClose: () => void;
+  bottomOffset?: number; // Space kept free below the sheet (search bar)
+  isStale?: boolean;
+  isFavorite?: boolean;
+  onNavigate?: () => void;
+  onToggleFavorite?: () => void;
+  onReserve?: () => void;
+  onShare?: () => void;
+  units?: DistanceUnits;
+}
+
+export function ParkingLotSheet({
+  lot,
+  userLocation,
+  snap,
+  onSnapChange,
+  onClose,
+  bottomOffset = 0,
+  isStale = false,
+  isFavorite = false,
+  onNavigate,
+  onToggleFavorite,
+  onReserve,
+  onShare,
+  units = 'metric',
+}: ParkingLotSheetProps) {
+  const { t } = useTranslation();
+
+  // Fully hidden below the bottom edge of the screen
+  const closedOffset = EXPANDED_HEIGHT + bottomOffset;
+
+  const translateY = useSharedValue(closedOffset);
+  const dragStart = useSharedValue(0);
+
+  // Follow the snap point requested by the parent (e.g. collapse when the map is panned)
+  useEffect(() => {
+    translateY.value = withSpring(snap === 'expanded' ? 0 : COLLAPSED_OFFSET, SPRING);
+  }, [snap, translateY]);
+
+  const pan = Gesture.Pan()
+    .onStart(() => {
+      dragStart.value = translateY.value;
+    })
+    .onUpdate((event) => {
+      translateY.value = Math.max(0, Math.min(closedOffset, dragStart.value + event.translationY));
+    })
+    .onEnd((event) => {
+      // Flicked or dragged well below the collapsed position - dismiss
+      if (translateY.value > COLLAPSED_OFFSET + 60 || (event.velocityY > 1200 && dragStart.value >= COLLAPSED_OFFSET)) {
+        translateY.value = withSpring(closedOffset, SPRING);
+        runOnJS(onClose)();
+        return;
+      }
+
+      const projected = translateY.value + event.velocityY * 0.1;
+      const next: ParkingLotSheetSnap = projected < COLLAPSED_OFFSET / 2 ? 'expanded' : 'collapsed';
+      translateY.value = withSpring(next === 'expanded' ? 0 : COLLAPSED_OFFSET, SPRING);
+      runOnJS(onSnapChange)(next);
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [{ translateY: translateY.value }],
+  }));
+
+  const freeSpaces = lot.availability.freeSpaces;
+  const isOpen = isOpenAt(lot.openingHours);
+  const updatedAge = lot.availability.source === 'static' ? null : Date.now() - lot.availability.updatedAt;
+
+  const distance = userLocation
+    ? calculateDistance(userLocation.latitude, userLocation.longitude, lot.location.latitude, lot.location.longitude)
+    : null;
+  const bearing = userLocation
+    ? calculateBearing(userLocation.latitude, userLocation.longitude, lot.location.latitude, lot.location.longitude)
+    : null;
+
+  return (
+    <Animated.View style={[styles.sheet, { height: EXPANDED_HEIGHT, bottom: bottomOffset }, animatedStyle]}>
+      <GestureDetector gesture={pan}>
+        <View>
+          <View style={styles.handle} />
+
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.name} numberOfLines={1}>{lot.name}</Text>
+              <Text style={styles.subtitle} numberOfLines={1}>
+                {lot.city}
+                {distance !== null && bearing !== null && ` · ${formatDistance(distance, units)} ${bearingToCardinal(bearing)}`}
+              </Text>
+            </View>
+            {onToggleFavorite && (
+              <TouchableOpacity style={styles.favoriteButton} onPress={onToggleFavorite}>
+                <Star size={18} color={isFavorite ? '#F59E0B' : '#6B7280'} fill={isFavorite ? '#F59E0B' : 'none'} />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <X size={18} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.summaryRow}>
+            <View style={[styles.spacesBadge, { backgroundColor: getSpaceColor(freeSpaces) }, isStale && styles.spacesBadgeStale]}>
+              <Text style={styles.spacesText}>{freeSpaces}</Text>
+              <Text style={styles.spacesLabel}>{t('lot.free', { count: freeSpaces })}</Text>
+            </View>
+            <View style={styles.summaryDetails}>
+              <Text style={styles.capacityText}>{t('lot.capacity', { count: lot.capacity })}</Text>
+              <Text style={styles.updatedText}>
+                {t(lot.availability.source === 'live' ? 'lot.updated' : 'lot.estimated', { age: formatAge(updatedAge) })}
+                {isStale && ` · ${t('lot.offline')}`}
+              </Text>
+            </View>
+            <View style={[styles.openBadge, { backgroundColor: isOpen ? '#D1FAE5' : '#FEE2E2' }]}>
+              <Text style={[styles.openText, { color: isOpen ? '#047857' : '#B91C1C' }]}>
+                {isOpen ? t('lot.open') : t('lot.closed')}
+              </Text>
+            </View>
+          </View>
+        </View>
+      </GestureDetector>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.actions}>
+          {onNavigate && (
+            <TouchableOpacity style={[styles.actionButton, styles.primaryAction]} onPress={onNavigate}>
+              <Navigation size={18} color="#FFFFFF" />
+              <Text style={[styles.actionText, styles.primaryActionText]}>{t('lot.actions.navigate')}</Text>
+            </TouchableOpacity>
+          )}
+          {onToggleFavorite && (
+            <TouchableOpacity style={styles.actionButton} onPress={onToggleFavorite}>
+              <Star size={18} color={isFavorite ? '#F59E0B' : '#374151'} fill={isFavorite ? '#F59E0B' : 'none'} />
+              <Text style={styles.actionText}>{isFavorite ? t('lot.actions.saved') : t('lot.actions.save')}</Text>
+            </TouchableOpacity>
+          )}
+          {onReserve && (
+            <TouchableOpacity style={styles.actionButton} onPress={onReserve}>
+              <CalendarCheck size={18} color="#374151" />
+              <Text style={styles.actionText}>{t('lot.actions.reserve')}</Text>
+            </TouchableOpacity>
+          )}
+          {onShare && (
+            <TouchableOpacity style={styles.actionButton} onPress={onShare}>
+              <Share2 size={18} color="#374151" />
+              <Text style={styles.actionText}>{t('lot.actions.share')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {lot.photos && lot.photos.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.photos}>
+            {lot.photos.map(uri => (
+              <Image key={uri} source={{ uri }} style={styles.photo} />
+            ))}
+          </ScrollView>
+        )}
+
+        {lot.address && (
+          <View style={styles.section}>
+            <View style={styles.sectionTitleRow}>
+              <MapPin size={14} color="#6B7280" />
+              <Text style={styles.sectionTitle}>{t('lot.sections.address')}</Text>
+            </View>
+            <Text style={styles.sectionText}>{lot.address}</Text>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('lot.sections.prices')}</Text>
+          {formatPricing(lot.pricing).map(line => (
+            <Text key={line} style={styles.sectionText}>{line}</Text>
+          ))}
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionTitleRow}>
+            <Clock size={14} color="#6B7280" />
+            <Text style={styles.sectionTitle}>{t('lot.sections.hours')}</Text>
+          </View>
+          {formatWeeklyHours(lot.openingHours).map(({ day, hours }) => (
+            <View key={day} style={styles.hoursRow}>
+              <Text style={styles.sectionText}>{day}</Text>
+              <Text style={styles.sectionText}>{hours}</Text>
+            </View>
+          ))}
+        </View>
+
+        {lot.amenities.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('lot.sections.amenities')}</Text>
+            <View style={styles.amenities}>
+              {lot.amenities.map(amenity => (
+                <View key={amenity} style={styles.amenityChip}>
+                  <Text style={styles.amenityText}>{formatAmenity(amenity)}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        <Text style={styles.operatorText}>{t('lot.operator', { name: lot.operator.name })}</Text>
+      </ScrollView>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  sheet: {
+    position: 'absolute',
+    left: 12,
+    right: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 10,
+    elevation: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    overflow: 'hidden',
+    zIndex: 900,
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#D1D5DB',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 12,
+  },
+  favoriteButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#FEF3C7',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  spacesBadge: {
+    minWidth: 56,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  spacesBadgeStale: {
+    opacity: 0.6,
+  },
+  spacesText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  spacesLabel: {
+    color: '#FFFFFF',
+    fontSize: 10,
+    fontWeight: '600',
+    marginTop: -2,
+  },
+  summaryDetails: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  capacityText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  updatedText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  openBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  openText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    paddingHorizontal: 16,
+    paddingBottom: 24,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+  },
+  primaryAction: {
+    backgroundColor: '#3B82F6',
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  primaryActionText: {
+    color: '#FFFFFF',
+  },
+  photos: {
+    marginBottom: 16,
+  },
+  photo: {
+    width: 160,
+    height: 100,
+    borderRadius: 12,
+    marginRight: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  sectionText: {
+    fontSize: 13,
+    color: '#4B5563',
+    lineHeight: 20,
+  },
+  hoursRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  amenities: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  amenityChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+    backgroundColor: '#EFF6FF',
+  },
+  amenityText: {
+    fontSize: 12,
+    color: '#1D4ED8',
+  },
+  operatorText: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+});
@@ -0,0 +1,96 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Car } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { formatAge } from '@/utils/parkingFormat';
+
+interface ParkingProposalBannerProps {
+  parkedAt: number;
+  lotName?: string;
+  onSave: () => void;
+  onDismiss: () => void;
+}
+
+export function ParkingProposalBanner({ parkedAt, lotName, onSave, onDismiss }: ParkingProposalBannerProps) {
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.iconCircle}>
+        <Car size={22} color="#FFFFFF" />
+      </View>
+      <View style={styles.details}>
+        <Text style={styles.primary}>{t('parkingProposal.question')}</Text>
+        <Text style={styles.secondary} numberOfLines={1}>
+          {lotName ? `${lotName} · ` : ''}{t('parkingProposal.stopped', { age: formatAge(Date.now() - parkedAt) })}
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.dismissButton} onPress={onDismiss}>
+        <Text style={styles.dismissText}>{t('common.no')}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.saveButton} onPress={onSave}>
+        <Text style={styles.saveText}>{t('common.save')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  iconCircle: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#7C3AED',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  details: {
+    flex: 1,
+    marginHorizontal: 10,
+  },
+  primary: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  secondary: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  dismissButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  dismissText: {
+    color: '#6B7280',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  saveButton: {
+    backgroundColor: '#7C3AED',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  saveText: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,112 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Clock, Square } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { ParkingSession } from '@/types/parkingSession';
+import { calculateParkingCost } from '@/utils/parkingCost';
+import { formatAmount, formatCountdown } from '@/utils/parkingFormat';
+
+interface ParkingSessionTimerProps {
+  session: ParkingSession;
+  remaining: number | null; // ms until paid-until, null for sessions without a limit
+  elapsed: number; // ms since the session started
+  extendMinutes?: number;
+  onExtend: () => void;
+  onEnd: () => void;
+}
+
+// Warn when this close to expiry
+const WARNING_THRESHOLD = 10 * 60 * 1000;
+
+export function ParkingSessionTimer({
+  session,
+  remaining,
+  elapsed,
+  extendMinutes = 30,
+  onExtend,
+  onEnd,
+}: ParkingSessionTimerProps) {
+  const { t } = useTranslation();
+  const isExpired = remaining !== null && remaining <= 0;
+  const isWarning = remaining !== null && !isExpired && remaining <= WARNING_THRESHOLD;
+  const accentColor = isExpired ? '#EF4444' : isWarning ? '#F59E0B' : '#8B5CF6';
+
+  const cost = session.rate && session.currency
+    ? formatAmount(calculateParkingCost(session.rate, elapsed / 60000, session.dailyMax), session.currency)
+    : null;
+
+  const primary = remaining === null
+    ? formatCountdown(elapsed)
+    : isExpired
+      ? t('sessionTimer.expired', { time: formatCountdown(remaining) })
+      : formatCountdown(remaining);
+
+  return (
+    <View style={[styles.container, { borderColor: accentColor }]}>
+      <Clock size={18} color={accentColor} />
+      <View style={styles.details}>
+        <Text style={[styles.primary, { color: isExpired ? accentColor : '#111827' }]}>{primary}</Text>
+        <Text style={styles.secondary} numberOfLines={1}>
+          {[session.lotName ?? t('common.parkingLot'), cost].filter(Boolean).join(' · ')}
+        </Text>
+      </View>
+      {remaining !== null && (
+        <TouchableOpacity style={[styles.extendButton, { backgroundColor: accentColor }]} onPress={onExtend}>
+          <Text style={styles.extendText}>{t('sessionTimer.extend', { minutes: extendMinutes })}</Text>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity style={styles.endButton} onPress={onEnd}>
+        <Square size={14} color="#EF4444" fill="#EF4444" />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 24,
+    paddingLeft: 14,
+    paddingRight: 6,
+    height: 48,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    borderWidth: 1,
+  },
+  details: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+  primary: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    fontVariant: ['tabular-nums'],
+  },
+  secondary: {
+    fontSize: 11,
+    color: '#6B7280',
+  },
+  extendButton: {
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  extendText: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+    fontSize: 12,
+  },
+  endButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 4,
+  },
+});
@@ -0,0 +1,209 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { CalendarCheck, Navigation, X } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Reservation, ReservationStatus } from '@/types/reservation';
+import { formatAmount, formatClockTime } from '@/utils/parkingFormat';
+import { canCheckIn, getCancellationTerms, getReservationEnd } from '@/utils/reservationRules';
+
+interface ReservationDetailsProps {
+  reservation: Reservation;
+  onCheckIn: () => void;
+  onCancelReservation: () => void;
+  onNavigate?: () => void;
+  onClose: () => void;
+}
+
+export const RESERVATION_STATUS_COLORS: Record<ReservationStatus, string> = {
+  pending: '#F59E0B',
+  confirmed: '#0D9488',
+  active: '#3B82F6',
+  completed: '#6B7280',
+  cancelled: '#EF4444',
+  noShow: '#EF4444',
+};
+
+// Gate pass: status, times, QR/code for the barrier and the cancellation terms
+export function ReservationDetails({ reservation, onCheckIn, onCancelReservation, onNavigate, onClose }: ReservationDetailsProps) {
+  const { t } = useTranslation();
+  const now = Date.now();
+  const terms = getCancellationTerms(reservation, now);
+  const showGateCode = !!reservation.gateCode && (reservation.status === 'confirmed' || reservation.status === 'active');
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.iconContainer}>
+          <CalendarCheck size={22} color="#0D9488" />
+        </View>
+        <View style={styles.headerText}>
+          <Text style={styles.title} numberOfLines={1}>{reservation.lotName}</Text>
+          <Text style={styles.subtitle}>
+            {formatClockTime(reservation.arrivalAt)} – {formatClockTime(getReservationEnd(reservation))} ·{' '}
+            {formatAmount(reservation.price, reservation.currency)}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <X size={18} color="#6B7280" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={[styles.statusBadge, { backgroundColor: RESERVATION_STATUS_COLORS[reservation.status] }]}>
+        <Text style={styles.statusText}>{t(`reservations.status.${reservation.status}`)}</Text>
+      </View>
+
+      {showGateCode ? (
+        <View style={styles.gatePass}>
+          <QRCode value={`parkingfinder:reservation:${reservation.providerId ?? reservation.id}:${reservation.gateCode}`} size={160} />
+          <Text style={styles.gateCode}>{reservation.gateCode}</Text>
+          <Text style={styles.hint}>{t('reservations.details.showCode')}</Text>
+        </View>
+      ) : reservation.status === 'pending' ? (
+        <Text style={styles.hint}>{t('reservations.details.awaitingConfirmation')}</Text>
+      ) : null}
+
+      {reservation.refunded !== undefined && reservation.refunded > 0 && (
+        <Text style={styles.hint}>{t('reservations.details.refunded', { amount: formatAmount(reservation.refunded, reservation.currency) })}</Text>
+      )}
+
+      <View style={styles.actions}>
+        {onNavigate && (reservation.status === 'confirmed' || reservation.status === 'pending') && (
+          <TouchableOpacity style={styles.secondaryButton} onPress={onNavigate}>
+            <Navigation size={16} color="#374151" />
+            <Text style={styles.secondaryButtonText}>{t('lot.actions.navigate')}</Text>
+          </TouchableOpacity>
+        )}
+        {canCheckIn(reservation, now) && (
+          <TouchableOpacity style={styles.primaryButton} onPress={onCheckIn}>
+            <Text style={styles.primaryButtonText}>{t('reservations.details.checkIn')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {terms.allowed && (
+        <TouchableOpacity style={styles.cancelButton} onPress={onCancelReservation}>
+          <Text style={styles.cancelText}>
+            {t('reservations.cancel.title')} ·{' '}
+            {terms.refundRatio === 1
+              ? t('reservations.details.fullRefund')
+              : t('reservations.details.partialRefund', { amount: formatAmount(terms.refund, reservation.currency) })}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#CCFBF1',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  statusText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  gatePass: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  gateCode: {
+    fontSize: 26,
+    fontWeight: 'bold',
+    letterSpacing: 6,
+    color: '#111827',
+    marginTop: 12,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: '#0D9488',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+  },
+  secondaryButtonText: {
+    color: '#374151',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  cancelText: {
+    color: '#EF4444',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
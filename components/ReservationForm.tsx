@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { CalendarCheck, X } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { ParkingLot } from '@/types/parking';
+import { getReservationPrice } from '@/services/reservationStore';
+import { formatNumber, TranslationKey } from '@/utils/i18n';
+import { formatAmount, formatClockTime, formatStayDuration } from '@/utils/parkingFormat';
+import { FREE_CANCELLATION_MINUTES, LATE_CANCELLATION_REFUND } from '@/utils/reservationRules';
+
+interface ReservationFormProps {
+  lot: ParkingLot;
+  walletBalance: number;
+  walletCurrency: string;
+  onConfirm: (arrivalAt: number, durationMinutes: number) => Promise<unknown>;
+  onAddFunds: () => void;
+  onCancel: () => void;
+}
+
+const ARRIVAL_OFFSETS = [15, 30, 60, 120, 240]; // minutes from now
+const DURATIONS = [60, 120, 180, 240];
+
+// Arrival times snap to the next 5 minutes
+const getArrivalTime = (offsetMinutes: number) => {
+  const step = 5 * 60 * 1000;
+  return Math.ceil((Date.now() + offsetMinutes * 60 * 1000) / step) * step;
+};
+
+export function ReservationForm({ lot, walletBalance, walletCurrency, onConfirm, onAddFunds, onCancel }: ReservationFormProps) {
+  const { t } = useTranslation();
+  const [arrivalOffset, setArrivalOffset] = useState(ARRIVAL_OFFSETS[1]);
+  const [duration, setDuration] = useState(DURATIONS[1]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<TranslationKey | null>(null);
+
+  const price = getReservationPrice(lot, duration);
+  const isWalletCurrency = lot.pricing.currency === walletCurrency;
+  const hasFunds = price !== null && walletBalance >= price;
+  const canReserve = price !== null && isWalletCurrency && hasFunds && lot.availability.freeSpaces > 0;
+
+  const confirm = async () => {
+    if (!canReserve || isSubmitting) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onConfirm(getArrivalTime(arrivalOffset), duration);
+    } catch (err) {
+      console.warn('🚫 Could not reserve:', err);
+      setError('reservationForm.failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.iconContainer}>
+          <CalendarCheck size={22} color="#0D9488" />
+        </View>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>{t('reservationForm.title')}</Text>
+          <Text style={styles.subtitle} numberOfLines={1}>{lot.name}</Text>
+        </View>
+        <TouchableOpacity style={styles.closeButton} onPress={onCancel} disabled={isSubmitting}>
+          <X size={18} color="#6B7280" />
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.label}>{t('reservationForm.arrival')}</Text>
+      <View style={styles.options}>
+        {ARRIVAL_OFFSETS.map(offset => (
+          <TouchableOpacity
+            key={offset}
+            style={[styles.option, offset === arrivalOffset && styles.optionSelected]}
+            onPress={() => setArrivalOffset(offset)}
+          >
+            <Text style={[styles.optionText, offset === arrivalOffset && styles.optionTextSelected]}>
+              {formatClockTime(getArrivalTime(offset))}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>{t('reservationForm.duration')}</Text>
+      <View style={styles.options}>
+        {DURATIONS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.option, option === duration && styles.optionSelected]}
+            onPress={() => setDuration(option)}
+          >
+            <Text style={[styles.optionText, option === duration && styles.optionTextSelected]}>
+              {formatStayDuration(option * 60 * 1000)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.priceRow}>
+        <Text style={styles.priceLabel}>{t('reservationForm.total')}</Text>
+        <Text style={styles.price}>
+          {price === null ? t('reservationForm.noRate') : formatAmount(price, lot.pricing.currency)}
+        </Text>
+      </View>
+      <Text style={styles.hint}>
+        {t('reservationForm.cancellationTerms', {
+          minutes: FREE_CANCELLATION_MINUTES,
+          refund: formatNumber(LATE_CANCELLATION_REFUND, { style: 'percent' }),
+        })}
+      </Text>
+      {isWalletCurrency && (
+        <Text style={styles.hint}>{t('startSession.paidFromWallet', { balance: formatAmount(walletBalance, walletCurrency) })}</Text>
+      )}
+
+      {lot.availability.freeSpaces === 0 && <Text style={styles.errorText}>{t('reservationForm.full')}</Text>}
+      {!isWalletCurrency && <Text style={styles.errorText}>{t('reservationForm.walletNotAccepted')}</Text>}
+      {error && <Text style={styles.errorText}>{t(error)}</Text>}
+
+      {isWalletCurrency && price !== null && !hasFunds ? (
+        <TouchableOpacity style={styles.confirmButton} onPress={onAddFunds}>
+          <Text style={styles.confirmButtonText}>{t('wallet.addFunds')}</Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          style={[styles.confirmButton, (!canReserve || isSubmitting) && styles.confirmButtonDisabled]}
+          onPress={confirm}
+          disabled={!canReserve || isSubmitting}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.confirmButtonText}>{t('reservationForm.confirm')}</Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#CCFBF1',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  option: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#F9FAFB',
+  },
+  optionSelected: {
+    borderColor: '#0D9488',
+    backgroundColor: '#0D9488',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
+  },
+  priceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  priceLabel: {
+    fontSize: 15,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  price: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#EF4444',
+    marginTop: 8,
+  },
+  confirmButton: {
+    backgroundColor: '#0D9488',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  confirmButtonDisabled: {
+    opacity: 0.6,
+  },
+  confirmButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,63 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { CalendarCheck } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { ReservationStatus } from '@/types/reservation';
+import { formatClockTime } from '@/utils/parkingFormat';
+
+interface ReservationMarkerProps {
+  status: ReservationStatus;
+  arrivalAt: number;
+}
+
+// Reserved lot: teal pin with the arrival time (amber until the operator confirms)
+export function ReservationMarker({ status, arrivalAt }: ReservationMarkerProps) {
+  const { t } = useTranslation();
+  const color = status === 'pending' ? '#F59E0B' : '#0D9488';
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.bubble, { backgroundColor: color }]}>
+        <CalendarCheck size={14} color="#FFFFFF" />
+        <Text style={styles.time}>{status === 'active' ? t('reservationMarker.inside') : formatClockTime(arrivalAt)}</Text>
+      </View>
+      <View style={[styles.pointer, { borderTopColor: color }]} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  bubble: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    height: 30,
+    borderRadius: 15,
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  time: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  pointer: {
+    width: 0,
+    height: 0,
+    marginTop: -2,
+    borderLeftWidth: 6,
+    borderRightWidth: 6,
+    borderTopWidth: 8,
+    borderLeftColor: 'transparent',
+    borderRightColor: 'transparent',
+  },
+});
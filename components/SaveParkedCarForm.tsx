@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Image } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { Car, Camera, X } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { TranslationKey } from '@/utils/i18n';
+
+interface SaveParkedCarFormProps {
+  lotName?: string; // Lot the user seems to be in
+  accuracy?: number | null;
+  onSave: (details: { note?: string; photoUri?: string }) => void;
+  onCancel: () => void;
+}
+
+export function SaveParkedCarForm({ lotName, accuracy, onSave, onCancel }: SaveParkedCarFormProps) {
+  const { t } = useTranslation();
+  const [note, setNote] = useState('');
+  const [photoUri, setPhotoUri] = useState<string | undefined>();
+  const [photoError, setPhotoError] = useState<TranslationKey | null>(null);
+
+  const takePhoto = async () => {
+    try {
+      const { granted } = await ImagePicker.requestCameraPermissionsAsync();
+      if (!granted) {
+        setPhotoError('saveCar.cameraDenied');
+        return;
+      }
+      const result = await ImagePicker.launchCameraAsync({ quality: 0.5 });
+      if (!result.canceled && result.assets[0]) {
+        setPhotoUri(result.assets[0].uri);
+        setPhotoError(null);
+      }
+    } catch (err) {
+      console.warn('🚫 Could not take photo:', err);
+      setPhotoError('saveCar.cameraFailed');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.iconContainer}>
+          <Car size={22} color="#7C3AED" />
+        </View>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>{t('saveCar.title')}</Text>
+          <Text style={styles.subtitle}>
+            {lotName ?? t('saveCar.currentLocation')}
+            {accuracy ? ` · ±${Math.round(accuracy)}m` : ''}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.closeButton} onPress={onCancel}>
+          <X size={18} color="#6B7280" />
+        </TouchableOpacity>
+      </View>
+
+      <TextInput
+        style={styles.noteInput}
+        placeholder={t('saveCar.notePlaceholder')}
+        placeholderTextColor="#9CA3AF"
+        value={note}
+        onChangeText={setNote}
+      />
+
+      {photoUri ? (
+        <TouchableOpacity onPress={takePhoto}>
+          <Image source={{ uri: photoUri }} style={styles.photo} />
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity style={styles.photoButton} onPress={takePhoto}>
+          <Camera size={18} color="#374151" />
+          <Text style={styles.photoButtonText}>{t('saveCar.addPhoto')}</Text>
+        </TouchableOpacity>
+      )}
+      {photoError && <Text style={styles.errorText}>{t(photoError)}</Text>}
+
+      <TouchableOpacity
+        style={styles.saveButton}
+        onPress={() => onSave({ note: note.trim() || undefined, photoUri })}
+      >
+        <Text style={styles.saveButtonText}>{t('saveCar.save')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#F3E8FF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#374151',
+    marginBottom: 12,
+  },
+  photoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#D1D5DB',
+  },
+  photoButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  photo: {
+    width: '100%',
+    height: 140,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#B91C1C',
+    marginTop: 6,
+  },
+  saveButton: {
+    backgroundColor: '#7C3AED',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,135 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, ActivityIndicator } from 'react-native';
+import { MapPin, Landmark, SquareParking } from 'lucide-react-native';
+import { PlaceSearchErrorCode } from '@/hooks/usePlaceSearch';
+import { useTranslation } from '@/hooks/useTranslation';
+import { PlaceKind, PlaceResult } from '@/types/places';
+import { DistanceUnits } from '@/types/settings';
+import { formatDistance } from '@/utils/geo';
+
+interface SearchResultsListProps {
+  results: PlaceResult[];
+  isSearching: boolean;
+  error?: PlaceSearchErrorCode | null;
+  onSelect: (result: PlaceResult) => void;
+  units?: DistanceUnits;
+}
+
+const KindIcon = ({ kind }: { kind: PlaceKind }) => {
+  switch (kind) {
+    case 'parking':
+      return <SquareParking size={18} color="#3B82F6" />;
+    case 'poi':
+      return <Landmark size={18} color="#6B7280" />;
+    default:
+      return <MapPin size={18} color="#6B7280" />;
+  }
+};
+
+export function SearchResultsList({ results, isSearching, error, onSelect, units = 'metric' }: SearchResultsListProps) {
+  const { t } = useTranslation();
+
+  if (results.length === 0) {
+    return (
+      <View style={[styles.container, styles.emptyContainer]}>
+        {isSearching ? (
+          <ActivityIndicator size="small" color="#3B82F6" />
+        ) : (
+          <Text style={styles.emptyText}>{error ? t(`errors.placeSearch.${error}`) : t('search.noResults')}</Text>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={results}
+        keyExtractor={item => item.id}
+        keyboardShouldPersistTaps="handled"
+        renderItem={({ item }) => (
+          <TouchableOpacity style={styles.row} onPress={() => onSelect(item)}>
+            <View style={[styles.iconContainer, item.kind === 'parking' && styles.parkingIcon]}>
+              <KindIcon kind={item.kind} />
+            </View>
+            <View style={styles.text}>
+              <Text style={styles.name} numberOfLines={1}>{item.name}</Text>
+              {!!item.description && (
+                <Text style={styles.description} numberOfLines={1}>{item.description}</Text>
+              )}
+            </View>
+            {item.distance !== undefined && (
+              <Text style={styles.distance}>{formatDistance(item.distance, units)}</Text>
+            )}
+          </TouchableOpacity>
+        )}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    maxHeight: 320,
+    paddingVertical: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  emptyContainer: {
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  iconContainer: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  parkingIcon: {
+    backgroundColor: '#EFF6FF',
+  },
+  text: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  description: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  distance: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginLeft: 8,
+  },
+  separator: {
+    height: 1,
+    backgroundColor: '#F3F4F6',
+    marginLeft: 56,
+  },
+});
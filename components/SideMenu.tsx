@@ -6,6 +6,8 @@ import {
   TouchableOpacity,
   ScrollView,
   Platform,
+  Alert,
+  Image,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { 
@@ -26,8 +28,14 @@ import {
   ChevronRight, 
   Star, 
   Plus, 
-  CreditCard as Edit 
+  CreditCard as Edit,
+  LogIn
 } from 'lucide-react-native';
+import { Href } from 'expo-router';
+import { useAuth } from '@/hooks/useAuth';
+import { useTranslation } from '@/hooks/useTranslation';
+import { formatNumber } from '@/utils/i18n';
+import { formatAmount } from '@/utils/parkingFormat';
 
 interface LocationData {
   latitude: number;
@@ -46,18 +54,34 @@ interface SideMenuProps {
   location: LocationData | null;
   isTracking: boolean;
   accuracy: number | null;
+  walletBalance: number;
+  walletCurrency: string;
+  onOpenWallet?: () => void;
+  onAddFunds?: () => void;
+  onSignIn?: () => void;
+  onEditProfile?: () => void;
+  favoriteCount?: number;
+  historyCount?: number;
+  onNavigate?: (href: Href) => void; // Open another screen
 }
 
-export function SideMenu({ onClose, location, isTracking, accuracy }: SideMenuProps) {
-  // User data (mock data for now)
-  const userData = {
-    name: 'Carlos M.',
-    email: 'carlos.m@email.com',
-    memberSince: '2024',
-    walletBalance: 0,
-    totalTrips: 47,
-    favoriteSpots: 12,
-  };
+export function SideMenu({
+  onClose,
+  location,
+  isTracking,
+  accuracy,
+  walletBalance,
+  walletCurrency,
+  onOpenWallet,
+  onAddFunds,
+  onSignIn,
+  onEditProfile,
+  favoriteCount = 0,
+  historyCount = 0,
+  onNavigate,
+}: SideMenuProps) {
+  const { user, signOut } = useAuth();
+  const { t } = useTranslation();
 
   // Get signal strength icon and text
   const getSignalIcon = () => {
@@ -77,22 +101,29 @@ export function SideMenu({ onClose, location, isTracking, accuracy }: SideMenuPr
   };
 
   const getSignalText = () => {
-    if (!location) return 'Sin señal';
+    if (!location) return t('menu.gps.signal.none');
     
     switch (location.signalStrength) {
       case 'excellent':
-        return 'Excelente';
+        return t('menu.gps.signal.excellent');
       case 'good':
-        return 'Buena';
+        return t('menu.gps.signal.good');
       case 'poor':
-        return 'Regular';
+        return t('menu.gps.signal.poor');
       case 'lost':
-        return 'Perdida';
+        return t('menu.gps.signal.lost');
       default:
-        return 'Desconocida';
+        return t('menu.gps.signal.unknown');
     }
   };
 
+  const confirmSignOut = () => {
+    Alert.alert(t('menu.signOut.title'), t('menu.signOut.message'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('menu.signOut.confirm'), style: 'destructive', onPress: () => signOut() },
+    ]);
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       {/* Header with Close Button */}
@@ -104,96 +135,122 @@ export function SideMenu({ onClose, location, isTracking, accuracy }: SideMenuPr
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         {/* User Profile Section */}
-        <TouchableOpacity style={styles.userSection} activeOpacity={0.7}>
-          <View style={styles.carAvatarContainer}>
-            {/* Lightning McQueen style car emoji/icon */}
-            <Text style={styles.carEmoji}>🏎️</Text>
-          </View>
-          <View style={styles.userInfo}>
-            <Text style={styles.userName}>{userData.name}</Text>
-            <Text style={styles.userEmail}>{userData.email}</Text>
-            <View style={styles.memberBadge}>
-              <User size={8} color="#3B82F6" />
-              <Text style={styles.memberText}>Desde {userData.memberSince}</Text>
+        {user ? (
+          <TouchableOpacity style={styles.userSection} onPress={onEditProfile} activeOpacity={0.7}>
+            <View style={styles.carAvatarContainer}>
+              {user.avatarUrl ? (
+                <Image source={{ uri: user.avatarUrl }} style={styles.avatarImage} />
+              ) : (
+                // Lightning McQueen style car emoji/icon
+                <Text style={styles.carEmoji}>🏎️</Text>
+              )}
             </View>
-          </View>
-          <TouchableOpacity style={styles.editButton}>
-            <Edit size={12} color="#6B7280" />
+            <View style={styles.userInfo}>
+              <Text style={styles.userName}>{user.name}</Text>
+              <Text style={styles.userEmail}>{user.email}</Text>
+              <View style={styles.memberBadge}>
+                <User size={8} color="#3B82F6" />
+                <Text style={styles.memberText}>{t('menu.since', { year: String(new Date(user.createdAt).getFullYear()) })}</Text>
+              </View>
+            </View>
+            <TouchableOpacity style={styles.editButton} onPress={onEditProfile}>
+              <Edit size={12} color="#6B7280" />
+            </TouchableOpacity>
           </TouchableOpacity>
-        </TouchableOpacity>
+        ) : (
+          <TouchableOpacity style={styles.userSection} onPress={onSignIn} activeOpacity={0.7}>
+            <View style={styles.carAvatarContainer}>
+              <User size={18} color="#9CA3AF" />
+            </View>
+            <View style={styles.userInfo}>
+              <Text style={styles.userName}>{t('menu.guest')}</Text>
+              <Text style={styles.userEmail}>{t('menu.guestHint')}</Text>
+              <View style={styles.memberBadge}>
+                <LogIn size={8} color="#3B82F6" />
+                <Text style={styles.memberText}>{t('auth.signIn')}</Text>
+              </View>
+            </View>
+            <ChevronRight size={14} color="#9CA3AF" />
+          </TouchableOpacity>
+        )}
 
         {/* Wallet Section */}
-        <View style={styles.walletSection}>
+        <TouchableOpacity style={styles.walletSection} onPress={onOpenWallet} activeOpacity={0.8}>
           <View style={styles.walletHeader}>
             <View style={styles.walletIconContainer}>
               <Wallet size={14} color="#10B981" />
             </View>
-            <Text style={styles.walletTitle}>Billetera</Text>
+            <Text style={styles.walletTitle}>{t('menu.wallet')}</Text>
           </View>
           
           <View style={styles.walletBalance}>
-            <Text style={styles.balanceLabel}>Saldo</Text>
-            <Text style={styles.balanceAmount}>${userData.walletBalance.toFixed(2)}</Text>
+            <Text style={styles.balanceLabel}>{t('menu.balance')}</Text>
+            <Text style={[styles.balanceAmount, walletBalance < 0 && styles.negativeBalance]}>
+              {formatAmount(walletBalance, walletCurrency)}
+            </Text>
           </View>
           
-          <TouchableOpacity style={styles.addFundsButton}>
+          <TouchableOpacity style={styles.addFundsButton} onPress={onAddFunds}>
             <Plus size={12} color="#FFFFFF" />
-            <Text style={styles.addFundsText}>Agregar</Text>
+            <Text style={styles.addFundsText}>{t('menu.add')}</Text>
           </TouchableOpacity>
-        </View>
+        </TouchableOpacity>
 
         {/* Settings Section */}
         <View style={styles.settingsSection}>
-          <View style={styles.sectionHeader}>
+          <TouchableOpacity style={styles.sectionHeader} onPress={() => onNavigate?.('/settings')}>
             <Settings size={14} color="#6B7280" />
-            <Text style={styles.sectionTitle}>Configuración</Text>
-          </View>
+            <Text style={styles.sectionTitle}>{t('menu.settings')}</Text>
+          </TouchableOpacity>
           
           <TouchableOpacity style={styles.settingItem}>
             <Bell size={14} color="#6B7280" />
-            <Text style={styles.settingText}>Notificaciones</Text>
+            <Text style={styles.settingText}>{t('menu.notifications')}</Text>
             <ChevronRight size={12} color="#D1D5DB" />
           </TouchableOpacity>
           
-          <TouchableOpacity style={styles.settingItem}>
+          <TouchableOpacity
+            style={styles.settingItem}
+            onPress={() => onNavigate?.({ pathname: '/help', params: { topic: 'privacy' } })}
+          >
             <Shield size={14} color="#6B7280" />
-            <Text style={styles.settingText}>Privacidad</Text>
+            <Text style={styles.settingText}>{t('menu.privacyShort')}</Text>
             <ChevronRight size={12} color="#D1D5DB" />
           </TouchableOpacity>
           
-          <TouchableOpacity style={styles.settingItem}>
+          <TouchableOpacity style={styles.settingItem} onPress={() => onNavigate?.('/favorites')}>
             <Star size={14} color="#F59E0B" />
-            <Text style={styles.settingText}>Favoritos</Text>
+            <Text style={styles.settingText}>{t('menu.favorites')}</Text>
             <View style={styles.badge}>
-              <Text style={styles.badgeText}>{userData.favoriteSpots}</Text>
+              <Text style={styles.badgeText}>{favoriteCount}</Text>
             </View>
             <ChevronRight size={12} color="#D1D5DB" />
           </TouchableOpacity>
           
-          <TouchableOpacity style={styles.settingItem}>
+          <TouchableOpacity style={styles.settingItem} onPress={() => onNavigate?.('/history')}>
             <Clock size={14} color="#8B5CF6" />
-            <Text style={styles.settingText}>Historial</Text>
+            <Text style={styles.settingText}>{t('menu.history')}</Text>
             <View style={styles.badge}>
-              <Text style={styles.badgeText}>{userData.totalTrips}</Text>
+              <Text style={styles.badgeText}>{historyCount}</Text>
             </View>
             <ChevronRight size={12} color="#D1D5DB" />
           </TouchableOpacity>
           
-          <TouchableOpacity style={styles.settingItem}>
+          <TouchableOpacity style={styles.settingItem} onPress={() => onNavigate?.('/help')}>
             <HelpCircle size={14} color="#6B7280" />
-            <Text style={styles.settingText}>Ayuda</Text>
+            <Text style={styles.settingText}>{t('menu.helpShort')}</Text>
             <ChevronRight size={12} color="#D1D5DB" />
           </TouchableOpacity>
         </View>
 
         {/* GPS Status */}
         <View style={styles.gpsSection}>
-          <Text style={styles.gpsSectionTitle}>Estado GPS</Text>
+          <Text style={styles.gpsSectionTitle}>{t('menu.gps.title')}</Text>
           
           <View style={styles.gpsStatus}>
             <View style={styles.gpsRow}>
               {getSignalIcon()}
-              <Text style={styles.gpsLabel}>Señal: {getSignalText()}</Text>
+              <Text style={styles.gpsLabel}>{t('menu.gps.signalLabel', { signal: getSignalText() })}</Text>
               <View style={[
                 styles.statusBadge,
                 { backgroundColor: isTracking ? '#10B981' : '#EF4444' }
@@ -217,7 +274,7 @@ export function SideMenu({ onClose, location, isTracking, accuracy }: SideMenuPr
                   <View style={styles.gpsRow}>
                     <Activity size={10} color="#3B82F6" />
                     <Text style={styles.gpsLabel}>
-                      {(location.speed * 3.6).toFixed(1)} km/h
+                      {formatNumber(location.speed * 3.6, { maximumFractionDigits: 1 })} km/h
                     </Text>
                   </View>
                 )}
@@ -227,10 +284,12 @@ export function SideMenu({ onClose, location, isTracking, accuracy }: SideMenuPr
         </View>
 
         {/* Logout */}
-        <TouchableOpacity style={styles.logoutButton} activeOpacity={0.7}>
-          <LogOut size={16} color="#EF4444" />
-          <Text style={styles.logoutText}>Cerrar Sesión</Text>
-        </TouchableOpacity>
+        {user && (
+          <TouchableOpacity style={styles.logoutButton} onPress={confirmSignOut} activeOpacity={0.7}>
+            <LogOut size={16} color="#EF4444" />
+            <Text style={styles.logoutText}>{t('menu.signOut.confirm')}</Text>
+          </TouchableOpacity>
+        )}
       </ScrollView>
 
       {/* Footer */}
@@ -287,6 +346,11 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: '#DBEAFE',
   },
+  avatarImage: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+  },
   carEmoji: {
     fontSize: 20,
   },
@@ -360,6 +424,9 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginBottom: 2,
   },
+  negativeBalance: {
+    color: '#EF4444',
+  },
   balanceAmount: {
     fontSize: 22,
     fontWeight: 'bold',
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Clock, X } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { ParkingLot } from '@/types/parking';
+import { Translate } from '@/utils/i18n';
+import { calculateParkingCost, getSessionRate } from '@/utils/parkingCost';
+import { formatAmount, formatRate, formatStayDuration } from '@/utils/parkingFormat';
+
+interface StartParkingSessionFormProps {
+  lot?: ParkingLot; // Lot the car is parked in, if known
+  walletBalance?: number;
+  walletCurrency?: string; // Sessions priced in this currency are paid from the wallet
+  onStart: (durationMinutes: number | null) => void; // null = no time limit
+  onCancel: () => void;
+}
+
+const DURATION_OPTIONS: (number | null)[] = [30, 60, 120, 180, null];
+
+const formatOption = (minutes: number | null, t: Translate) =>
+  minutes === null ? t('startSession.noLimit') : formatStayDuration(minutes * 60 * 1000);
+
+export function StartParkingSessionForm({ lot, walletBalance, walletCurrency, onStart, onCancel }: StartParkingSessionFormProps) {
+  const { t } = useTranslation();
+  const [duration, setDuration] = useState<number | null>(60);
+
+  const rate = lot ? getSessionRate(lot.pricing) : undefined;
+  const estimatedCost = lot && rate && duration !== null
+    ? formatAmount(calculateParkingCost(rate, duration, lot.pricing.dailyMax), lot.pricing.currency)
+    : null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.iconContainer}>
+          <Clock size={22} color="#8B5CF6" />
+        </View>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>{t('startSession.title')}</Text>
+          <Text style={styles.subtitle} numberOfLines={1}>
+            {lot ? lot.name : t('startSession.street')}
+            {lot && rate ? ` · ${formatRate(rate, lot.pricing.currency)}` : ''}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.closeButton} onPress={onCancel}>
+          <X size={18} color="#6B7280" />
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.label}>{t('startSession.paidTime')}</Text>
+      <View style={styles.options}>
+        {DURATION_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option ?? 'none'}
+            style={[styles.option, option === duration && styles.optionSelected]}
+            onPress={() => setDuration(option)}
+          >
+            <Text style={[styles.optionText, option === duration && styles.optionTextSelected]}>
+              {formatOption(option, t)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.hint}>
+        {duration === null
+          ? t('startSession.untilEnded')
+          : estimatedCost
+            ? `${t('startSession.estimatedCost', { amount: estimatedCost })} · ${t('startSession.reminder')}`
+            : t('startSession.reminder')}
+      </Text>
+
+      {lot && rate && walletBalance !== undefined && lot.pricing.currency === walletCurrency && (
+        <Text style={styles.hint}>
+          {t('startSession.paidFromWallet', { balance: formatAmount(walletBalance, walletCurrency) })}
+        </Text>
+      )}
+
+      <TouchableOpacity style={styles.startButton} onPress={() => onStart(duration)}>
+        <Text style={styles.startButtonText}>{t('startSession.start')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#F3E8FF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#F9FAFB',
+  },
+  optionSelected: {
+    borderColor: '#8B5CF6',
+    backgroundColor: '#8B5CF6',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 12,
+  },
+  startButton: {
+    backgroundColor: '#8B5CF6',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  startButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator } from 'react-native';
+import { Wallet, X } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { PaymentError } from '@/services/paymentProvider';
+import { TranslationKey } from '@/utils/i18n';
+import { formatAmount } from '@/utils/parkingFormat';
+
+interface TopUpFormProps {
+  currency: string;
+  onTopUp: (amount: number) => Promise<unknown>;
+  onClose: () => void;
+}
+
+const PRESET_AMOUNTS = [20, 50, 100, 200];
+
+export function TopUpForm({ currency, onTopUp, onClose }: TopUpFormProps) {
+  const { t } = useTranslation();
+  const [amount, setAmount] = useState<number | null>(PRESET_AMOUNTS[1]);
+  const [customAmount, setCustomAmount] = useState('');
+  const [isPaying, setIsPaying] = useState(false);
+  const [error, setError] = useState<TranslationKey | null>(null);
+
+  const selectedAmount = customAmount ? Number(customAmount.replace(',', '.')) : amount;
+  const isValid = selectedAmount !== null && Number.isFinite(selectedAmount) && selectedAmount > 0;
+
+  const pay = async () => {
+    if (!isValid || isPaying) return;
+    setIsPaying(true);
+    setError(null);
+    try {
+      await onTopUp(Math.round(selectedAmount * 100) / 100);
+      onClose();
+    } catch (err) {
+      console.warn('🚫 Top-up failed:', err);
+      setError(err instanceof PaymentError ? `errors.payment.${err.code}` : 'wallet.paymentFailed');
+      setIsPaying(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.iconContainer}>
+          <Wallet size={22} color="#10B981" />
+        </View>
+        <Text style={styles.title}>{t('wallet.addFunds')}</Text>
+        <TouchableOpacity style={styles.closeButton} onPress={onClose} disabled={isPaying}>
+          <X size={18} color="#6B7280" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.options}>
+        {PRESET_AMOUNTS.map(preset => {
+          const isSelected = !customAmount && preset === amount;
+          return (
+            <TouchableOpacity
+              key={preset}
+              style={[styles.option, isSelected && styles.optionSelected]}
+              onPress={() => {
+                setAmount(preset);
+                setCustomAmount('');
+              }}
+            >
+              <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+                {formatAmount(preset, currency)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <TextInput
+        style={styles.amountInput}
+        placeholder={t('topUp.otherAmount')}
+        placeholderTextColor="#9CA3AF"
+        keyboardType="decimal-pad"
+        value={customAmount}
+        onChangeText={setCustomAmount}
+      />
+
+      {error && <Text style={styles.errorText}>{t(error)}</Text>}
+
+      <TouchableOpacity
+        style={[styles.payButton, (!isValid || isPaying) && styles.payButtonDisabled]}
+        onPress={pay}
+        disabled={!isValid || isPaying}
+      >
+        {isPaying ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text style={styles.payButtonText}>
+            {isValid ? t('topUp.payAmount', { amount: formatAmount(selectedAmount, currency) }) : t('topUp.pay')}
+          </Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#DCFCE7',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  title: {
+    flex: 1,
+    marginLeft: 12,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  option: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#F9FAFB',
+  },
+  optionSelected: {
+    borderColor: '#10B981',
+    backgroundColor: '#10B981',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
+  },
+  amountInput: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#374151',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#EF4444',
+    marginTop: 8,
+  },
+  payButton: {
+    backgroundColor: '#10B981',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  payButtonDisabled: {
+    opacity: 0.6,
+  },
+  payButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Switch, ActivityIndicator } from 'react-native';
+import { Car, X } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { VehicleInput } from '@/services/vehicleStore';
+import { Vehicle, VehicleSize } from '@/types/vehicle';
+import { TranslationKey } from '@/utils/i18n';
+import { formatVehicleSize, VEHICLE_SIZES } from '@/utils/vehicleFit';
+
+interface VehicleFormProps {
+  vehicle?: Vehicle; // Editing an existing vehicle
+  isDefault?: boolean;
+  onSave: (input: VehicleInput, makeDefault: boolean) => Promise<unknown>;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+const parseHeight = (text: string) => {
+  const value = Number(text.replace(',', '.'));
+  return text.trim() && Number.isFinite(value) && value > 0 ? value : undefined;
+};
+
+export function VehicleForm({ vehicle, isDefault = false, onSave, onDelete, onClose }: VehicleFormProps) {
+  const { t } = useTranslation();
+  const [plate, setPlate] = useState(vehicle?.plate ?? '');
+  const [make, setMake] = useState(vehicle?.make ?? '');
+  const [model, setModel] = useState(vehicle?.model ?? '');
+  const [size, setSize] = useState<VehicleSize>(vehicle?.size ?? 'medium');
+  const [isElectric, setIsElectric] = useState(vehicle?.isElectric ?? false);
+  const [height, setHeight] = useState(vehicle?.height !== undefined ? String(vehicle.height) : '');
+  const [makeDefault, setMakeDefault] = useState(isDefault);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<TranslationKey | null>(null);
+
+  const isValid = plate.trim().length > 0 && (!height.trim() || parseHeight(height) !== undefined);
+
+  const save = async () => {
+    if (!isValid || isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(
+        {
+          plate,
+          make: make.trim() || undefined,
+          model: model.trim() || undefined,
+          size,
+          isElectric,
+          height: parseHeight(height),
+        },
+        makeDefault
+      );
+      onClose();
+    } catch (err) {
+      console.warn('🚫 Could not save vehicle:', err);
+      setError('vehicles.form.saveFailed');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.iconContainer}>
+          <Car size={22} color="#3B82F6" />
+        </View>
+        <Text style={styles.title}>{vehicle ? t('vehicles.form.editTitle') : t('vehicles.form.addTitle')}</Text>
+        <TouchableOpacity style={styles.closeButton} onPress={onClose} disabled={isSaving}>
+          <X size={18} color="#6B7280" />
+        </TouchableOpacity>
+      </View>
+
+      <TextInput
+        style={styles.input}
+        placeholder={t('vehicles.form.plate')}
+        placeholderTextColor="#9CA3AF"
+        autoCapitalize="characters"
+        value={plate}
+        onChangeText={setPlate}
+      />
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[styles.input, styles.inputHalf]}
+          placeholder={t('vehicles.form.make')}
+          placeholderTextColor="#9CA3AF"
+          value={make}
+          onChangeText={setMake}
+        />
+        <TextInput
+          style={[styles.input, styles.inputHalf]}
+          placeholder={t('vehicles.form.model')}
+          placeholderTextColor="#9CA3AF"
+          value={model}
+          onChangeText={setModel}
+        />
+      </View>
+
+      <Text style={styles.label}>{t('vehicles.form.size')}</Text>
+      <View style={styles.options}>
+        {VEHICLE_SIZES.map(option => {
+          const isSelected = option === size;
+          return (
+            <TouchableOpacity
+              key={option}
+              style={[styles.option, isSelected && styles.optionSelected]}
+              onPress={() => setSize(option)}
+            >
+              <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+                {formatVehicleSize(option)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <TextInput
+        style={styles.input}
+        placeholder={t('vehicles.form.height')}
+        placeholderTextColor="#9CA3AF"
+        keyboardType="decimal-pad"
+        value={height}
+        onChangeText={setHeight}
+      />
+
+      <View style={styles.switchRow}>
+        <Text style={styles.switchLabel}>{t('vehicles.form.electric')}</Text>
+        <Switch value={isElectric} onValueChange={setIsElectric} />
+      </View>
+      <View style={styles.switchRow}>
+        <Text style={styles.switchLabel}>{t('vehicles.form.default')}</Text>
+        <Switch value={makeDefault} onValueChange={setMakeDefault} disabled={isDefault} />
+      </View>
+
+      {error && <Text style={styles.errorText}>{t(error)}</Text>}
+
+      <TouchableOpacity
+        style={[styles.saveButton, (!isValid || isSaving) && styles.saveButtonDisabled]}
+        onPress={save}
+        disabled={!isValid || isSaving}
+      >
+        {isSaving ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.saveButtonText}>{t('common.save')}</Text>}
+      </TouchableOpacity>
+
+      {vehicle && onDelete && (
+        <TouchableOpacity style={styles.deleteButton} onPress={onDelete} disabled={isSaving}>
+          <Text style={styles.deleteText}>{t('vehicles.form.delete')}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#DBEAFE',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  title: {
+    flex: 1,
+    marginLeft: 12,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#374151',
+    marginBottom: 10,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  inputHalf: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  option: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#F9FAFB',
+  },
+  optionSelected: {
+    borderColor: '#3B82F6',
+    backgroundColor: '#3B82F6',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  switchLabel: {
+    fontSize: 15,
+    color: '#374151',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#EF4444',
+    marginTop: 8,
+  },
+  saveButton: {
+    backgroundColor: '#3B82F6',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  deleteButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  deleteText: {
+    fontSize: 14,
+    color: '#EF4444',
+    fontWeight: '500',
+  },
+});
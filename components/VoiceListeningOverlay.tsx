@@ -0,0 +1,155 @@
+import React, { useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Animated } from 'react-native';
+import { Mic, X } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { VoiceSearchErrorCode } from '@/hooks/useVoiceSearch';
+import { SpeechLanguage } from '@/utils/speechRecognizer';
+
+interface VoiceListeningOverlayProps {
+  isListening: boolean;
+  transcript: string;
+  error: VoiceSearchErrorCode | null;
+  language: SpeechLanguage;
+  onToggleLanguage: () => void;
+  onClose: () => void;
+}
+
+// Endonyms: each recognition language is named in itself
+const LANGUAGE_LABELS: Record<SpeechLanguage, string> = {
+  'es-ES': 'Español',
+  'en-US': 'English',
+};
+
+export function VoiceListeningOverlay({
+  isListening,
+  transcript,
+  error,
+  language,
+  onToggleLanguage,
+  onClose,
+}: VoiceListeningOverlayProps) {
+  const { t } = useTranslation();
+  const pulse = useRef(new Animated.Value(1)).current;
+
+  // Pulse the microphone while listening
+  useEffect(() => {
+    if (!isListening) {
+      pulse.setValue(1);
+      return;
+    }
+    const animation = Animated.loop(
+      Animated.sequence([
+        Animated.timing(pulse, { toValue: 1.25, duration: 600, useNativeDriver: true }),
+        Animated.timing(pulse, { toValue: 1, duration: 600, useNativeDriver: true }),
+      ])
+    );
+    animation.start();
+    return () => animation.stop();
+  }, [isListening, pulse]);
+
+  const getHint = () => {
+    if (error) return t(`errors.voice.${error}`);
+    if (transcript) return `"${transcript}"`;
+    // Example in the language being recognised, not the app language
+    return language === 'en-US'
+      ? 'Try "parking near the Bund"'
+      : 'Prueba "aparcamiento cerca del Bund"';
+  };
+
+  return (
+    <View style={styles.container}>
+      {!isListening && (
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <X size={18} color="#6B7280" />
+        </TouchableOpacity>
+      )}
+
+      <Animated.View
+        style={[
+          styles.micCircle,
+          error && styles.micCircleError,
+          { transform: [{ scale: pulse }] },
+        ]}
+      >
+        <Mic size={32} color="#FFFFFF" />
+      </Animated.View>
+
+      <Text style={styles.title}>
+        {isListening ? t('voice.listening') : error ? t('voice.failed') : t('voice.holdToTalk')}
+      </Text>
+      <Text style={[styles.hint, !!error && styles.hintError]} numberOfLines={3}>
+        {getHint()}
+      </Text>
+
+      <TouchableOpacity style={styles.languageChip} onPress={onToggleLanguage} disabled={isListening}>
+        <Text style={styles.languageText}>{LANGUAGE_LABELS[language]}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    paddingVertical: 24,
+    paddingHorizontal: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 10,
+    elevation: 6,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  micCircle: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  micCircleError: {
+    backgroundColor: '#9CA3AF',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginTop: 16,
+  },
+  hint: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 6,
+    textAlign: 'center',
+  },
+  hintError: {
+    color: '#B91C1C',
+  },
+  languageChip: {
+    marginTop: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#EFF6FF',
+  },
+  languageText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1D4ED8',
+  },
+});
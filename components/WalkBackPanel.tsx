@@ -0,0 +1,149 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import { ArrowUp, Car, Share2, X } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { ParkedCar } from '@/types/parkedCar';
+import { DistanceUnits } from '@/types/settings';
+import { formatDistance } from '@/utils/geo';
+import { Translate } from '@/utils/i18n';
+
+interface WalkBackPanelProps {
+  parkedCar: ParkedCar;
+  distance: number; // meters to the car
+  relativeBearing: number; // degrees relative to where the user is facing
+  hasArrived: boolean;
+  onStop: () => void;
+  onClearCar: () => void;
+  onShare?: () => void; // Send a link to where the car is
+  units?: DistanceUnits;
+}
+
+// Plain-language hint for the direction to the car
+const getDirectionHint = (relativeBearing: number, t: Translate) => {
+  const angle = relativeBearing > 180 ? relativeBearing - 360 : relativeBearing;
+  if (Math.abs(angle) <= 20) return t('walkBack.straight');
+  if (Math.abs(angle) >= 150) return t('walkBack.turnAround');
+  return angle > 0 ? t('walkBack.onYourRight') : t('walkBack.onYourLeft');
+};
+
+export function WalkBackPanel({ parkedCar, distance, relativeBearing, hasArrived, onStop, onClearCar, onShare, units = 'metric' }: WalkBackPanelProps) {
+  const { t } = useTranslation();
+
+  if (hasArrived) {
+    return (
+      <View style={styles.container}>
+        <View style={[styles.directionCircle, styles.arrivedCircle]}>
+          <Car size={26} color="#FFFFFF" />
+        </View>
+        <View style={styles.details}>
+          <Text style={styles.primary}>{t('walkBack.arrived')}</Text>
+          {!!parkedCar.note && <Text style={styles.secondary} numberOfLines={1}>{parkedCar.note}</Text>}
+        </View>
+        <TouchableOpacity style={styles.clearButton} onPress={onClearCar}>
+          <Text style={styles.clearText}>{t('walkBack.forget')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.stopButton} onPress={onStop}>
+          <X size={20} color="#6B7280" />
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.directionCircle, { transform: [{ rotate: `${relativeBearing}deg` }] }]}>
+        <ArrowUp size={26} color="#FFFFFF" />
+      </View>
+      <View style={styles.details}>
+        <Text style={styles.primary}>{t('walkBack.distance', { distance: formatDistance(distance, units) })}</Text>
+        <Text style={styles.secondary} numberOfLines={1}>
+          {getDirectionHint(relativeBearing, t)}
+          {parkedCar.note ? ` · ${parkedCar.note}` : ''}
+        </Text>
+      </View>
+      {parkedCar.photoUri && <Image source={{ uri: parkedCar.photoUri }} style={styles.thumbnail} />}
+      {onShare && (
+        <TouchableOpacity style={styles.shareButton} onPress={onShare}>
+          <Share2 size={18} color="#6B7280" />
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity style={styles.stopButton} onPress={onStop}>
+        <X size={20} color="#6B7280" />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  directionCircle: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: '#7C3AED',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  arrivedCircle: {
+    backgroundColor: '#10B981',
+  },
+  details: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  primary: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  secondary: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  thumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    marginRight: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  shareButton: {
+    padding: 8,
+    marginRight: 4,
+  },
+  clearButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: '#FEE2E2',
+    marginRight: 8,
+  },
+  clearText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#B91C1C',
+  },
+  stopButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -0,0 +1,90 @@
+import { OpeningHours, ParkingLot } from '@/types/parking';
+
+// Bundled dataset used when no parking backend is configured (and as an offline fallback).
+// Availability here is a static snapshot; live values come from the backend.
+
+const OPEN_24H: OpeningHours = { is24h: true, periods: [], timezone: 'Asia/Shanghai' };
+
+const daily = (open: string, close: string): OpeningHours => ({
+  is24h: false,
+  periods: [0, 1, 2, 3, 4, 5, 6].map(day => ({ day, open, close })),
+  timezone: 'Asia/Shanghai',
+});
+
+const SNAPSHOT_TIME = Date.UTC(2025, 5, 28);
+
+export const bundledParkingLots: ParkingLot[] = [
+  // Beijing
+  {
+    id: 'bj1',
+    name: 'Forbidden City',
+    city: 'Beijing',
+    address: '4 Jingshan Front St, Dongcheng',
+    location: { latitude: 39.9042, longitude: 116.4074 },
+    entrances: [
+      { id: 'bj1-e1', coordinate: { latitude: 39.9039, longitude: 116.4069 }, type: 'vehicle' },
+      { id: 'bj1-p1', coordinate: { latitude: 39.9045, longitude: 116.4078 }, type: 'pedestrian' },
+    ],
+    capacity: 120,
+    availability: { freeSpaces: 45, updatedAt: SNAPSHOT_TIME, source: 'static' },
+    pricing: { currency: 'CNY', rates: [{ amount: 10, per: 'hour', firstMinutesFree: 15 }], dailyMax: 80 },
+    openingHours: daily('06:00', '22:00'),
+    operator: { name: 'Beijing Public Parking' },
+    amenities: ['security', 'disabled_access', 'toilets'],
+  },
+  {
+    id: 'bj2',
+    name: 'Beihai Park',
+    city: 'Beijing',
+    address: '1 Wenjin St, Xicheng',
+    location: { latitude: 39.9163, longitude: 116.3972 },
+    entrances: [
+      { id: 'bj2-e1', coordinate: { latitude: 39.9160, longitude: 116.3968 }, type: 'both' },
+    ],
+    capacity: 60,
+    availability: { freeSpaces: 28, updatedAt: SNAPSHOT_TIME, source: 'static' },
+    pricing: { currency: 'CNY', rates: [{ amount: 8, per: 'hour' }], dailyMax: 60 },
+    openingHours: daily('06:30', '21:00'),
+    operator: { name: 'Xicheng Parking Management' },
+    amenities: ['disabled_access', 'motorcycle'],
+  },
+
+  // Shanghai
+  {
+    id: 'sh1',
+    name: 'The Bund',
+    city: 'Shanghai',
+    address: 'Zhongshan East 1st Rd, Huangpu',
+    location: { latitude: 31.2304, longitude: 121.4737 },
+    entrances: [
+      { id: 'sh1-e1', coordinate: { latitude: 31.2301, longitude: 121.4733 }, type: 'vehicle' },
+      { id: 'sh1-p1', coordinate: { latitude: 31.2307, longitude: 121.4741 }, type: 'pedestrian' },
+    ],
+    capacity: 200,
+    availability: { freeSpaces: 35, updatedAt: SNAPSHOT_TIME, source: 'static' },
+    pricing: { currency: 'CNY', rates: [{ amount: 15, per: 'hour' }], dailyMax: 120 },
+    openingHours: OPEN_24H,
+    operator: { name: 'Huangpu Parking Co.' },
+    amenities: ['covered', 'security', 'ev_charging', 'disabled_access'],
+    restrictions: { maxHeight: 2.0 },
+  },
+
+  // Guangzhou
+  {
+    id: 'gz1',
+    name: 'Canton Tower',
+    city: 'Guangzhou',
+    address: '222 Yuejiang West Rd, Haizhu',
+    location: { latitude: 23.1291, longitude: 113.2644 },
+    entrances: [
+      { id: 'gz1-e1', coordinate: { latitude: 23.1288, longitude: 113.2640 }, type: 'vehicle' },
+    ],
+    capacity: 150,
+    availability: { freeSpaces: 52, updatedAt: SNAPSHOT_TIME, source: 'static' },
+    pricing: { currency: 'CNY', rates: [{ amount: 10, per: 'hour' }], dailyMax: 70 },
+    openingHours: daily('08:00', '23:00'),
+    operator: { name: 'Canton Tower Management' },
+    amenities: ['covered', 'ev_charging', 'toilets', 'car_wash'],
+    restrictions: { maxHeight: 2.2 },
+  },
+];
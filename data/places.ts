@@ -0,0 +1,88 @@
+import { BundledPlace } from '@/types/places';
+
+// Offline gazetteer used when no geocoding service is configured (and as a fallback).
+// Covers the areas of the bundled parking lots.
+
+export const bundledPlaces: BundledPlace[] = [
+  // Beijing
+  {
+    id: 'place-bj-forbidden-city',
+    kind: 'poi',
+    name: 'Forbidden City',
+    aliases: ['Ciudad Prohibida', 'Palace Museum', '故宫'],
+    city: 'Beijing',
+    address: '4 Jingshan Front St, Dongcheng',
+    coordinate: { latitude: 39.9163, longitude: 116.3972 },
+  },
+  {
+    id: 'place-bj-tiananmen',
+    kind: 'poi',
+    name: 'Tiananmen Square',
+    aliases: ['Plaza de Tiananmen', '天安门广场'],
+    city: 'Beijing',
+    coordinate: { latitude: 39.9055, longitude: 116.3976 },
+  },
+  {
+    id: 'place-bj-beihai',
+    kind: 'poi',
+    name: 'Beihai Park',
+    aliases: ['Parque Beihai', '北海公园'],
+    city: 'Beijing',
+    address: '1 Wenjin St, Xicheng',
+    coordinate: { latitude: 39.9254, longitude: 116.3893 },
+  },
+  {
+    id: 'place-bj-wangfujing',
+    kind: 'address',
+    name: 'Wangfujing Street',
+    aliases: ['Calle Wangfujing', '王府井大街'],
+    city: 'Beijing',
+    coordinate: { latitude: 39.9110, longitude: 116.4103 },
+  },
+
+  // Shanghai
+  {
+    id: 'place-sh-bund',
+    kind: 'poi',
+    name: 'The Bund',
+    aliases: ['El Bund', 'Waitan', '外滩'],
+    city: 'Shanghai',
+    address: 'Zhongshan East 1st Rd, Huangpu',
+    coordinate: { latitude: 31.2400, longitude: 121.4900 },
+  },
+  {
+    id: 'place-sh-nanjing-road',
+    kind: 'address',
+    name: 'Nanjing Road',
+    aliases: ['Calle Nanjing', '南京路'],
+    city: 'Shanghai',
+    coordinate: { latitude: 31.2352, longitude: 121.4756 },
+  },
+  {
+    id: 'place-sh-people-square',
+    kind: 'poi',
+    name: "People's Square",
+    aliases: ['Plaza del Pueblo', '人民广场'],
+    city: 'Shanghai',
+    coordinate: { latitude: 31.2317, longitude: 121.4726 },
+  },
+
+  // Guangzhou
+  {
+    id: 'place-gz-canton-tower',
+    kind: 'poi',
+    name: 'Canton Tower',
+    aliases: ['Torre de Cantón', '广州塔'],
+    city: 'Guangzhou',
+    address: '222 Yuejiang West Rd, Haizhu',
+    coordinate: { latitude: 23.1066, longitude: 113.3245 },
+  },
+  {
+    id: 'place-gz-tianhe',
+    kind: 'address',
+    name: 'Tianhe Road',
+    aliases: ['Avenida Tianhe', '天河路'],
+    city: 'Guangzhou',
+    coordinate: { latitude: 23.1322, longitude: 113.3240 },
+  },
+];
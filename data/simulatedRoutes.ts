@@ -0,0 +1,36 @@
+import { LocationSource } from '@/types/settings';
+import { SimulatedLocationOptions } from '@/utils/simulatedLocationProvider';
+
+// Scripted routes for the development location sources, around the bundled Beijing lots.
+// Fixed seeds keep every run of a route the same.
+
+export const simulatedLocationSources: Partial<Record<LocationSource, SimulatedLocationOptions>> = {
+  // A block around the Forbidden City car park at ~36 km/h, on a loop
+  simulatedDrive: {
+    route: [
+      { latitude: 39.9, longitude: 116.4074, at: 0 },
+      { latitude: 39.9042, longitude: 116.4074, at: 47 },
+      { latitude: 39.9042, longitude: 116.413, at: 95 },
+      { latitude: 39.9, longitude: 116.413, at: 142 },
+      { latitude: 39.9, longitude: 116.4074, at: 190 },
+    ],
+    loop: true,
+    seed: 1,
+  },
+  // Parking detection end to end: drive to the Forbidden City car park, stop, walk off,
+  // come back after a while and drive away (should propose the spot, then report the return)
+  simulatedParking: {
+    route: [
+      { latitude: 39.898, longitude: 116.4069, at: 0 },
+      { latitude: 39.9039, longitude: 116.4069, at: 90 }, // ~26 km/h
+      { latitude: 39.9039, longitude: 116.4069, at: 130 }, // Parked, getting out
+      { latitude: 39.905, longitude: 116.408, at: 250 }, // Walking ~150 m away
+      { latitude: 39.905, longitude: 116.408, at: 550 },
+      { latitude: 39.9039, longitude: 116.4069, at: 670 }, // Back at the car
+      { latitude: 39.9039, longitude: 116.4069, at: 700 },
+      { latitude: 39.898, longitude: 116.4069, at: 790 }, // Driving off
+    ],
+    loop: true,
+    seed: 2,
+  },
+};
@@ -0,0 +1,30 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import { authStore, AuthStore } from '@/services/authStore';
+
+// Wrap a subtree in <AuthStoreContext.Provider value={...}> to swap the
+// account backend (e.g. a store built on the local provider) for every screen inside it
+export const AuthStoreContext = createContext<AuthStore>(authStore);
+
+// The signed-in session, shared by every component through the store
+export function useAuth() {
+  const store = useContext(AuthStoreContext);
+  const [state, setState] = useState(store.get());
+
+  useEffect(() => {
+    const unsubscribe = store.subscribe(setState);
+    store.load().then(setState);
+    return unsubscribe;
+  }, [store]);
+
+  return {
+    status: state.status,
+    user: state.session?.user ?? null,
+    isSignedIn: state.status === 'signedIn',
+    signIn: store.signIn,
+    signUp: store.signUp,
+    signInWithOAuth: store.signInWithOAuth,
+    signOut: store.signOut,
+    getAccessToken: store.getAccessToken,
+    updateProfile: store.updateProfile,
+  };
+}
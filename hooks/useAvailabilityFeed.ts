@@ -0,0 +1,98 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  AvailabilityFeedStatus,
+  AvailabilityTransport,
+  AvailabilityUpdate,
+  createAvailabilityFeed,
+} from '@/services/availabilityFeed';
+import { parkingRepository, ParkingRepository } from '@/services/parkingRepository';
+import { ParkingLot } from '@/types/parking';
+
+const AVAILABILITY_URL = process.env.EXPO_PUBLIC_AVAILABILITY_URL;
+
+interface UseAvailabilityFeedOptions {
+  baseUrl?: string | null;
+  repository?: ParkingRepository;
+  staleAfter?: number; // ms without messages before the data is considered stale
+}
+
+// Apply a live update on top of a lot, clamping deltas to [0, capacity]
+const applyUpdate = (lot: ParkingLot, update: AvailabilityUpdate): ParkingLot => {
+  // Ignore updates older than what we already show
+  if (update.timestamp < lot.availability.updatedAt && lot.availability.source === 'live') return lot;
+
+  const freeSpaces = 'delta' in update
+    ? lot.availability.freeSpaces + update.delta
+    : update.freeSpaces;
+
+  return {
+    ...lot,
+    availability: {
+      freeSpaces: Math.max(0, Math.min(lot.capacity, freeSpaces)),
+      updatedAt: update.timestamp,
+      source: 'live',
+    },
+  };
+};
+
+// Keeps parking availability live while mounted and reports how fresh it is
+export function useAvailabilityFeed(options: UseAvailabilityFeedOptions = {}) {
+  const {
+    baseUrl = AVAILABILITY_URL ?? null,
+    repository = parkingRepository,
+    staleAfter = 60 * 1000,
+  } = options;
+
+  const [status, setStatus] = useState<AvailabilityFeedStatus>('offline');
+  const [transport, setTransport] = useState<AvailabilityTransport | null>(null);
+  const [lastUpdateAt, setLastUpdateAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const lastUpdateRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!baseUrl) return;
+
+    const feed = createAvailabilityFeed({
+      baseUrl,
+      onUpdates: (updates) => {
+        const changes: Record<string, (lot: ParkingLot) => ParkingLot> = {};
+        updates.forEach(update => {
+          const previous = changes[update.lotId];
+          changes[update.lotId] = previous
+            ? (lot) => applyUpdate(previous(lot), update)
+            : (lot) => applyUpdate(lot, update);
+        });
+        repository.updateLots(changes);
+
+        lastUpdateRef.current = Date.now();
+        setLastUpdateAt(lastUpdateRef.current);
+      },
+      onStatusChange: (newStatus, newTransport) => {
+        setStatus(newStatus);
+        setTransport(newTransport);
+      },
+    });
+
+    feed.start();
+    return () => feed.stop();
+  }, [baseUrl, repository]);
+
+  // Tick so the "last updated" age and stale flag refresh while nothing arrives
+  useEffect(() => {
+    if (!baseUrl) return;
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
+  }, [baseUrl]);
+
+  const age = lastUpdateAt ? Math.max(0, now - lastUpdateAt) : null;
+
+  return {
+    isEnabled: !!baseUrl,
+    status,
+    transport,
+    lastUpdateAt,
+    age,
+    // Stale once the feed drops or goes quiet for too long
+    isStale: !!baseUrl && (status !== 'live' || age === null || age > staleAfter),
+  };
+}
@@ -0,0 +1,73 @@
+import { useState, useEffect, useMemo } from 'react';
+import { favoritesStore, FavoritesStore } from '@/services/favoritesStore';
+import { parkingRepository, ParkingRepository } from '@/services/parkingRepository';
+import { useAuth } from '@/hooks/useAuth';
+import { ParkingLot } from '@/types/parking';
+
+interface UseFavoritesOptions {
+  store?: FavoritesStore;
+  repository?: ParkingRepository;
+}
+
+// Favourite lots with their live data, synced with the account while signed in
+export function useFavorites(options: UseFavoritesOptions = {}) {
+  const { store = favoritesStore, repository = parkingRepository } = options;
+  const { isSignedIn, getAccessToken } = useAuth();
+  const [favorites, setFavorites] = useState(store.get());
+  const [lots, setLots] = useState<Record<string, ParkingLot>>({});
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = store.subscribe(setFavorites);
+    store.load().then(loadedFavorites => {
+      setFavorites(loadedFavorites);
+      setIsLoaded(true);
+    });
+    return unsubscribe;
+  }, [store]);
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+    getAccessToken()
+      .then(token => (token ? store.sync(token) : undefined))
+      .catch(err => console.warn('Could not sync favorites:', err));
+  }, [isSignedIn, getAccessToken, store]);
+
+  // Favourites may be far from the map: fetch them, then follow cache updates (live availability)
+  useEffect(() => {
+    let isActive = true;
+    const refresh = () => {
+      if (!isActive) return;
+      const next: Record<string, ParkingLot> = {};
+      favorites.forEach(favorite => {
+        const lot = repository.getCachedLot(favorite.lotId);
+        if (lot) next[favorite.lotId] = lot;
+      });
+      setLots(next);
+    };
+
+    Promise.all(favorites.map(favorite => repository.getLot(favorite.lotId).catch(() => null))).then(refresh);
+    const unsubscribe = repository.subscribe(refresh);
+    return () => {
+      isActive = false;
+      unsubscribe();
+    };
+  }, [favorites, repository]);
+
+  const favoriteIds = useMemo(() => new Set(favorites.map(favorite => favorite.lotId)), [favorites]);
+
+  const toggleFavorite = async (lot: ParkingLot) =>
+    store.toggle(lot, isSignedIn ? await getAccessToken() : null);
+
+  const removeFavorite = async (lotId: string) =>
+    store.remove(lotId, isSignedIn ? await getAccessToken() : null);
+
+  return {
+    favorites,
+    favoriteIds,
+    favoriteLots: lots,
+    isLoaded,
+    toggleFavorite,
+    removeFavorite,
+  };
+}
@@ -0,0 +1,10 @@
+import { createContext, useContext } from 'react';
+import { expoLocationProvider, LocationProvider } from '@/utils/locationProvider';
+
+// Wrap a subtree in <LocationProviderContext.Provider value={...}> to swap the
+// location source (simulated routes, replayed traces) for every tracking hook inside it
+export const LocationProviderContext = createContext<LocationProvider>(expoLocationProvider);
+
+export function useLocationProvider() {
+  return useContext(LocationProviderContext);
+}
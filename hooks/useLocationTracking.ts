@@ -1,6 +1,23 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import * as Location from 'expo-location';
-import { Platform } from 'react-native';
+import {
+  DEFAULT_LOCATION_VALIDATION_CONFIG,
+  LocationRuleName,
+  LocationValidationConfig,
+  LocationValidationOverrides,
+  resolveValidationConfig,
+  validateLocation,
+} from '@/utils/locationValidation';
+import { createPositionFilter, PositionEstimate, PositionFilter, PositionFilterOptions } from '@/utils/positionFilter';
+import {
+  createTraceRecorder,
+  createTraceReplayer,
+  GpsTrace,
+  saveTrace,
+  TraceRecorder,
+} from '@/utils/gpsTrace';
+import { LocationProvider } from '@/utils/locationProvider';
+import { useLocationProvider } from '@/hooks/useLocationProvider';
 
 interface LocationData {
   latitude: number;
@@ -10,9 +27,18 @@ interface LocationData {
   accuracy?: number;
   speed?: number;
   timestamp: number;
+  fixTimestamp: number; // Time of the accepted GPS fix; compass and dead-reckoning updates keep it
   isMoving: boolean;
   isValid: boolean;
   signalStrength: 'excellent' | 'good' | 'poor' | 'lost';
+  // Kalman-fused estimate (latitude/longitude are smoothed when smoothing is enabled)
+  rawLatitude: number;
+  rawLongitude: number;
+  velocityNorth?: number; // m/s
+  velocityEast?: number; // m/s
+  estimatedSpeed?: number; // m/s
+  uncertainty?: number; // 1-sigma position error (m)
+  isPredicted: boolean; // Dead-reckoned while fixes are being rejected
 }
 
 interface UseLocationTrackingOptions {
@@ -21,8 +47,29 @@ interface UseLocationTrackingOptions {
   timeInterval?: number;
   minAccuracy?: number;
   headingSamples?: number;
+  maxInitialAttempts?: number;
+  enableSmoothing?: boolean;
+  smoothingOptions?: PositionFilterOptions;
+  validationRules?: LocationValidationOverrides;
+  recordTrace?: boolean; // Keep every raw reading (accepted and rejected) for saveRecordedTrace
+  provider?: LocationProvider; // Overrides the LocationProviderContext source
+  replayTrace?: GpsTrace | null; // Feed a recorded trace instead of the provider
+  replaySpeed?: number;
+  onLocationRejected?: (rejection: LocationRejection) => void;
 }
 
+export interface LocationRejection {
+  rule: LocationRuleName | 'minAccuracy';
+  reason: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  timestamp: number;
+}
+
+// Why tracking could not start; screens show the message for the code in the app language
+export type LocationErrorCode = 'permissionDenied' | 'permissionRequestFailed' | 'noValidFix' | 'trackingFailed';
+
 export function useLocationTracking(options: UseLocationTrackingOptions = {}) {
   const {
     enableHighAccuracy = true,
@@ -30,12 +77,25 @@ export function useLocationTracking(options: UseLocationTrackingOptions = {}) {
     timeInterval = 500,
     minAccuracy = 30,
     headingSamples = 5,
+    maxInitialAttempts = 10, // More attempts for better reliability
+    enableSmoothing = true,
+    smoothingOptions,
+    validationRules,
+    recordTrace = false,
+    provider,
+    replayTrace = null,
+    replaySpeed = 1,
+    onLocationRejected,
   } = options;
 
+  const contextProvider = useLocationProvider();
+  const sourceProvider = provider ?? contextProvider;
+
   const [location, setLocation] = useState<LocationData | null>(null);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [isTracking, setIsTracking] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<LocationErrorCode | null>(null);
+  const [lastRejection, setLastRejection] = useState<LocationRejection | null>(null);
 
   const locationSubscription = useRef<Location.LocationSubscription | null>(null);
   const headingSubscription = useRef<Location.LocationSubscription | null>(null);
@@ -44,123 +104,71 @@ export function useLocationTracking(options: UseLocationTrackingOptions = {}) {
   const locationHistory = useRef<{lat: number, lng: number, timestamp: number}[]>([]);
   const rejectedLocationCount = useRef<number>(0);
   const consecutiveRejectionsCount = useRef<number>(0);
+  const positionFilterRef = useRef<PositionFilter | null>(null);
+  if (!positionFilterRef.current) {
+    positionFilterRef.current = createPositionFilter(smoothingOptions);
+  }
+  const positionFilter = positionFilterRef.current;
+  const activeProvider = useRef<LocationProvider>(sourceProvider);
+  const traceRecorderRef = useRef<TraceRecorder | null>(null);
+  if (!traceRecorderRef.current) {
+    traceRecorderRef.current = createTraceRecorder(() => activeProvider.current.now());
+  }
+  const traceRecorder = traceRecorderRef.current;
+
+  const validationConfig = useRef<LocationValidationConfig>(DEFAULT_LOCATION_VALIDATION_CONFIG);
+  const onLocationRejectedRef = useRef(onLocationRejected);
+  validationConfig.current = resolveValidationConfig(validationRules);
+  onLocationRejectedRef.current = onLocationRejected;
+
+  // Time comes from the active source, so replays and simulations control their own clock
+  const now = () => activeProvider.current.now();
+
+  // Record a rejected fix so callers can see which rule discarded it
+  const reportRejection = (
+    rule: LocationRejection['rule'],
+    reason: string,
+    lat: number,
+    lng: number,
+    accuracy?: number
+  ) => {
+    const rejection: LocationRejection = {
+      rule,
+      reason,
+      latitude: lat,
+      longitude: lng,
+      accuracy,
+      timestamp: now(),
+    };
+    consecutiveRejectionsCount.current++;
+    setLastRejection(rejection);
+    onLocationRejectedRef.current?.(rejection);
+    return rejection;
+  };
 
-  // ULTRA-STRICT location validation - ZERO TOLERANCE for invalid coordinates
-  const isValidLocation = (lat: number, lng: number, accuracy?: number): boolean => {
-    // ABSOLUTE REJECTION CRITERIA - NO EXCEPTIONS
-    
-    // 1. CRITICAL: Reject ANY coordinate that is exactly 0 (the main culprit)
-    if (lat === 0 || lng === 0) {
-      console.warn(`🚫 REJECTED: Zero coordinate detected [${lat}, ${lng}] - NEVER ALLOWED`);
-      consecutiveRejectionsCount.current++;
-      return false;
-    }
-    
-    // 2. Reject NaN, null, undefined, or infinite values
-    if (!isFinite(lat) || !isFinite(lng) || lat === null || lng === null || lat === undefined || lng === undefined) {
-      console.warn(`🚫 REJECTED: Invalid coordinate values [${lat}, ${lng}]`);
-      consecutiveRejectionsCount.current++;
-      return false;
-    }
-    
-    // 3. Reject coordinates outside Earth's valid ranges
-    if (Math.abs(lat) > 90 || Math.abs(lng) > 180) {
-      console.warn(`🚫 REJECTED: Coordinates outside valid Earth range [${lat}, ${lng}]`);
-      consecutiveRejectionsCount.current++;
-      return false;
-    }
-    
-    // 4. CRITICAL: Reject coordinates that are suspiciously close to [0,0]
-    const distanceFromZero = Math.sqrt(lat * lat + lng * lng);
-    if (distanceFromZero < 0.1) { // Within ~11km of [0,0]
-      console.warn(`🚫 REJECTED: Suspiciously close to [0,0]: distance ${distanceFromZero.toFixed(6)}`);
-      consecutiveRejectionsCount.current++;
-      return false;
-    }
-    
-    // 5. Reject extremely poor accuracy (likely GPS malfunction)
-    if (accuracy && accuracy > 1000) {
-      console.warn(`🚫 REJECTED: Accuracy catastrophically poor: ${accuracy}m`);
-      consecutiveRejectionsCount.current++;
-      return false;
+  const recordPosition = (position: Location.LocationObject, rejection: LocationRejection | null) => {
+    if (recordTrace) {
+      traceRecorder.recordPosition(position, rejection);
     }
-    
-    // 6. TELEPORTATION DETECTION - Reject impossible movements
-    if (lastValidLocation.current) {
-      const distance = calculateDistance(
-        lastValidLocation.current.latitude,
-        lastValidLocation.current.longitude,
-        lat,
-        lng
-      );
-      
-      const timeDiff = (Date.now() - lastValidLocation.current.timestamp) / 1000;
-      
-      // Maximum realistic speed: 50 m/s (180 km/h) - very conservative for mobile devices
-      const maxRealisticSpeed = 50;
-      
-      if (distance > maxRealisticSpeed * timeDiff && timeDiff > 1 && timeDiff < 60) {
-        console.warn(`🚫 REJECTED: Impossible teleportation: ${distance.toFixed(0)}m in ${timeDiff.toFixed(1)}s (${(distance/timeDiff).toFixed(1)} m/s)`);
-        consecutiveRejectionsCount.current++;
-        return false;
-      }
+  };
 
-      // SPECIAL CHECK: Reject sudden jumps to "round" coordinates (common GPS error pattern)
-      if (distance > 10000) { // More than 10km jump
-        const latIsRound = Math.abs(lat - Math.round(lat)) < 0.001;
-        const lngIsRound = Math.abs(lng - Math.round(lng)) < 0.001;
-        
-        if (latIsRound || lngIsRound) {
-          console.warn(`🚫 REJECTED: Large jump to suspiciously round coordinates [${lat}, ${lng}]`);
-          consecutiveRejectionsCount.current++;
-          return false;
-        }
-      }
-    }
-    
-    // 7. PATTERN DETECTION - Reject coordinates that follow suspicious patterns
-    if (locationHistory.current.length >= 3) {
-      const recent = locationHistory.current.slice(-3);
-      
-      // Check if GPS is "stuck" at same coordinates
-      const allSame = recent.every(loc => 
-        Math.abs(loc.lat - recent[0].lat) < 0.000001 && 
-        Math.abs(loc.lng - recent[0].lng) < 0.000001
-      );
-      
-      if (allSame && Math.abs(lat - recent[0].lat) < 0.000001 && Math.abs(lng - recent[0].lng) < 0.000001) {
-        console.warn(`🚫 REJECTED: GPS stuck at identical coordinates`);
-        consecutiveRejectionsCount.current++;
-        return false;
-      }
-    }
-    
-    // 8. COORDINATE PRECISION CHECK - Reject suspiciously "perfect" coordinates
-    const latStr = lat.toString();
-    const lngStr = lng.toString();
-    
-    // Reject coordinates that are too "perfect" (often indicates default/fallback values)
-    if (latStr.includes('.000000') || lngStr.includes('.000000')) {
-      console.warn(`🚫 REJECTED: Suspiciously precise coordinates [${lat}, ${lng}]`);
-      consecutiveRejectionsCount.current++;
-      return false;
-    }
-
-    // 9. MOVEMENT DIRECTION VALIDATION - When moving, reject coordinates that don't make sense
-    if (lastValidLocation.current && lastValidLocation.current.isMoving) {
-      const distance = calculateDistance(
-        lastValidLocation.current.latitude,
-        lastValidLocation.current.longitude,
-        lat,
-        lng
-      );
-      
-      // If we were moving but suddenly get a coordinate very far away, be suspicious
-      if (distance > 1000 && consecutiveRejectionsCount.current === 0) {
-        console.warn(`🚫 REJECTED: Suspicious jump while moving: ${distance.toFixed(0)}m`);
-        consecutiveRejectionsCount.current++;
-        return false;
-      }
+  // ULTRA-STRICT location validation - every check lives in utils/locationValidation.
+  // Returns the rejection, or null when the fix passed every enabled rule
+  const validateReading = (lat: number, lng: number, accuracy?: number): LocationRejection | null => {
+    const result = validateLocation(
+      { latitude: lat, longitude: lng, accuracy },
+      {
+        lastValidLocation: lastValidLocation.current,
+        history: locationHistory.current,
+        consecutiveRejections: consecutiveRejectionsCount.current,
+        now: now(),
+      },
+      validationConfig.current
+    );
+
+    if (!result.valid) {
+      console.warn(`🚫 REJECTED by ${result.rule}: ${result.reason}`);
+      return reportRejection(result.rule, result.reason, lat, lng, accuracy);
     }
     
     // If we get here, the location passed ALL validation tests
@@ -168,28 +176,12 @@ export function useLocationTracking(options: UseLocationTrackingOptions = {}) {
     consecutiveRejectionsCount.current = 0; // Reset rejection count on valid location
     
     // Add to location history for pattern analysis
-    locationHistory.current.push({ lat, lng, timestamp: Date.now() });
+    locationHistory.current.push({ lat, lng, timestamp: now() });
     if (locationHistory.current.length > 10) {
       locationHistory.current.shift(); // Keep only last 10 locations
     }
     
-    return true;
-  };
-
-  // Calculate distance between two points (in meters)
-  const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = lat1 * Math.PI / 180;
-    const φ2 = lat2 * Math.PI / 180;
-    const Δφ = (lat2 - lat1) * Math.PI / 180;
-    const Δλ = (lng2 - lng1) * Math.PI / 180;
-
-    const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
-            Math.cos(φ1) * Math.cos(φ2) *
-            Math.sin(Δλ/2) * Math.sin(Δλ/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-
-    return R * c;
+    return null;
   };
 
   // Determine signal strength based on accuracy and rejection patterns
@@ -237,37 +229,54 @@ export function useLocationTracking(options: UseLocationTrackingOptions = {}) {
     return meanDegrees;
   };
 
-  // Request permissions
-  const requestPermissions = async () => {
+  // Fuse a validated fix into the position filter and return the fields it drives
+  const fusePosition = (lat: number, lng: number, accuracy: number | undefined, timestamp: number) => {
+    if (!enableSmoothing) {
+      return { latitude: lat, longitude: lng, rawLatitude: lat, rawLongitude: lng, isPredicted: false };
+    }
+    return toFusedFields(positionFilter.update(lat, lng, accuracy, timestamp), lat, lng, false);
+  };
+
+  const toFusedFields = (estimate: PositionEstimate, rawLatitude: number, rawLongitude: number, isPredicted: boolean) => ({
+    latitude: estimate.latitude,
+    longitude: estimate.longitude,
+    rawLatitude,
+    rawLongitude,
+    velocityNorth: estimate.velocityNorth,
+    velocityEast: estimate.velocityEast,
+    estimatedSpeed: estimate.speed,
+    uncertainty: estimate.uncertainty,
+    isPredicted,
+  });
+
+  // Request permissions from the current source (again when it changes)
+  const requestPermissions = useCallback(async () => {
     try {
       setError(null);
+
+      // Replayed traces don't touch the device GPS
+      if (replayTrace) {
+        setHasPermission(true);
+        return true;
+      }
       
-      // Request foreground location permission
-      const { status: foregroundStatus } = await Location.requestForegroundPermissionsAsync();
+      const granted = await sourceProvider.requestPermissions();
       
-      if (foregroundStatus !== 'granted') {
+      if (!granted) {
         setHasPermission(false);
-        setError('Se requieren permisos de ubicación para usar esta función');
+        setError('permissionDenied');
         return false;
       }
 
-      // Request background permission for better tracking
-      if (Platform.OS !== 'web') {
-        try {
-          await Location.requestBackgroundPermissionsAsync();
-        } catch (bgError) {
-          console.log('Background permission not available:', bgError);
-        }
-      }
-
       setHasPermission(true);
       return true;
     } catch (err) {
-      setError(`Error al solicitar permisos: ${err}`);
+      console.warn('🚫 Error requesting location permissions:', err);
+      setError('permissionRequestFailed');
       setHasPermission(false);
       return false;
     }
-  };
+  }, [replayTrace, sourceProvider]);
 
   // Start location tracking with ULTRA-STRICT validation
   const startTracking = async () => {
@@ -281,34 +290,42 @@ export function useLocationTracking(options: UseLocationTrackingOptions = {}) {
       setError(null);
       consecutiveRejectionsCount.current = 0;
       locationHistory.current = [];
+      positionFilter.reset();
+
+      const replay = replayTrace ? createTraceReplayer(replayTrace, { speed: replaySpeed }) : null;
+      const source = replay ?? sourceProvider;
+      activeProvider.current = source;
+      if (replay) {
+        console.log(`⏯️ Replaying GPS trace with ${replayTrace!.readings.length} readings at ${replaySpeed}x`);
+      }
 
       console.log('🛡️ Starting GPS tracking with ULTRA-STRICT anti-jump validation');
 
       // Get initial high-accuracy position with multiple attempts
       let initialPosition = null;
       let attempts = 0;
-      const maxAttempts = 10; // More attempts for better reliability
+      const maxAttempts = maxInitialAttempts;
 
       while (!initialPosition && attempts < maxAttempts) {
         try {
           attempts++;
           console.log(`📍 Attempting to get initial position (attempt ${attempts}/${maxAttempts})`);
           
-          const position = await Location.getCurrentPositionAsync({
-            accuracy: enableHighAccuracy 
-              ? Location.Accuracy.BestForNavigation 
-              : Location.Accuracy.High,
-            maximumAge: 500, // Very fresh data only
-          });
+          const position = await source.getCurrentPosition({ highAccuracy: enableHighAccuracy });
 
           // ULTRA-STRICT validation of initial position
-          if (isValidLocation(position.coords.latitude, position.coords.longitude, position.coords.accuracy)) {
+          const rejection = validateReading(position.coords.latitude, position.coords.longitude, position.coords.accuracy ?? undefined);
+          recordPosition(position, rejection);
+
+          if (!rejection) {
             initialPosition = position;
             console.log(`✅ Valid initial position found: [${position.coords.latitude.toFixed(6)}, ${position.coords.longitude.toFixed(6)}]`);
           } else {
             console.warn(`❌ Initial position rejected, retrying...`);
-            // Wait before retrying
-            await new Promise(resolve => setTimeout(resolve, 1500));
+            // Wait before retrying (a replay just moves on to its next reading)
+            if (!replay) {
+              await new Promise(resolve => setTimeout(resolve, 1500));
+            }
           }
         } catch (positionError) {
           console.warn(`⚠️ Error getting initial position (attempt ${attempts}):`, positionError);
@@ -319,7 +336,7 @@ export function useLocationTracking(options: UseLocationTrackingOptions = {}) {
       }
 
       if (!initialPosition) {
-        setError('No se pudo obtener una ubicación GPS válida después de múltiples intentos');
+        setError('noValidFix');
         setIsTracking(false);
         return;
       }
@@ -330,13 +347,18 @@ export function useLocationTracking(options: UseLocationTrackingOptions = {}) {
       const signalStrength = getSignalStrength(initialPosition.coords.accuracy);
 
       const initialLocationData: LocationData = {
-        latitude: initialPosition.coords.latitude,
-        longitude: initialPosition.coords.longitude,
+        ...fusePosition(
+          initialPosition.coords.latitude,
+          initialPosition.coords.longitude,
+          initialPosition.coords.accuracy ?? undefined,
+          initialPosition.timestamp
+        ),
         heading: initialHeading,
         smoothedHeading: smoothedInitialHeading,
         accuracy: initialPosition.coords.accuracy || undefined,
         speed: initialPosition.coords.speed || undefined,
         timestamp: initialPosition.timestamp,
+        fixTimestamp: initialPosition.timestamp,
         isMoving: (initialPosition.coords.speed || 0) > 0.5,
         isValid: true,
         signalStrength,
@@ -348,92 +370,106 @@ export function useLocationTracking(options: UseLocationTrackingOptions = {}) {
 
       console.log(`🎯 Initial location set successfully: [${initialLocationData.latitude.toFixed(6)}, ${initialLocationData.longitude.toFixed(6)}]`);
 
-      // Start continuous position tracking with ULTRA-STRICT filtering
-      locationSubscription.current = await Location.watchPositionAsync(
-        {
-          accuracy: enableHighAccuracy 
-            ? Location.Accuracy.BestForNavigation 
-            : Location.Accuracy.High,
-          timeInterval,
-          distanceInterval,
-          mayShowUserSettingsDialog: true,
-        },
-        (newLocation) => {
-          const lat = newLocation.coords.latitude;
-          const lng = newLocation.coords.longitude;
-          const acc = newLocation.coords.accuracy;
-
-          console.log(`📡 GPS reading: [${lat.toFixed(6)}, ${lng.toFixed(6)}] accuracy: ${acc?.toFixed(1)}m`);
-
-          // ULTRA-STRICT validation - REJECT EVERYTHING SUSPICIOUS
-          if (!isValidLocation(lat, lng, acc)) {
-            console.warn(`🚫 LOCATION REJECTED - maintaining last valid position`);
-            
-            // Update signal strength to indicate poor signal, but KEEP last valid location
-            if (lastValidLocation.current) {
-              setLocation(prev => prev ? {
-                ...prev,
-                signalStrength: consecutiveRejectionsCount.current > 5 ? 'lost' : 'poor',
-                timestamp: Date.now(),
-              } : null);
-            }
-            return;
-          }
+      // Continuous position updates with ULTRA-STRICT filtering
+      const handlePositionUpdate = (newLocation: Location.LocationObject) => {
+        const lat = newLocation.coords.latitude;
+        const lng = newLocation.coords.longitude;
+        const acc = newLocation.coords.accuracy;
 
-          // Additional accuracy filter
-          if (acc && acc > minAccuracy) {
-            console.log(`📊 Location accuracy too poor: ${acc}m > ${minAccuracy}m threshold`);
-            consecutiveRejectionsCount.current++;
-            return;
+        console.log(`📡 GPS reading: [${lat.toFixed(6)}, ${lng.toFixed(6)}] accuracy: ${acc?.toFixed(1)}m`);
+
+        // ULTRA-STRICT validation - REJECT EVERYTHING SUSPICIOUS
+        const rejection = validateReading(lat, lng, acc ?? undefined);
+        if (rejection) {
+          recordPosition(newLocation, rejection);
+          console.warn(`🚫 LOCATION REJECTED - maintaining last valid position`);
+          
+          // Update signal strength to indicate poor signal. With smoothing the filter keeps
+          // dead-reckoning along the last velocity instead of freezing on the last valid fix.
+          // The filter runs on fix timestamps, so it predicts to this reading's time
+          if (lastValidLocation.current) {
+            const predicted = enableSmoothing ? positionFilter.predict(newLocation.timestamp) : null;
+
+            setLocation(prev => prev ? {
+              ...prev,
+              ...(predicted ? toFusedFields(predicted, prev.rawLatitude, prev.rawLongitude, true) : {}),
+              signalStrength: consecutiveRejectionsCount.current > 5 ? 'lost' : 'poor',
+              timestamp: newLocation.timestamp,
+            } : null);
           }
+          return;
+        }
 
-          // If we get here, the location is DEFINITELY valid and safe
-          console.log(`✅ LOCATION ACCEPTED: [${lat.toFixed(6)}, ${lng.toFixed(6)}]`);
-
-          const currentHeading = newLocation.coords.heading || lastValidLocation.current?.heading || 0;
-          const smoothedCurrentHeading = smoothHeading(currentHeading);
-          const isMoving = (newLocation.coords.speed || 0) > 0.5;
-          const signalStrength = getSignalStrength(acc);
-
-          const locationData: LocationData = {
-            latitude: lat,
-            longitude: lng,
-            heading: currentHeading,
-            smoothedHeading: smoothedCurrentHeading,
-            accuracy: acc || undefined,
-            speed: newLocation.coords.speed || undefined,
-            timestamp: newLocation.timestamp,
-            isMoving,
-            isValid: true,
-            signalStrength,
-          };
-
-          setLocation(locationData);
-          lastValidLocation.current = locationData;
-          setError(null);
+        // Additional accuracy filter, with or without smoothing
+        if (acc && acc > minAccuracy) {
+          console.log(`📊 Location accuracy too poor: ${acc}m > ${minAccuracy}m threshold`);
+          recordPosition(
+            newLocation,
+            reportRejection('minAccuracy', `Accuracy ${acc}m above ${minAccuracy}m threshold`, lat, lng, acc)
+          );
+          return;
         }
+
+        recordPosition(newLocation, null);
+
+        // If we get here, the location is DEFINITELY valid and safe
+        console.log(`✅ LOCATION ACCEPTED: [${lat.toFixed(6)}, ${lng.toFixed(6)}]`);
+
+        const currentHeading = newLocation.coords.heading || lastValidLocation.current?.heading || 0;
+        const smoothedCurrentHeading = smoothHeading(currentHeading);
+        const isMoving = (newLocation.coords.speed || 0) > 0.5;
+        const signalStrength = getSignalStrength(acc);
+
+        const locationData: LocationData = {
+          ...fusePosition(lat, lng, acc ?? undefined, newLocation.timestamp),
+          heading: currentHeading,
+          smoothedHeading: smoothedCurrentHeading,
+          accuracy: acc || undefined,
+          speed: newLocation.coords.speed || undefined,
+          timestamp: newLocation.timestamp,
+          fixTimestamp: newLocation.timestamp,
+          isMoving,
+          isValid: true,
+          signalStrength,
+        };
+
+        setLocation(locationData);
+        lastValidLocation.current = locationData;
+        setError(null);
+      };
+
+      locationSubscription.current = await source.watchPosition(
+        { highAccuracy: enableHighAccuracy, timeInterval, distanceInterval },
+        handlePositionUpdate
       );
 
-      // Start heading tracking for iOS (with validation)
-      if (Platform.OS === 'ios') {
+      // Heading updates (with validation)
+      const handleHeadingUpdate = (headingData: Location.LocationHeadingObject) => {
+        if (recordTrace) {
+          traceRecorder.recordHeading(headingData);
+        }
+
+        const compassHeading = headingData.trueHeading !== null 
+          ? headingData.trueHeading 
+          : headingData.magHeading;
+        
+        // Only update heading if we have a valid location and valid heading
+        if (compassHeading !== null && !isNaN(compassHeading) && lastValidLocation.current && lastValidLocation.current.isValid) {
+          const smoothedCompassHeading = smoothHeading(compassHeading);
+          
+          setLocation(prev => prev ? {
+            ...prev,
+            heading: compassHeading,
+            smoothedHeading: smoothedCompassHeading,
+            timestamp: now(),
+          } : null);
+        }
+      };
+
+      // Compass tracking only where the source provides it (iOS devices, replays, simulations)
+      if (source.watchHeading) {
         try {
-          headingSubscription.current = await Location.watchHeadingAsync((headingData) => {
-            const compassHeading = headingData.trueHeading !== null 
-              ? headingData.trueHeading 
-              : headingData.magHeading;
-            
-            // Only update heading if we have a valid location and valid heading
-            if (compassHeading !== null && !isNaN(compassHeading) && lastValidLocation.current && lastValidLocation.current.isValid) {
-              const smoothedCompassHeading = smoothHeading(compassHeading);
-              
-              setLocation(prev => prev ? {
-                ...prev,
-                heading: compassHeading,
-                smoothedHeading: smoothedCompassHeading,
-                timestamp: Date.now(),
-              } : null);
-            }
-          });
+          headingSubscription.current = await source.watchHeading(handleHeadingUpdate);
         } catch (headingError) {
           console.warn('Heading tracking not available:', headingError);
         }
@@ -441,7 +477,7 @@ export function useLocationTracking(options: UseLocationTrackingOptions = {}) {
 
     } catch (error) {
       console.error('❌ Error starting location tracking:', error);
-      setError(`Error al iniciar seguimiento: ${error}`);
+      setError('trackingFailed');
       setIsTracking(false);
     }
   };
@@ -475,16 +511,36 @@ export function useLocationTracking(options: UseLocationTrackingOptions = {}) {
     stopTracking();
     setLocation(null);
     setError(null);
+    setLastRejection(null);
     headingHistory.current = [];
     lastValidLocation.current = null;
     locationHistory.current = [];
     consecutiveRejectionsCount.current = 0;
+    positionFilter.reset();
+    activeProvider.current = sourceProvider;
+  };
+
+  // Persist every reading recorded so far (requires recordTrace) and return the file URI
+  const saveRecordedTrace = async (name?: string): Promise<string | null> => {
+    const trace = traceRecorder.getTrace();
+    if (trace.readings.length === 0) return null;
+
+    try {
+      return await saveTrace(trace, name);
+    } catch (err) {
+      console.warn('Could not save GPS trace:', err);
+      return null;
+    }
+  };
+
+  const clearRecordedTrace = () => {
+    traceRecorder.clear();
   };
 
   // Initialize permissions check
   useEffect(() => {
     requestPermissions();
-  }, []);
+  }, [requestPermissions]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -498,6 +554,7 @@ export function useLocationTracking(options: UseLocationTrackingOptions = {}) {
     hasPermission,
     isTracking,
     error,
+    lastRejection,
     accuracy: location?.accuracy || null,
     lastUpdate: location?.timestamp || null,
     startTracking,
@@ -505,5 +562,9 @@ export function useLocationTracking(options: UseLocationTrackingOptions = {}) {
     resetTracking,
     recenterMap,
     requestPermissions,
+    isReplaying: !!replayTrace,
+    getRecordedTrace: () => traceRecorder.getTrace(),
+    saveRecordedTrace,
+    clearRecordedTrace,
   };
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { parkedCarStore, ParkedCarStore } from '@/services/parkedCarStore';
+import { ParkedCar } from '@/types/parkedCar';
+
+interface ParkedCarPosition {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
+// The saved car location, loaded from disk on mount and kept in sync with the store
+export function useParkedCar(store: ParkedCarStore = parkedCarStore) {
+  const [parkedCar, setParkedCar] = useState<ParkedCar | null>(store.get());
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = store.subscribe(setParkedCar);
+    store.load().then(car => {
+      setParkedCar(car);
+      setIsLoaded(true);
+    });
+    return unsubscribe;
+  }, [store]);
+
+  const parkHere = useCallback(
+    (position: ParkedCarPosition, details: Pick<ParkedCar, 'lotId' | 'note' | 'photoUri'> = {}) =>
+      store.save({
+        latitude: position.latitude,
+        longitude: position.longitude,
+        accuracy: position.accuracy,
+        savedAt: Date.now(),
+        ...details,
+      }),
+    [store]
+  );
+
+  return {
+    parkedCar,
+    isLoaded,
+    parkHere,
+    updateParkedCar: store.update,
+    clearParkedCar: store.clear,
+  };
+}
@@ -0,0 +1,106 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ParkedCar } from '@/types/parkedCar';
+import { createParkingDetector, MotionActivity, ParkingDetectorConfig } from '@/utils/parkingDetector';
+
+export interface ParkingProposal {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  parkedAt: number;
+  confidence: number;
+}
+
+interface DetectionPosition {
+  latitude: number;
+  longitude: number;
+  fixTimestamp: number; // Changes only with a new GPS fix, not with compass or predicted updates
+  accuracy?: number;
+  speed?: number;
+  estimatedSpeed?: number;
+  isValid?: boolean;
+}
+
+interface UseParkingDetectionOptions {
+  enabled?: boolean;
+  parkedCar: ParkedCar | null;
+  onReturnedToCar?: () => void;
+  activity?: MotionActivity; // Latest motion-activity hint, when the platform provides one
+  config?: Partial<ParkingDetectorConfig>;
+}
+
+// Watches the user's movement for "just parked" and "back in the car".
+// Parking only proposes saving the spot; returning to the car is reported to the caller.
+export function useParkingDetection(position: DetectionPosition | null, options: UseParkingDetectionOptions) {
+  const { enabled = true, parkedCar, onReturnedToCar, activity, config } = options;
+
+  const [proposal, setProposal] = useState<ParkingProposal | null>(null);
+  const detectorRef = useRef<ReturnType<typeof createParkingDetector> | null>(null);
+  if (!detectorRef.current) {
+    detectorRef.current = createParkingDetector(config);
+  }
+
+  const onReturnedToCarRef = useRef(onReturnedToCar);
+  onReturnedToCarRef.current = onReturnedToCar;
+  const parkedCarRef = useRef(parkedCar);
+  parkedCarRef.current = parkedCar;
+  // Read when a new fix arrives; compass or predicted updates alone shouldn't feed the detector
+  const positionRef = useRef(position);
+  positionRef.current = position;
+  const activityRef = useRef(activity);
+  activityRef.current = activity;
+
+  const parkedLatitude = parkedCar?.latitude;
+  const parkedLongitude = parkedCar?.longitude;
+  const parkedAccuracy = parkedCar?.accuracy;
+  const fixTimestamp = position?.fixTimestamp;
+
+  // The detector should know about spots saved or cleared by hand
+  useEffect(() => {
+    detectorRef.current?.setParkedSpot(
+      parkedLatitude !== undefined && parkedLongitude !== undefined
+        ? { latitude: parkedLatitude, longitude: parkedLongitude, accuracy: parkedAccuracy }
+        : null
+    );
+  }, [parkedLatitude, parkedLongitude, parkedAccuracy]);
+
+  useEffect(() => {
+    if (!enabled) detectorRef.current?.reset();
+  }, [enabled]);
+
+  useEffect(() => {
+    const detector = detectorRef.current;
+    const position = positionRef.current;
+    if (!enabled || !detector || !position || position.isValid === false) return;
+
+    const event = detector.process({
+      timestamp: position.fixTimestamp,
+      latitude: position.latitude,
+      longitude: position.longitude,
+      speed: position.speed ?? position.estimatedSpeed,
+      accuracy: position.accuracy,
+      activity: activityRef.current,
+    });
+    if (!event) return;
+
+    if (event.type === 'parked') {
+      console.log(`🚗 Parking detected (confidence ${event.confidence.toFixed(1)})`);
+      // Already saved by hand for this stop
+      if (parkedCarRef.current && parkedCarRef.current.savedAt >= event.timestamp) return;
+      setProposal({
+        latitude: event.latitude,
+        longitude: event.longitude,
+        accuracy: event.accuracy,
+        parkedAt: event.timestamp,
+        confidence: event.confidence,
+      });
+    } else {
+      console.log(`🚗 Back in the car (${event.distanceFromSpot?.toFixed(0) ?? '?'}m from the spot)`);
+      setProposal(null);
+      if (parkedCarRef.current) onReturnedToCarRef.current?.();
+    }
+  }, [enabled, fixTimestamp]);
+
+  const dismissProposal = useCallback(() => setProposal(null), []);
+
+  return { proposal, dismissProposal };
+}
@@ -0,0 +1,26 @@
+import { useState, useEffect, useMemo } from 'react';
+import { parkingHistoryStore, ParkingHistoryStore } from '@/services/parkingHistoryStore';
+import { groupHistoryByMonth } from '@/utils/parkingHistory';
+
+// The parking trip log grouped by month, kept in sync with the store
+export function useParkingHistory(store: ParkingHistoryStore = parkingHistoryStore) {
+  const [entries, setEntries] = useState(store.get());
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = store.subscribe(setEntries);
+    store.load().then(loadedEntries => {
+      setEntries(loadedEntries);
+      setIsLoaded(true);
+    });
+    return unsubscribe;
+  }, [store]);
+
+  const months = useMemo(() => groupHistoryByMonth(entries), [entries]);
+
+  return {
+    entries,
+    months,
+    isLoaded,
+  };
+}
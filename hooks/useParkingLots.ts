@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Region } from 'react-native-maps';
+import { parkingRepository, ParkingRepository } from '@/services/parkingRepository';
+import { ParkingBounds, ParkingLot } from '@/types/parking';
+import { Vehicle } from '@/types/vehicle';
+import { lotFitsVehicle } from '@/utils/vehicleFit';
+
+const wrapLongitude = (longitude: number) => ((((longitude + 180) % 360) + 360) % 360) - 180;
+
+// `padding` grows the bounds by that fraction of the region on every side.
+// Longitudes are wrapped to [-180, 180), so bounds across the antimeridian have west > east
+export const regionToBounds = (region: Region, padding = 0): ParkingBounds => {
+  const halfLat = (region.latitudeDelta / 2) * (1 + 2 * padding);
+  const halfLng = (region.longitudeDelta / 2) * (1 + 2 * padding);
+  const isWholeWorld = halfLng >= 180;
+  return {
+    north: Math.min(region.latitude + halfLat, 90),
+    south: Math.max(region.latitude - halfLat, -90),
+    east: isWholeWorld ? 180 : wrapLongitude(region.longitude + halfLng),
+    west: isWholeWorld ? -180 : wrapLongitude(region.longitude - halfLng),
+  };
+};
+
+// Why lots could not be loaded; screens show the message for the code in the app language
+export type ParkingLotsErrorCode = 'loadFailed';
+
+interface UseParkingLotsOptions {
+  repository?: ParkingRepository;
+  padding?: number; // Prefetch around the viewport so lots don't pop in while panning
+  debounceMs?: number; // Wait for the region to settle before querying
+  vehicle?: Vehicle | null; // Leave out lots this vehicle can't park in
+}
+
+// Parking lots inside the given map region, kept in sync with the repository cache
+export function useParkingLots(region: Region | null, options: UseParkingLotsOptions = {}) {
+  const {
+    repository = parkingRepository,
+    padding = 0.25,
+    debounceMs = 300,
+    vehicle = null,
+  } = options;
+
+  const [lots, setLots] = useState<ParkingLot[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<ParkingLotsErrorCode | null>(null);
+  const requestIdRef = useRef(0);
+
+  // Only the region's values matter, not the object a caller rebuilds on every render
+  const latitude = region?.latitude;
+  const longitude = region?.longitude;
+  const latitudeDelta = region?.latitudeDelta;
+  const longitudeDelta = region?.longitudeDelta;
+  const bounds = useMemo(
+    () =>
+      latitude === undefined || longitude === undefined || latitudeDelta === undefined || longitudeDelta === undefined
+        ? null
+        : regionToBounds({ latitude, longitude, latitudeDelta, longitudeDelta }, padding),
+    [latitude, longitude, latitudeDelta, longitudeDelta, padding]
+  );
+
+  const load = useCallback(async (force = false) => {
+    if (!bounds) return;
+
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    try {
+      const nextLots = await repository.getLots(bounds, { force });
+      // The region moved on while this one loaded
+      if (requestId !== requestIdRef.current) return;
+      setLots(nextLots);
+      setError(null);
+    } catch (err) {
+      console.warn('Error loading parking lots:', err);
+      if (requestId !== requestIdRef.current) return;
+      setError('loadFailed');
+    } finally {
+      if (requestId === requestIdRef.current) setIsLoading(false);
+    }
+  }, [repository, bounds]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => load(), debounceMs);
+    return () => clearTimeout(timer);
+  }, [load, debounceMs]);
+
+  // Reflect cache updates (e.g. live availability) without refetching
+  useEffect(() => {
+    if (!bounds) return;
+    return repository.subscribe(() => {
+      setLots(repository.getCachedLots(bounds));
+    });
+  }, [repository, bounds]);
+
+  const fittingLots = useMemo(
+    () => (vehicle ? lots.filter(lot => lotFitsVehicle(lot, vehicle)) : lots),
+    [lots, vehicle]
+  );
+
+  return {
+    lots: fittingLots,
+    isLoading,
+    error,
+    refresh: () => load(true),
+  };
+}
@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+import { parkingSessionStore, ParkingSessionStore } from '@/services/parkingSessionStore';
+
+// The active parking session with a once-a-second clock for its countdown
+export function useParkingSession(store: ParkingSessionStore = parkingSessionStore) {
+  const [state, setState] = useState(store.get());
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const unsubscribe = store.subscribe(setState);
+    store.load().then(loadedState => {
+      setState(loadedState);
+      setIsLoaded(true);
+    });
+    return unsubscribe;
+  }, [store]);
+
+  const session = state.session;
+  const sessionId = session?.id;
+
+  useEffect(() => {
+    if (!sessionId) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [sessionId]);
+
+  const remaining = session && session.paidUntil !== null ? session.paidUntil - now : null; // ms, negative once expired
+  const elapsed = session ? now - session.startedAt : null;
+
+  return {
+    session,
+    reminderMinutes: state.reminderMinutes,
+    isLoaded,
+    remaining,
+    elapsed,
+    isExpired: remaining !== null && remaining <= 0,
+    startSession: store.start,
+    extendSession: store.extend,
+    endSession: store.end,
+    setReminderMinutes: store.setReminderMinutes,
+  };
+}
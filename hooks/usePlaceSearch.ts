@@ -0,0 +1,101 @@
+import { useState, useEffect, useRef } from 'react';
+import { geocodingProvider as defaultGeocodingProvider, GeocodingProvider } from '@/services/geocodingProvider';
+import { parkingRepository, ParkingRepository } from '@/services/parkingRepository';
+import { LatLng } from '@/types/parking';
+import { PlaceResult } from '@/types/places';
+import { Vehicle } from '@/types/vehicle';
+import { calculateDistance } from '@/utils/geo';
+import { getLocale } from '@/utils/i18n';
+import { lotFitsVehicle } from '@/utils/vehicleFit';
+
+interface UsePlaceSearchOptions {
+  provider?: GeocodingProvider;
+  repository?: ParkingRepository;
+  near?: LatLng | null;
+  debounceMs?: number;
+  minLength?: number;
+  limit?: number;
+  maxParkingResults?: number;
+  vehicle?: Vehicle | null; // Leave out lots this vehicle can't park in
+}
+
+export type PlaceSearchErrorCode = 'searchFailed';
+
+// Debounced autocomplete: geocoded addresses/POIs mixed with matching parking lots
+export function usePlaceSearch(query: string, options: UsePlaceSearchOptions = {}) {
+  const {
+    provider = defaultGeocodingProvider,
+    repository = parkingRepository,
+    near = null,
+    debounceMs = 300,
+    minLength = 2,
+    limit = 8,
+    maxParkingResults = 3,
+    vehicle = null,
+  } = options;
+
+  const [results, setResults] = useState<PlaceResult[]>([]);
+  const [resultsQuery, setResultsQuery] = useState(''); // Query the current results belong to
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<PlaceSearchErrorCode | null>(null);
+  const requestIdRef = useRef(0);
+
+  // Only the search origin matters, not every GPS update
+  const nearRef = useRef(near);
+  nearRef.current = near;
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    const requestId = ++requestIdRef.current;
+
+    if (trimmed.length < minLength) {
+      setResults([]);
+      setResultsQuery(trimmed);
+      setIsSearching(false);
+      setError(null);
+      return;
+    }
+
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const origin = nearRef.current;
+
+      const [places, lots] = await Promise.all([
+        provider.search(trimmed, { near: origin, limit, language: getLocale() }).catch(err => {
+          console.warn('Error searching places:', err);
+          return null;
+        }),
+        repository.searchLots(trimmed).catch(err => {
+          console.warn('Error searching parking lots:', err);
+          return [];
+        }),
+      ]);
+
+      // A newer query superseded this one
+      if (requestId !== requestIdRef.current) return;
+
+      const fittingLots = vehicle ? lots.filter(lot => lotFitsVehicle(lot, vehicle)) : lots;
+      const parkingResults: PlaceResult[] = fittingLots.slice(0, maxParkingResults).map(lot => ({
+        id: `parking-${lot.id}`,
+        kind: 'parking',
+        name: lot.name,
+        description: [lot.address, lot.city].filter(Boolean).join(', '),
+        coordinate: lot.location,
+        lotId: lot.id,
+        distance: origin
+          ? calculateDistance(origin.latitude, origin.longitude, lot.location.latitude, lot.location.longitude)
+          : undefined,
+      }));
+
+      // Parking lots first, then places up to the limit
+      setResults([...parkingResults, ...(places ?? [])].slice(0, limit));
+      setResultsQuery(trimmed);
+      setError(places === null && lots.length === 0 ? 'searchFailed' : null);
+      setIsSearching(false);
+    }, debounceMs);
+
+    return () => clearTimeout(timer);
+  }, [query, provider, repository, debounceMs, minLength, limit, maxParkingResults, vehicle]);
+
+  return { results, resultsQuery, isSearching, error };
+}
@@ -0,0 +1,37 @@
+import { useState, useEffect, useMemo } from 'react';
+import { reservationStore, ReservationStore } from '@/services/reservationStore';
+import { isUpcomingReservation } from '@/utils/reservationRules';
+
+// Reservations, kept in sync with the store and advanced as time passes
+export function useReservations(store: ReservationStore = reservationStore, refreshInterval = 30000) {
+  const [reservations, setReservations] = useState(store.get());
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = store.subscribe(setReservations);
+    store.load().then(loadedReservations => {
+      setReservations(loadedReservations);
+      setIsLoaded(true);
+    });
+    return unsubscribe;
+  }, [store]);
+
+  // No-shows and finished stays happen with nobody touching the app
+  useEffect(() => {
+    store.refresh();
+    const interval = setInterval(() => store.refresh(), refreshInterval);
+    return () => clearInterval(interval);
+  }, [store, refreshInterval]);
+
+  const upcoming = useMemo(() => reservations.filter(isUpcomingReservation), [reservations]);
+
+  return {
+    reservations,
+    upcoming,
+    isLoaded,
+    reserve: store.reserve,
+    cancel: store.cancel,
+    checkIn: store.checkIn,
+    complete: store.complete,
+  };
+}
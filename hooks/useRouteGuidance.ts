@@ -0,0 +1,167 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { routingProvider as defaultRoutingProvider, Route, RoutingProvider } from '@/services/routingProvider';
+import { LatLng, ParkingLot } from '@/types/parking';
+import { calculateDistance } from '@/utils/geo';
+import { getCumulativeDistances, getRouteProgress, RouteProgress } from '@/utils/routeProgress';
+
+export type GuidanceStatus = 'idle' | 'routing' | 'guiding' | 'rerouting' | 'arrived' | 'error';
+
+export type GuidanceErrorCode = 'routeFailed' | 'locationUnavailable';
+
+interface GuidancePosition {
+  latitude: number;
+  longitude: number;
+  isValid?: boolean;
+}
+
+interface UseRouteGuidanceOptions {
+  provider?: RoutingProvider;
+  arrivalRadius?: number; // meters from the entrance that count as arrived
+  offRouteThreshold?: number; // meters away from the route before rerouting
+  offRouteReadings?: number; // consecutive off-route fixes required (ignores single GPS blips)
+  rerouteCooldown?: number; // ms between reroute requests
+}
+
+export interface GuidanceDestination {
+  lot: ParkingLot;
+  coordinate: LatLng; // Vehicle entrance, or the lot itself when it has none
+}
+
+// Drive to the first entrance cars can use
+export const getLotDestination = (lot: ParkingLot): LatLng =>
+  lot.entrances.find(entrance => entrance.type !== 'pedestrian')?.coordinate ?? lot.location;
+
+// Turn-by-turn guidance to a parking lot: fetches a route, tracks progress on every
+// location update, reroutes when the user leaves it and detects arrival
+export function useRouteGuidance(position: GuidancePosition | null, options: UseRouteGuidanceOptions = {}) {
+  const {
+    provider = defaultRoutingProvider,
+    arrivalRadius = 30,
+    offRouteThreshold = 40,
+    offRouteReadings = 2,
+    rerouteCooldown = 10 * 1000,
+  } = options;
+
+  const [destination, setDestination] = useState<GuidanceDestination | null>(null);
+  const [route, setRoute] = useState<Route | null>(null);
+  const [progress, setProgress] = useState<RouteProgress | null>(null);
+  const [status, setStatus] = useState<GuidanceStatus>('idle');
+  const [error, setError] = useState<GuidanceErrorCode | null>(null);
+
+  const cumulativeRef = useRef<number[]>([]);
+  const requestIdRef = useRef(0);
+  const offRouteCountRef = useRef(0);
+  const lastRerouteRef = useRef(0);
+  const positionRef = useRef(position);
+  positionRef.current = position;
+
+  const requestRoute = useCallback(async (target: GuidanceDestination, origin: LatLng, isReroute: boolean) => {
+    const requestId = ++requestIdRef.current;
+    setStatus(isReroute ? 'rerouting' : 'routing');
+    lastRerouteRef.current = Date.now();
+
+    try {
+      const newRoute = await provider.getRoute(origin, target.coordinate);
+      // A newer request (or stopGuidance) superseded this one
+      if (requestId !== requestIdRef.current) return;
+
+      console.log(`🧭 Route to ${target.lot.name}: ${Math.round(newRoute.distance)}m, ${newRoute.steps.length} steps${isReroute ? ' (reroute)' : ''}`);
+      cumulativeRef.current = getCumulativeDistances(newRoute.coordinates);
+      offRouteCountRef.current = 0;
+      setRoute(newRoute);
+      setProgress(getRouteProgress(newRoute, origin, cumulativeRef.current));
+      setError(null);
+      setStatus('guiding');
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.warn('🚫 Routing failed:', err);
+      setError('routeFailed');
+      // Keep guiding on the previous route if a reroute fails
+      setStatus(isReroute ? 'guiding' : 'error');
+    }
+  }, [provider]);
+
+  const startGuidance = useCallback((lot: ParkingLot) => {
+    const current = positionRef.current;
+    const target = { lot, coordinate: getLotDestination(lot) };
+
+    setDestination(target);
+    setRoute(null);
+    setProgress(null);
+    setError(null);
+
+    if (!current || current.isValid === false) {
+      setError('locationUnavailable');
+      setStatus('error');
+      return;
+    }
+
+    requestRoute(target, current, false);
+  }, [requestRoute]);
+
+  const stopGuidance = useCallback(() => {
+    requestIdRef.current++;
+    cumulativeRef.current = [];
+    offRouteCountRef.current = 0;
+    setDestination(null);
+    setRoute(null);
+    setProgress(null);
+    setError(null);
+    setStatus('idle');
+  }, []);
+
+  // Follow the user along the route
+  useEffect(() => {
+    if (!position || position.isValid === false || !destination || !route) return;
+    if (status !== 'guiding') return;
+
+    const distanceToDestination = calculateDistance(
+      position.latitude,
+      position.longitude,
+      destination.coordinate.latitude,
+      destination.coordinate.longitude
+    );
+
+    if (distanceToDestination <= arrivalRadius) {
+      console.log(`🏁 Arrived at ${destination.lot.name}`);
+      setProgress(previous => previous && { ...previous, distanceRemaining: 0, durationRemaining: 0, distanceToNextStep: 0 });
+      setStatus('arrived');
+      return;
+    }
+
+    const newProgress = getRouteProgress(route, position, cumulativeRef.current);
+    setProgress(newProgress);
+
+    if (newProgress.distanceFromRoute > offRouteThreshold) {
+      offRouteCountRef.current++;
+      const canReroute = Date.now() - lastRerouteRef.current >= rerouteCooldown;
+      if (offRouteCountRef.current >= offRouteReadings && canReroute) {
+        console.log(`🔀 Off route by ${Math.round(newProgress.distanceFromRoute)}m - rerouting`);
+        requestRoute(destination, position, true);
+      }
+    } else {
+      offRouteCountRef.current = 0;
+    }
+  }, [
+    position,
+    destination,
+    route,
+    status,
+    arrivalRadius,
+    offRouteThreshold,
+    offRouteReadings,
+    rerouteCooldown,
+    requestRoute,
+  ]);
+
+  return {
+    destination,
+    route,
+    progress,
+    status,
+    error,
+    isActive: status !== 'idle',
+    startGuidance,
+    stopGuidance,
+  };
+}
@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+import { settingsStore, SettingsStore } from '@/services/settingsStore';
+
+// The user's preferences, loaded from disk on mount and kept in sync with the store
+export function useSettings(store: SettingsStore = settingsStore) {
+  const [settings, setSettings] = useState(store.get());
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = store.subscribe(setSettings);
+    store.load().then(loadedSettings => {
+      setSettings(loadedSettings);
+      setIsLoaded(true);
+    });
+    return unsubscribe;
+  }, [store]);
+
+  return {
+    settings,
+    isLoaded,
+    updateSettings: store.update,
+    resetSettings: store.reset,
+  };
+}
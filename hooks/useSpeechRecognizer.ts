@@ -0,0 +1,10 @@
+import { createContext, useContext } from 'react';
+import { expoSpeechRecognizer, SpeechRecognizer } from '@/utils/speechRecognizer';
+
+// Wrap a subtree in <SpeechRecognizerContext.Provider value={...}> to swap the
+// speech engine (e.g. a text recognizer) for every voice search inside it
+export const SpeechRecognizerContext = createContext<SpeechRecognizer>(expoSpeechRecognizer);
+
+export function useSpeechRecognizer() {
+  return useContext(SpeechRecognizerContext);
+}
@@ -0,0 +1,13 @@
+import { useCallback } from 'react';
+import { useSettings } from '@/hooks/useSettings';
+import { resolveLocale, Translate, translate } from '@/utils/i18n';
+
+// `t` for the app language; components re-render when the language setting changes
+export function useTranslation() {
+  const { settings } = useSettings();
+  const locale = resolveLocale(settings.language);
+
+  const t = useCallback<Translate>((key, params) => translate(locale, key, params), [locale]);
+
+  return { t, locale };
+}
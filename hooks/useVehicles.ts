@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { getDefaultVehicle, vehicleStore, VehicleStore } from '@/services/vehicleStore';
+
+// The user's garage, loaded from disk on mount and kept in sync with the store
+export function useVehicles(store: VehicleStore = vehicleStore) {
+  const [garage, setGarage] = useState(store.get());
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = store.subscribe(setGarage);
+    store.load().then(loadedGarage => {
+      setGarage(loadedGarage);
+      setIsLoaded(true);
+    });
+    return unsubscribe;
+  }, [store]);
+
+  return {
+    vehicles: garage.vehicles,
+    defaultVehicle: getDefaultVehicle(garage),
+    isLoaded,
+    addVehicle: store.add,
+    editVehicle: store.edit,
+    removeVehicle: store.remove,
+    setDefaultVehicle: store.setDefault,
+  };
+}
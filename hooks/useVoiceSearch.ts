@@ -0,0 +1,139 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { useSpeechRecognizer } from '@/hooks/useSpeechRecognizer';
+import { SpeechLanguage, SpeechRecognitionSession, SpeechRecognizer } from '@/utils/speechRecognizer';
+import { parseVoiceCommand, VoiceCommand } from '@/utils/voiceCommands';
+
+interface UseVoiceSearchOptions {
+  onCommand: (command: VoiceCommand, transcript: string) => void;
+  recognizer?: SpeechRecognizer;
+  defaultLanguage?: SpeechLanguage;
+}
+
+export type VoiceSearchErrorCode =
+  | 'noSpeech'
+  | 'permissionDenied'
+  | 'network'
+  | 'languageNotSupported'
+  | 'recognitionFailed'
+  | 'unavailable'
+  | 'notUnderstood'
+  | 'noFreeLotsNearby';
+
+// Recognizer error codes we explain; anything else is 'recognitionFailed'
+const RECOGNIZER_ERRORS: Record<string, VoiceSearchErrorCode> = {
+  'no-speech': 'noSpeech',
+  'speech-timeout': 'noSpeech',
+  'not-allowed': 'permissionDenied',
+  'network': 'network',
+  'language-not-supported': 'languageNotSupported',
+};
+
+// Spanish unless the device is set to English
+const getDeviceLanguage = (): SpeechLanguage => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().locale.startsWith('en') ? 'en-US' : 'es-ES';
+  } catch {
+    return 'es-ES';
+  }
+};
+
+// Press-and-hold voice input: listen while the button is held, then turn the transcript into a command
+export function useVoiceSearch(options: UseVoiceSearchOptions) {
+  const contextRecognizer = useSpeechRecognizer();
+  const {
+    onCommand,
+    recognizer = contextRecognizer,
+    defaultLanguage = getDeviceLanguage(),
+  } = options;
+
+  const [language, setLanguage] = useState<SpeechLanguage>(defaultLanguage);
+  const [isListening, setIsListening] = useState(false);
+  const [transcript, setTranscript] = useState('');
+  const [error, setError] = useState<VoiceSearchErrorCode | null>(null);
+
+  const sessionRef = useRef<SpeechRecognitionSession | null>(null);
+  const releasedRef = useRef(false);
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+
+  // Follow the app language setting when it changes
+  useEffect(() => {
+    setLanguage(defaultLanguage);
+  }, [defaultLanguage]);
+
+  const handleFinal = useCallback((text: string) => {
+    setTranscript(text);
+    const command = parseVoiceCommand(text);
+    if (!command) {
+      setError('notUnderstood');
+      return;
+    }
+    console.log('🎙️ Voice command:', command);
+    onCommandRef.current(command, text);
+  }, []);
+
+  const startListening = useCallback(async () => {
+    if (sessionRef.current) return;
+    releasedRef.current = false;
+    setTranscript('');
+    setError(null);
+
+    if (!recognizer.isAvailable()) {
+      setError('unavailable');
+      return;
+    }
+
+    const granted = await recognizer.requestPermissions();
+    if (!granted) {
+      setError('permissionDenied');
+      return;
+    }
+    // Button released while the permission prompt was up
+    if (releasedRef.current) return;
+
+    setIsListening(true);
+    sessionRef.current = recognizer.start(language, {
+      onPartial: setTranscript,
+      onFinal: handleFinal,
+      onError: (code, message) => {
+        console.warn('🚫 Speech recognition error:', code, message);
+        setError(RECOGNIZER_ERRORS[code] ?? 'recognitionFailed');
+      },
+      onEnd: () => {
+        sessionRef.current = null;
+        setIsListening(false);
+      },
+    });
+  }, [recognizer, language, handleFinal]);
+
+  const stopListening = useCallback(() => {
+    releasedRef.current = true;
+    sessionRef.current?.stop();
+  }, []);
+
+  const cancelListening = useCallback(() => {
+    releasedRef.current = true;
+    sessionRef.current?.abort();
+    setTranscript('');
+    setError(null);
+  }, []);
+
+  const toggleLanguage = useCallback(() => {
+    setLanguage(current => (current === 'es-ES' ? 'en-US' : 'es-ES'));
+  }, []);
+
+  // Never leave the microphone open after unmount
+  useEffect(() => () => sessionRef.current?.abort(), []);
+
+  return {
+    language,
+    isListening,
+    transcript,
+    error,
+    startListening,
+    stopListening,
+    cancelListening,
+    toggleLanguage,
+    reportError: (code: VoiceSearchErrorCode) => setError(code),
+  };
+}
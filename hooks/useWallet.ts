@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react';
+import { getWalletBalance, walletStore, WalletStore } from '@/services/walletStore';
+
+// Wallet ledger and balance, loaded from disk on mount and kept in sync with the store
+export function useWallet(store: WalletStore = walletStore) {
+  const [ledger, setLedger] = useState(store.get());
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = store.subscribe(setLedger);
+    store.load().then(loadedLedger => {
+      setLedger(loadedLedger);
+      setIsLoaded(true);
+    });
+    return unsubscribe;
+  }, [store]);
+
+  return {
+    transactions: ledger.transactions,
+    currency: ledger.currency,
+    balance: getWalletBalance(ledger.transactions),
+    isLoaded,
+    topUp: store.topUp,
+  };
+}
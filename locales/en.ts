@@ -0,0 +1,649 @@
+import { Messages } from '@/locales/es';
+
+export const en: Messages = {
+  common: {
+    cancel: 'Cancel',
+    no: 'No',
+    save: 'Save',
+    parkingLot: 'Car park',
+    error: 'Error',
+    retry: 'Retry',
+    loading: 'Loading...',
+  },
+
+  formats: {
+    age: {
+      noData: 'no data',
+      seconds: '{count} s ago',
+      minutes: '{count} min ago',
+      hours: '{count} h ago',
+      days: '{count} d ago',
+    },
+    duration: {
+      minutes: '{minutes} min',
+      hours: '{hours} h',
+      hoursMinutes: '{hours} h {minutes} min',
+    },
+    rates: {
+      perHour: '{amount}/h',
+      perDay: '{amount}/day',
+      perEntry: '{amount} per entry',
+      firstMinutesFree: '(first {minutes} min free)',
+      dailyMax: 'Daily maximum {amount}',
+    },
+    openingHours: {
+      allDay: '24 hours',
+      closed: 'Closed',
+    },
+    weekdays: {
+      monday: 'Monday',
+      tuesday: 'Tuesday',
+      wednesday: 'Wednesday',
+      thursday: 'Thursday',
+      friday: 'Friday',
+      saturday: 'Saturday',
+      sunday: 'Sunday',
+    },
+    cardinals: {
+      north: 'N',
+      northEast: 'NE',
+      east: 'E',
+      southEast: 'SE',
+      south: 'S',
+      southWest: 'SW',
+      west: 'W',
+      northWest: 'NW',
+    },
+    amenities: {
+      ev_charging: 'EV charging',
+      covered: 'Covered',
+      security: 'Security',
+      disabled_access: 'Accessible',
+      toilets: 'Toilets',
+      car_wash: 'Car wash',
+      motorcycle: 'Motorcycles',
+      valet: 'Valet',
+    },
+  },
+
+  errors: {
+    location: {
+      permissionDenied: 'Location permission is required to use this feature',
+      permissionRequestFailed: 'Could not request location permission',
+      noValidFix: 'Could not get a valid GPS fix after several attempts',
+      trackingFailed: 'Could not start location tracking',
+    },
+    guidance: {
+      routeFailed: 'Could not calculate the route',
+      locationUnavailable: 'Location unavailable',
+    },
+    placeSearch: {
+      searchFailed: 'Could not complete the search',
+    },
+    voice: {
+      noSpeech: 'No speech detected',
+      permissionDenied: 'Microphone permission denied',
+      network: 'No connection for speech recognition',
+      languageNotSupported: 'Language not available on this device',
+      recognitionFailed: 'Speech recognition error',
+      unavailable: 'Speech recognition not available',
+      notUnderstood: "Sorry, I didn't catch that",
+      noFreeLotsNearby: 'No car parks with free spaces nearby',
+    },
+    parkingLots: {
+      loadFailed: 'Could not load car parks',
+    },
+    payment: {
+      cardDeclined: 'Card declined',
+      paymentFailed: 'Could not complete the payment',
+    },
+  },
+
+  notFound: {
+    title: 'Oops!',
+    message: "This screen doesn't exist.",
+    goHome: 'Back to the map',
+  },
+
+  locationPermission: {
+    title: 'Location required',
+    description: 'ParkingFinder needs access to your location to work properly. This app is designed specifically for mobile devices with GPS.',
+    tracking: 'Real-time GPS tracking',
+    heading: 'Accurate heading detection',
+    privacy: 'Safe and private data',
+    allow: 'Allow location',
+    footer: 'Your location is only used inside the app and is never shared. For the best experience, use this app on an iOS or Android device.',
+  },
+
+  availability: {
+    connecting: 'Connecting...',
+    live: 'Live',
+    noUpdates: 'No updates',
+    offline: 'Offline',
+  },
+
+  search: {
+    placeholder: 'Search for an address or car park',
+    noResults: 'No results',
+  },
+
+  destinationLots: {
+    title: 'Car parks near',
+    loading: 'Looking for car parks...',
+    empty: 'No car parks with free spaces within walking distance',
+  },
+
+  voice: {
+    listening: 'Listening...',
+    failed: 'Could not complete',
+    holdToTalk: 'Press and hold to talk',
+  },
+
+  navigation: {
+    routing: 'Calculating route...',
+    rerouting: 'Recalculating route...',
+    arrival: 'Arrive {time}',
+    arrived: 'You have arrived',
+    finish: 'Finish',
+    maneuvers: {
+      onto: '{instruction} onto {street}',
+      depart: 'Head towards the destination',
+      departOnto: 'Head onto {street}',
+      arrive: 'Arrive at the car park',
+      roundabout: 'At the roundabout, take exit {exit}',
+      uturn: 'Make a U-turn',
+      sharpRight: 'Turn sharp right',
+      right: 'Turn right',
+      slightRight: 'Keep right',
+      straight: 'Go straight on',
+      slightLeft: 'Keep left',
+      left: 'Turn left',
+      sharpLeft: 'Turn sharp left',
+      continue: 'Continue',
+    },
+  },
+
+  walkBack: {
+    distance: '{distance} to your car',
+    straight: 'Go straight on',
+    turnAround: 'Turn around',
+    onYourRight: 'On your right',
+    onYourLeft: 'On your left',
+    arrived: 'Your car is here',
+    forget: 'Forget',
+  },
+
+  parkingProposal: {
+    question: 'Did you park here?',
+    stopped: 'Stopped {age}',
+  },
+
+  sessionTimer: {
+    expired: 'Expired {time} ago',
+    extend: '+{minutes} min',
+  },
+
+  reservationMarker: {
+    inside: 'Inside',
+  },
+
+  map: {
+    searchPlaceholder: 'Search for a place or address',
+    location: {
+      checkingPermissions: 'Checking permissions...',
+      locating: 'Getting GPS location...',
+      errorTitle: 'Location error',
+      mobileOnly: 'This app is designed for mobile devices with GPS',
+      enableGps: 'Make sure GPS is turned on',
+      startTracking: 'Start tracking',
+    },
+    payment: {
+      insufficientTitle: 'Insufficient balance',
+      insufficientMessage: 'Add funds to your wallet to pay for parking.',
+    },
+    session: {
+      endTitle: 'End session',
+      endMessage: 'Do you want to end the parking session?',
+      end: 'End',
+      endedTitle: 'Session ended',
+      total: 'Total {amount}',
+      refunded: 'Refunded {amount}',
+      charged: 'Extra charge {amount}',
+    },
+    parkedCar: {
+      title: 'Parked car',
+      notSaved: 'There is no parked car saved on this device',
+    },
+    share: {
+      lot: {
+        one: '{name} ({city}) - {count} free space',
+        other: '{name} ({city}) - {count} free spaces',
+      },
+      parkedCar: "I've parked here",
+      parkedCarWithNote: "I've parked here ({note})",
+    },
+  },
+
+  deepLinks: {
+    sharedPlace: 'Shared destination',
+    parkedCar: 'Parked car',
+    parkedCarWithNote: 'Parked car · {note}',
+  },
+
+  lot: {
+    free: {
+      one: 'free',
+      other: 'free',
+    },
+    capacity: {
+      one: 'of {count} space',
+      other: 'of {count} spaces',
+    },
+    updated: 'Updated {age}',
+    estimated: 'Estimated {age}',
+    offline: 'offline',
+    open: 'Open',
+    closed: 'Closed',
+    notFound: 'Car park not found',
+    operator: 'Operated by {name}',
+    actions: {
+      navigate: 'Go',
+      showOnMap: 'Show on map',
+      save: 'Save',
+      saved: 'Saved',
+      reserve: 'Reserve',
+      share: 'Share',
+    },
+    sections: {
+      address: 'Address',
+      prices: 'Prices',
+      hours: 'Opening hours',
+      amenities: 'Amenities',
+    },
+  },
+
+  saveCar: {
+    title: "I've parked here",
+    currentLocation: 'Current location',
+    notePlaceholder: 'Level, space or note (optional)',
+    addPhoto: 'Add photo',
+    cameraDenied: 'Camera permission denied',
+    cameraFailed: 'Could not open the camera',
+    save: 'Save location',
+  },
+
+  startSession: {
+    title: 'Start parking session',
+    street: 'Street parking',
+    paidTime: 'Paid time',
+    noLimit: 'No limit',
+    untilEnded: 'Time is counted until you end the session',
+    estimatedCost: 'Estimated cost {amount}',
+    reminder: "We'll remind you before it expires",
+    paidFromWallet: 'Paid from your wallet · Balance {balance}',
+    start: 'Start',
+  },
+
+  topUp: {
+    otherAmount: 'Other amount',
+    pay: 'Pay',
+    payAmount: 'Pay {amount}',
+  },
+
+  reservationForm: {
+    title: 'Reserve a space',
+    arrival: 'Arrival',
+    duration: 'Duration',
+    total: 'Total',
+    noRate: 'No rate',
+    cancellationTerms: 'Free cancellation up to {minutes} min before arrival; after that {refund} is refunded.',
+    full: 'No free spaces left',
+    walletNotAccepted: "This car park doesn't accept wallet payments",
+    confirm: 'Confirm reservation',
+    failed: 'Could not complete the reservation',
+  },
+
+  reservations: {
+    upcoming: 'Upcoming',
+    past: 'Past',
+    empty: "You don't have any reservations yet",
+    status: {
+      pending: 'Pending',
+      confirmed: 'Confirmed',
+      active: 'In progress',
+      completed: 'Completed',
+      cancelled: 'Cancelled',
+      noShow: 'No-show',
+    },
+    details: {
+      showCode: 'Show this code at the entrance',
+      awaitingConfirmation: 'Waiting for the car park to confirm...',
+      refunded: '{amount} refunded to your wallet',
+      checkIn: "I've arrived",
+      fullRefund: 'full refund',
+      partialRefund: '{amount} refund',
+    },
+    cancel: {
+      title: 'Cancel reservation',
+      message: 'Do you want to cancel this reservation?',
+      failed: 'Could not cancel the reservation',
+    },
+  },
+
+  history: {
+    empty: 'No parking stays yet',
+    stays: {
+      one: '{count} stay',
+      other: '{count} stays',
+    },
+    export: 'Export',
+    exportTitle: 'Export receipts',
+    exportMessage: {
+      one: '{count} stay in {month}',
+      other: '{count} stays in {month}',
+    },
+    exportFailed: 'Could not export the receipts',
+    sources: {
+      session: 'Parking session',
+      reservation: 'Reservation',
+    },
+    details: {
+      date: 'Date',
+      time: 'Time',
+      duration: 'Duration',
+      amount: 'Amount',
+      noCost: 'No cost recorded',
+      vehicle: 'Vehicle',
+      type: 'Type',
+      pdfReceipt: 'PDF receipt',
+    },
+  },
+
+  receipts: {
+    title: 'Parking receipts · {title}',
+    generated: 'Generated on {date} with ParkingFinder',
+    total: 'Total: {total}',
+    fileName: 'parking-receipts',
+    dialogTitle: 'Receipts · {title}',
+    columns: {
+      arrival: 'Arrival',
+      departure: 'Departure',
+      arrivalDeparture: 'Arrival / departure',
+      duration: 'Duration',
+      durationMinutes: 'Duration (min)',
+      lot: 'Car park',
+      amount: 'Amount',
+      currency: 'Currency',
+      vehicle: 'Vehicle',
+      type: 'Type',
+      reference: 'Reference',
+    },
+  },
+
+  wallet: {
+    balance: 'Available balance',
+    addFunds: 'Add funds',
+    signedOut: 'Sign in to see your balance and add funds',
+    transactions: 'Transactions',
+    empty: 'No transactions yet',
+    paymentFailed: 'Could not complete the payment',
+    descriptions: {
+      topUp: 'Wallet top-up',
+      parking: 'Parking · {lot}',
+      session: 'Session',
+      overstay: '{description} (extra time)',
+      unusedTime: '{description} (unused time)',
+      paymentReturned: '{description} (returned)',
+      reservation: 'Reservation · {lot}',
+      reservationRejected: 'Reservation not confirmed · {lot}',
+      cancellation: 'Cancellation · {lot}',
+    },
+  },
+
+  auth: {
+    title: 'Account',
+    signIn: 'Sign in',
+    createAccount: 'Create account',
+    subtitle: 'You need an account to pay for and reserve parking',
+    password: 'Password (at least {count} characters)',
+    submit: 'Sign in',
+    or: 'or',
+    continueWith: 'Continue with {provider}',
+    haveAccount: 'Already have an account? Sign in',
+    noAccount: "Don't have an account? Sign up",
+    signInFailed: 'Incorrect email or password',
+    signUpFailed: 'Could not create the account',
+    localOAuthUser: '{provider} user',
+  },
+
+  help: {
+    topics: {
+      availability: {
+        question: 'Where does the free space count come from?',
+        answer: 'Connected car parks report their spaces in real time. When a figure is estimated or could not be updated, the car park details say so next to the time of the last update.',
+      },
+      search: {
+        question: 'How do I find parking near my destination?',
+        answer: 'Type or say an address in the search bar. When you pick a destination you will see the car parks closest on foot; if you have a default vehicle, only those that fit it are shown.',
+      },
+      sessions: {
+        question: 'How do parking sessions work?',
+        answer: 'Starting a timed session charges your wallet in advance. When you end it, unused time is refunded or the extra time is charged. Sessions without a limit are paid when you leave.',
+      },
+      reservations: {
+        question: 'Can I cancel a reservation?',
+        answer: 'Yes. Up to {freeMinutes} minutes before arrival you get a full refund; after that, {refund}. You can check in from {checkInMinutes} minutes before, and the space is held for {graceMinutes} minutes after the reserved time.',
+      },
+      receipts: {
+        question: 'Where can I find my receipts?',
+        answer: 'History lists every stay grouped by month. You can export a single receipt or the whole month as PDF or CSV.',
+      },
+      privacy: {
+        question: 'What data does the app keep?',
+        answer: 'Your location is only used on the device for the map and navigation. Your parked car, vehicles, history, reservations and wallet are stored on this device and deleted when you sign out; your favourites and profile are synced with your account.',
+      },
+      security: {
+        question: 'How is my account protected?',
+        answer: 'Your sign-in credentials are stored encrypted in the system secure storage and renewed automatically. Signing out removes them from the device.',
+      },
+    },
+  },
+
+  menu: {
+    guest: 'Guest',
+    guestHint: 'Sign in to pay and reserve',
+    memberSince: 'Member since {year}',
+    since: 'Since {year}',
+    wallet: 'Wallet',
+    balance: 'Balance',
+    add: 'Add',
+    favorites: 'Favourites',
+    favoritesEmpty: 'Star car parks to keep them at hand',
+    seeAll: 'See all',
+    search: 'Search',
+    reservations: 'Reservations',
+    upcomingReservations: {
+      one: '{count} upcoming',
+      other: '{count} upcoming',
+    },
+    history: 'History',
+    notifications: 'Notifications',
+    privacy: 'Privacy and security',
+    privacyShort: 'Privacy',
+    settings: 'Settings',
+    help: 'Help and support',
+    helpShort: 'Help',
+    session: {
+      parked: 'Parked',
+      remaining: 'Remaining',
+      expired: 'Expired',
+      start: 'Start parking',
+    },
+    reminder: {
+      atExpiry: 'Only at expiry',
+      before: '{minutes} min before',
+    },
+    gps: {
+      title: 'GPS status',
+      signalLabel: 'Signal: {signal}',
+      signal: {
+        none: 'No signal',
+        excellent: 'Excellent',
+        good: 'Good',
+        poor: 'Fair',
+        lost: 'Lost',
+        unknown: 'Unknown',
+      },
+      active: 'ACTIVE',
+      inactive: 'INACTIVE',
+      accuracy: 'Accuracy: ±{accuracy}m',
+      speed: 'Speed: {speed} km/h',
+      coordinates: 'Coordinates:',
+    },
+    signOut: {
+      title: 'Sign out',
+      message: 'Your parked car, reservations, wallet and history will be deleted from this device.',
+      confirm: 'Sign out',
+    },
+  },
+
+  favorites: {
+    capacity: {
+      one: '{count} space',
+      other: '{count} spaces',
+    },
+    search: 'Find car parks',
+  },
+
+  profile: {
+    title: 'Profile',
+    signedOut: 'Sign in to edit your profile and vehicles',
+    name: 'Name',
+    email: 'Email',
+    saveChanges: 'Save changes',
+    saveFailed: 'Could not save the profile',
+    vehicles: 'My vehicles',
+    vehiclesHint: "Search hides car parks your default vehicle doesn't fit in.",
+    photo: {
+      deniedTitle: 'Permission denied',
+      deniedMessage: 'Allow access to your photos to change your profile picture.',
+      failed: 'Could not change the photo',
+    },
+  },
+
+  vehicles: {
+    sizes: {
+      motorcycle: 'Motorcycle',
+      small: 'Small',
+      medium: 'Medium',
+      large: 'Large / SUV',
+      van: 'Van',
+    },
+    form: {
+      addTitle: 'Add vehicle',
+      editTitle: 'Edit vehicle',
+      plate: 'Number plate',
+      make: 'Make',
+      model: 'Model',
+      size: 'Size',
+      height: 'Height in metres (optional)',
+      electric: 'Electric',
+      default: 'Default vehicle',
+      delete: 'Delete vehicle',
+      saveFailed: 'Could not save the vehicle',
+    },
+    remove: {
+      title: 'Delete vehicle',
+      message: 'Do you want to delete {plate}?',
+      confirm: 'Delete',
+    },
+  },
+
+  settings: {
+    sections: {
+      units: {
+        title: 'Units',
+        description: 'Distances on the map and in navigation',
+      },
+      mapType: {
+        title: 'Map type',
+        description: 'The one the app opens with',
+      },
+      navigationZoom: {
+        title: 'Navigation zoom',
+        description: 'Camera distance while following you',
+      },
+      gpsProfile: {
+        title: 'GPS profile',
+        description: 'More accuracy uses more battery',
+      },
+      language: {
+        title: 'Language',
+        description: 'App texts and voice search',
+      },
+      theme: {
+        title: 'Theme',
+        description: 'Look of the map and the status bar',
+      },
+      locationSource: {
+        title: 'Location source (development)',
+        description: 'Record this GPS session, replay the last recording or drive a scripted route',
+      },
+    },
+    options: {
+      units: {
+        metric: 'Kilometres',
+        imperial: 'Miles',
+      },
+      mapType: {
+        standard: 'Standard',
+        satellite: 'Satellite',
+        hybrid: 'Hybrid',
+      },
+      navigationZoom: {
+        close: 'Close',
+        medium: 'Medium',
+        far: 'Far',
+      },
+      gpsProfile: {
+        precise: 'Highest accuracy',
+        balanced: 'Balanced',
+        batterySaver: 'Battery saver',
+      },
+      language: {
+        system: 'System',
+        es: 'Español',
+        en: 'English',
+        'zh-CN': '简体中文',
+      },
+      theme: {
+        system: 'System',
+        light: 'Light',
+        dark: 'Dark',
+      },
+      locationSource: {
+        device: 'Device GPS',
+        record: 'Record trace',
+        replay: 'Replay last trace',
+        simulatedDrive: 'Simulated drive',
+        simulatedParking: 'Simulated parking',
+      },
+    },
+    reset: {
+      title: 'Reset settings',
+      message: 'The default values will be used again.',
+      confirm: 'Reset',
+      button: 'Reset to defaults',
+    },
+  },
+
+  notifications: {
+    session: {
+      yourLot: 'your car park',
+      expiredTitle: 'Your parking has expired',
+      expiredBody: 'The paid time at {place} has run out.',
+      reminderTitle: '{minutes} min of parking left',
+      reminderBody: 'Extend your session at {place} or head back to the car.',
+    },
+  },
+};
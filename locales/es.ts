@@ -0,0 +1,655 @@
+import { MessageCatalog } from '@/types/i18n';
+
+// Spanish messages: the source catalog every other language is checked against.
+// {name} placeholders are filled from params; `one`/`other` objects pick a form by `count`.
+
+export const es = {
+  common: {
+    cancel: 'Cancelar',
+    no: 'No',
+    save: 'Guardar',
+    parkingLot: 'Aparcamiento',
+    error: 'Error',
+    retry: 'Reintentar',
+    loading: 'Cargando...',
+  },
+
+  formats: {
+    age: {
+      noData: 'sin datos',
+      seconds: 'hace {count} s',
+      minutes: 'hace {count} min',
+      hours: 'hace {count} h',
+      days: 'hace {count} d',
+    },
+    duration: {
+      minutes: '{minutes} min',
+      hours: '{hours} h',
+      hoursMinutes: '{hours} h {minutes} min',
+    },
+    rates: {
+      perHour: '{amount}/h',
+      perDay: '{amount}/día',
+      perEntry: '{amount} por entrada',
+      firstMinutesFree: '(primeros {minutes} min gratis)',
+      dailyMax: 'Máximo diario {amount}',
+    },
+    openingHours: {
+      allDay: '24 horas',
+      closed: 'Cerrado',
+    },
+    weekdays: {
+      monday: 'Lunes',
+      tuesday: 'Martes',
+      wednesday: 'Miércoles',
+      thursday: 'Jueves',
+      friday: 'Viernes',
+      saturday: 'Sábado',
+      sunday: 'Domingo',
+    },
+    cardinals: {
+      north: 'N',
+      northEast: 'NE',
+      east: 'E',
+      southEast: 'SE',
+      south: 'S',
+      southWest: 'SO',
+      west: 'O',
+      northWest: 'NO',
+    },
+    amenities: {
+      ev_charging: 'Carga eléctrica',
+      covered: 'Cubierto',
+      security: 'Vigilancia',
+      disabled_access: 'Accesible',
+      toilets: 'Aseos',
+      car_wash: 'Lavado',
+      motorcycle: 'Motos',
+      valet: 'Aparcacoches',
+    },
+  },
+
+  errors: {
+    location: {
+      permissionDenied: 'Se requieren permisos de ubicación para usar esta función',
+      permissionRequestFailed: 'No se pudieron solicitar los permisos de ubicación',
+      noValidFix: 'No se pudo obtener una ubicación GPS válida después de múltiples intentos',
+      trackingFailed: 'No se pudo iniciar el seguimiento de la ubicación',
+    },
+    guidance: {
+      routeFailed: 'No se pudo calcular la ruta',
+      locationUnavailable: 'Ubicación no disponible',
+    },
+    placeSearch: {
+      searchFailed: 'No se pudo completar la búsqueda',
+    },
+    voice: {
+      noSpeech: 'No se ha detectado voz',
+      permissionDenied: 'Permiso de micrófono denegado',
+      network: 'Sin conexión para reconocer la voz',
+      languageNotSupported: 'Idioma no disponible en este dispositivo',
+      recognitionFailed: 'Error de reconocimiento de voz',
+      unavailable: 'Reconocimiento de voz no disponible',
+      notUnderstood: 'No te he entendido',
+      noFreeLotsNearby: 'No hay aparcamientos libres cerca',
+    },
+    parkingLots: {
+      loadFailed: 'No se pudieron cargar los aparcamientos',
+    },
+    payment: {
+      cardDeclined: 'Tarjeta rechazada',
+      paymentFailed: 'No se pudo completar el pago',
+    },
+  },
+
+  notFound: {
+    title: '¡Vaya!',
+    message: 'Esta pantalla no existe.',
+    goHome: 'Volver al mapa',
+  },
+
+  locationPermission: {
+    title: 'Ubicación requerida',
+    description: 'ParkingFinder necesita acceso a tu ubicación para funcionar correctamente. Esta aplicación está diseñada específicamente para dispositivos móviles con GPS.',
+    tracking: 'Seguimiento GPS en tiempo real',
+    heading: 'Detección precisa de orientación',
+    privacy: 'Datos seguros y privados',
+    allow: 'Permitir ubicación',
+    footer: 'Tu ubicación solo se usa dentro de la aplicación y nunca se comparte. Para la mejor experiencia, usa esta app en un dispositivo iOS o Android.',
+  },
+
+  availability: {
+    connecting: 'Conectando...',
+    live: 'En vivo',
+    noUpdates: 'Sin novedades',
+    offline: 'Sin conexión',
+  },
+
+  search: {
+    placeholder: 'Buscar dirección o aparcamiento',
+    noResults: 'Sin resultados',
+  },
+
+  destinationLots: {
+    title: 'Aparcamientos cerca de',
+    loading: 'Buscando aparcamientos...',
+    empty: 'No hay aparcamientos libres a poca distancia',
+  },
+
+  voice: {
+    listening: 'Escuchando...',
+    failed: 'No se pudo completar',
+    holdToTalk: 'Mantén pulsado para hablar',
+  },
+
+  navigation: {
+    routing: 'Calculando ruta...',
+    rerouting: 'Recalculando ruta...',
+    arrival: 'Llegada {time}',
+    arrived: 'Has llegado',
+    finish: 'Finalizar',
+    maneuvers: {
+      onto: '{instruction} hacia {street}',
+      depart: 'Sal hacia el destino',
+      departOnto: 'Sal hacia {street}',
+      arrive: 'Llegada al aparcamiento',
+      roundabout: 'En la rotonda, toma la {exit}.ª salida',
+      uturn: 'Cambia de sentido',
+      sharpRight: 'Gira bruscamente a la derecha',
+      right: 'Gira a la derecha',
+      slightRight: 'Mantente a la derecha',
+      straight: 'Sigue recto',
+      slightLeft: 'Mantente a la izquierda',
+      left: 'Gira a la izquierda',
+      sharpLeft: 'Gira bruscamente a la izquierda',
+      continue: 'Continúa',
+    },
+  },
+
+  walkBack: {
+    distance: '{distance} hasta tu coche',
+    straight: 'Sigue recto',
+    turnAround: 'Date la vuelta',
+    onYourRight: 'A tu derecha',
+    onYourLeft: 'A tu izquierda',
+    arrived: 'Tu coche está aquí',
+    forget: 'Olvidar',
+  },
+
+  parkingProposal: {
+    question: '¿Has aparcado aquí?',
+    stopped: 'Parado {age}',
+  },
+
+  sessionTimer: {
+    expired: 'Caducado hace {time}',
+    extend: '+{minutes} min',
+  },
+
+  reservationMarker: {
+    inside: 'Dentro',
+  },
+
+  map: {
+    searchPlaceholder: 'Buscar lugar o dirección',
+    location: {
+      checkingPermissions: 'Verificando permisos...',
+      locating: 'Obteniendo ubicación GPS...',
+      errorTitle: 'Error de ubicación',
+      mobileOnly: 'Esta app está diseñada para dispositivos móviles con GPS',
+      enableGps: 'Asegúrate de que el GPS esté activado',
+      startTracking: 'Iniciar seguimiento',
+    },
+    payment: {
+      insufficientTitle: 'Saldo insuficiente',
+      insufficientMessage: 'Agrega fondos a tu billetera para pagar el aparcamiento.',
+    },
+    session: {
+      endTitle: 'Finalizar sesión',
+      endMessage: '¿Quieres finalizar la sesión de aparcamiento?',
+      end: 'Finalizar',
+      endedTitle: 'Sesión finalizada',
+      total: 'Total {amount}',
+      refunded: 'Devuelto {amount}',
+      charged: 'Cargo extra {amount}',
+    },
+    parkedCar: {
+      title: 'Coche aparcado',
+      notSaved: 'No hay ningún coche aparcado guardado en este dispositivo',
+    },
+    share: {
+      lot: {
+        one: '{name} ({city}) - {count} plaza libre',
+        other: '{name} ({city}) - {count} plazas libres',
+      },
+      parkedCar: 'He aparcado aquí',
+      parkedCarWithNote: 'He aparcado aquí ({note})',
+    },
+  },
+
+  deepLinks: {
+    sharedPlace: 'Destino compartido',
+    parkedCar: 'Coche aparcado',
+    parkedCarWithNote: 'Coche aparcado · {note}',
+  },
+
+  lot: {
+    free: {
+      one: 'libre',
+      other: 'libres',
+    },
+    capacity: {
+      one: 'de {count} plaza',
+      other: 'de {count} plazas',
+    },
+    updated: 'Actualizado {age}',
+    estimated: 'Estimado {age}',
+    offline: 'sin conexión',
+    open: 'Abierto',
+    closed: 'Cerrado',
+    notFound: 'No se ha encontrado el aparcamiento',
+    operator: 'Gestionado por {name}',
+    actions: {
+      navigate: 'Ir',
+      showOnMap: 'Ver en el mapa',
+      save: 'Guardar',
+      saved: 'Guardado',
+      reserve: 'Reservar',
+      share: 'Compartir',
+    },
+    sections: {
+      address: 'Dirección',
+      prices: 'Precios',
+      hours: 'Horario',
+      amenities: 'Servicios',
+    },
+  },
+
+  saveCar: {
+    title: 'He aparcado aquí',
+    currentLocation: 'Ubicación actual',
+    notePlaceholder: 'Planta, plaza o nota (opcional)',
+    addPhoto: 'Añadir foto',
+    cameraDenied: 'Permiso de cámara denegado',
+    cameraFailed: 'No se pudo abrir la cámara',
+    save: 'Guardar ubicación',
+  },
+
+  startSession: {
+    title: 'Iniciar sesión de aparcamiento',
+    street: 'Aparcamiento en la calle',
+    paidTime: 'Tiempo pagado',
+    noLimit: 'Sin límite',
+    untilEnded: 'Se cuenta el tiempo hasta que finalices la sesión',
+    estimatedCost: 'Coste estimado {amount}',
+    reminder: 'Te avisaremos antes de que caduque',
+    paidFromWallet: 'Se paga con tu billetera · Saldo {balance}',
+    start: 'Iniciar',
+  },
+
+  topUp: {
+    otherAmount: 'Otra cantidad',
+    pay: 'Pagar',
+    payAmount: 'Pagar {amount}',
+  },
+
+  reservationForm: {
+    title: 'Reservar plaza',
+    arrival: 'Llegada',
+    duration: 'Duración',
+    total: 'Total',
+    noRate: 'Sin tarifa',
+    cancellationTerms: 'Cancelación gratuita hasta {minutes} min antes de la llegada; después se devuelve el {refund}.',
+    full: 'No quedan plazas libres',
+    walletNotAccepted: 'Este aparcamiento no admite pago con la billetera',
+    confirm: 'Confirmar reserva',
+    failed: 'No se pudo completar la reserva',
+  },
+
+  reservations: {
+    upcoming: 'Próximas',
+    past: 'Anteriores',
+    empty: 'Todavía no tienes reservas',
+    status: {
+      pending: 'Pendiente',
+      confirmed: 'Confirmada',
+      active: 'En curso',
+      completed: 'Finalizada',
+      cancelled: 'Cancelada',
+      noShow: 'No presentada',
+    },
+    details: {
+      showCode: 'Muestra este código en la entrada',
+      awaitingConfirmation: 'Esperando la confirmación del aparcamiento...',
+      refunded: 'Devuelto {amount} a tu billetera',
+      checkIn: 'He llegado',
+      fullRefund: 'reembolso completo',
+      partialRefund: 'reembolso de {amount}',
+    },
+    cancel: {
+      title: 'Cancelar reserva',
+      message: '¿Quieres cancelar esta reserva?',
+      failed: 'No se pudo cancelar la reserva',
+    },
+  },
+
+  history: {
+    empty: 'Todavía no hay aparcamientos',
+    stays: {
+      one: '{count} aparcamiento',
+      other: '{count} aparcamientos',
+    },
+    export: 'Exportar',
+    exportTitle: 'Exportar recibos',
+    exportMessage: {
+      one: '{count} aparcamiento de {month}',
+      other: '{count} aparcamientos de {month}',
+    },
+    exportFailed: 'No se pudieron exportar los recibos',
+    sources: {
+      session: 'Sesión de aparcamiento',
+      reservation: 'Reserva',
+    },
+    details: {
+      date: 'Fecha',
+      time: 'Horario',
+      duration: 'Duración',
+      amount: 'Importe',
+      noCost: 'Sin coste registrado',
+      vehicle: 'Vehículo',
+      type: 'Tipo',
+      pdfReceipt: 'Recibo PDF',
+    },
+  },
+
+  receipts: {
+    title: 'Recibos de aparcamiento · {title}',
+    generated: 'Generado el {date} con ParkingFinder',
+    total: 'Total: {total}',
+    fileName: 'recibos-aparcamiento',
+    dialogTitle: 'Recibos · {title}',
+    columns: {
+      arrival: 'Llegada',
+      departure: 'Salida',
+      arrivalDeparture: 'Llegada / salida',
+      duration: 'Duración',
+      durationMinutes: 'Duración (min)',
+      lot: 'Aparcamiento',
+      amount: 'Importe',
+      currency: 'Moneda',
+      vehicle: 'Vehículo',
+      type: 'Tipo',
+      reference: 'Referencia',
+    },
+  },
+
+  wallet: {
+    balance: 'Saldo disponible',
+    addFunds: 'Agregar fondos',
+    signedOut: 'Inicia sesión para ver tu saldo y agregar fondos',
+    transactions: 'Movimientos',
+    empty: 'Todavía no hay movimientos',
+    paymentFailed: 'No se pudo completar el pago',
+    descriptions: {
+      topUp: 'Recarga de billetera',
+      parking: 'Aparcamiento · {lot}',
+      session: 'Sesión',
+      overstay: '{description} (tiempo extra)',
+      unusedTime: '{description} (tiempo no usado)',
+      paymentReturned: '{description} (devolución)',
+      reservation: 'Reserva · {lot}',
+      reservationRejected: 'Reserva no confirmada · {lot}',
+      cancellation: 'Cancelación · {lot}',
+    },
+  },
+
+  auth: {
+    title: 'Cuenta',
+    signIn: 'Iniciar sesión',
+    createAccount: 'Crear cuenta',
+    subtitle: 'Necesitas una cuenta para pagar y reservar aparcamiento',
+    password: 'Contraseña (mínimo {count} caracteres)',
+    submit: 'Entrar',
+    or: 'o',
+    continueWith: 'Continuar con {provider}',
+    haveAccount: '¿Ya tienes cuenta? Inicia sesión',
+    noAccount: '¿No tienes cuenta? Regístrate',
+    signInFailed: 'Correo o contraseña incorrectos',
+    signUpFailed: 'No se pudo crear la cuenta',
+    localOAuthUser: 'Usuario de {provider}',
+  },
+
+  help: {
+    topics: {
+      availability: {
+        question: '¿De dónde salen las plazas libres?',
+        answer: 'Los aparcamientos conectados informan de sus plazas en tiempo real. Cuando un dato es estimado o no se ha podido actualizar, la ficha del aparcamiento lo indica junto a la hora de la última actualización.',
+      },
+      search: {
+        question: '¿Cómo busco aparcamiento cerca de mi destino?',
+        answer: 'Escribe o dicta una dirección en la barra de búsqueda. Al elegir un destino verás los aparcamientos más cercanos a pie; si tienes un vehículo predeterminado, solo se muestran los que admiten su tamaño.',
+      },
+      sessions: {
+        question: '¿Cómo funcionan las sesiones de aparcamiento?',
+        answer: 'Al iniciar una sesión con tiempo se cobra por adelantado desde tu billetera. Al finalizarla se devuelve el tiempo no usado o se cobra el exceso. Las sesiones sin límite se pagan al salir.',
+      },
+      reservations: {
+        question: '¿Puedo cancelar una reserva?',
+        answer: 'Sí. Hasta {freeMinutes} minutos antes de la llegada se devuelve el importe completo; después, el {refund}. Puedes registrar tu llegada desde {checkInMinutes} minutos antes y la plaza se guarda {graceMinutes} minutos después de la hora reservada.',
+      },
+      receipts: {
+        question: '¿Dónde encuentro mis recibos?',
+        answer: 'En Historial tienes cada aparcamiento agrupado por mes. Puedes exportar un recibo suelto o el mes completo en PDF o CSV.',
+      },
+      privacy: {
+        question: '¿Qué datos guarda la aplicación?',
+        answer: 'Tu ubicación solo se usa en el dispositivo para el mapa y la navegación. El coche aparcado, tus vehículos, el historial, las reservas y la billetera se guardan en este dispositivo y se borran al cerrar sesión; tus favoritos y tu perfil se sincronizan con tu cuenta.',
+      },
+      security: {
+        question: '¿Cómo se protege mi cuenta?',
+        answer: 'Las credenciales de acceso se guardan cifradas en el almacenamiento seguro del sistema y se renuevan automáticamente. Cerrar sesión las elimina del dispositivo.',
+      },
+    },
+  },
+
+  menu: {
+    guest: 'Invitado',
+    guestHint: 'Inicia sesión para pagar y reservar',
+    memberSince: 'Miembro desde {year}',
+    since: 'Desde {year}',
+    wallet: 'Billetera',
+    balance: 'Saldo',
+    add: 'Agregar',
+    favorites: 'Favoritos',
+    favoritesEmpty: 'Marca aparcamientos con la estrella para tenerlos a mano',
+    seeAll: 'Ver todos',
+    search: 'Buscar',
+    reservations: 'Reservas',
+    upcomingReservations: {
+      one: '{count} próxima',
+      other: '{count} próximas',
+    },
+    history: 'Historial',
+    notifications: 'Notificaciones',
+    privacy: 'Privacidad y seguridad',
+    privacyShort: 'Privacidad',
+    settings: 'Configuración',
+    help: 'Ayuda y soporte',
+    helpShort: 'Ayuda',
+    session: {
+      parked: 'Aparcado',
+      remaining: 'Restante',
+      expired: 'Caducado',
+      start: 'Iniciar aparcamiento',
+    },
+    reminder: {
+      atExpiry: 'Solo al caducar',
+      before: '{minutes} min antes',
+    },
+    gps: {
+      title: 'Estado del GPS',
+      signalLabel: 'Señal: {signal}',
+      signal: {
+        none: 'Sin señal',
+        excellent: 'Excelente',
+        good: 'Buena',
+        poor: 'Regular',
+        lost: 'Perdida',
+        unknown: 'Desconocida',
+      },
+      active: 'ACTIVO',
+      inactive: 'INACTIVO',
+      accuracy: 'Precisión: ±{accuracy}m',
+      speed: 'Velocidad: {speed} km/h',
+      coordinates: 'Coordenadas:',
+    },
+    signOut: {
+      title: 'Cerrar sesión',
+      message: 'Se borrarán de este dispositivo tu coche aparcado, tus reservas, tu billetera y tu historial.',
+      confirm: 'Cerrar sesión',
+    },
+  },
+
+  favorites: {
+    capacity: {
+      one: '{count} plaza',
+      other: '{count} plazas',
+    },
+    search: 'Buscar aparcamientos',
+  },
+
+  profile: {
+    title: 'Perfil',
+    signedOut: 'Inicia sesión para editar tu perfil y tus vehículos',
+    name: 'Nombre',
+    email: 'Correo electrónico',
+    saveChanges: 'Guardar cambios',
+    saveFailed: 'No se pudo guardar el perfil',
+    vehicles: 'Mis vehículos',
+    vehiclesHint: 'La búsqueda oculta los aparcamientos donde no cabe tu vehículo predeterminado.',
+    photo: {
+      deniedTitle: 'Permiso denegado',
+      deniedMessage: 'Permite el acceso a tus fotos para cambiar la imagen de perfil.',
+      failed: 'No se pudo cambiar la foto',
+    },
+  },
+
+  vehicles: {
+    sizes: {
+      motorcycle: 'Moto',
+      small: 'Pequeño',
+      medium: 'Mediano',
+      large: 'Grande / SUV',
+      van: 'Furgoneta',
+    },
+    form: {
+      addTitle: 'Añadir vehículo',
+      editTitle: 'Editar vehículo',
+      plate: 'Matrícula',
+      make: 'Marca',
+      model: 'Modelo',
+      size: 'Tamaño',
+      height: 'Altura en metros (opcional)',
+      electric: 'Eléctrico',
+      default: 'Vehículo predeterminado',
+      delete: 'Eliminar vehículo',
+      saveFailed: 'No se pudo guardar el vehículo',
+    },
+    remove: {
+      title: 'Eliminar vehículo',
+      message: '¿Quieres eliminar {plate}?',
+      confirm: 'Eliminar',
+    },
+  },
+
+  settings: {
+    sections: {
+      units: {
+        title: 'Unidades',
+        description: 'Distancias en el mapa y la navegación',
+      },
+      mapType: {
+        title: 'Tipo de mapa',
+        description: 'Con el que se abre la aplicación',
+      },
+      navigationZoom: {
+        title: 'Zoom de navegación',
+        description: 'Distancia de la cámara al seguirte',
+      },
+      gpsProfile: {
+        title: 'Perfil del GPS',
+        description: 'Más precisión gasta más batería',
+      },
+      language: {
+        title: 'Idioma',
+        description: 'Textos de la aplicación y búsqueda por voz',
+      },
+      theme: {
+        title: 'Tema',
+        description: 'Apariencia del mapa y la barra de estado',
+      },
+      locationSource: {
+        title: 'Origen de la ubicación (desarrollo)',
+        description: 'Graba esta sesión de GPS, reproduce la última grabación o conduce una ruta simulada',
+      },
+    },
+    options: {
+      units: {
+        metric: 'Kilómetros',
+        imperial: 'Millas',
+      },
+      mapType: {
+        standard: 'Estándar',
+        satellite: 'Satélite',
+        hybrid: 'Híbrido',
+      },
+      navigationZoom: {
+        close: 'Cercano',
+        medium: 'Medio',
+        far: 'Lejano',
+      },
+      gpsProfile: {
+        precise: 'Máxima precisión',
+        balanced: 'Equilibrado',
+        batterySaver: 'Ahorro de batería',
+      },
+      // Language names are endonyms, the same in every catalog
+      language: {
+        system: 'Del sistema',
+        es: 'Español',
+        en: 'English',
+        'zh-CN': '简体中文',
+      },
+      theme: {
+        system: 'Del sistema',
+        light: 'Claro',
+        dark: 'Oscuro',
+      },
+      locationSource: {
+        device: 'GPS del dispositivo',
+        record: 'Grabar recorrido',
+        replay: 'Reproducir el último',
+        simulatedDrive: 'Conducción simulada',
+        simulatedParking: 'Aparcamiento simulado',
+      },
+    },
+    reset: {
+      title: 'Restablecer ajustes',
+      message: 'Se volverán a usar los valores predeterminados.',
+      confirm: 'Restablecer',
+      button: 'Restablecer valores predeterminados',
+    },
+  },
+
+  notifications: {
+    session: {
+      yourLot: 'tu aparcamiento',
+      expiredTitle: 'Tu aparcamiento ha caducado',
+      expiredBody: 'El tiempo pagado en {place} ha terminado.',
+      reminderTitle: 'Quedan {minutes} min de aparcamiento',
+      reminderBody: 'Amplía tu sesión en {place} o vuelve al coche.',
+    },
+  },
+};
+
+export type Messages = MessageCatalog<typeof es>;
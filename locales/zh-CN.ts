@@ -0,0 +1,644 @@
+import { Messages } from '@/locales/es';
+
+// Chinese has no plural forms: every plural message only needs `other`
+
+export const zhCN: Messages = {
+  common: {
+    cancel: '取消',
+    no: '否',
+    save: '保存',
+    parkingLot: '停车场',
+    error: '错误',
+    retry: '重试',
+    loading: '加载中...',
+  },
+
+  formats: {
+    age: {
+      noData: '无数据',
+      seconds: '{count} 秒前',
+      minutes: '{count} 分钟前',
+      hours: '{count} 小时前',
+      days: '{count} 天前',
+    },
+    duration: {
+      minutes: '{minutes} 分钟',
+      hours: '{hours} 小时',
+      hoursMinutes: '{hours} 小时 {minutes} 分钟',
+    },
+    rates: {
+      perHour: '{amount}/小时',
+      perDay: '{amount}/天',
+      perEntry: '每次入场 {amount}',
+      firstMinutesFree: '（前 {minutes} 分钟免费）',
+      dailyMax: '每日最高 {amount}',
+    },
+    openingHours: {
+      allDay: '24 小时',
+      closed: '休息',
+    },
+    weekdays: {
+      monday: '星期一',
+      tuesday: '星期二',
+      wednesday: '星期三',
+      thursday: '星期四',
+      friday: '星期五',
+      saturday: '星期六',
+      sunday: '星期日',
+    },
+    cardinals: {
+      north: '北',
+      northEast: '东北',
+      east: '东',
+      southEast: '东南',
+      south: '南',
+      southWest: '西南',
+      west: '西',
+      northWest: '西北',
+    },
+    amenities: {
+      ev_charging: '电动车充电',
+      covered: '室内',
+      security: '安保',
+      disabled_access: '无障碍',
+      toilets: '洗手间',
+      car_wash: '洗车',
+      motorcycle: '摩托车',
+      valet: '代客泊车',
+    },
+  },
+
+  errors: {
+    location: {
+      permissionDenied: '使用此功能需要位置权限',
+      permissionRequestFailed: '无法请求位置权限',
+      noValidFix: '多次尝试后仍无法获取有效的 GPS 定位',
+      trackingFailed: '无法开始位置跟踪',
+    },
+    guidance: {
+      routeFailed: '无法计算路线',
+      locationUnavailable: '位置不可用',
+    },
+    placeSearch: {
+      searchFailed: '无法完成搜索',
+    },
+    voice: {
+      noSpeech: '未检测到语音',
+      permissionDenied: '麦克风权限被拒绝',
+      network: '没有网络，无法识别语音',
+      languageNotSupported: '此设备不支持该语言',
+      recognitionFailed: '语音识别出错',
+      unavailable: '语音识别不可用',
+      notUnderstood: '没听清楚',
+      noFreeLotsNearby: '附近没有有空位的停车场',
+    },
+    parkingLots: {
+      loadFailed: '无法加载停车场',
+    },
+    payment: {
+      cardDeclined: '银行卡被拒绝',
+      paymentFailed: '无法完成支付',
+    },
+  },
+
+  notFound: {
+    title: '哎呀！',
+    message: '此页面不存在。',
+    goHome: '返回地图',
+  },
+
+  locationPermission: {
+    title: '需要位置权限',
+    description: 'ParkingFinder 需要访问您的位置才能正常工作。此应用专为带 GPS 的移动设备设计。',
+    tracking: '实时 GPS 跟踪',
+    heading: '精确的方向检测',
+    privacy: '数据安全私密',
+    allow: '允许访问位置',
+    footer: '您的位置仅在应用内使用，绝不会被分享。为获得最佳体验，请在 iOS 或 Android 设备上使用此应用。',
+  },
+
+  availability: {
+    connecting: '连接中...',
+    live: '实时',
+    noUpdates: '暂无更新',
+    offline: '离线',
+  },
+
+  search: {
+    placeholder: '搜索地址或停车场',
+    noResults: '无结果',
+  },
+
+  destinationLots: {
+    title: '附近停车场：',
+    loading: '正在查找停车场...',
+    empty: '步行范围内没有有空位的停车场',
+  },
+
+  voice: {
+    listening: '正在聆听...',
+    failed: '无法完成',
+    holdToTalk: '按住说话',
+  },
+
+  navigation: {
+    routing: '正在计算路线...',
+    rerouting: '正在重新计算路线...',
+    arrival: '{time} 到达',
+    arrived: '您已到达',
+    finish: '结束',
+    maneuvers: {
+      onto: '{instruction}，进入{street}',
+      depart: '向目的地出发',
+      departOnto: '沿{street}出发',
+      arrive: '到达停车场',
+      roundabout: '在环岛处从第 {exit} 个出口驶出',
+      uturn: '掉头',
+      sharpRight: '向右急转',
+      right: '右转',
+      slightRight: '靠右行驶',
+      straight: '直行',
+      slightLeft: '靠左行驶',
+      left: '左转',
+      sharpLeft: '向左急转',
+      continue: '继续行驶',
+    },
+  },
+
+  walkBack: {
+    distance: '距您的车 {distance}',
+    straight: '直走',
+    turnAround: '向后转',
+    onYourRight: '在您右侧',
+    onYourLeft: '在您左侧',
+    arrived: '您的车就在这里',
+    forget: '忘记',
+  },
+
+  parkingProposal: {
+    question: '您停在这里了吗？',
+    stopped: '{age}停下',
+  },
+
+  sessionTimer: {
+    expired: '已超时 {time}',
+    extend: '+{minutes} 分钟',
+  },
+
+  reservationMarker: {
+    inside: '已入场',
+  },
+
+  map: {
+    searchPlaceholder: '搜索地点或地址',
+    location: {
+      checkingPermissions: '正在检查权限...',
+      locating: '正在获取 GPS 位置...',
+      errorTitle: '定位错误',
+      mobileOnly: '此应用专为带 GPS 的移动设备设计',
+      enableGps: '请确认已开启 GPS',
+      startTracking: '开始跟踪',
+    },
+    payment: {
+      insufficientTitle: '余额不足',
+      insufficientMessage: '请向钱包充值以支付停车费用。',
+    },
+    session: {
+      endTitle: '结束停车',
+      endMessage: '要结束本次停车吗？',
+      end: '结束',
+      endedTitle: '停车已结束',
+      total: '合计 {amount}',
+      refunded: '已退还 {amount}',
+      charged: '额外收费 {amount}',
+    },
+    parkedCar: {
+      title: '已停车辆',
+      notSaved: '此设备上没有保存的停车位置',
+    },
+    share: {
+      lot: {
+        other: '{name}（{city}）- {count} 个空位',
+      },
+      parkedCar: '我停在这里',
+      parkedCarWithNote: '我停在这里（{note}）',
+    },
+  },
+
+  deepLinks: {
+    sharedPlace: '分享的目的地',
+    parkedCar: '已停车辆',
+    parkedCarWithNote: '已停车辆 · {note}',
+  },
+
+  lot: {
+    free: {
+      other: '空位',
+    },
+    capacity: {
+      other: '共 {count} 个车位',
+    },
+    updated: '{age}更新',
+    estimated: '{age}估算',
+    offline: '离线',
+    open: '营业中',
+    closed: '已关闭',
+    notFound: '未找到该停车场',
+    operator: '由 {name} 运营',
+    actions: {
+      navigate: '前往',
+      showOnMap: '在地图上查看',
+      save: '收藏',
+      saved: '已收藏',
+      reserve: '预订',
+      share: '分享',
+    },
+    sections: {
+      address: '地址',
+      prices: '价格',
+      hours: '营业时间',
+      amenities: '设施',
+    },
+  },
+
+  saveCar: {
+    title: '我停在这里',
+    currentLocation: '当前位置',
+    notePlaceholder: '楼层、车位或备注（可选）',
+    addPhoto: '添加照片',
+    cameraDenied: '相机权限被拒绝',
+    cameraFailed: '无法打开相机',
+    save: '保存位置',
+  },
+
+  startSession: {
+    title: '开始停车',
+    street: '路边停车',
+    paidTime: '已付时长',
+    noLimit: '不限时',
+    untilEnded: '计时至您结束停车为止',
+    estimatedCost: '预计费用 {amount}',
+    reminder: '到期前我们会提醒您',
+    paidFromWallet: '从钱包支付 · 余额 {balance}',
+    start: '开始',
+  },
+
+  topUp: {
+    otherAmount: '其他金额',
+    pay: '支付',
+    payAmount: '支付 {amount}',
+  },
+
+  reservationForm: {
+    title: '预订车位',
+    arrival: '到达',
+    duration: '时长',
+    total: '合计',
+    noRate: '无价格',
+    cancellationTerms: '到达前 {minutes} 分钟内可免费取消；之后退还 {refund}。',
+    full: '已无空位',
+    walletNotAccepted: '此停车场不支持钱包支付',
+    confirm: '确认预订',
+    failed: '无法完成预订',
+  },
+
+  reservations: {
+    upcoming: '即将到来',
+    past: '历史',
+    empty: '您还没有预订',
+    status: {
+      pending: '待确认',
+      confirmed: '已确认',
+      active: '进行中',
+      completed: '已完成',
+      cancelled: '已取消',
+      noShow: '未到场',
+    },
+    details: {
+      showCode: '在入口出示此代码',
+      awaitingConfirmation: '正在等待停车场确认...',
+      refunded: '已退还 {amount} 至您的钱包',
+      checkIn: '我已到达',
+      fullRefund: '全额退款',
+      partialRefund: '退款 {amount}',
+    },
+    cancel: {
+      title: '取消预订',
+      message: '要取消此预订吗？',
+      failed: '无法取消预订',
+    },
+  },
+
+  history: {
+    empty: '暂无停车记录',
+    stays: {
+      other: '{count} 次停车',
+    },
+    export: '导出',
+    exportTitle: '导出收据',
+    exportMessage: {
+      other: '{month}的 {count} 次停车',
+    },
+    exportFailed: '无法导出收据',
+    sources: {
+      session: '停车',
+      reservation: '预订',
+    },
+    details: {
+      date: '日期',
+      time: '时间',
+      duration: '时长',
+      amount: '金额',
+      noCost: '无费用记录',
+      vehicle: '车辆',
+      type: '类型',
+      pdfReceipt: 'PDF 收据',
+    },
+  },
+
+  receipts: {
+    title: '停车收据 · {title}',
+    generated: '由 ParkingFinder 于 {date} 生成',
+    total: '合计：{total}',
+    fileName: 'parking-receipts',
+    dialogTitle: '收据 · {title}',
+    columns: {
+      arrival: '到达',
+      departure: '离开',
+      arrivalDeparture: '到达 / 离开',
+      duration: '时长',
+      durationMinutes: '时长（分钟）',
+      lot: '停车场',
+      amount: '金额',
+      currency: '货币',
+      vehicle: '车辆',
+      type: '类型',
+      reference: '参考号',
+    },
+  },
+
+  wallet: {
+    balance: '可用余额',
+    addFunds: '充值',
+    signedOut: '登录后可查看余额并充值',
+    transactions: '交易记录',
+    empty: '暂无交易记录',
+    paymentFailed: '无法完成支付',
+    descriptions: {
+      topUp: '钱包充值',
+      parking: '停车 · {lot}',
+      session: '停车',
+      overstay: '{description}（超时）',
+      unusedTime: '{description}（未使用时长）',
+      paymentReturned: '{description}（退回）',
+      reservation: '预订 · {lot}',
+      reservationRejected: '预订未确认 · {lot}',
+      cancellation: '取消 · {lot}',
+    },
+  },
+
+  auth: {
+    title: '账户',
+    signIn: '登录',
+    createAccount: '创建账户',
+    subtitle: '您需要一个账户才能支付和预订停车',
+    password: '密码（至少 {count} 个字符）',
+    submit: '登录',
+    or: '或',
+    continueWith: '使用 {provider} 继续',
+    haveAccount: '已有账户？登录',
+    noAccount: '没有账户？注册',
+    signInFailed: '邮箱或密码错误',
+    signUpFailed: '无法创建账户',
+    localOAuthUser: '{provider} 用户',
+  },
+
+  help: {
+    topics: {
+      availability: {
+        question: '空位数据从哪里来？',
+        answer: '已接入的停车场会实时报告空位。当数据为估算值或未能更新时，停车场详情会在最后更新时间旁注明。',
+      },
+      search: {
+        question: '如何在目的地附近找停车场？',
+        answer: '在搜索栏中输入或说出地址。选择目的地后，您会看到步行距离最近的停车场；如果设置了默认车辆，只会显示适合该车辆尺寸的停车场。',
+      },
+      sessions: {
+        question: '停车计时如何运作？',
+        answer: '开始限时停车时会预先从钱包扣款。结束时退还未使用的时间，或收取超时费用。不限时停车在离开时付款。',
+      },
+      reservations: {
+        question: '可以取消预订吗？',
+        answer: '可以。到达前 {freeMinutes} 分钟以上取消可全额退款；之后退还 {refund}。您可以在到达前 {checkInMinutes} 分钟起办理到达，车位会在预订时间后保留 {graceMinutes} 分钟。',
+      },
+      receipts: {
+        question: '在哪里找到我的收据？',
+        answer: '历史记录中按月列出每次停车。您可以将单张收据或整月记录导出为 PDF 或 CSV。',
+      },
+      privacy: {
+        question: '应用会保存哪些数据？',
+        answer: '您的位置仅在设备上用于地图和导航。停车位置、车辆、历史记录、预订和钱包保存在此设备上，退出登录时会被删除；收藏和个人资料会与您的账户同步。',
+      },
+      security: {
+        question: '我的账户如何受到保护？',
+        answer: '登录凭据加密保存在系统安全存储中，并会自动更新。退出登录会将其从设备中删除。',
+      },
+    },
+  },
+
+  menu: {
+    guest: '访客',
+    guestHint: '登录后即可支付和预订',
+    memberSince: '{year} 年加入',
+    since: '{year} 年起',
+    wallet: '钱包',
+    balance: '余额',
+    add: '充值',
+    favorites: '收藏',
+    favoritesEmpty: '用星标收藏停车场，方便随时查看',
+    seeAll: '查看全部',
+    search: '搜索',
+    reservations: '预订',
+    upcomingReservations: {
+      other: '{count} 个即将到来',
+    },
+    history: '历史记录',
+    notifications: '通知',
+    privacy: '隐私与安全',
+    privacyShort: '隐私',
+    settings: '设置',
+    help: '帮助与支持',
+    helpShort: '帮助',
+    session: {
+      parked: '已停车',
+      remaining: '剩余',
+      expired: '已到期',
+      start: '开始停车',
+    },
+    reminder: {
+      atExpiry: '仅在到期时',
+      before: '提前 {minutes} 分钟',
+    },
+    gps: {
+      title: 'GPS 状态',
+      signalLabel: '信号：{signal}',
+      signal: {
+        none: '无信号',
+        excellent: '极佳',
+        good: '良好',
+        poor: '一般',
+        lost: '丢失',
+        unknown: '未知',
+      },
+      active: '已开启',
+      inactive: '未开启',
+      accuracy: '精度：±{accuracy}米',
+      speed: '速度：{speed} 公里/小时',
+      coordinates: '坐标：',
+    },
+    signOut: {
+      title: '退出登录',
+      message: '将从此设备删除您的停车位置、预订、钱包和历史记录。',
+      confirm: '退出登录',
+    },
+  },
+
+  favorites: {
+    capacity: {
+      other: '{count} 个车位',
+    },
+    search: '查找停车场',
+  },
+
+  profile: {
+    title: '个人资料',
+    signedOut: '登录后可编辑个人资料和车辆',
+    name: '姓名',
+    email: '电子邮箱',
+    saveChanges: '保存更改',
+    saveFailed: '无法保存个人资料',
+    vehicles: '我的车辆',
+    vehiclesHint: '搜索时会隐藏默认车辆无法停放的停车场。',
+    photo: {
+      deniedTitle: '权限被拒绝',
+      deniedMessage: '请允许访问照片以更换头像。',
+      failed: '无法更换照片',
+    },
+  },
+
+  vehicles: {
+    sizes: {
+      motorcycle: '摩托车',
+      small: '小型',
+      medium: '中型',
+      large: '大型 / SUV',
+      van: '厢式车',
+    },
+    form: {
+      addTitle: '添加车辆',
+      editTitle: '编辑车辆',
+      plate: '车牌号',
+      make: '品牌',
+      model: '型号',
+      size: '尺寸',
+      height: '高度（米，可选）',
+      electric: '电动车',
+      default: '默认车辆',
+      delete: '删除车辆',
+      saveFailed: '无法保存车辆',
+    },
+    remove: {
+      title: '删除车辆',
+      message: '要删除 {plate} 吗？',
+      confirm: '删除',
+    },
+  },
+
+  settings: {
+    sections: {
+      units: {
+        title: '单位',
+        description: '地图和导航中的距离',
+      },
+      mapType: {
+        title: '地图类型',
+        description: '应用启动时使用的地图',
+      },
+      navigationZoom: {
+        title: '导航缩放',
+        description: '跟随时镜头的距离',
+      },
+      gpsProfile: {
+        title: 'GPS 模式',
+        description: '精度越高越耗电',
+      },
+      language: {
+        title: '语言',
+        description: '应用文字和语音搜索',
+      },
+      theme: {
+        title: '主题',
+        description: '地图和状态栏的外观',
+      },
+      locationSource: {
+        title: '定位来源（开发）',
+        description: '录制本次 GPS 轨迹、回放上一次录制，或沿模拟路线行驶',
+      },
+    },
+    options: {
+      units: {
+        metric: '公里',
+        imperial: '英里',
+      },
+      mapType: {
+        standard: '标准',
+        satellite: '卫星',
+        hybrid: '混合',
+      },
+      navigationZoom: {
+        close: '近',
+        medium: '中',
+        far: '远',
+      },
+      gpsProfile: {
+        precise: '最高精度',
+        balanced: '均衡',
+        batterySaver: '省电',
+      },
+      language: {
+        system: '跟随系统',
+        es: 'Español',
+        en: 'English',
+        'zh-CN': '简体中文',
+      },
+      theme: {
+        system: '跟随系统',
+        light: '浅色',
+        dark: '深色',
+      },
+      locationSource: {
+        device: '设备 GPS',
+        record: '录制轨迹',
+        replay: '回放上次轨迹',
+        simulatedDrive: '模拟驾驶',
+        simulatedParking: '模拟停车',
+      },
+    },
+    reset: {
+      title: '重置设置',
+      message: '将恢复使用默认值。',
+      confirm: '重置',
+      button: '恢复默认设置',
+    },
+  },
+
+  notifications: {
+    session: {
+      yourLot: '您的停车场',
+      expiredTitle: '停车已到期',
+      expiredBody: '{place}的已付停车时间已结束。',
+      reminderTitle: '停车时间还剩 {minutes} 分钟',
+      reminderBody: '请在{place}延长停车时间或返回车辆。',
+    },
+  },
+};
@@ -0,0 +1,141 @@
+#!/usr/bin/env node
+// Local mock of the parking availability service for offline development.
+// Emits random occupancy changes for the bundled lots over every transport the app supports:
+//   ws://localhost:4010/availability/ws        WebSocket (snapshot, then deltas)
+//   http://localhost:4010/availability/stream  Server-Sent Events
+//   http://localhost:4010/availability?since=  Polling
+//
+// Usage: node scripts/mock-availability-server.js [--port 4010] [--interval 2000]
+// Then start the app with EXPO_PUBLIC_AVAILABILITY_URL=http://<your-ip>:4010
+
+const http = require('http');
+const crypto = require('crypto');
+const { Buffer } = require('buffer');
+
+const args = process.argv.slice(2);
+const getArg = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? Number(args[index + 1]) : fallback;
+};
+
+const PORT = getArg('port', 4010);
+const INTERVAL = getArg('interval', 2000);
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// Same ids and capacities as data/parkingLots.ts
+const lots = {
+  bj1: { capacity: 120, freeSpaces: 45, timestamp: Date.now() },
+  bj2: { capacity: 60, freeSpaces: 28, timestamp: Date.now() },
+  sh1: { capacity: 200, freeSpaces: 35, timestamp: Date.now() },
+  gz1: { capacity: 150, freeSpaces: 52, timestamp: Date.now() },
+};
+
+const wsClients = new Set();
+const sseClients = new Set();
+
+const snapshot = (since = 0) =>
+  Object.entries(lots)
+    .filter(([, lot]) => lot.timestamp > since)
+    .map(([lotId, lot]) => ({ lotId, freeSpaces: lot.freeSpaces, timestamp: lot.timestamp }));
+
+// Server → client text frame (unmasked, single fragment)
+const encodeFrame = (text) => {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+const broadcast = (message) => {
+  const json = JSON.stringify(message);
+  wsClients.forEach(socket => socket.write(encodeFrame(json)));
+  sseClients.forEach(response => response.write(`data: ${json}\n\n`));
+};
+
+// Random walk on occupancy: a few lots gain or lose 1-3 cars each tick
+setInterval(() => {
+  Object.entries(lots).forEach(([lotId, lot]) => {
+    if (Math.random() > 0.5) return;
+    const change = Math.ceil(Math.random() * 3) * (Math.random() > 0.5 ? 1 : -1);
+    const freeSpaces = Math.max(0, Math.min(lot.capacity, lot.freeSpaces + change));
+    const delta = freeSpaces - lot.freeSpaces;
+    if (delta === 0) return;
+
+    lot.freeSpaces = freeSpaces;
+    lot.timestamp = Date.now();
+    broadcast({ type: 'delta', lotId, delta, timestamp: lot.timestamp });
+    console.log(`🅿️  ${lotId}: ${delta > 0 ? '+' : ''}${delta} → ${freeSpaces}/${lot.capacity}`);
+  });
+}, INTERVAL);
+
+const server = http.createServer((request, response) => {
+  const url = new URL(request.url, `http://${request.headers.host}`);
+
+  if (url.pathname === '/availability/stream') {
+    response.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+    });
+    response.write(`data: ${JSON.stringify({ type: 'snapshot', lots: snapshot() })}\n\n`);
+    sseClients.add(response);
+    request.on('close', () => sseClients.delete(response));
+    return;
+  }
+
+  if (url.pathname === '/availability') {
+    const since = Number(url.searchParams.get('since') || 0);
+    response.writeHead(200, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+    response.end(JSON.stringify({ updates: snapshot(since), serverTime: Date.now() }));
+    return;
+  }
+
+  response.writeHead(404);
+  response.end();
+});
+
+server.on('upgrade', (request, socket) => {
+  if (request.url !== '/availability/ws' || !request.headers['sec-websocket-key']) {
+    socket.destroy();
+    return;
+  }
+
+  const accept = crypto
+    .createHash('sha1')
+    .update(request.headers['sec-websocket-key'] + WS_GUID)
+    .digest('base64');
+
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  socket.write(encodeFrame(JSON.stringify({ type: 'snapshot', lots: snapshot() })));
+  wsClients.add(socket);
+
+  // Only the close opcode matters for this mock; everything else the client sends is ignored
+  socket.on('data', (data) => {
+    if ((data[0] & 0x0f) === 0x8) socket.end();
+  });
+  socket.on('close', () => wsClients.delete(socket));
+  socket.on('error', () => wsClients.delete(socket));
+});
+
+server.listen(PORT, () => {
+  console.log(`🛰️  Mock availability server on http://localhost:${PORT} (tick every ${INTERVAL}ms)`);
+});
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+// Local Nominatim-compatible geocoding server for offline development.
+// Answers GET /search?q=..&format=jsonv2&limit=.. from a small fixed list of places.
+//
+// Usage: node scripts/mock-geocoding-server.js [--port 4020] [--delay 0]
+// Then start the app with EXPO_PUBLIC_GEOCODING_URL=http://<your-ip>:4020
+
+const http = require('http');
+
+const args = process.argv.slice(2);
+const getArg = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? Number(args[index + 1]) : fallback;
+};
+
+const PORT = getArg('port', 4020);
+const DELAY = getArg('delay', 0); // ms, to exercise debouncing and loading states
+
+const places = [
+  { name: 'Forbidden City', category: 'tourism', type: 'attraction', lat: 39.9163, lon: 116.3972, address: 'Dongcheng, Beijing, China' },
+  { name: 'Tiananmen Square', category: 'place', type: 'square', lat: 39.9055, lon: 116.3976, address: 'Dongcheng, Beijing, China' },
+  { name: 'Wangfujing Street', category: 'highway', type: 'pedestrian', lat: 39.9110, lon: 116.4103, address: 'Dongcheng, Beijing, China' },
+  { name: 'Beijing Railway Station', category: 'railway', type: 'station', lat: 39.9029, lon: 116.4270, address: 'Dongcheng, Beijing, China' },
+  { name: 'The Bund', category: 'tourism', type: 'attraction', lat: 31.2400, lon: 121.4900, address: 'Huangpu, Shanghai, China' },
+  { name: 'Nanjing Road', category: 'highway', type: 'pedestrian', lat: 31.2352, lon: 121.4756, address: 'Huangpu, Shanghai, China' },
+  { name: 'Shanghai Tower', category: 'tourism', type: 'attraction', lat: 31.2335, lon: 121.5055, address: 'Pudong, Shanghai, China' },
+  { name: 'Canton Tower', category: 'tourism', type: 'attraction', lat: 23.1066, lon: 113.3245, address: 'Haizhu, Guangzhou, China' },
+  { name: 'Tianhe Road', category: 'highway', type: 'primary', lat: 23.1322, lon: 113.3240, address: 'Tianhe, Guangzhou, China' },
+];
+
+const normalize = (text) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const server = http.createServer((request, response) => {
+  const url = new URL(request.url, `http://${request.headers.host}`);
+
+  if (url.pathname !== '/search') {
+    response.writeHead(404);
+    response.end();
+    return;
+  }
+
+  const query = normalize(url.searchParams.get('q') || '');
+  const limit = Number(url.searchParams.get('limit') || 10);
+  const results = places
+    .map((place, index) => ({ place, index }))
+    .filter(({ place }) => query && normalize(`${place.name}, ${place.address}`).includes(query))
+    .slice(0, limit)
+    .map(({ place, index }) => ({
+      place_id: 1000 + index,
+      lat: String(place.lat),
+      lon: String(place.lon),
+      name: place.name,
+      display_name: `${place.name}, ${place.address}`,
+      category: place.category,
+      type: place.type,
+    }));
+
+  setTimeout(() => {
+    console.log(`🔎 "${url.searchParams.get('q')}" → ${results.length} results`);
+    response.writeHead(200, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+    response.end(JSON.stringify(results));
+  }, DELAY);
+});
+
+server.listen(PORT, () => {
+  console.log(`🔎 Mock geocoding server on http://localhost:${PORT}`);
+});
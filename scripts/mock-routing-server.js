@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+// Local OSRM-compatible routing server for offline development.
+// Answers GET /route/v1/{profile}/{lng},{lat};{lng},{lat} with an L-shaped route:
+// along the origin's meridian to the destination latitude, then along that parallel.
+//
+// Usage: node scripts/mock-routing-server.js [--port 5000] [--speed 10]
+// Then start the app with EXPO_PUBLIC_ROUTING_URL=http://<your-ip>:5000
+
+const http = require('http');
+
+const args = process.argv.slice(2);
+const getArg = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? Number(args[index + 1]) : fallback;
+};
+
+const PORT = getArg('port', 5000);
+const SPEED = getArg('speed', 10); // m/s used for durations
+
+const distance = ([lng1, lat1], [lng2, lat2]) => {
+  const R = 6371e3;
+  const φ1 = lat1 * Math.PI / 180;
+  const φ2 = lat2 * Math.PI / 180;
+  const Δφ = (lat2 - lat1) * Math.PI / 180;
+  const Δλ = (lng2 - lng1) * Math.PI / 180;
+  const a = Math.sin(Δφ / 2) ** 2 + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+const step = (type, location, from, to, name, modifier) => {
+  const length = to ? distance(from, to) : 0;
+  return {
+    distance: length,
+    duration: length / SPEED,
+    name,
+    maneuver: { type, location, ...(modifier ? { modifier } : {}) },
+  };
+};
+
+const buildRoute = (origin, destination) => {
+  const corner = [origin[0], destination[1]];
+  const northbound = destination[1] >= origin[1];
+  const eastbound = destination[0] >= origin[0];
+  const hasFirstLeg = distance(origin, corner) > 1;
+  const hasSecondLeg = distance(corner, destination) > 1;
+
+  const coordinates = [origin];
+  const steps = [];
+
+  if (hasFirstLeg) {
+    coordinates.push(corner);
+    steps.push(step('depart', origin, origin, corner, northbound ? 'Avenida Norte' : 'Avenida Sur'));
+  }
+  if (hasSecondLeg) {
+    coordinates.push(destination);
+    const streetName = eastbound ? 'Calle Este' : 'Calle Oeste';
+    if (hasFirstLeg) {
+      // Heading north, east is to the right; heading south, east is to the left
+      const modifier = northbound === eastbound ? 'right' : 'left';
+      steps.push(step('turn', corner, corner, destination, streetName, modifier));
+    } else {
+      steps.push(step('depart', origin, origin, destination, streetName));
+    }
+  }
+  if (coordinates.length === 1) coordinates.push(destination);
+  steps.push(step('arrive', destination, destination, null, ''));
+
+  const total = steps.reduce((sum, s) => sum + s.distance, 0);
+  return {
+    distance: total,
+    duration: total / SPEED,
+    geometry: { type: 'LineString', coordinates },
+    legs: [{ distance: total, duration: total / SPEED, steps }],
+  };
+};
+
+const server = http.createServer((request, response) => {
+  const url = new URL(request.url, `http://${request.headers.host}`);
+  const match = url.pathname.match(/^\/route\/v1\/[^/]+\/([^/]+)$/);
+
+  const send = (status, body) => {
+    response.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+    response.end(JSON.stringify(body));
+  };
+
+  if (!match) {
+    send(400, { code: 'InvalidUrl', message: 'Expected /route/v1/{profile}/{coordinates}' });
+    return;
+  }
+
+  const points = decodeURIComponent(match[1]).split(';').map(pair => pair.split(',').map(Number));
+  if (points.length < 2 || points.some(p => p.length !== 2 || p.some(Number.isNaN))) {
+    send(400, { code: 'InvalidQuery', message: 'Expected two lng,lat pairs' });
+    return;
+  }
+
+  const route = buildRoute(points[0], points[points.length - 1]);
+  console.log(`🧭 Route ${points[0].join(',')} → ${points[points.length - 1].join(',')}: ${Math.round(route.distance)}m`);
+  send(200, {
+    code: 'Ok',
+    routes: [route],
+    waypoints: [points[0], points[points.length - 1]].map(location => ({ location, name: '' })),
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🧭 Mock routing server on http://localhost:${PORT}`);
+});
@@ -0,0 +1,31 @@
+import * as FileSystem from 'expo-file-system';
+
+// Files for data that only exists on this device but belongs to an account (wallet,
+// history, reservations). They are kept per account id, so signing out or switching
+// account hides them instead of deleting them.
+
+export const getAccountFile = (directory: string, fileName: string, accountId: string | null) =>
+  accountId ? `${directory}${encodeURIComponent(accountId)}/${fileName}` : `${directory}${fileName}`;
+
+export const ensureParentDirectory = async (file: string) => {
+  const directory = file.slice(0, file.lastIndexOf('/') + 1);
+  const info = await FileSystem.getInfoAsync(directory);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  }
+};
+
+// A file saved before data was kept per account goes to the first account that
+// opens one; it is moved rather than copied so no one else gets it as well
+export const adoptUnscopedFile = async (directory: string, fileName: string, accountId: string) => {
+  const accountFile = getAccountFile(directory, fileName, accountId);
+  const unscopedFile = getAccountFile(directory, fileName, null);
+  const [accountInfo, unscopedInfo] = await Promise.all([
+    FileSystem.getInfoAsync(accountFile),
+    FileSystem.getInfoAsync(unscopedFile),
+  ]);
+  if (accountInfo.exists || !unscopedInfo.exists) return;
+  await ensureParentDirectory(accountFile);
+  await FileSystem.moveAsync({ from: unscopedFile, to: accountFile });
+  console.log(`📦 ${fileName} moved to the signed-in account`);
+};
@@ -0,0 +1,125 @@
+import { AuthSession, AuthTokens, OAuthProviderName, ProfileChanges, User } from '@/types/auth';
+import { t } from '@/utils/i18n';
+
+// Account backend: email/password, OAuth and token refresh.
+// Providers are pluggable; the default talks to the auth API when one is
+// configured. Without one, development and mock builds sign everyone in locally
+// and any other build refuses to sign in.
+
+export interface AuthProvider {
+  name: string;
+  signIn: (email: string, password: string) => Promise<AuthSession>;
+  signUp: (name: string, email: string, password: string) => Promise<AuthSession>;
+  refresh: (refreshToken: string) => Promise<AuthTokens>;
+  signOut: (tokens: AuthTokens) => Promise<void>;
+  // Page that starts the OAuth flow and redirects to `redirectUri?code=...`; null when no browser step is needed
+  getOAuthUrl: (provider: OAuthProviderName, redirectUri: string) => string | null;
+  exchangeOAuthCode: (provider: OAuthProviderName, code: string, redirectUri: string) => Promise<AuthSession>;
+  updateProfile: (session: AuthSession, changes: ProfileChanges) => Promise<User>;
+}
+
+// The backend refused the credentials or token (400/401), as opposed to being unreachable
+export class AuthRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthRejectedError';
+  }
+}
+
+const AUTH_URL = process.env.EXPO_PUBLIC_AUTH_URL;
+
+// Local accounts accept any credentials, so they must never reach a release build by accident
+const ALLOW_LOCAL_AUTH = __DEV__ || process.env.EXPO_PUBLIC_AUTH_MOCK === 'true';
+
+// Auth API: POST {baseUrl}/auth/{signin,signup,refresh,signout,oauth/token}, GET {baseUrl}/auth/oauth/:provider,
+// PATCH {baseUrl}/auth/me
+export function createHttpAuthProvider(baseUrl: string, fetchImpl: typeof fetch = fetch): AuthProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const post = async <T>(path: string, body: unknown, accessToken?: string, method = 'POST'): Promise<T> => {
+    const response = await fetchImpl(`${root}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    if (response.status === 400 || response.status === 401) {
+      throw new AuthRejectedError(`Auth API ${response.status} for ${path}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Auth API ${response.status} for ${path}`);
+    }
+    return response.status === 204 ? (undefined as T) : ((await response.json()) as T);
+  };
+
+  return {
+    name: `http:${root}`,
+    signIn: (email, password) => post<AuthSession>('/auth/signin', { email, password }),
+    signUp: (name, email, password) => post<AuthSession>('/auth/signup', { name, email, password }),
+    refresh: refreshToken => post<AuthTokens>('/auth/refresh', { refreshToken }),
+    signOut: tokens => post<void>('/auth/signout', { refreshToken: tokens.refreshToken }, tokens.accessToken),
+    getOAuthUrl: (provider, redirectUri) =>
+      `${root}/auth/oauth/${provider}?redirect_uri=${encodeURIComponent(redirectUri)}`,
+    exchangeOAuthCode: (provider, code, redirectUri) =>
+      post<AuthSession>('/auth/oauth/token', { provider, code, redirectUri }),
+    updateProfile: (session, changes) => post<User>('/auth/me', changes, session.tokens.accessToken, 'PATCH'),
+  };
+}
+
+const ACCESS_TOKEN_LIFETIME = 15 * 60 * 1000;
+
+const createLocalTokens = (): AuthTokens => ({
+  accessToken: `local-access-${Date.now()}`,
+  refreshToken: `local-refresh-${Date.now()}`,
+  expiresAt: Date.now() + ACCESS_TOKEN_LIFETIME,
+});
+
+const createLocalSession = (name: string, email: string): AuthSession => ({
+  user: { id: `local-${email.toLowerCase()}`, name, email, createdAt: Date.now() },
+  tokens: createLocalTokens(),
+});
+
+export function createLocalAuthProvider(): AuthProvider {
+  return {
+    name: 'local',
+    signIn: async email => createLocalSession(email.split('@')[0], email),
+    signUp: async (name, email) => createLocalSession(name, email),
+    refresh: async () => createLocalTokens(),
+    signOut: async () => {},
+    getOAuthUrl: () => null,
+    exchangeOAuthCode: async provider =>
+      createLocalSession(t('auth.localOAuthUser', { provider }), `${provider}@parkingfinder.local`),
+    updateProfile: async (session, changes) => ({ ...session.user, ...changes }),
+  };
+}
+
+// Fails closed: every call rejects, so a restored session is signed out on its first refresh
+export function createUnavailableAuthProvider(): AuthProvider {
+  const unavailable = async (): Promise<never> => {
+    throw new Error('Sign-in is not available: EXPO_PUBLIC_AUTH_URL is not configured');
+  };
+  return {
+    name: 'unavailable',
+    signIn: unavailable,
+    signUp: unavailable,
+    refresh: async () => {
+      throw new AuthRejectedError('Sign-in is not available: EXPO_PUBLIC_AUTH_URL is not configured');
+    },
+    signOut: async () => {},
+    getOAuthUrl: () => null,
+    exchangeOAuthCode: unavailable,
+    updateProfile: unavailable,
+  };
+}
+
+const createDefaultAuthProvider = (): AuthProvider => {
+  if (AUTH_URL) return createHttpAuthProvider(AUTH_URL);
+  if (ALLOW_LOCAL_AUTH) return createLocalAuthProvider();
+  console.error('🚫 EXPO_PUBLIC_AUTH_URL is not set; sign-in is disabled');
+  return createUnavailableAuthProvider();
+};
+
+export const authProvider: AuthProvider = createDefaultAuthProvider();
@@ -0,0 +1,219 @@
+import * as FileSystem from 'expo-file-system';
+import * as WebBrowser from 'expo-web-browser';
+import * as Linking from 'expo-linking';
+import { AuthSession, AuthStatus, OAuthProviderName, ProfileChanges } from '@/types/auth';
+import { authProvider as defaultAuthProvider, AuthProvider, AuthRejectedError } from '@/services/authProvider';
+import { tokenStorage as defaultTokenStorage, TokenStorage } from '@/services/tokenStorage';
+import { clearLocalUserData, switchLocalUserAccount } from '@/services/localUserData';
+
+// The signed-in session: restored from secure storage on launch, refreshed
+// before the access token expires, and wiped (with local user data) on sign-out.
+// Account-owned data on the device follows the signed-in user id.
+
+export interface AuthState {
+  status: AuthStatus;
+  session: AuthSession | null;
+}
+
+interface AuthStoreOptions {
+  provider?: AuthProvider;
+  storage?: TokenStorage;
+  onSignOut?: () => Promise<void>;
+  onAccountChange?: (accountId: string | null, getAccessToken: () => Promise<string | null>) => Promise<void>;
+}
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN = 60 * 1000;
+
+const OAUTH_REDIRECT_PATH = 'auth/callback';
+
+const AVATAR_DIRECTORY = `${FileSystem.documentDirectory}profile/`;
+
+// Picked photos live in a cache directory; keep our own copy
+const keepAvatar = async (uri: string) => {
+  if (uri.startsWith(AVATAR_DIRECTORY)) return uri;
+  const info = await FileSystem.getInfoAsync(AVATAR_DIRECTORY);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(AVATAR_DIRECTORY, { intermediates: true });
+  }
+  const extension = uri.split('.').pop()?.split('?')[0] || 'jpg';
+  const destination = `${AVATAR_DIRECTORY}avatar-${Date.now()}.${extension}`;
+  await FileSystem.copyAsync({ from: uri, to: destination });
+  return destination;
+};
+
+const deleteAvatar = (uri?: string) => {
+  if (uri?.startsWith(AVATAR_DIRECTORY)) {
+    FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+  }
+};
+
+export function createAuthStore({
+  provider = defaultAuthProvider,
+  storage = defaultTokenStorage,
+  onSignOut = clearLocalUserData,
+  onAccountChange = switchLocalUserAccount,
+}: AuthStoreOptions = {}) {
+  let state: AuthState = { status: 'loading', session: null };
+  let loaded: Promise<AuthState> | null = null;
+  let refreshing: Promise<AuthSession | null> | null = null;
+  const listeners = new Set<(state: AuthState) => void>();
+
+  const notify = () => listeners.forEach(listener => listener(state));
+
+  const setSession = async (session: AuthSession | null) => {
+    const previousAccountId = state.session?.user.id ?? null;
+    state = { status: session ? 'signedIn' : 'signedOut', session };
+    notify();
+    const accountId = session?.user.id ?? null;
+    if (accountId !== previousAccountId) {
+      await onAccountChange(accountId, getSessionToken);
+    }
+    try {
+      if (session) {
+        await storage.save(session);
+      } else {
+        await storage.clear();
+      }
+    } catch (err) {
+      console.warn('Could not store auth session:', err);
+    }
+    return session;
+  };
+
+  const load = () => {
+    if (!loaded) {
+      loaded = (async () => {
+        let session: AuthSession | null = null;
+        try {
+          session = await storage.load();
+        } catch (err) {
+          console.warn('Could not read auth session:', err);
+        }
+        state = { status: session ? 'signedIn' : 'signedOut', session };
+        notify();
+        await onAccountChange(session?.user.id ?? null, getSessionToken);
+        return state;
+      })();
+    }
+    return loaded;
+  };
+
+  const signIn = async (email: string, password: string) => {
+    const session = await provider.signIn(email.trim(), password);
+    console.log('🔐 Signed in as', session.user.email);
+    return setSession(session);
+  };
+
+  const signUp = async (name: string, email: string, password: string) => {
+    const session = await provider.signUp(name.trim(), email.trim(), password);
+    console.log('🔐 Signed up as', session.user.email);
+    return setSession(session);
+  };
+
+  // Browser-based sign-in; resolves to null if the user closes the browser
+  const signInWithOAuth = async (name: OAuthProviderName) => {
+    const redirectUri = Linking.createURL(OAUTH_REDIRECT_PATH);
+    const url = provider.getOAuthUrl(name, redirectUri);
+
+    let code = 'local';
+    if (url) {
+      const result = await WebBrowser.openAuthSessionAsync(url, redirectUri);
+      if (result.type !== 'success') return null;
+      const { queryParams } = Linking.parse(result.url);
+      const returned = queryParams?.code;
+      if (typeof returned !== 'string') throw new Error('OAuth redirect without a code');
+      code = returned;
+    }
+
+    const session = await provider.exchangeOAuthCode(name, code, redirectUri);
+    console.log(`🔐 Signed in with ${name} as`, session.user.email);
+    return setSession(session);
+  };
+
+  const signOut = async () => {
+    const session = state.session;
+    if (session) {
+      // Best effort: the local sign-out happens even if the server call fails
+      await provider.signOut(session.tokens).catch(err => console.warn('Could not revoke session:', err));
+    }
+    deleteAvatar(session?.user.avatarUrl);
+    await setSession(null);
+    await onSignOut();
+  };
+
+  // Token of the current session without waiting for `load`: account-change handlers run
+  // inside `load` and would otherwise wait on themselves
+  const getSessionToken = async () => {
+    const session = state.session;
+    if (!session) return null;
+    if (session.tokens.expiresAt - REFRESH_MARGIN > Date.now()) return session.tokens.accessToken;
+
+    if (!refreshing) {
+      refreshing = provider
+        .refresh(session.tokens.refreshToken)
+        .then(tokens => setSession({ ...session, tokens }))
+        .catch(async err => {
+          // A rejected refresh token means the session is over; being offline doesn't
+          if (!(err instanceof AuthRejectedError)) {
+            console.warn('🔐 Token refresh failed, keeping the session:', err);
+            return null;
+          }
+          console.warn('🔐 Refresh token rejected, signing out:', err);
+          await signOut();
+          return null;
+        })
+        .finally(() => {
+          refreshing = null;
+        });
+    }
+    return (await refreshing)?.tokens.accessToken ?? null;
+  };
+
+  // A valid access token, refreshed when close to expiry; null when signed out.
+  // Concurrent callers share one refresh request.
+  const getAccessToken = async () => {
+    await load();
+    return getSessionToken();
+  };
+
+  // Name and email are saved to the account; the photo only on this device
+  const updateProfile = async ({ photoUri, ...changes }: ProfileChanges & { photoUri?: string | null }) => {
+    if (!(await getAccessToken())) throw new Error('Not signed in');
+    const session = state.session;
+    if (!session) throw new Error('Not signed in');
+
+    const hasChanges = Object.keys(changes).length > 0;
+    const user = hasChanges ? await provider.updateProfile(session, changes) : session.user;
+
+    const previousAvatar = session.user.avatarUrl;
+    const avatarUrl = photoUri === undefined ? previousAvatar : photoUri ? await keepAvatar(photoUri) : undefined;
+    if (previousAvatar && previousAvatar !== avatarUrl) deleteAvatar(previousAvatar);
+
+    console.log('🔐 Profile updated');
+    return setSession({ ...session, user: { ...user, avatarUrl } });
+  };
+
+  const subscribe = (listener: (state: AuthState) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    load,
+    get: () => state,
+    signIn,
+    signUp,
+    signInWithOAuth,
+    signOut,
+    getAccessToken,
+    updateProfile,
+    subscribe,
+  };
+}
+
+export type AuthStore = ReturnType<typeof createAuthStore>;
+
+export const authStore = createAuthStore();
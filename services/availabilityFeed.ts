@@ -0,0 +1,236 @@
+// Realtime parking availability feed.
+// Connects over WebSocket and falls back to Server-Sent Events, then to polling,
+// reconnecting with backoff whenever the current transport drops.
+//
+// Messages (JSON):
+//   { "type": "snapshot", "lots": [{ "lotId": "bj1", "freeSpaces": 45, "timestamp": 1719500000000 }] }
+//   { "type": "delta", "lotId": "bj1", "delta": -2, "timestamp": 1719500000000 }
+// Polling: GET {baseUrl}/availability?since=<ms> → { "updates": [{ lotId, freeSpaces, timestamp }], "serverTime": <ms> }
+
+export type AvailabilityTransport = 'websocket' | 'sse' | 'polling';
+
+export type AvailabilityFeedStatus = 'connecting' | 'live' | 'offline';
+
+export type AvailabilityUpdate =
+  | { lotId: string; freeSpaces: number; timestamp: number }
+  | { lotId: string; delta: number; timestamp: number };
+
+export interface AvailabilityFeedOptions {
+  baseUrl: string; // http(s) URL of the availability service
+  transports?: AvailabilityTransport[]; // Tried in order
+  pollInterval?: number;
+  maxBackoff?: number;
+  onUpdates: (updates: AvailabilityUpdate[]) => void;
+  onStatusChange?: (status: AvailabilityFeedStatus, transport: AvailabilityTransport | null) => void;
+}
+
+interface TransportConnection {
+  close: () => void;
+}
+
+type TransportFactory = (
+  root: string,
+  handlers: { onOpen: () => void; onMessage: (data: string) => void; onFailure: () => void }
+) => TransportConnection;
+
+const parseMessage = (data: string): AvailabilityUpdate[] => {
+  try {
+    const message = JSON.parse(data);
+    if (message.type === 'snapshot' && Array.isArray(message.lots)) return message.lots;
+    if (message.type === 'delta' && typeof message.lotId === 'string') {
+      return [{ lotId: message.lotId, delta: message.delta, timestamp: message.timestamp }];
+    }
+  } catch (err) {
+    console.warn('Invalid availability message:', err);
+  }
+  return [];
+};
+
+const connectWebSocket: TransportFactory = (root, { onOpen, onMessage, onFailure }) => {
+  const socket = new WebSocket(`${root.replace(/^http/, 'ws')}/availability/ws`);
+  let closed = false;
+
+  socket.onopen = onOpen;
+  socket.onmessage = (event) => onMessage(String(event.data));
+  socket.onerror = () => socket.close();
+  socket.onclose = () => {
+    if (!closed) onFailure();
+  };
+
+  return {
+    close: () => {
+      closed = true;
+      socket.close();
+    },
+  };
+};
+
+// React Native has no EventSource, so SSE is read from a streaming XMLHttpRequest
+const connectServerSentEvents: TransportFactory = (root, { onOpen, onMessage, onFailure }) => {
+  const xhr = new XMLHttpRequest();
+  let closed = false;
+  let consumed = 0;
+  let buffer = '';
+
+  xhr.open('GET', `${root}/availability/stream`);
+  xhr.setRequestHeader('Accept', 'text/event-stream');
+
+  xhr.onreadystatechange = () => {
+    if (xhr.readyState === XMLHttpRequest.HEADERS_RECEIVED) {
+      if (xhr.status === 200) onOpen();
+    }
+  };
+
+  xhr.onprogress = () => {
+    buffer += xhr.responseText.slice(consumed);
+    consumed = xhr.responseText.length;
+
+    // Events are separated by a blank line; keep any partial event in the buffer
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+    events.forEach(event => {
+      const data = event
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('\n');
+      if (data) onMessage(data);
+    });
+  };
+
+  xhr.onerror = () => {
+    if (!closed) onFailure();
+  };
+  xhr.onloadend = () => {
+    if (!closed) onFailure();
+  };
+
+  xhr.send();
+
+  return {
+    close: () => {
+      closed = true;
+      xhr.abort();
+    },
+  };
+};
+
+const createPollingTransport = (pollInterval: number): TransportFactory => (root, { onOpen, onMessage, onFailure }) => {
+  let since = 0;
+  let closed = false;
+  let opened = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const poll = async () => {
+    try {
+      const response = await fetch(`${root}/availability?since=${since}`, { headers: { Accept: 'application/json' } });
+      if (!response.ok) throw new Error(`Availability poll ${response.status}`);
+      const body = await response.json() as { updates: AvailabilityUpdate[]; serverTime: number };
+      if (closed) return;
+
+      if (!opened) {
+        opened = true;
+        onOpen();
+      }
+      since = body.serverTime;
+      if (body.updates.length > 0) {
+        onMessage(JSON.stringify({ type: 'snapshot', lots: body.updates }));
+      }
+      timer = setTimeout(poll, pollInterval);
+    } catch {
+      if (!closed) onFailure();
+    }
+  };
+
+  poll();
+
+  return {
+    close: () => {
+      closed = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+};
+
+export function createAvailabilityFeed(options: AvailabilityFeedOptions) {
+  const {
+    baseUrl,
+    transports = ['websocket', 'sse', 'polling'],
+    pollInterval = 15000,
+    maxBackoff = 30000,
+    onUpdates,
+    onStatusChange,
+  } = options;
+
+  const root = baseUrl.replace(/\/+$/, '');
+  const factories: Record<AvailabilityTransport, TransportFactory> = {
+    websocket: connectWebSocket,
+    sse: connectServerSentEvents,
+    polling: createPollingTransport(pollInterval),
+  };
+
+  let transportIndex = 0;
+  let failures = 0;
+  let connection: TransportConnection | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = true;
+
+  const connect = () => {
+    if (stopped) return;
+
+    const transport = transports[transportIndex];
+    let isOpen = false;
+    let hasFailed = false;
+    onStatusChange?.('connecting', transport);
+
+    connection = factories[transport](root, {
+      onOpen: () => {
+        isOpen = true;
+        failures = 0;
+        console.log(`📶 Availability feed live over ${transport}`);
+        onStatusChange?.('live', transport);
+      },
+      onMessage: (data) => {
+        const updates = parseMessage(data);
+        if (updates.length > 0) onUpdates(updates);
+      },
+      onFailure: () => {
+        // Transports may report the same drop more than once (error + close)
+        if (hasFailed) return;
+        hasFailed = true;
+        connection = null;
+        if (stopped) return;
+
+        // A transport that never opened is skipped in favour of the next one;
+        // one that worked and then dropped is retried with exponential backoff
+        if (!isOpen) {
+          transportIndex = (transportIndex + 1) % transports.length;
+        }
+        failures++;
+        const delay = Math.min(1000 * Math.pow(2, failures - 1), maxBackoff);
+        console.warn(`⚠️ Availability feed (${transport}) dropped, retrying in ${delay}ms`);
+        onStatusChange?.('offline', null);
+        retryTimer = setTimeout(connect, delay);
+      },
+    });
+  };
+
+  const start = () => {
+    if (!stopped) return;
+    stopped = false;
+    transportIndex = 0;
+    failures = 0;
+    connect();
+  };
+
+  const stop = () => {
+    stopped = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    connection?.close();
+    connection = null;
+    onStatusChange?.('offline', null);
+  };
+
+  return { start, stop };
+}
@@ -0,0 +1,88 @@
+import * as FileSystem from 'expo-file-system';
+import { FavoriteLot } from '@/types/favorite';
+
+// Account copy of the user's favourite lots.
+// Providers are pluggable; the default talks to the account API when one is
+// configured and otherwise keeps the "account" copy in a file on the device (dev and tests).
+
+export interface FavoritesProvider {
+  name: string;
+  list: (accessToken: string) => Promise<FavoriteLot[]>;
+  add: (accessToken: string, favorite: FavoriteLot) => Promise<void>;
+  remove: (accessToken: string, lotId: string) => Promise<void>;
+}
+
+const AUTH_URL = process.env.EXPO_PUBLIC_AUTH_URL;
+
+// Account API: GET {baseUrl}/me/favorites, PUT/DELETE {baseUrl}/me/favorites/:lotId
+export function createHttpFavoritesProvider(baseUrl: string, fetchImpl: typeof fetch = fetch): FavoritesProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, accessToken: string, init: RequestInit = {}) => {
+    const response = await fetchImpl(`${root}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+      },
+    });
+    if (!response.ok && !(init.method === 'DELETE' && response.status === 404)) {
+      throw new Error(`Favorites API ${response.status} for ${path}`);
+    }
+    return response;
+  };
+
+  return {
+    name: `http:${root}`,
+    list: async accessToken => {
+      const response = await request('/me/favorites', accessToken);
+      return ((await response.json()) as { favorites: FavoriteLot[] }).favorites;
+    },
+    add: async (accessToken, favorite) => {
+      await request(`/me/favorites/${encodeURIComponent(favorite.lotId)}`, accessToken, {
+        method: 'PUT',
+        body: JSON.stringify(favorite),
+      });
+    },
+    remove: async (accessToken, lotId) => {
+      await request(`/me/favorites/${encodeURIComponent(lotId)}`, accessToken, { method: 'DELETE' });
+    },
+  };
+}
+
+const LOCAL_ACCOUNT_FILE = `${FileSystem.documentDirectory}favorites/local-account.json`;
+
+// Stands in for the account API with local sign-in, so sync sees what was saved before.
+// One list for every local account, kept apart from the device's list that sign-out clears
+export function createLocalFavoritesProvider(file = LOCAL_ACCOUNT_FILE): FavoritesProvider {
+  const read = async (): Promise<FavoriteLot[]> => {
+    const info = await FileSystem.getInfoAsync(file);
+    return info.exists ? (JSON.parse(await FileSystem.readAsStringAsync(file)) as FavoriteLot[]) : [];
+  };
+
+  const write = async (favorites: FavoriteLot[]) => {
+    const directory = file.slice(0, file.lastIndexOf('/') + 1);
+    const info = await FileSystem.getInfoAsync(directory);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    }
+    await FileSystem.writeAsStringAsync(file, JSON.stringify(favorites));
+  };
+
+  return {
+    name: 'local',
+    list: () => read(),
+    add: async (_accessToken, favorite) => {
+      const favorites = await read();
+      await write([favorite, ...favorites.filter(existing => existing.lotId !== favorite.lotId)]);
+    },
+    remove: async (_accessToken, lotId) => {
+      await write((await read()).filter(favorite => favorite.lotId !== lotId));
+    },
+  };
+}
+
+export const favoritesProvider: FavoritesProvider = AUTH_URL
+  ? createHttpFavoritesProvider(AUTH_URL)
+  : createLocalFavoritesProvider();
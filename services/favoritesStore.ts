@@ -0,0 +1,181 @@
+import * as FileSystem from 'expo-file-system';
+import { FavoriteLot } from '@/types/favorite';
+import { ParkingLot } from '@/types/parking';
+import { favoritesProvider as defaultProvider, FavoritesProvider } from '@/services/favoritesProvider';
+
+// Persists the user's favourite lots and mirrors changes to the account when signed in.
+// Every add and remove is queued until the account accepts it; `sync` sends the queue and then
+// takes the account's list as the truth, so a favourite removed elsewhere is not uploaded again.
+
+const STORE_DIRECTORY = `${FileSystem.documentDirectory}favorites/`;
+const STORE_FILE = `${STORE_DIRECTORY}favorites.json`;
+
+interface FavoritesStoreOptions {
+  provider?: FavoritesProvider;
+}
+
+type PendingChange = { type: 'add'; favorite: FavoriteLot } | { type: 'remove'; lotId: string };
+
+interface StoredFavorites {
+  favorites: FavoriteLot[];
+  pending: PendingChange[];
+}
+
+const changedLotId = (change: PendingChange) => (change.type === 'add' ? change.favorite.lotId : change.lotId);
+
+export function createFavoritesStore({ provider = defaultProvider }: FavoritesStoreOptions = {}) {
+  let favorites: FavoriteLot[] = []; // Newest first
+  let pending: PendingChange[] = []; // Changes the account hasn't accepted yet, oldest first
+  let flushing: Promise<void> | null = null;
+  let loaded: Promise<FavoriteLot[]> | null = null;
+  const listeners = new Set<(favorites: FavoriteLot[]) => void>();
+
+  const notify = () => listeners.forEach(listener => listener(favorites));
+
+  const persist = async () => {
+    try {
+      const info = await FileSystem.getInfoAsync(STORE_DIRECTORY);
+      if (!info.exists) {
+        await FileSystem.makeDirectoryAsync(STORE_DIRECTORY, { intermediates: true });
+      }
+      const stored: StoredFavorites = { favorites, pending };
+      await FileSystem.writeAsStringAsync(STORE_FILE, JSON.stringify(stored));
+    } catch (err) {
+      console.warn('Could not save favorites:', err);
+    }
+  };
+
+  const load = () => {
+    if (!loaded) {
+      loaded = (async () => {
+        try {
+          const info = await FileSystem.getInfoAsync(STORE_FILE);
+          if (info.exists) {
+            const stored = JSON.parse(await FileSystem.readAsStringAsync(STORE_FILE)) as StoredFavorites | FavoriteLot[];
+            if (Array.isArray(stored)) {
+              // Saved before changes were queued: offer them all to the account once
+              favorites = stored;
+              pending = stored.map(favorite => ({ type: 'add', favorite }));
+            } else {
+              ({ favorites, pending } = stored);
+            }
+            notify();
+          }
+        } catch (err) {
+          console.warn('Could not read favorites:', err);
+        }
+        return favorites;
+      })();
+    }
+    return loaded;
+  };
+
+  const set = async (next: FavoriteLot[]) => {
+    favorites = next;
+    notify();
+    await persist();
+  };
+
+  const isFavorite = (lotId: string) => favorites.some(favorite => favorite.lotId === lotId);
+
+  // Only the latest change to a lot matters
+  const enqueue = (change: PendingChange) => {
+    pending = [...pending.filter(queued => changedLotId(queued) !== changedLotId(change)), change];
+  };
+
+  // Send queued changes in order; one that fails stays queued, with everything after it
+  const flush = (accessToken: string) => {
+    if (!flushing) {
+      flushing = (async () => {
+        try {
+          while (pending.length > 0) {
+            const change = pending[0];
+            if (change.type === 'add') {
+              await provider.add(accessToken, change.favorite);
+            } else {
+              await provider.remove(accessToken, change.lotId);
+            }
+            // A newer change to the same lot may have replaced it meanwhile
+            pending = pending.filter(queued => queued !== change);
+            await persist();
+          }
+        } finally {
+          flushing = null;
+        }
+      })();
+    }
+    return flushing;
+  };
+
+  const flushInBackground = (accessToken: string | null) => {
+    if (accessToken) {
+      flush(accessToken).catch(err => console.warn('Could not sync favorites:', err));
+    }
+  };
+
+  const add = async (lot: ParkingLot, accessToken: string | null = null) => {
+    await load();
+    if (isFavorite(lot.id)) return;
+    const favorite: FavoriteLot = { lotId: lot.id, name: lot.name, location: lot.location, addedAt: Date.now() };
+    enqueue({ type: 'add', favorite });
+    await set([favorite, ...favorites]);
+    console.log('⭐ Favorite added:', lot.name);
+    flushInBackground(accessToken);
+  };
+
+  const remove = async (lotId: string, accessToken: string | null = null) => {
+    await load();
+    enqueue({ type: 'remove', lotId });
+    await set(favorites.filter(favorite => favorite.lotId !== lotId));
+    flushInBackground(accessToken);
+  };
+
+  const toggle = (lot: ParkingLot, accessToken: string | null = null) =>
+    isFavorite(lot.id) ? remove(lot.id, accessToken) : add(lot, accessToken);
+
+  // Send this device's changes, then show the account's list with any still-queued ones applied
+  const sync = async (accessToken: string) => {
+    await load();
+    await flush(accessToken).catch(err => console.warn('Could not sync favorites:', err));
+    const remote = await provider.list(accessToken);
+    let next = remote;
+    pending.forEach(change => {
+      next = next.filter(favorite => favorite.lotId !== changedLotId(change));
+      if (change.type === 'add') next = [...next, change.favorite];
+    });
+
+    await set(next.sort((a, b) => b.addedAt - a.addedAt));
+    console.log(`⭐ Favorites synced (${favorites.length})`);
+  };
+
+  // Forget every favourite (signing out); the account keeps its copy
+  const reset = async () => {
+    favorites = [];
+    pending = [];
+    notify();
+    await FileSystem.deleteAsync(STORE_FILE, { idempotent: true }).catch(err => console.warn('Could not delete favorites:', err));
+  };
+
+  const subscribe = (listener: (favorites: FavoriteLot[]) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    load,
+    get: () => favorites,
+    isFavorite,
+    add,
+    remove,
+    toggle,
+    sync,
+    reset,
+    subscribe,
+  };
+}
+
+export type FavoritesStore = ReturnType<typeof createFavoritesStore>;
+
+export const favoritesStore = createFavoritesStore();
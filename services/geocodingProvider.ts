@@ -0,0 +1,132 @@
+import { bundledPlaces } from '@/data/places';
+import { LatLng } from '@/types/parking';
+import { BundledPlace, PlaceResult } from '@/types/places';
+import { calculateDistance } from '@/utils/geo';
+import { matchScore } from '@/utils/textSearch';
+
+// Place and address search (forward geocoding).
+// Providers are pluggable; the default talks to any Nominatim-compatible server
+// (a self-hosted Nominatim, or scripts/mock-geocoding-server.js for local work)
+// and falls back to the bundled gazetteer when offline.
+
+export interface GeocodingSearchOptions {
+  near?: LatLng | null; // Bias results towards this point
+  limit?: number;
+  language?: string;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  search: (query: string, options?: GeocodingSearchOptions) => Promise<PlaceResult[]>;
+}
+
+const GEOCODING_URL = process.env.EXPO_PUBLIC_GEOCODING_URL;
+
+const withDistance = (result: PlaceResult, near?: LatLng | null): PlaceResult =>
+  near
+    ? {
+        ...result,
+        distance: calculateDistance(near.latitude, near.longitude, result.coordinate.latitude, result.coordinate.longitude),
+      }
+    : result;
+
+interface NominatimPlace {
+  place_id: number;
+  lat: string;
+  lon: string;
+  name?: string;
+  display_name: string;
+  category?: string; // jsonv2
+  class?: string; // json
+  type: string;
+}
+
+// Nominatim classes that describe a street or an address rather than a point of interest
+const ADDRESS_CLASSES = new Set(['highway', 'place', 'boundary', 'building']);
+
+// Nominatim API: GET {baseUrl}/search?q=..&format=jsonv2&limit=..[&viewbox=..]
+export function createNominatimGeocodingProvider(
+  baseUrl: string,
+  fetchImpl: typeof fetch = fetch
+): GeocodingProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: `nominatim:${root}`,
+    search: async (query, { near, limit = 8, language = 'es' } = {}) => {
+      let url = `${root}/search?q=${encodeURIComponent(query)}&format=jsonv2&limit=${limit}&accept-language=${language}`;
+      if (near) {
+        // ~20km box around the user; a preference, not a restriction
+        const d = 0.2;
+        url += `&viewbox=${near.longitude - d},${near.latitude + d},${near.longitude + d},${near.latitude - d}`;
+      }
+
+      const response = await fetchImpl(url, { headers: { Accept: 'application/json' } });
+      if (!response.ok) {
+        throw new Error(`Geocoding API ${response.status}`);
+      }
+
+      const places = (await response.json()) as NominatimPlace[];
+      return places.map(place => {
+        const [name, ...rest] = place.display_name.split(', ');
+        const placeClass = place.category ?? place.class ?? '';
+        return withDistance({
+          id: `nominatim-${place.place_id}`,
+          kind: ADDRESS_CLASSES.has(placeClass) ? 'address' : 'poi',
+          name: place.name || name,
+          description: place.name ? place.display_name : rest.join(', '),
+          coordinate: { latitude: Number(place.lat), longitude: Number(place.lon) },
+        }, near);
+      });
+    },
+  };
+}
+
+// Offline search over a fixed list of places: best text match first, then closest
+export function createBundledGeocodingProvider(places: BundledPlace[] = bundledPlaces): GeocodingProvider {
+  return {
+    name: 'bundled',
+    search: async (query, { near, limit = 8 } = {}) =>
+      places
+        .map(place => ({
+          place,
+          score: matchScore(query, [place.name, place.address, place.city, ...(place.aliases ?? [])]),
+        }))
+        .filter(({ score }) => score > 0)
+        .map(({ place, score }) => ({
+          score,
+          result: withDistance({
+            id: place.id,
+            kind: place.kind,
+            name: place.name,
+            description: [place.address, place.city].filter(Boolean).join(', '),
+            coordinate: place.coordinate,
+          }, near),
+        }))
+        .sort((a, b) => b.score - a.score || (a.result.distance ?? 0) - (b.result.distance ?? 0))
+        .slice(0, limit)
+        .map(({ result }) => result),
+  };
+}
+
+// Use `primary`, switching to `fallback` when it fails (e.g. no network)
+export function createFallbackGeocodingProvider(
+  primary: GeocodingProvider,
+  fallback: GeocodingProvider
+): GeocodingProvider {
+  return {
+    name: `${primary.name}+${fallback.name}`,
+    search: async (query, options) => {
+      try {
+        return await primary.search(query, options);
+      } catch (err) {
+        console.warn(`⚠️ Geocoding provider ${primary.name} failed:`, err);
+        return fallback.search(query, options);
+      }
+    },
+  };
+}
+
+export const geocodingProvider: GeocodingProvider = GEOCODING_URL
+  ? createFallbackGeocodingProvider(createNominatimGeocodingProvider(GEOCODING_URL), createBundledGeocodingProvider())
+  : createBundledGeocodingProvider();
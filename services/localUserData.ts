@@ -0,0 +1,37 @@
+import { parkedCarStore } from '@/services/parkedCarStore';
+import { parkingSessionStore } from '@/services/parkingSessionStore';
+import { reservationStore } from '@/services/reservationStore';
+import { walletStore } from '@/services/walletStore';
+import { vehicleStore } from '@/services/vehicleStore';
+import { favoritesStore } from '@/services/favoritesStore';
+import { parkingHistoryStore } from '@/services/parkingHistoryStore';
+
+// Money and records that exist only on this device are kept per account and
+// switched, never deleted, when someone signs in or out
+export const switchLocalUserAccount = async (
+  accountId: string | null,
+  getAccessToken: () => Promise<string | null> = async () => null,
+) => {
+  const results = await Promise.allSettled([
+    walletStore.setAccount(accountId, getAccessToken),
+    reservationStore.setAccount(accountId, getAccessToken),
+    parkingHistoryStore.setAccount(accountId),
+  ]);
+  results.forEach(result => {
+    if (result.status === 'rejected') console.warn('Could not switch local account data:', result.reason);
+  });
+};
+
+// Everything else stored on the device for the signed-in user; cleared on sign-out
+export const clearLocalUserData = async () => {
+  const results = await Promise.allSettled([
+    parkedCarStore.clear(),
+    parkingSessionStore.reset(),
+    vehicleStore.reset(),
+    favoritesStore.reset(),
+  ]);
+  results.forEach(result => {
+    if (result.status === 'rejected') console.warn('Could not clear local data:', result.reason);
+  });
+  console.log('🧹 Local user data cleared');
+};
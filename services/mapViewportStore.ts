@@ -0,0 +1,27 @@
+import { Camera, Region } from 'react-native-maps';
+
+// Where the map was left, so the map screen reopens there when it is recreated
+// (replaced after signing in, opened from a link) and other screens can search around it.
+// Kept in memory only: a cold start begins at the user's position.
+
+export interface MapViewport {
+  region: Region | null;
+  camera: Camera | null;
+  isTrackingMode: boolean;
+  isFollowingUser: boolean;
+}
+
+export function createMapViewportStore() {
+  let viewport: MapViewport | null = null;
+
+  return {
+    get: () => viewport,
+    save: (next: MapViewport) => {
+      viewport = next;
+    },
+  };
+}
+
+export type MapViewportStore = ReturnType<typeof createMapViewportStore>;
+
+export const mapViewportStore = createMapViewportStore();
@@ -0,0 +1,112 @@
+import * as FileSystem from 'expo-file-system';
+import { ParkedCar } from '@/types/parkedCar';
+
+// Persists the saved car location (and its photo) across app restarts
+
+const STORE_DIRECTORY = `${FileSystem.documentDirectory}parked-car/`;
+const STORE_FILE = `${STORE_DIRECTORY}parked-car.json`;
+
+const ensureDirectory = async () => {
+  const info = await FileSystem.getInfoAsync(STORE_DIRECTORY);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(STORE_DIRECTORY, { intermediates: true });
+  }
+};
+
+export function createParkedCarStore() {
+  let parkedCar: ParkedCar | null = null;
+  let loaded: Promise<ParkedCar | null> | null = null;
+  const listeners = new Set<(car: ParkedCar | null) => void>();
+
+  const notify = () => listeners.forEach(listener => listener(parkedCar));
+
+  const persist = async () => {
+    try {
+      if (parkedCar) {
+        await ensureDirectory();
+        await FileSystem.writeAsStringAsync(STORE_FILE, JSON.stringify(parkedCar));
+      } else {
+        await FileSystem.deleteAsync(STORE_FILE, { idempotent: true });
+      }
+    } catch (err) {
+      console.warn('Could not save parked car:', err);
+    }
+  };
+
+  // Photos picked from the camera live in a cache directory; keep our own copy
+  const keepPhoto = async (uri: string) => {
+    if (uri.startsWith(STORE_DIRECTORY)) return uri;
+    await ensureDirectory();
+    const extension = uri.split('.').pop()?.split('?')[0] || 'jpg';
+    const destination = `${STORE_DIRECTORY}spot-${Date.now()}.${extension}`;
+    await FileSystem.copyAsync({ from: uri, to: destination });
+    return destination;
+  };
+
+  const deletePhoto = (uri?: string) => {
+    if (uri?.startsWith(STORE_DIRECTORY)) {
+      FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+    }
+  };
+
+  const load = () => {
+    if (!loaded) {
+      loaded = (async () => {
+        try {
+          const info = await FileSystem.getInfoAsync(STORE_FILE);
+          if (info.exists) {
+            parkedCar = JSON.parse(await FileSystem.readAsStringAsync(STORE_FILE)) as ParkedCar;
+            notify();
+          }
+        } catch (err) {
+          console.warn('Could not read parked car:', err);
+        }
+        return parkedCar;
+      })();
+    }
+    return loaded;
+  };
+
+  const save = async (car: ParkedCar) => {
+    const previousPhoto = parkedCar?.photoUri;
+    const photoUri = car.photoUri ? await keepPhoto(car.photoUri) : undefined;
+    if (previousPhoto && previousPhoto !== photoUri) deletePhoto(previousPhoto);
+
+    parkedCar = { ...car, photoUri };
+    notify();
+    await persist();
+    console.log('🚗 Parked car saved at', car.latitude.toFixed(6), car.longitude.toFixed(6));
+  };
+
+  const update = async (changes: Partial<Omit<ParkedCar, 'savedAt'>>) => {
+    if (!parkedCar) return;
+    await save({ ...parkedCar, ...changes });
+  };
+
+  const clear = async () => {
+    deletePhoto(parkedCar?.photoUri);
+    parkedCar = null;
+    notify();
+    await persist();
+  };
+
+  const subscribe = (listener: (car: ParkedCar | null) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    load,
+    get: () => parkedCar,
+    save,
+    update,
+    clear,
+    subscribe,
+  };
+}
+
+export type ParkedCarStore = ReturnType<typeof createParkedCarStore>;
+
+export const parkedCarStore = createParkedCarStore();
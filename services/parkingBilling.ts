@@ -0,0 +1,71 @@
+import { ParkingSession } from '@/types/parkingSession';
+import { calculateParkingCost } from '@/utils/parkingCost';
+import { walletStore as defaultWalletStore, WalletStore } from '@/services/walletStore';
+import { t } from '@/utils/i18n';
+
+// Pays parking sessions from the wallet: paid time is charged up front (start and
+// each extension) and the stay is settled against the actual duration at the end,
+// charging any overstay or refunding unused time.
+
+type BillableSession = Pick<ParkingSession, 'rate' | 'currency' | 'dailyMax' | 'prepaid' | 'lotName' | 'lotId'>;
+
+export interface SessionSettlement {
+  total: number; // Cost of the whole stay
+  charged: number;
+  refunded: number;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export function createParkingBilling(wallet: WalletStore = defaultWalletStore) {
+  // Only sessions priced in the wallet currency go through the wallet
+  const isBillable = (session: BillableSession) =>
+    !!session.rate && session.currency === wallet.get().currency;
+
+  const costOf = (session: BillableSession, minutes: number) =>
+    session.rate ? roundAmount(calculateParkingCost(session.rate, minutes, session.dailyMax)) : 0;
+
+  // Statement lines are written in the app language at the time of the charge
+  const describe = (session: BillableSession) =>
+    t('wallet.descriptions.parking', { lot: session.lotName ?? t('wallet.descriptions.session') });
+
+  // Charge up to the cost of `paidMinutes`; returns the new prepaid total.
+  // Throws when the balance does not cover it.
+  const prepay = async (session: BillableSession, paidMinutes: number) => {
+    const prepaid = session.prepaid ?? 0;
+    if (!isBillable(session)) return prepaid;
+
+    const due = roundAmount(costOf(session, paidMinutes) - prepaid);
+    if (due > 0) {
+      await wallet.charge(due, describe(session), { reference: session.lotId });
+    }
+    return roundAmount(prepaid + Math.max(0, due));
+  };
+
+  // Give back what `prepay` charged when the session change it paid for didn't happen
+  const returnPrepayment = async (session: BillableSession, amount: number) => {
+    if (!isBillable(session) || amount <= 0) return;
+    await wallet.refund(roundAmount(amount), t('wallet.descriptions.paymentReturned', { description: describe(session) }), session.lotId);
+  };
+
+  const settle = async (session: BillableSession, stayedMinutes: number): Promise<SessionSettlement> => {
+    if (!isBillable(session)) return { total: 0, charged: 0, refunded: 0 };
+
+    const total = costOf(session, stayedMinutes);
+    const difference = roundAmount(total - (session.prepaid ?? 0));
+    if (difference > 0) {
+      // The stay already happened: settle it even if the balance goes negative
+      await wallet.charge(difference, t('wallet.descriptions.overstay', { description: describe(session) }), { reference: session.lotId, allowOverdraft: true });
+      return { total, charged: difference, refunded: 0 };
+    }
+    if (difference < 0) {
+      await wallet.refund(-difference, t('wallet.descriptions.unusedTime', { description: describe(session) }), session.lotId);
+      return { total, charged: 0, refunded: -difference };
+    }
+    return { total, charged: 0, refunded: 0 };
+  };
+
+  return { isBillable, costOf, prepay, returnPrepayment, settle };
+}
+
+export const parkingBilling = createParkingBilling();
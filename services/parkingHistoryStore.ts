@@ -0,0 +1,104 @@
+import * as FileSystem from 'expo-file-system';
+import { ParkingHistoryEntry } from '@/types/parkingHistory';
+import { adoptUnscopedFile, ensureParentDirectory, getAccountFile } from '@/services/accountStorage';
+import { getDefaultVehicle, vehicleStore as defaultVehicleStore, VehicleStore } from '@/services/vehicleStore';
+import { describeVehicle } from '@/utils/vehicleFit';
+
+// Persists the signed-in account's finished parking stays (sessions and reservations), newest first
+
+const STORE_DIRECTORY = `${FileSystem.documentDirectory}history/`;
+const STORE_FILE_NAME = 'parking-history.json';
+
+export type ParkingHistoryInput = Omit<ParkingHistoryEntry, 'id' | 'vehicle'>;
+
+interface ParkingHistoryStoreOptions {
+  vehicles?: VehicleStore;
+}
+
+export function createParkingHistoryStore({ vehicles = defaultVehicleStore }: ParkingHistoryStoreOptions = {}) {
+  let entries: ParkingHistoryEntry[] = [];
+  let accountId: string | null = null;
+  let loaded: Promise<ParkingHistoryEntry[]> | null = null;
+  const listeners = new Set<(entries: ParkingHistoryEntry[]) => void>();
+
+  const notify = () => listeners.forEach(listener => listener(entries));
+
+  const persist = async () => {
+    const file = getAccountFile(STORE_DIRECTORY, STORE_FILE_NAME, accountId);
+    const contents = JSON.stringify(entries);
+    try {
+      await ensureParentDirectory(file);
+      await FileSystem.writeAsStringAsync(file, contents);
+    } catch (err) {
+      console.warn('Could not save parking history:', err);
+    }
+  };
+
+  const load = () => {
+    if (!loaded) {
+      const account = accountId;
+      loaded = (async () => {
+        try {
+          if (account) await adoptUnscopedFile(STORE_DIRECTORY, STORE_FILE_NAME, account);
+          const file = getAccountFile(STORE_DIRECTORY, STORE_FILE_NAME, account);
+          const info = await FileSystem.getInfoAsync(file);
+          if (info.exists && account === accountId) {
+            entries = JSON.parse(await FileSystem.readAsStringAsync(file)) as ParkingHistoryEntry[];
+            notify();
+          }
+        } catch (err) {
+          console.warn('Could not read parking history:', err);
+        }
+        return entries;
+      })();
+    }
+    return loaded;
+  };
+
+  // Stamp the stay with the default vehicle; each session/reservation is logged once
+  const record = async (input: ParkingHistoryInput) => {
+    await load();
+    if (entries.some(entry => entry.source === input.source && entry.referenceId === input.referenceId)) return null;
+
+    const vehicle = getDefaultVehicle(await vehicles.load());
+    const entry: ParkingHistoryEntry = {
+      ...input,
+      id: `history-${input.source}-${input.referenceId}`,
+      vehicle: vehicle ? { id: vehicle.id, plate: vehicle.plate, description: describeVehicle(vehicle) } : undefined,
+    };
+    entries = [entry, ...entries].sort((a, b) => b.departedAt - a.departedAt);
+    notify();
+    await persist();
+    console.log('🧾 Parking stay logged:', entry.lotName ?? entry.referenceId);
+    return entry;
+  };
+
+  // Show another account's log (signing in or out); the previous one stays on disk
+  const setAccount = (nextAccountId: string | null) => {
+    if (nextAccountId === accountId && loaded) return loaded;
+    accountId = nextAccountId;
+    entries = [];
+    loaded = null;
+    notify();
+    return load();
+  };
+
+  const subscribe = (listener: (entries: ParkingHistoryEntry[]) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    load,
+    get: () => entries,
+    record,
+    setAccount,
+    subscribe,
+  };
+}
+
+export type ParkingHistoryStore = ReturnType<typeof createParkingHistoryStore>;
+
+export const parkingHistoryStore = createParkingHistoryStore();
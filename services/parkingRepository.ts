@@ -0,0 +1,268 @@
+import * as FileSystem from 'expo-file-system';
+import { bundledParkingLots } from '@/data/parkingLots';
+import { ParkingBounds, ParkingLot } from '@/types/parking';
+import { matchScore } from '@/utils/textSearch';
+
+// Parking lot repository: loads lots from the configured backend (or the bundled
+// dataset), caches them in memory and on disk, and answers queries by map bounds.
+
+export interface ParkingLotSource {
+  name: string;
+  fetchLots: (bounds: ParkingBounds) => Promise<ParkingLot[]>;
+  fetchLot?: (id: string) => Promise<ParkingLot | null>;
+  searchLots?: (query: string) => Promise<ParkingLot[]>;
+}
+
+export interface ParkingRepositoryOptions {
+  source: ParkingLotSource;
+  fallbackSource?: ParkingLotSource;
+  cacheTtl?: number; // ms a bounds query stays fresh
+  persistCache?: boolean;
+}
+
+const PARKING_API_URL = process.env.EXPO_PUBLIC_PARKING_API_URL;
+const CACHE_FILE = `${FileSystem.cacheDirectory}parking-lots.json`;
+
+export const isInBounds = (latitude: number, longitude: number, bounds: ParkingBounds) =>
+  latitude <= bounds.north &&
+  latitude >= bounds.south &&
+  // Bounds crossing the antimeridian have west > east
+  (bounds.west <= bounds.east
+    ? longitude >= bounds.west && longitude <= bounds.east
+    : longitude >= bounds.west || longitude <= bounds.east);
+
+// Lots whose name, city or address match `query`, best match first
+export const searchLotsByText = (lots: ParkingLot[], query: string): ParkingLot[] =>
+  lots
+    .map(lot => ({ lot, score: matchScore(query, [lot.name, lot.city, lot.address, lot.operator.name]) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ lot }) => lot);
+
+export const bundledParkingSource: ParkingLotSource = {
+  name: 'bundled',
+  fetchLots: async (bounds) =>
+    bundledParkingLots.filter(lot => isInBounds(lot.location.latitude, lot.location.longitude, bounds)),
+  fetchLot: async (id) => bundledParkingLots.find(lot => lot.id === id) ?? null,
+  searchLots: async (query) => searchLotsByText(bundledParkingLots, query),
+};
+
+// REST backend: GET {baseUrl}/lots?north=..&south=..&east=..&west=.., GET {baseUrl}/lots?q=.. and GET {baseUrl}/lots/{id}
+export function createHttpParkingSource(baseUrl: string, fetchImpl: typeof fetch = fetch): ParkingLotSource {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async <T>(path: string): Promise<T> => {
+    const response = await fetchImpl(`${root}${path}`, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`Parking API ${response.status} for ${path}`);
+    }
+    return response.json() as Promise<T>;
+  };
+
+  return {
+    name: `http:${root}`,
+    fetchLots: async ({ north, south, east, west }) => {
+      const body = await request<{ lots: ParkingLot[] }>(
+        `/lots?north=${north}&south=${south}&east=${east}&west=${west}`
+      );
+      return body.lots;
+    },
+    fetchLot: async (id) => {
+      try {
+        return await request<ParkingLot>(`/lots/${encodeURIComponent(id)}`);
+      } catch {
+        return null;
+      }
+    },
+    searchLots: async (query) => {
+      const body = await request<{ lots: ParkingLot[] }>(`/lots?q=${encodeURIComponent(query)}`);
+      return body.lots;
+    },
+  };
+}
+
+// Round bounds outwards so nearby viewports share cache entries; the rounded bounds are
+// also what gets fetched, so a cache hit always covers the whole viewport
+const roundBounds = ({ north, south, east, west }: ParkingBounds): ParkingBounds => ({
+  north: Math.min(Math.ceil(north * 100) / 100, 90),
+  south: Math.max(Math.floor(south * 100) / 100, -90),
+  east: Math.min(Math.ceil(east * 100) / 100, 180),
+  west: Math.max(Math.floor(west * 100) / 100, -180),
+});
+
+const boundsKey = ({ north, south, east, west }: ParkingBounds) => [north, south, east, west].join(':');
+
+export function createParkingRepository(options: ParkingRepositoryOptions) {
+  const {
+    source,
+    fallbackSource,
+    cacheTtl = 60 * 1000,
+    persistCache = true,
+  } = options;
+
+  const lotsById = new Map<string, ParkingLot>();
+  const queryTimes = new Map<string, number>(); // bounds key → last fetch
+  const listeners = new Set<() => void>();
+  // Live updates for lots that aren't cached yet, applied when the lot arrives
+  const pendingUpdates = new Map<string, (lot: ParkingLot) => ParkingLot>();
+  let diskCacheLoaded = false;
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const store = (lots: ParkingLot[]) => {
+    lots.forEach(lot => {
+      const cached = lotsById.get(lot.id);
+      // Source snapshots don't know about live availability newer than themselves
+      const keepLive =
+        cached?.availability.source === 'live' && cached.availability.updatedAt >= lot.availability.updatedAt;
+      let next = keepLive ? { ...lot, availability: cached.availability } : lot;
+      const pending = pendingUpdates.get(lot.id);
+      if (pending) {
+        next = pending(next);
+        pendingUpdates.delete(lot.id);
+      }
+      lotsById.set(lot.id, next);
+    });
+  };
+
+  const fromCache = (bounds: ParkingBounds) =>
+    Array.from(lotsById.values()).filter(lot => isInBounds(lot.location.latitude, lot.location.longitude, bounds));
+
+  const loadDiskCache = async () => {
+    if (diskCacheLoaded || !persistCache) return;
+    diskCacheLoaded = true;
+    try {
+      const info = await FileSystem.getInfoAsync(CACHE_FILE);
+      if (!info.exists) return;
+      const cached = JSON.parse(await FileSystem.readAsStringAsync(CACHE_FILE)) as ParkingLot[];
+      // Never overwrite fresher in-memory data with the disk snapshot
+      // Never overwrite fresher in-memory data with the disk snapshot
+      store(cached.filter(lot => !lotsById.has(lot.id)));
+    } catch (err) {
+      console.warn('Could not read parking cache:', err);
+    }
+  };
+
+  const saveDiskCache = async () => {
+    if (!persistCache) return;
+    try {
+      await FileSystem.writeAsStringAsync(CACHE_FILE, JSON.stringify(Array.from(lotsById.values())));
+    } catch (err) {
+      console.warn('Could not write parking cache:', err);
+    }
+  };
+
+  // Lots inside `bounds`: fresh cache hit, then source, then fallback source, then stale cache
+  const getLots = async (bounds: ParkingBounds, { force = false } = {}): Promise<ParkingLot[]> => {
+    await loadDiskCache();
+
+    const queryBounds = roundBounds(bounds);
+    const key = boundsKey(queryBounds);
+    const fetchedAt = queryTimes.get(key);
+    if (!force && fetchedAt && Date.now() - fetchedAt < cacheTtl) {
+      return fromCache(bounds);
+    }
+
+    try {
+      const lots = await source.fetchLots(queryBounds);
+      // Drop cached lots the source no longer reports in this area
+      const fetchedIds = new Set(lots.map(lot => lot.id));
+      fromCache(queryBounds).forEach(lot => {
+        if (!fetchedIds.has(lot.id)) lotsById.delete(lot.id);
+      });
+      store(lots);
+      queryTimes.set(key, Date.now());
+      saveDiskCache();
+      return fromCache(bounds);
+    } catch (err) {
+      console.warn(`⚠️ Parking source ${source.name} failed:`, err);
+      if (fallbackSource) {
+        store(await fallbackSource.fetchLots(queryBounds));
+      }
+      return fromCache(bounds);
+    }
+  };
+
+  const getLot = async (id: string): Promise<ParkingLot | null> => {
+    await loadDiskCache();
+    const cached = lotsById.get(id);
+    if (cached) return cached;
+
+    const lot = (await source.fetchLot?.(id)) ?? (await fallbackSource?.fetchLot?.(id)) ?? null;
+    if (lot) store([lot]);
+    return lot;
+  };
+
+  // Text search: source (or fallback) results merged with matching cached lots
+  const searchLots = async (query: string): Promise<ParkingLot[]> => {
+    await loadDiskCache();
+
+    let found: ParkingLot[] = [];
+    try {
+      found = (await source.searchLots?.(query)) ?? [];
+    } catch (err) {
+      console.warn(`⚠️ Parking source ${source.name} search failed:`, err);
+      found = (await fallbackSource?.searchLots?.(query)) ?? [];
+    }
+    // Keep cached copies (and their live availability) over search results
+    store(found.filter(lot => !lotsById.has(lot.id)));
+
+    const ids = new Set(found.map(lot => lot.id));
+    const cachedMatches = searchLotsByText(Array.from(lotsById.values()), query).filter(lot => !ids.has(lot.id));
+    return [...found.map(lot => lotsById.get(lot.id) ?? lot), ...cachedMatches];
+  };
+
+  // Apply updates (e.g. new availability) to cached lots, notifying subscribers once.
+  // Updates for lots not loaded yet wait for them
+  const updateLots = (updates: Record<string, (lot: ParkingLot) => ParkingLot>) => {
+    let changed = false;
+    Object.entries(updates).forEach(([id, update]) => {
+      const lot = lotsById.get(id);
+      if (!lot) {
+        const pending = pendingUpdates.get(id);
+        pendingUpdates.set(id, pending ? (next: ParkingLot) => update(pending(next)) : update);
+        return;
+      }
+      lotsById.set(id, update(lot));
+      changed = true;
+    });
+    if (changed) notify();
+  };
+
+  const updateLot = (id: string, update: (lot: ParkingLot) => ParkingLot) => {
+    updateLots({ [id]: update });
+  };
+
+  const invalidate = () => {
+    queryTimes.clear();
+    notify();
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    getLots,
+    getLot,
+    getCachedLot: (id: string) => lotsById.get(id) ?? null,
+    getCachedLots: fromCache,
+    searchLots,
+    updateLot,
+    updateLots,
+    invalidate,
+    subscribe,
+  };
+}
+
+export type ParkingRepository = ReturnType<typeof createParkingRepository>;
+
+// App-wide repository: the configured backend with the bundled dataset as fallback
+export const parkingRepository = createParkingRepository(
+  PARKING_API_URL
+    ? { source: createHttpParkingSource(PARKING_API_URL), fallbackSource: bundledParkingSource }
+    : { source: bundledParkingSource, persistCache: false }
+);
@@ -0,0 +1,143 @@
+import * as FileSystem from 'expo-file-system';
+import { ParkingSession } from '@/types/parkingSession';
+import { sessionNotifier as defaultNotifier, SessionNotifier } from '@/services/sessionNotifier';
+
+// Persists the active parking session and the reminder preference across app restarts,
+// keeping the scheduled expiry reminders in sync with the paid-until time
+
+const STORE_DIRECTORY = `${FileSystem.documentDirectory}parking-session/`;
+const STORE_FILE = `${STORE_DIRECTORY}session.json`;
+
+export const DEFAULT_REMINDER_MINUTES = 10;
+
+export interface ParkingSessionState {
+  session: ParkingSession | null;
+  reminderMinutes: number | null; // Minutes before expiry; null = only at expiry
+}
+
+export type StartParkingSessionInput = Omit<ParkingSession, 'id' | 'startedAt' | 'notificationIds'>;
+
+export function createParkingSessionStore(notifier: SessionNotifier = defaultNotifier) {
+  let state: ParkingSessionState = { session: null, reminderMinutes: DEFAULT_REMINDER_MINUTES };
+  let loaded: Promise<ParkingSessionState> | null = null;
+  const listeners = new Set<(state: ParkingSessionState) => void>();
+
+  const notify = () => listeners.forEach(listener => listener(state));
+
+  const persist = async () => {
+    try {
+      const info = await FileSystem.getInfoAsync(STORE_DIRECTORY);
+      if (!info.exists) {
+        await FileSystem.makeDirectoryAsync(STORE_DIRECTORY, { intermediates: true });
+      }
+      await FileSystem.writeAsStringAsync(STORE_FILE, JSON.stringify(state));
+    } catch (err) {
+      console.warn('Could not save parking session:', err);
+    }
+  };
+
+  // Replace the session, moving its reminders to the new paid-until time
+  const setSession = async (session: ParkingSession | null) => {
+    const previousIds = state.session?.notificationIds ?? [];
+    if (previousIds.length > 0) {
+      await notifier.cancel(previousIds).catch(err => console.warn('Could not cancel reminders:', err));
+    }
+
+    let next = session;
+    if (next) {
+      const notificationIds = await notifier.schedule(next, state.reminderMinutes).catch(err => {
+        console.warn('Could not schedule reminders:', err);
+        return [];
+      });
+      next = { ...next, notificationIds };
+    }
+
+    state = { ...state, session: next };
+    notify();
+    await persist();
+    return next;
+  };
+
+  const load = () => {
+    if (!loaded) {
+      loaded = (async () => {
+        try {
+          const info = await FileSystem.getInfoAsync(STORE_FILE);
+          if (info.exists) {
+            state = { ...state, ...(JSON.parse(await FileSystem.readAsStringAsync(STORE_FILE)) as ParkingSessionState) };
+            notify();
+          }
+        } catch (err) {
+          console.warn('Could not read parking session:', err);
+        }
+        return state;
+      })();
+    }
+    return loaded;
+  };
+
+  const start = async (input: StartParkingSessionInput) => {
+    const startedAt = Date.now();
+    const session = await setSession({ ...input, id: `session-${startedAt}`, startedAt, notificationIds: [] });
+    console.log('⏱️ Parking session started', session?.lotName ?? '');
+    return session!;
+  };
+
+  // Add time to the session; an expired one is extended from now
+  const extend = async (minutes: number, changes: Partial<Omit<ParkingSession, 'id' | 'paidUntil'>> = {}) => {
+    const session = state.session;
+    if (!session || session.paidUntil === null) return session;
+    const from = Math.max(session.paidUntil, Date.now());
+    return setSession({ ...session, ...changes, paidUntil: from + minutes * 60 * 1000 });
+  };
+
+  // Returns the finished session
+  const end = async () => {
+    const session = state.session;
+    if (!session) return null;
+    await setSession(null);
+    console.log('⏱️ Parking session ended after', Math.round((Date.now() - session.startedAt) / 60000), 'min');
+    return session;
+  };
+
+  const setReminderMinutes = async (reminderMinutes: number | null) => {
+    state = { ...state, reminderMinutes };
+    // Reschedule with the new lead time
+    if (state.session) {
+      await setSession(state.session);
+    } else {
+      notify();
+      await persist();
+    }
+  };
+
+  // Drop the session and its reminders without settling it (signing out)
+  const reset = async () => {
+    await setSession(null);
+    state = { ...state, reminderMinutes: DEFAULT_REMINDER_MINUTES };
+    notify();
+    await FileSystem.deleteAsync(STORE_FILE, { idempotent: true }).catch(err => console.warn('Could not delete parking session:', err));
+  };
+
+  const subscribe = (listener: (state: ParkingSessionState) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    load,
+    get: () => state,
+    start,
+    extend,
+    end,
+    setReminderMinutes,
+    reset,
+    subscribe,
+  };
+}
+
+export type ParkingSessionStore = ReturnType<typeof createParkingSessionStore>;
+
+export const parkingSessionStore = createParkingSessionStore();
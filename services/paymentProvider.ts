@@ -0,0 +1,147 @@
+import { WalletLedger, WalletTransaction, WalletTransactionType } from '@/types/wallet';
+
+// Card payments for wallet top-ups, and the account's wallet ledger when the backend keeps one.
+// Providers are pluggable; the default talks to a payments backend when one is
+// configured. Without one, development and mock builds use a fake provider that approves
+// every charge and any other build refuses to take payments.
+
+export interface PaymentRequest {
+  amount: number;
+  currency: string; // ISO 4217
+  description: string;
+  idempotencyKey: string; // Same key for retries of one top-up, so the card is charged once
+}
+
+// Why a charge failed; screens show the message for the code in the app language
+export type PaymentFailureCode = 'cardDeclined' | 'paymentFailed';
+
+export interface PaymentResult {
+  id: string;
+  status: 'succeeded' | 'failed';
+  failureCode?: PaymentFailureCode;
+}
+
+export interface LedgerEntryRequest {
+  id: string; // Client id, also the idempotency key
+  type: WalletTransactionType;
+  amount: number; // Signed like WalletTransaction.amount
+  currency: string;
+  description: string;
+  reference?: string;
+  allowOverdraft?: boolean;
+}
+
+// The backend's ledger is the real balance; the device only caches it
+export interface RemoteLedger {
+  get: (accessToken: string) => Promise<WalletLedger>;
+  record: (accessToken: string, entry: LedgerEntryRequest) => Promise<WalletTransaction>;
+}
+
+export interface PaymentProvider {
+  name: string;
+  charge: (request: PaymentRequest, accessToken: string | null) => Promise<PaymentResult>;
+  ledger?: RemoteLedger; // Absent when the wallet only exists on the device (fake provider)
+}
+
+export class PaymentError extends Error {
+  constructor(public code: PaymentFailureCode) {
+    super(`Payment failed: ${code}`);
+    this.name = 'PaymentError';
+  }
+}
+
+// Thrown by a remote ledger that refuses a charge the balance doesn't cover
+export class InsufficientBalanceError extends Error {
+  constructor() {
+    super('Insufficient wallet balance');
+    this.name = 'InsufficientBalanceError';
+  }
+}
+
+const PAYMENTS_URL = process.env.EXPO_PUBLIC_PAYMENTS_URL;
+const ALLOW_FAKE_PAYMENTS = __DEV__ || process.env.EXPO_PUBLIC_PAYMENTS_MOCK === 'true';
+
+// Payments API, authenticated with the account's bearer token:
+// POST {baseUrl}/payments { amount, currency, description } -> PaymentResult (credits the wallet)
+// GET {baseUrl}/wallet -> WalletLedger
+// POST {baseUrl}/wallet/transactions LedgerEntryRequest -> WalletTransaction (402 when the balance is short)
+export function createHttpPaymentProvider(baseUrl: string, fetchImpl: typeof fetch = fetch): PaymentProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, accessToken: string | null, init: RequestInit = {}, idempotencyKey?: string) => {
+    if (!accessToken) throw new Error('Payments API needs a signed-in account');
+    const response = await fetchImpl(`${root}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+      },
+    });
+    if (response.status === 402) throw new InsufficientBalanceError();
+    if (!response.ok) {
+      throw new Error(`Payments API ${response.status} for ${path}`);
+    }
+    return response;
+  };
+
+  return {
+    name: `http:${root}`,
+    charge: async ({ idempotencyKey, ...payment }, accessToken) => {
+      const response = await request('/payments', accessToken, { method: 'POST', body: JSON.stringify(payment) }, idempotencyKey);
+      return (await response.json()) as PaymentResult;
+    },
+    ledger: {
+      get: async accessToken => {
+        const response = await request('/wallet', accessToken);
+        return (await response.json()) as WalletLedger;
+      },
+      record: async (accessToken, entry) => {
+        const response = await request('/wallet/transactions', accessToken, { method: 'POST', body: JSON.stringify(entry) }, entry.id);
+        return (await response.json()) as WalletTransaction;
+      },
+    },
+  };
+}
+
+interface FakePaymentOptions {
+  delayMs?: number;
+  declineAbove?: number; // Decline charges over this amount, to exercise the failure path
+}
+
+export function createFakePaymentProvider({ delayMs = 600, declineAbove = Infinity }: FakePaymentOptions = {}): PaymentProvider {
+  let counter = 0;
+
+  return {
+    name: 'fake',
+    charge: async ({ amount }) => {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      counter += 1;
+      const id = `fake-payment-${Date.now()}-${counter}`;
+      if (amount > declineAbove) {
+        return { id, status: 'failed', failureCode: 'cardDeclined' };
+      }
+      return { id, status: 'succeeded' };
+    },
+  };
+}
+
+// Fails closed: no top-up succeeds, so the wallet never gets balance nobody paid for
+export function createUnavailablePaymentProvider(): PaymentProvider {
+  return {
+    name: 'unavailable',
+    charge: async () => {
+      throw new Error('Payments are not available: EXPO_PUBLIC_PAYMENTS_URL is not configured');
+    },
+  };
+}
+
+const createDefaultPaymentProvider = (): PaymentProvider => {
+  if (PAYMENTS_URL) return createHttpPaymentProvider(PAYMENTS_URL);
+  if (ALLOW_FAKE_PAYMENTS) return createFakePaymentProvider();
+  console.error('🚫 EXPO_PUBLIC_PAYMENTS_URL is not set; payments are disabled');
+  return createUnavailablePaymentProvider();
+};
+
+export const paymentProvider: PaymentProvider = createDefaultPaymentProvider();
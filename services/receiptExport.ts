@@ -0,0 +1,129 @@
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { ParkingHistoryEntry } from '@/types/parkingHistory';
+import { getLocale, t } from '@/utils/i18n';
+import { getHistoryTotals } from '@/utils/parkingHistory';
+import { formatAmount, formatStayDuration } from '@/utils/parkingFormat';
+
+// Parking receipts for expense reports: a CSV for spreadsheets or a PDF to attach,
+// handed to the system share sheet
+
+export type ReceiptFormat = 'pdf' | 'csv';
+
+interface ReceiptOptions {
+  title: string; // e.g. the month being claimed
+  holder?: { name: string; email: string };
+}
+
+// Receipts are written in the app language
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(getLocale(), { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildReceiptsCsv = (entries: ParkingHistoryEntry[]): string => {
+  const header = [
+    t('receipts.columns.arrival'),
+    t('receipts.columns.departure'),
+    t('receipts.columns.durationMinutes'),
+    t('receipts.columns.lot'),
+    t('receipts.columns.amount'),
+    t('receipts.columns.currency'),
+    t('receipts.columns.vehicle'),
+    t('receipts.columns.type'),
+    t('receipts.columns.reference'),
+  ];
+  const rows = entries.map(entry => [
+    formatDateTime(entry.arrivedAt),
+    formatDateTime(entry.departedAt),
+    Math.round((entry.departedAt - entry.arrivedAt) / 60000),
+    entry.lotName ?? '',
+    entry.cost.toFixed(2),
+    entry.currency ?? '',
+    entry.vehicle ? `${entry.vehicle.plate} (${entry.vehicle.description})` : '',
+    t(`history.sources.${entry.source}`),
+    entry.referenceId,
+  ]);
+  // Leading BOM so spreadsheet apps read the accents as UTF-8
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const buildReceiptsHtml = (entries: ParkingHistoryEntry[], { title, holder }: ReceiptOptions): string => {
+  const rows = entries
+    .map(entry => `
+      <tr>
+        <td>${escapeHtml(formatDateTime(entry.arrivedAt))}<br/>${escapeHtml(formatDateTime(entry.departedAt))}</td>
+        <td>${escapeHtml(entry.lotName ?? '—')}</td>
+        <td>${escapeHtml(formatStayDuration(entry.departedAt - entry.arrivedAt))}</td>
+        <td>${escapeHtml(entry.vehicle?.plate ?? '—')}</td>
+        <td class="amount">${entry.currency ? escapeHtml(formatAmount(entry.cost, entry.currency)) : '—'}</td>
+      </tr>`)
+    .join('');
+  const totals = Object.entries(getHistoryTotals(entries))
+    .map(([currency, total]) => formatAmount(total, currency))
+    .join(' · ');
+
+  return `
+    <html lang="${getLocale()}">
+      <head>
+        <meta charset="utf-8" />
+        <style>
+          body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111827; padding: 24px; }
+          h1 { font-size: 20px; margin-bottom: 4px; }
+          .meta { color: #6B7280; font-size: 12px; margin-bottom: 16px; }
+          table { width: 100%; border-collapse: collapse; font-size: 12px; }
+          th, td { text-align: left; padding: 8px; border-bottom: 1px solid #E5E7EB; vertical-align: top; }
+          th { background: #F8FAFC; }
+          .amount { text-align: right; white-space: nowrap; }
+          .total { font-weight: bold; text-align: right; margin-top: 12px; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <h1>${escapeHtml(t('receipts.title', { title }))}</h1>
+        <div class="meta">
+          ${holder ? `${escapeHtml(holder.name)} · ${escapeHtml(holder.email)}<br/>` : ''}
+          ${escapeHtml(t('receipts.generated', { date: formatDateTime(Date.now()) }))}
+        </div>
+        <table>
+          <tr>
+            <th>${escapeHtml(t('receipts.columns.arrivalDeparture'))}</th>
+            <th>${escapeHtml(t('receipts.columns.lot'))}</th>
+            <th>${escapeHtml(t('receipts.columns.duration'))}</th>
+            <th>${escapeHtml(t('receipts.columns.vehicle'))}</th>
+            <th class="amount">${escapeHtml(t('receipts.columns.amount'))}</th>
+          </tr>
+          ${rows}
+        </table>
+        <div class="total">${escapeHtml(t('receipts.total', { total: totals || '—' }))}</div>
+      </body>
+    </html>`;
+};
+
+// Write the receipts and open the share sheet; resolves to the file written
+export async function exportReceipts(entries: ParkingHistoryEntry[], format: ReceiptFormat, options: ReceiptOptions) {
+  let uri: string;
+  if (format === 'csv') {
+    uri = `${FileSystem.cacheDirectory}${t('receipts.fileName')}-${Date.now()}.csv`;
+    await FileSystem.writeAsStringAsync(uri, buildReceiptsCsv(entries));
+  } else {
+    ({ uri } = await Print.printToFileAsync({ html: buildReceiptsHtml(entries, options) }));
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(uri, {
+    mimeType: format === 'csv' ? 'text/csv' : 'application/pdf',
+    UTI: format === 'csv' ? 'public.comma-separated-values-text' : 'com.adobe.pdf',
+    dialogTitle: t('receipts.dialogTitle', { title: options.title }),
+  });
+  console.log(`🧾 Exported ${entries.length} receipts as ${format}`);
+  return uri;
+}
@@ -0,0 +1,76 @@
+import { generateGateCode } from '@/utils/reservationRules';
+
+// Space bookings at the lot operator.
+// Providers are pluggable; the default talks to a reservations backend when one
+// is configured and otherwise confirms every booking locally (dev and tests).
+
+export interface BookingRequest {
+  lotId: string;
+  arrivalAt: number;
+  durationMinutes: number;
+}
+
+export interface BookingResult {
+  id: string;
+  status: 'confirmed' | 'rejected';
+  gateCode?: string;
+  reason?: string;
+}
+
+export interface ReservationProvider {
+  name: string;
+  book: (request: BookingRequest, accessToken: string | null) => Promise<BookingResult>;
+  cancel: (bookingId: string, accessToken: string | null) => Promise<void>;
+}
+
+const RESERVATIONS_URL = process.env.EXPO_PUBLIC_RESERVATIONS_URL;
+
+// Reservations API, authenticated with the account's bearer token:
+// POST {baseUrl}/reservations -> BookingResult, DELETE {baseUrl}/reservations/:id
+export function createHttpReservationProvider(baseUrl: string, fetchImpl: typeof fetch = fetch): ReservationProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const authorization = (accessToken: string | null) => {
+    if (!accessToken) throw new Error('Reservations API needs a signed-in account');
+    return `Bearer ${accessToken}`;
+  };
+
+  return {
+    name: `http:${root}`,
+    book: async (request, accessToken) => {
+      const response = await fetchImpl(`${root}/reservations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json', Authorization: authorization(accessToken) },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        throw new Error(`Reservations API ${response.status}`);
+      }
+      return (await response.json()) as BookingResult;
+    },
+    cancel: async (bookingId, accessToken) => {
+      const response = await fetchImpl(`${root}/reservations/${encodeURIComponent(bookingId)}`, {
+        method: 'DELETE',
+        headers: { Authorization: authorization(accessToken) },
+      });
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Reservations API ${response.status}`);
+      }
+    },
+  };
+}
+
+export function createLocalReservationProvider(delayMs = 800): ReservationProvider {
+  return {
+    name: 'local',
+    book: async ({ lotId }) => {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      return { id: `local-${lotId}-${Date.now()}`, status: 'confirmed', gateCode: generateGateCode() };
+    },
+    cancel: async () => {},
+  };
+}
+
+export const reservationProvider: ReservationProvider = RESERVATIONS_URL
+  ? createHttpReservationProvider(RESERVATIONS_URL)
+  : createLocalReservationProvider();
@@ -0,0 +1,254 @@
+import * as FileSystem from 'expo-file-system';
+import { ParkingLot } from '@/types/parking';
+import { Reservation, ReservationStatus } from '@/types/reservation';
+import { t } from '@/utils/i18n';
+import { calculateParkingCost, getSessionRate } from '@/utils/parkingCost';
+import { advanceReservation, canCheckIn, canTransition, getCancellationTerms } from '@/utils/reservationRules';
+import { adoptUnscopedFile, ensureParentDirectory, getAccountFile } from '@/services/accountStorage';
+import { reservationProvider as defaultProvider, ReservationProvider } from '@/services/reservationProvider';
+import { walletStore as defaultWalletStore, WalletStore } from '@/services/walletStore';
+import { parkingHistoryStore as defaultHistoryStore, ParkingHistoryStore } from '@/services/parkingHistoryStore';
+
+// Persists the signed-in account's reservations and drives their lifecycle: paid from
+// the wallet when booked, refunded by the cancellation rules, confirmed by the lot operator
+
+const STORE_DIRECTORY = `${FileSystem.documentDirectory}reservations/`;
+const STORE_FILE_NAME = 'reservations.json';
+
+export const getReservationPrice = (lot: ParkingLot, durationMinutes: number): number | null => {
+  const rate = getSessionRate(lot.pricing);
+  if (!rate) return null;
+  return Math.round(calculateParkingCost(rate, durationMinutes, lot.pricing.dailyMax) * 100) / 100;
+};
+
+interface ReservationStoreOptions {
+  provider?: ReservationProvider;
+  wallet?: WalletStore;
+  history?: ParkingHistoryStore;
+}
+
+export function createReservationStore({
+  provider = defaultProvider,
+  wallet = defaultWalletStore,
+  history = defaultHistoryStore,
+}: ReservationStoreOptions = {}) {
+  let reservations: Reservation[] = []; // Newest first
+  let accountId: string | null = null;
+  let getAccessToken: () => Promise<string | null> = async () => null;
+  let loaded: Promise<Reservation[]> | null = null;
+  const listeners = new Set<(reservations: Reservation[]) => void>();
+
+  const notify = () => listeners.forEach(listener => listener(reservations));
+
+  const persist = async () => {
+    const file = getAccountFile(STORE_DIRECTORY, STORE_FILE_NAME, accountId);
+    const contents = JSON.stringify(reservations);
+    try {
+      await ensureParentDirectory(file);
+      await FileSystem.writeAsStringAsync(file, contents);
+    } catch (err) {
+      console.warn('Could not save reservations:', err);
+    }
+  };
+
+  const load = () => {
+    if (!loaded) {
+      const account = accountId;
+      loaded = (async () => {
+        try {
+          if (account) await adoptUnscopedFile(STORE_DIRECTORY, STORE_FILE_NAME, account);
+          const file = getAccountFile(STORE_DIRECTORY, STORE_FILE_NAME, account);
+          const info = await FileSystem.getInfoAsync(file);
+          if (info.exists && account === accountId) {
+            reservations = JSON.parse(await FileSystem.readAsStringAsync(file)) as Reservation[];
+            notify();
+          }
+        } catch (err) {
+          console.warn('Could not read reservations:', err);
+        }
+        return reservations;
+      })();
+    }
+    return loaded;
+  };
+
+  const replace = async (next: Reservation) => {
+    reservations = reservations.map(reservation => (reservation.id === next.id ? next : reservation));
+    notify();
+    await persist();
+    return next;
+  };
+
+  const transition = (reservation: Reservation, status: ReservationStatus, changes: Partial<Reservation> = {}) => {
+    if (!canTransition(reservation.status, status)) {
+      throw new Error(`Reservation ${reservation.id} cannot go from ${reservation.status} to ${status}`);
+    }
+    return replace({ ...reservation, ...changes, status });
+  };
+
+  // Stays the user actually checked in for go to the parking history
+  const logStay = (reservation: Reservation) => {
+    if (reservation.status !== 'completed' || !reservation.checkedInAt) return;
+    history
+      .record({
+        source: 'reservation',
+        referenceId: reservation.id,
+        lotId: reservation.lotId,
+        lotName: reservation.lotName,
+        location: reservation.lotLocation,
+        arrivedAt: reservation.checkedInAt,
+        departedAt: reservation.endedAt ?? Date.now(),
+        cost: reservation.price - (reservation.refunded ?? 0),
+        currency: reservation.currency,
+      })
+      .catch(err => console.warn('Could not log reservation stay:', err));
+  };
+
+  const find = (id: string) => {
+    const reservation = reservations.find(candidate => candidate.id === id);
+    if (!reservation) throw new Error(`Unknown reservation ${id}`);
+    return reservation;
+  };
+
+  // Pay, record as pending, then ask the operator; a rejected booking is refunded
+  const reserve = async (lot: ParkingLot, arrivalAt: number, durationMinutes: number) => {
+    await load();
+    const price = getReservationPrice(lot, durationMinutes);
+    if (price === null) throw new Error(`Lot ${lot.id} has no rate to reserve with`);
+    if (lot.pricing.currency !== wallet.get().currency) {
+      throw new Error(`Lot ${lot.id} is priced in ${lot.pricing.currency}, not the wallet currency`);
+    }
+
+    const createdAt = Date.now();
+    const id = `reservation-${createdAt}`;
+    if (price > 0) {
+      await wallet.charge(price, t('wallet.descriptions.reservation', { lot: lot.name }), { reference: id });
+    }
+
+    let reservation: Reservation = {
+      id,
+      lotId: lot.id,
+      lotName: lot.name,
+      lotLocation: lot.location,
+      arrivalAt,
+      durationMinutes,
+      price,
+      currency: lot.pricing.currency,
+      status: 'pending',
+      createdAt,
+    };
+    reservations = [reservation, ...reservations];
+    notify();
+    await persist();
+
+    try {
+      const result = await provider.book({ lotId: lot.id, arrivalAt, durationMinutes }, await getAccessToken());
+      // It may have been cancelled (and refunded) while the operator answered
+      reservation = find(id);
+      if (reservation.status !== 'pending') {
+        console.warn(`📅 Reservation ${id} became ${reservation.status} while booking`);
+        if (result.status === 'confirmed') {
+          getAccessToken()
+            .then(accessToken => provider.cancel(result.id, accessToken))
+            .catch(err => console.warn('Could not release the booking:', err));
+        }
+        return reservation;
+      }
+      if (result.status === 'confirmed') {
+        reservation = await transition(reservation, 'confirmed', { providerId: result.id, gateCode: result.gateCode });
+        console.log('📅 Reservation confirmed at', lot.name);
+        return reservation;
+      }
+      console.warn('🚫 Reservation rejected:', result.reason);
+    } catch (err) {
+      console.warn('🚫 Could not book reservation:', err);
+      reservation = find(id);
+      if (reservation.status !== 'pending') return reservation;
+    }
+
+    if (price > 0) {
+      await wallet.refund(price, t('wallet.descriptions.reservationRejected', { lot: lot.name }), id);
+    }
+    return transition(reservation, 'cancelled', { endedAt: Date.now(), refunded: price });
+  };
+
+  // Cancel under the cancellation rules and refund what they allow
+  const cancel = async (id: string) => {
+    const reservation = find(id);
+    const terms = getCancellationTerms(reservation, Date.now());
+    if (!terms.allowed) throw new Error(`Reservation ${id} can no longer be cancelled`);
+
+    if (reservation.providerId) {
+      await provider.cancel(reservation.providerId, await getAccessToken());
+    }
+    if (terms.refund > 0) {
+      await wallet.refund(terms.refund, t('wallet.descriptions.cancellation', { lot: reservation.lotName }), id);
+    }
+    return transition(reservation, 'cancelled', { endedAt: Date.now(), refunded: terms.refund });
+  };
+
+  const checkIn = async (id: string) => {
+    const reservation = find(id);
+    if (!canCheckIn(reservation, Date.now())) throw new Error(`Reservation ${id} is not open for check-in`);
+    return transition(reservation, 'active', { checkedInAt: Date.now() });
+  };
+
+  const complete = async (id: string) => {
+    const reservation = await transition(find(id), 'completed', { endedAt: Date.now() });
+    logStay(reservation);
+    return reservation;
+  };
+
+  // Apply time-driven transitions (no-shows, finished stays)
+  const refresh = async (now = Date.now()) => {
+    await load();
+    const advanced: Reservation[] = [];
+    reservations = reservations.map(reservation => {
+      const next = advanceReservation(reservation, now);
+      if (next !== reservation) advanced.push(next);
+      return next;
+    });
+    if (advanced.length > 0) {
+      notify();
+      await persist();
+      advanced.forEach(logStay);
+    }
+  };
+
+  // Show another account's reservations (signing in or out); the previous ones stay on disk
+  const setAccount = (
+    nextAccountId: string | null,
+    accessTokenSource: () => Promise<string | null> = async () => null,
+  ) => {
+    getAccessToken = accessTokenSource;
+    if (nextAccountId === accountId && loaded) return loaded;
+    accountId = nextAccountId;
+    reservations = [];
+    loaded = null;
+    notify();
+    return load();
+  };
+
+  const subscribe = (listener: (reservations: Reservation[]) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    load,
+    get: () => reservations,
+    reserve,
+    cancel,
+    checkIn,
+    complete,
+    refresh,
+    setAccount,
+    subscribe,
+  };
+}
+
+export type ReservationStore = ReturnType<typeof createReservationStore>;
+
+export const reservationStore = createReservationStore();
@@ -0,0 +1,160 @@
+import { LatLng } from '@/types/parking';
+import { calculateDistance, calculateBearing } from '@/utils/geo';
+
+// Driving routes for turn-by-turn guidance.
+// Providers are pluggable; the default talks to any OSRM-compatible server
+// (a public/self-hosted OSRM, or scripts/mock-routing-server.js for local work).
+
+export type ManeuverType =
+  | 'depart'
+  | 'turn'
+  | 'continue'
+  | 'merge'
+  | 'fork'
+  | 'roundabout'
+  | 'arrive'
+  | string;
+
+export type ManeuverModifier =
+  | 'uturn'
+  | 'sharp right'
+  | 'right'
+  | 'slight right'
+  | 'straight'
+  | 'slight left'
+  | 'left'
+  | 'sharp left';
+
+export interface RouteStep {
+  maneuver: {
+    type: ManeuverType;
+    modifier?: ManeuverModifier;
+    location: LatLng;
+    bearingAfter?: number;
+    exit?: number; // Roundabout exit number
+  };
+  name: string; // Street the step continues on
+  distance: number; // meters until the next maneuver
+  duration: number; // seconds until the next maneuver
+}
+
+export interface Route {
+  coordinates: LatLng[];
+  distance: number; // meters
+  duration: number; // seconds
+  steps: RouteStep[];
+}
+
+export interface RoutingProvider {
+  name: string;
+  getRoute: (origin: LatLng, destination: LatLng) => Promise<Route>;
+}
+
+const ROUTING_URL = process.env.EXPO_PUBLIC_ROUTING_URL;
+
+interface OsrmStep {
+  distance: number;
+  duration: number;
+  name: string;
+  maneuver: {
+    type: string;
+    modifier?: ManeuverModifier;
+    location: [number, number];
+    bearing_after?: number;
+    exit?: number;
+  };
+}
+
+interface OsrmResponse {
+  code: string;
+  message?: string;
+  routes?: {
+    distance: number;
+    duration: number;
+    geometry: { coordinates: [number, number][] };
+    legs: { steps: OsrmStep[] }[];
+  }[];
+}
+
+const toLatLng = ([longitude, latitude]: [number, number]): LatLng => ({ latitude, longitude });
+
+// OSRM HTTP API: GET {baseUrl}/route/v1/{profile}/{lng},{lat};{lng},{lat}?overview=full&geometries=geojson&steps=true
+export function createOsrmRoutingProvider(
+  baseUrl: string,
+  options: { profile?: string; fetchImpl?: typeof fetch } = {}
+): RoutingProvider {
+  const { profile = 'driving', fetchImpl = fetch } = options;
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: `osrm:${root}`,
+    getRoute: async (origin, destination) => {
+      const coordinates = `${origin.longitude},${origin.latitude};${destination.longitude},${destination.latitude}`;
+      const response = await fetchImpl(
+        `${root}/route/v1/${profile}/${coordinates}?overview=full&geometries=geojson&steps=true`,
+        { headers: { Accept: 'application/json' } }
+      );
+      if (!response.ok) {
+        throw new Error(`Routing API ${response.status}`);
+      }
+
+      const body = (await response.json()) as OsrmResponse;
+      const route = body.routes?.[0];
+      if (body.code !== 'Ok' || !route) {
+        throw new Error(`Routing failed: ${body.message ?? body.code}`);
+      }
+
+      return {
+        coordinates: route.geometry.coordinates.map(toLatLng),
+        distance: route.distance,
+        duration: route.duration,
+        steps: route.legs.flatMap(leg => leg.steps).map(step => ({
+          maneuver: {
+            type: step.maneuver.type,
+            modifier: step.maneuver.modifier,
+            location: toLatLng(step.maneuver.location),
+            bearingAfter: step.maneuver.bearing_after,
+            exit: step.maneuver.exit,
+          },
+          name: step.name,
+          distance: step.distance,
+          duration: step.duration,
+        })),
+      };
+    },
+  };
+}
+
+// Fallback when no routing server is configured: a direct line to the destination
+export function createStraightLineRoutingProvider(averageSpeed = 8): RoutingProvider {
+  return {
+    name: 'straight-line',
+    getRoute: async (origin, destination) => {
+      const distance = calculateDistance(origin.latitude, origin.longitude, destination.latitude, destination.longitude);
+      const duration = distance / averageSpeed;
+
+      return {
+        coordinates: [origin, destination],
+        distance,
+        duration,
+        steps: [
+          {
+            maneuver: {
+              type: 'depart',
+              location: origin,
+              bearingAfter: calculateBearing(origin.latitude, origin.longitude, destination.latitude, destination.longitude),
+            },
+            name: '',
+            distance,
+            duration,
+          },
+          { maneuver: { type: 'arrive', location: destination }, name: '', distance: 0, duration: 0 },
+        ],
+      };
+    },
+  };
+}
+
+export const routingProvider: RoutingProvider = ROUTING_URL
+  ? createOsrmRoutingProvider(ROUTING_URL)
+  : createStraightLineRoutingProvider();
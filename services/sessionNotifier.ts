@@ -0,0 +1,78 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { ParkingSession } from '@/types/parkingSession';
+import { t } from '@/utils/i18n';
+
+// Local notifications before (and at) the end of a paid parking session.
+// Pluggable so the session store can run without the native module.
+
+export interface SessionNotifier {
+  schedule: (session: ParkingSession, reminderMinutes: number | null) => Promise<string[]>;
+  cancel: (ids: string[]) => Promise<void>;
+}
+
+// Show reminders even while the app is open
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+const ensurePermission = async () => {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+export function createExpoSessionNotifier(): SessionNotifier {
+  return {
+    schedule: async (session, reminderMinutes) => {
+      if (Platform.OS === 'web' || session.paidUntil === null) return [];
+      if (!(await ensurePermission())) {
+        console.warn('🚫 Notification permission denied; no parking reminders');
+        return [];
+      }
+
+      // Written in the app language at scheduling time
+      const place = session.lotName ?? t('notifications.session.yourLot');
+      const reminders: { at: number; title: string; body: string }[] = [
+        {
+          at: session.paidUntil,
+          title: t('notifications.session.expiredTitle'),
+          body: t('notifications.session.expiredBody', { place }),
+        },
+      ];
+      if (reminderMinutes !== null) {
+        reminders.push({
+          at: session.paidUntil - reminderMinutes * 60 * 1000,
+          title: t('notifications.session.reminderTitle', { minutes: reminderMinutes }),
+          body: t('notifications.session.reminderBody', { place }),
+        });
+      }
+
+      const ids = await Promise.all(
+        reminders
+          .filter(reminder => reminder.at > Date.now())
+          .map(reminder =>
+            Notifications.scheduleNotificationAsync({
+              content: { title: reminder.title, body: reminder.body, data: { sessionId: session.id } },
+              trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: new Date(reminder.at) },
+            })
+          )
+      );
+      console.log(`⏰ Scheduled ${ids.length} parking reminder(s)`);
+      return ids;
+    },
+    cancel: async ids => {
+      if (Platform.OS === 'web') return;
+      await Promise.all(ids.map(id => Notifications.cancelScheduledNotificationAsync(id)));
+    },
+  };
+}
+
+export const sessionNotifier: SessionNotifier = createExpoSessionNotifier();
@@ -0,0 +1,83 @@
+import * as FileSystem from 'expo-file-system';
+import { AppSettings } from '@/types/settings';
+import { DEFAULT_SETTINGS } from '@/utils/settings';
+
+// Persists the user's preferences on the device
+
+const STORE_DIRECTORY = `${FileSystem.documentDirectory}settings/`;
+const STORE_FILE = `${STORE_DIRECTORY}settings.json`;
+
+export function createSettingsStore() {
+  let settings: AppSettings = DEFAULT_SETTINGS;
+  let loaded: Promise<AppSettings> | null = null;
+  const listeners = new Set<(settings: AppSettings) => void>();
+
+  const notify = () => listeners.forEach(listener => listener(settings));
+
+  const persist = async () => {
+    try {
+      const info = await FileSystem.getInfoAsync(STORE_DIRECTORY);
+      if (!info.exists) {
+        await FileSystem.makeDirectoryAsync(STORE_DIRECTORY, { intermediates: true });
+      }
+      await FileSystem.writeAsStringAsync(STORE_FILE, JSON.stringify(settings));
+    } catch (err) {
+      console.warn('Could not save settings:', err);
+    }
+  };
+
+  const load = () => {
+    if (!loaded) {
+      loaded = (async () => {
+        try {
+          const info = await FileSystem.getInfoAsync(STORE_FILE);
+          if (info.exists) {
+            // Defaults first so settings added in later versions get a value
+            settings = { ...DEFAULT_SETTINGS, ...JSON.parse(await FileSystem.readAsStringAsync(STORE_FILE)) };
+            notify();
+          }
+        } catch (err) {
+          console.warn('Could not read settings:', err);
+        }
+        return settings;
+      })();
+    }
+    return loaded;
+  };
+
+  const update = async (changes: Partial<AppSettings>) => {
+    await load();
+    settings = { ...settings, ...changes };
+    notify();
+    await persist();
+    console.log('⚙️ Settings updated:', Object.keys(changes).join(', '));
+    return settings;
+  };
+
+  const reset = async () => {
+    await load();
+    settings = DEFAULT_SETTINGS;
+    notify();
+    await persist();
+    return settings;
+  };
+
+  const subscribe = (listener: (settings: AppSettings) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    load,
+    get: () => settings,
+    update,
+    reset,
+    subscribe,
+  };
+}
+
+export type SettingsStore = ReturnType<typeof createSettingsStore>;
+
+export const settingsStore = createSettingsStore();
@@ -0,0 +1,40 @@
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import { AuthSession } from '@/types/auth';
+
+// Keeps the auth session in the device keychain/keystore.
+// Web has no secure storage, so the session only lives for the page.
+
+export interface TokenStorage {
+  load: () => Promise<AuthSession | null>;
+  save: (session: AuthSession) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+const SESSION_KEY = 'parkingfinder.auth-session';
+
+export function createSecureTokenStorage(): TokenStorage {
+  return {
+    load: async () => {
+      const value = await SecureStore.getItemAsync(SESSION_KEY);
+      return value ? (JSON.parse(value) as AuthSession) : null;
+    },
+    save: session => SecureStore.setItemAsync(SESSION_KEY, JSON.stringify(session)),
+    clear: () => SecureStore.deleteItemAsync(SESSION_KEY),
+  };
+}
+
+export function createMemoryTokenStorage(): TokenStorage {
+  let stored: AuthSession | null = null;
+  return {
+    load: async () => stored,
+    save: async session => {
+      stored = session;
+    },
+    clear: async () => {
+      stored = null;
+    },
+  };
+}
+
+export const tokenStorage: TokenStorage = Platform.OS === 'web' ? createMemoryTokenStorage() : createSecureTokenStorage();
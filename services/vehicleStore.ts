@@ -0,0 +1,127 @@
+import * as FileSystem from 'expo-file-system';
+import { Garage, Vehicle } from '@/types/vehicle';
+
+// Persists the user's vehicles and which one is the default
+
+const STORE_DIRECTORY = `${FileSystem.documentDirectory}vehicles/`;
+const STORE_FILE = `${STORE_DIRECTORY}garage.json`;
+
+const EMPTY_GARAGE: Garage = { vehicles: [], defaultVehicleId: null };
+
+export const getDefaultVehicle = (garage: Garage) =>
+  garage.vehicles.find(vehicle => vehicle.id === garage.defaultVehicleId) ?? null;
+
+export type VehicleInput = Omit<Vehicle, 'id' | 'createdAt'>;
+
+export function createVehicleStore() {
+  let garage: Garage = EMPTY_GARAGE;
+  let loaded: Promise<Garage> | null = null;
+  const listeners = new Set<(garage: Garage) => void>();
+
+  const notify = () => listeners.forEach(listener => listener(garage));
+
+  const persist = async () => {
+    try {
+      const info = await FileSystem.getInfoAsync(STORE_DIRECTORY);
+      if (!info.exists) {
+        await FileSystem.makeDirectoryAsync(STORE_DIRECTORY, { intermediates: true });
+      }
+      await FileSystem.writeAsStringAsync(STORE_FILE, JSON.stringify(garage));
+    } catch (err) {
+      console.warn('Could not save vehicles:', err);
+    }
+  };
+
+  const load = () => {
+    if (!loaded) {
+      loaded = (async () => {
+        try {
+          const info = await FileSystem.getInfoAsync(STORE_FILE);
+          if (info.exists) {
+            garage = JSON.parse(await FileSystem.readAsStringAsync(STORE_FILE)) as Garage;
+            notify();
+          }
+        } catch (err) {
+          console.warn('Could not read vehicles:', err);
+        }
+        return garage;
+      })();
+    }
+    return loaded;
+  };
+
+  const update = async (next: Garage) => {
+    garage = next;
+    notify();
+    await persist();
+    return garage;
+  };
+
+  // The first vehicle becomes the default
+  const add = async (input: VehicleInput) => {
+    await load();
+    const createdAt = Date.now();
+    const vehicle: Vehicle = { ...input, plate: input.plate.trim().toUpperCase(), id: `vehicle-${createdAt}`, createdAt };
+    await update({
+      vehicles: [...garage.vehicles, vehicle],
+      defaultVehicleId: garage.defaultVehicleId ?? vehicle.id,
+    });
+    console.log('🚗 Vehicle added:', vehicle.plate);
+    return vehicle;
+  };
+
+  const edit = async (id: string, changes: Partial<VehicleInput>) => {
+    await load();
+    return update({
+      ...garage,
+      vehicles: garage.vehicles.map(vehicle =>
+        vehicle.id === id
+          ? { ...vehicle, ...changes, plate: (changes.plate ?? vehicle.plate).trim().toUpperCase() }
+          : vehicle
+      ),
+    });
+  };
+
+  // Removing the default hands the role to the oldest remaining vehicle
+  const remove = async (id: string) => {
+    await load();
+    const vehicles = garage.vehicles.filter(vehicle => vehicle.id !== id);
+    const defaultVehicleId = garage.defaultVehicleId === id ? vehicles[0]?.id ?? null : garage.defaultVehicleId;
+    return update({ vehicles, defaultVehicleId });
+  };
+
+  const setDefault = async (id: string) => {
+    await load();
+    if (!garage.vehicles.some(vehicle => vehicle.id === id)) return garage;
+    return update({ ...garage, defaultVehicleId: id });
+  };
+
+  // Forget every vehicle (signing out)
+  const reset = async () => {
+    garage = EMPTY_GARAGE;
+    notify();
+    await FileSystem.deleteAsync(STORE_FILE, { idempotent: true }).catch(err => console.warn('Could not delete vehicles:', err));
+  };
+
+  const subscribe = (listener: (garage: Garage) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    load,
+    get: () => garage,
+    add,
+    edit,
+    remove,
+    setDefault,
+    reset,
+    subscribe,
+  };
+}
+
+export type VehicleStore = ReturnType<typeof createVehicleStore>;
+
+export const vehicleStore = createVehicleStore();
@@ -0,0 +1,211 @@
+import * as FileSystem from 'expo-file-system';
+import { WalletLedger, WalletTransaction, WalletTransactionType } from '@/types/wallet';
+import { adoptUnscopedFile, ensureParentDirectory, getAccountFile } from '@/services/accountStorage';
+import {
+  paymentProvider as defaultPaymentProvider,
+  InsufficientBalanceError,
+  PaymentError,
+  PaymentProvider,
+} from '@/services/paymentProvider';
+import { t } from '@/utils/i18n';
+
+// Wallet ledger of the signed-in account; the balance is always derived from it.
+// When the payments backend keeps a ledger it is the real balance and the file on the
+// device is only a cache of it; otherwise (fake payments) the file is the ledger.
+
+const STORE_DIRECTORY = `${FileSystem.documentDirectory}wallet/`;
+const STORE_FILE_NAME = 'ledger.json';
+
+// Lots are priced in this currency; parking in other currencies is paid at the lot
+export const WALLET_CURRENCY = process.env.EXPO_PUBLIC_WALLET_CURRENCY ?? 'CNY';
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export const getWalletBalance = (transactions: WalletTransaction[]) =>
+  roundAmount(transactions.reduce((sum, transaction) => sum + transaction.amount, 0));
+
+export const isInsufficientBalanceError = (err: unknown) => err instanceof InsufficientBalanceError;
+
+type AccessTokenSource = () => Promise<string | null>;
+
+const createTransactionId = (type: WalletTransactionType) =>
+  `${type}-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+interface ChargeOptions {
+  reference?: string;
+  allowOverdraft?: boolean; // Settle a stay that already happened even without funds
+}
+
+export function createWalletStore(provider: PaymentProvider = defaultPaymentProvider) {
+  let ledger: WalletLedger = { currency: WALLET_CURRENCY, transactions: [] };
+  let accountId: string | null = null;
+  let getAccessToken: AccessTokenSource = async () => null;
+  let loaded: Promise<WalletLedger> | null = null;
+  // A top-up whose outcome is unknown (network error); retrying the same amount reuses its key
+  let pendingTopUp: { amount: number; idempotencyKey: string } | null = null;
+  const remote = provider.ledger;
+  const listeners = new Set<(ledger: WalletLedger) => void>();
+
+  const notify = () => listeners.forEach(listener => listener(ledger));
+
+  const persist = async () => {
+    // Resolved before awaiting so a write never lands in the next account's file
+    const file = getAccountFile(STORE_DIRECTORY, STORE_FILE_NAME, accountId);
+    const contents = JSON.stringify(ledger);
+    try {
+      await ensureParentDirectory(file);
+      await FileSystem.writeAsStringAsync(file, contents);
+    } catch (err) {
+      console.warn('Could not save wallet:', err);
+    }
+  };
+
+  const requireAccessToken = async () => {
+    const accessToken = await getAccessToken();
+    if (!accessToken) throw new Error('Sign in to use the wallet');
+    return accessToken;
+  };
+
+  // Replace the cached ledger with the backend's one
+  const refresh = async () => {
+    if (!remote || !accountId) return ledger;
+    const account = accountId;
+    const serverLedger = await remote.get(await requireAccessToken());
+    if (account === accountId) {
+      ledger = serverLedger;
+      notify();
+      await persist();
+    }
+    return ledger;
+  };
+
+  const load = () => {
+    if (!loaded) {
+      const account = accountId;
+      loaded = (async () => {
+        try {
+          if (account) await adoptUnscopedFile(STORE_DIRECTORY, STORE_FILE_NAME, account);
+          const file = getAccountFile(STORE_DIRECTORY, STORE_FILE_NAME, account);
+          const info = await FileSystem.getInfoAsync(file);
+          if (info.exists && account === accountId) {
+            ledger = JSON.parse(await FileSystem.readAsStringAsync(file)) as WalletLedger;
+            notify();
+          }
+        } catch (err) {
+          console.warn('Could not read wallet:', err);
+        }
+        return ledger;
+      })();
+      // The backend's ledger replaces the saved one once it arrives; `loaded` doesn't wait
+      // for it, so account switching and offline starts never hang on the network
+      loaded
+        .then(() => refresh())
+        .catch(err => console.warn('Could not fetch wallet, showing the saved one:', err));
+    }
+    return loaded;
+  };
+
+  const addTransaction = async (transaction: WalletTransaction) => {
+    ledger = {
+      ...ledger,
+      transactions: [transaction, ...ledger.transactions.filter(existing => existing.id !== transaction.id)],
+    };
+    notify();
+    await persist();
+    return transaction;
+  };
+
+  const record = async (
+    type: WalletTransactionType,
+    amount: number,
+    description: string,
+    { reference, allowOverdraft = false }: ChargeOptions = {},
+  ) => {
+    const id = createTransactionId(type);
+    if (remote) {
+      // The backend checks the balance and keeps the entry; the id makes retries safe
+      const entry = { id, type, amount: roundAmount(amount), currency: ledger.currency, description, reference, allowOverdraft };
+      return addTransaction(await remote.record(await requireAccessToken(), entry));
+    }
+    return addTransaction({
+      id,
+      type,
+      amount: roundAmount(amount),
+      currency: ledger.currency,
+      createdAt: Date.now(),
+      description,
+      reference,
+    });
+  };
+
+  // Charge the card through the payment provider and credit the wallet
+  const topUp = async (amount: number) => {
+    if (!(amount > 0)) throw new Error('Top-up amount must be positive');
+    await load();
+    const accessToken = remote ? await requireAccessToken() : await getAccessToken();
+    if (pendingTopUp?.amount !== amount) {
+      pendingTopUp = { amount, idempotencyKey: createTransactionId('topUp') };
+    }
+    const { idempotencyKey } = pendingTopUp;
+    const description = t('wallet.descriptions.topUp');
+    const result = await provider.charge({ amount, currency: ledger.currency, description, idempotencyKey }, accessToken);
+    pendingTopUp = null;
+    if (result.status !== 'succeeded') {
+      throw new PaymentError(result.failureCode ?? 'paymentFailed');
+    }
+    console.log(`💳 Wallet topped up with ${amount} ${ledger.currency}`);
+    if (!remote) return record('topUp', amount, description, { reference: result.id });
+    // The backend credited its ledger along with the payment
+    await refresh();
+    return ledger.transactions.find(transaction => transaction.reference === result.id) ?? null;
+  };
+
+  const charge = async (amount: number, description: string, { reference, allowOverdraft = false }: ChargeOptions = {}) => {
+    await load();
+    if (!remote && !allowOverdraft && getWalletBalance(ledger.transactions) < amount) {
+      throw new InsufficientBalanceError();
+    }
+    return record('parkingCharge', -amount, description, { reference, allowOverdraft });
+  };
+
+  const refund = async (amount: number, description: string, reference?: string) => {
+    await load();
+    return record('refund', amount, description, { reference });
+  };
+
+  // Show another account's ledger (signing in or out); the previous one stays on disk
+  const setAccount = (nextAccountId: string | null, accessTokenSource: AccessTokenSource = async () => null) => {
+    getAccessToken = accessTokenSource;
+    if (nextAccountId === accountId && loaded) return loaded;
+    accountId = nextAccountId;
+    ledger = { currency: WALLET_CURRENCY, transactions: [] };
+    loaded = null;
+    pendingTopUp = null;
+    notify();
+    return load();
+  };
+
+  const subscribe = (listener: (ledger: WalletLedger) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    load,
+    get: () => ledger,
+    getBalance: () => getWalletBalance(ledger.transactions),
+    topUp,
+    charge,
+    refund,
+    refresh,
+    setAccount,
+    subscribe,
+    provider,
+  };
+}
+
+export type WalletStore = ReturnType<typeof createWalletStore>;
+
+export const walletStore = createWalletStore();
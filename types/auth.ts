@@ -0,0 +1,27 @@
+// Signed-in user and the tokens that authenticate them against the backend
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  createdAt: number;
+  avatarUrl?: string;
+}
+
+// Fields the user can edit; the photo stays on the device (see authStore)
+export type ProfileChanges = Partial<Pick<User, 'name' | 'email'>>;
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number; // Access token expiry (epoch ms)
+}
+
+export interface AuthSession {
+  user: User;
+  tokens: AuthTokens;
+}
+
+export type OAuthProviderName = 'google' | 'apple';
+
+export type AuthStatus = 'loading' | 'signedOut' | 'signedIn';
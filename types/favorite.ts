@@ -0,0 +1,10 @@
+import { LatLng } from '@/types/parking';
+
+// A starred parking lot; name and location are kept so the list works before the lot is loaded
+
+export interface FavoriteLot {
+  lotId: string;
+  name: string;
+  location: LatLng;
+  addedAt: number;
+}
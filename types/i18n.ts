@@ -0,0 +1,26 @@
+// Languages the app ships message catalogs for
+export type Locale = 'es' | 'en' | 'zh-CN';
+
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+// A message that depends on a `count` param; `other` is the form every language has
+export type PluralForms = Partial<Record<PluralCategory, string>> & { other: string };
+
+// Shape every catalog must have: the source catalog with its literals widened
+export type MessageCatalog<T> = {
+  [K in keyof T]: T[K] extends string
+    ? string
+    : T[K] extends { other: string }
+      ? PluralForms
+      : MessageCatalog<T[K]>;
+};
+
+// Dotted path to each message of a catalog, e.g. 'map.locating'
+export type MessageKey<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string | { other: string }
+    ? `${Prefix}${K}`
+    : MessageKey<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+// Values for the {placeholders} of a message; `count` also picks the plural form
+export type MessageParams = Record<string, string | number>;
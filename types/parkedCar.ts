@@ -0,0 +1,11 @@
+// Where the user left the car
+
+export interface ParkedCar {
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // meters, as reported when saved
+  savedAt: number;
+  lotId?: string; // Parking lot the car is in, when known
+  note?: string; // Floor / spot, e.g. "Planta -2, plaza 148"
+  photoUri?: string; // Local copy of a photo of the spot
+}
@@ -0,0 +1,92 @@
+// Parking data model shared by the repository, hooks and map components
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ParkingBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface ParkingEntrance {
+  id: string;
+  coordinate: LatLng;
+  type: 'vehicle' | 'pedestrian' | 'both';
+  name?: string;
+}
+
+export interface ParkingRate {
+  label?: string;
+  amount: number;
+  per: 'hour' | 'day' | 'entry';
+  firstMinutesFree?: number;
+}
+
+export interface ParkingPricing {
+  currency: string; // ISO 4217
+  rates: ParkingRate[];
+  dailyMax?: number;
+}
+
+export interface OpeningPeriod {
+  day: number; // 0 = Sunday
+  open: string; // HH:MM, local time
+  close: string; // HH:MM, may be earlier than `open` for overnight periods
+}
+
+export interface OpeningHours {
+  is24h: boolean;
+  periods: OpeningPeriod[];
+  timezone?: string;
+}
+
+export interface ParkingAvailability {
+  freeSpaces: number;
+  updatedAt: number;
+  source: 'live' | 'estimated' | 'static';
+}
+
+export interface ParkingOperator {
+  name: string;
+  phone?: string;
+  website?: string;
+}
+
+export type ParkingAmenity =
+  | 'ev_charging'
+  | 'covered'
+  | 'security'
+  | 'disabled_access'
+  | 'toilets'
+  | 'car_wash'
+  | 'motorcycle'
+  | 'valet';
+
+// Who may park; absent fields mean no restriction
+export interface ParkingRestrictions {
+  maxHeight?: number; // meters, height barrier at the vehicle entrance
+  evOnly?: boolean; // Every bay is an EV charging bay
+  motorcycleOnly?: boolean; // Motorcycle bays only
+}
+
+export interface ParkingLot {
+  id: string;
+  name: string;
+  city: string;
+  address?: string;
+  location: LatLng; // Representative point used for the map marker
+  geometry?: LatLng[]; // Outline polygon, when known
+  entrances: ParkingEntrance[];
+  capacity: number;
+  availability: ParkingAvailability;
+  pricing: ParkingPricing;
+  openingHours: OpeningHours;
+  operator: ParkingOperator;
+  amenities: ParkingAmenity[];
+  restrictions?: ParkingRestrictions;
+  photos?: string[];
+}
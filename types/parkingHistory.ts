@@ -0,0 +1,25 @@
+import { LatLng } from '@/types/parking';
+
+// A finished stay, kept for the trip log and expense receipts
+
+export type ParkingHistorySource = 'session' | 'reservation';
+
+export interface ParkingHistoryVehicle {
+  id: string;
+  plate: string;
+  description: string; // Make and model, or the size class
+}
+
+export interface ParkingHistoryEntry {
+  id: string;
+  source: ParkingHistorySource;
+  referenceId: string; // Session or reservation the stay came from
+  lotId?: string;
+  lotName?: string;
+  location?: LatLng;
+  arrivedAt: number;
+  departedAt: number;
+  cost: number; // Paid in total, after refunds
+  currency?: string; // ISO 4217; absent for unpriced stays
+  vehicle?: ParkingHistoryVehicle;
+}
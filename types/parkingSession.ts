@@ -0,0 +1,16 @@
+import { ParkingRate } from '@/types/parking';
+
+// An active paid parking stay, persisted so the countdown survives restarts
+
+export interface ParkingSession {
+  id: string;
+  lotId?: string;
+  lotName?: string;
+  startedAt: number;
+  paidUntil: number | null; // null = no time limit (pay on exit)
+  rate?: ParkingRate; // Rate the cost is estimated with
+  currency?: string; // ISO 4217, for `rate`
+  dailyMax?: number;
+  prepaid?: number; // Charged to the wallet so far, in `currency`
+  notificationIds: string[]; // Scheduled expiry reminders
+}
@@ -0,0 +1,26 @@
+import { LatLng } from '@/types/parking';
+
+// Place search results shown under the search bar
+
+export type PlaceKind = 'address' | 'poi' | 'parking';
+
+export interface PlaceResult {
+  id: string;
+  kind: PlaceKind;
+  name: string;
+  description?: string; // Address / city line shown under the name
+  coordinate: LatLng;
+  lotId?: string; // Set for parking results
+  distance?: number; // meters from the search origin, when known
+}
+
+// Entry of the bundled offline gazetteer
+export interface BundledPlace {
+  id: string;
+  kind: 'address' | 'poi';
+  name: string;
+  aliases?: string[]; // Alternative spellings, e.g. local names
+  city: string;
+  address?: string;
+  coordinate: LatLng;
+}
@@ -0,0 +1,29 @@
+import { LatLng } from '@/types/parking';
+
+// A booked space at a parking lot, from payment to leaving the lot
+
+export type ReservationStatus =
+  | 'pending' // Paid, waiting for the operator to confirm
+  | 'confirmed'
+  | 'active' // Checked in at the gate
+  | 'completed'
+  | 'cancelled'
+  | 'noShow';
+
+export interface Reservation {
+  id: string;
+  lotId: string;
+  lotName: string;
+  lotLocation: LatLng;
+  arrivalAt: number;
+  durationMinutes: number;
+  price: number;
+  currency: string; // ISO 4217
+  status: ReservationStatus;
+  gateCode?: string; // Shown as text and QR at the gate, once confirmed
+  providerId?: string; // Booking id at the operator
+  createdAt: number;
+  checkedInAt?: number;
+  endedAt?: number; // Completed, cancelled or marked as no-show
+  refunded?: number;
+}
@@ -0,0 +1,28 @@
+import { Locale } from '@/types/i18n';
+
+// Device preferences; unlike account data they survive signing out
+
+export type DistanceUnits = 'metric' | 'imperial';
+
+export type MapType = 'standard' | 'satellite' | 'hybrid';
+
+export type NavigationZoom = 'close' | 'medium' | 'far';
+
+export type GpsProfile = 'precise' | 'balanced' | 'batterySaver';
+
+export type AppLanguage = 'system' | Locale;
+
+export type AppTheme = 'system' | 'light' | 'dark';
+
+// Development builds only: record the GPS session, replay the last recording or follow a scripted route
+export type LocationSource = 'device' | 'record' | 'replay' | 'simulatedDrive' | 'simulatedParking';
+
+export interface AppSettings {
+  units: DistanceUnits;
+  mapType: MapType; // Map type the app opens with
+  navigationZoom: NavigationZoom;
+  gpsProfile: GpsProfile;
+  language: AppLanguage;
+  theme: AppTheme;
+  locationSource: LocationSource; // Ignored (always the device) in release builds
+}
@@ -0,0 +1,19 @@
+// The user's vehicles; the default one decides which lots the search shows
+
+export type VehicleSize = 'motorcycle' | 'small' | 'medium' | 'large' | 'van';
+
+export interface Vehicle {
+  id: string;
+  plate: string;
+  make?: string;
+  model?: string;
+  size: VehicleSize;
+  isElectric: boolean;
+  height?: number; // meters; falls back to the size class when unknown
+  createdAt: number;
+}
+
+export interface Garage {
+  vehicles: Vehicle[];
+  defaultVehicleId: string | null;
+}
@@ -0,0 +1,18 @@
+// In-app wallet: a ledger of signed movements whose sum is the balance
+
+export type WalletTransactionType = 'topUp' | 'parkingCharge' | 'refund';
+
+export interface WalletTransaction {
+  id: string;
+  type: WalletTransactionType;
+  amount: number; // Signed: credits positive, charges negative
+  currency: string; // ISO 4217
+  createdAt: number;
+  description: string;
+  reference?: string; // Payment id for top-ups, lot/session id for parking movements
+}
+
+export interface WalletLedger {
+  currency: string;
+  transactions: WalletTransaction[]; // Newest first
+}
@@ -0,0 +1,102 @@
+import * as Linking from 'expo-linking';
+import { LatLng } from '@/types/parking';
+import { t } from '@/utils/i18n';
+
+// Links into the app, with the scheme or on the universal-link host (EXPO_PUBLIC_LINK_BASE_URL):
+//   parkingfinder://lot/<id>                      a parking lot
+//   parkingfinder://navigate?lat=..&lng=..&name=  a place to park near
+//   parkingfinder://car[?lat=..&lng=..&note=..]   where the car is (own car without coordinates)
+
+const SCHEME = 'parkingfinder';
+const LINK_BASE_URL = process.env.EXPO_PUBLIC_LINK_BASE_URL?.replace(/\/+$/, '');
+
+export type DeepLink =
+  | { type: 'lot'; lotId: string }
+  | { type: 'place'; coordinate: LatLng; name?: string }
+  | { type: 'car'; coordinate?: LatLng; note?: string };
+
+const firstValue = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value);
+
+const parseCoordinate = (lat?: string, lng?: string): LatLng | null => {
+  const latitude = Number(lat);
+  const longitude = Number(lng);
+  if (!lat || !lng || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+};
+
+// null when the URL is not one of ours (e.g. an auth callback or a plain route)
+export const parseDeepLink = (url: string): DeepLink | null => {
+  const { scheme, hostname, path, queryParams } = Linking.parse(url);
+  const isWeb = scheme === 'http' || scheme === 'https';
+  if (isWeb && (!LINK_BASE_URL || hostname !== Linking.parse(LINK_BASE_URL).hostname)) return null;
+  if (!isWeb && scheme !== SCHEME) return null;
+
+  // parkingfinder://lot/1 has "lot" as its host; https links carry it in the path
+  const segments = [...(isWeb ? [] : [hostname ?? '']), ...(path ?? '').split('/')].filter(Boolean);
+  const param = (name: string) => firstValue(queryParams?.[name]);
+
+  switch (segments[0]) {
+    case 'lot':
+      return segments[1] ? { type: 'lot', lotId: decodeURIComponent(segments[1]) } : null;
+    case 'navigate': {
+      const coordinate = parseCoordinate(param('lat'), param('lng'));
+      return coordinate ? { type: 'place', coordinate, name: param('name') } : null;
+    }
+    case 'car':
+      return { type: 'car', coordinate: parseCoordinate(param('lat'), param('lng')) ?? undefined, note: param('note') };
+    default:
+      return null;
+  }
+};
+
+const toQuery = (params: Record<string, string | undefined>) => {
+  const query = Object.entries(params)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&');
+  return query ? `?${query}` : '';
+};
+
+// Route the link opens: the map screen focused on its target
+export const deepLinkToPath = (link: DeepLink): string => {
+  switch (link.type) {
+    case 'lot':
+      return `/${toQuery({ lotId: link.lotId })}`;
+    case 'place':
+      return `/${toQuery({
+        placeName: link.name ?? t('deepLinks.sharedPlace'),
+        latitude: String(link.coordinate.latitude),
+        longitude: String(link.coordinate.longitude),
+      })}`;
+    case 'car':
+      if (!link.coordinate) return `/${toQuery({ focus: 'car' })}`;
+      return `/${toQuery({
+        placeName: link.note ? t('deepLinks.parkedCarWithNote', { note: link.note }) : t('deepLinks.parkedCar'),
+        latitude: String(link.coordinate.latitude),
+        longitude: String(link.coordinate.longitude),
+      })}`;
+  }
+};
+
+// Shareable URL for a link: https when a universal-link host is configured
+export const buildDeepLink = (link: DeepLink): string => {
+  const base = LINK_BASE_URL ? `${LINK_BASE_URL}/` : `${SCHEME}://`;
+  const coordinateParams = (coordinate?: LatLng) => ({
+    lat: coordinate?.latitude.toFixed(6),
+    lng: coordinate?.longitude.toFixed(6),
+  });
+
+  switch (link.type) {
+    case 'lot':
+      return `${base}lot/${encodeURIComponent(link.lotId)}`;
+    case 'place':
+      return `${base}navigate${toQuery({ ...coordinateParams(link.coordinate), name: link.name })}`;
+    case 'car':
+      return `${base}car${toQuery({ ...coordinateParams(link.coordinate), note: link.note })}`;
+  }
+};
+
+// Fallback for people without the app
+export const buildMapsUrl = ({ latitude, longitude }: LatLng) =>
+  `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`;
@@ -0,0 +1,50 @@
+import { LatLng, ParkingLot } from '@/types/parking';
+import { calculateDistance } from '@/utils/geo';
+
+// Parking lots around a search destination, ranked by how far the walk is
+
+export interface DestinationLot {
+  lot: ParkingLot;
+  walkingDistance: number; // meters, estimated
+  walkingTime: number; // seconds, estimated
+}
+
+interface RankOptions {
+  maxWalkingDistance?: number;
+  limit?: number;
+  includeFull?: boolean;
+}
+
+// Streets are rarely straight: inflate the straight-line distance
+const DETOUR_FACTOR = 1.3;
+const WALKING_SPEED = 1.3; // m/s
+
+// Walk from the closest pedestrian-usable entrance (or the lot itself)
+export const estimateWalkingDistance = (lot: ParkingLot, destination: LatLng): number => {
+  const exits = lot.entrances
+    .filter(entrance => entrance.type !== 'vehicle')
+    .map(entrance => entrance.coordinate);
+  const points = exits.length > 0 ? exits : [lot.location];
+
+  return Math.min(
+    ...points.map(point => calculateDistance(point.latitude, point.longitude, destination.latitude, destination.longitude))
+  ) * DETOUR_FACTOR;
+};
+
+export const rankLotsByWalkingDistance = (
+  lots: ParkingLot[],
+  destination: LatLng,
+  options: RankOptions = {}
+): DestinationLot[] => {
+  const { maxWalkingDistance = 1500, limit = 5, includeFull = false } = options;
+
+  return lots
+    .filter(lot => includeFull || lot.availability.freeSpaces > 0)
+    .map(lot => {
+      const walkingDistance = estimateWalkingDistance(lot, destination);
+      return { lot, walkingDistance, walkingTime: walkingDistance / WALKING_SPEED };
+    })
+    .filter(({ walkingDistance }) => walkingDistance <= maxWalkingDistance)
+    .sort((a, b) => a.walkingDistance - b.walkingDistance)
+    .slice(0, limit);
+};
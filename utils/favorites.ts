@@ -0,0 +1,31 @@
+import { FavoriteLot } from '@/types/favorite';
+import { LatLng, ParkingLot } from '@/types/parking';
+import { calculateDistance } from '@/utils/geo';
+
+// Favourites as listed in the menu: closest first, with the lot's live data when loaded
+
+export interface RankedFavorite {
+  favorite: FavoriteLot;
+  lot: ParkingLot | null; // Not loaded yet (or no longer reported by the source)
+  distance: number | null; // meters from the user, when located
+}
+
+export const rankFavoritesByDistance = (
+  favorites: FavoriteLot[],
+  lots: Record<string, ParkingLot>,
+  origin: LatLng | null
+): RankedFavorite[] =>
+  favorites
+    .map(favorite => {
+      const lot = lots[favorite.lotId] ?? null;
+      const location = lot?.location ?? favorite.location;
+      return {
+        favorite,
+        lot,
+        distance: origin
+          ? calculateDistance(origin.latitude, origin.longitude, location.latitude, location.longitude)
+          : null,
+      };
+    })
+    // Without a position keep the newest-first order
+    .sort((a, b) => (a.distance === null || b.distance === null ? 0 : a.distance - b.distance));
@@ -0,0 +1,58 @@
+import { DistanceUnits } from '@/types/settings';
+import { formatNumber, t } from '@/utils/i18n';
+
+// Shared geodesic helpers (distances in meters, angles in degrees)
+
+// Calculate distance between two points (in meters)
+export const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const R = 6371e3; // Earth's radius in meters
+  const φ1 = lat1 * Math.PI / 180;
+  const φ2 = lat2 * Math.PI / 180;
+  const Δφ = (lat2 - lat1) * Math.PI / 180;
+  const Δλ = (lng2 - lng1) * Math.PI / 180;
+
+  const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
+          Math.cos(φ1) * Math.cos(φ2) *
+          Math.sin(Δλ/2) * Math.sin(Δλ/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+
+  return R * c;
+};
+
+// Initial bearing from point 1 to point 2 (0-360, clockwise from north)
+export const calculateBearing = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const φ1 = lat1 * Math.PI / 180;
+  const φ2 = lat2 * Math.PI / 180;
+  const Δλ = (lng2 - lng1) * Math.PI / 180;
+
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+
+  return normalizeBearing((Math.atan2(y, x) * 180) / Math.PI);
+};
+
+const CARDINAL_KEYS = ['north', 'northEast', 'east', 'southEast', 'south', 'southWest', 'west', 'northWest'] as const;
+
+// Compass point for a bearing in the app language (N, NE, E, SE, S, SO, O, NO in Spanish)
+export const bearingToCardinal = (bearing: number): string =>
+  t(`formats.cardinals.${CARDINAL_KEYS[Math.round(normalizeBearing(bearing) / 45) % 8]}`);
+
+const ONE_DECIMAL = { minimumFractionDigits: 1, maximumFractionDigits: 1 };
+
+// Format distance for display in the app language, in feet/miles for imperial units
+export const formatDistance = (distance: number, units: DistanceUnits = 'metric'): string => {
+  if (units === 'imperial') {
+    const feet = distance * 3.28084;
+    if (feet < 1000) return `${formatNumber(Math.round(feet))}ft`;
+    return `${formatNumber(distance / 1609.344, ONE_DECIMAL)}mi`;
+  }
+  if (distance < 1000) return `${formatNumber(Math.round(distance))}m`;
+  return `${formatNumber(distance / 1000, ONE_DECIMAL)}km`;
+};
+
+// Wrap an angle to [0, 360)
+export const normalizeBearing = (bearing: number): number => ((bearing % 360) + 360) % 360;
+
+// Bearing as seen on a map rotated to `heading` (0 = straight up on screen)
+export const relativeBearing = (bearing: number, heading: number): number =>
+  normalizeBearing(bearing - heading);
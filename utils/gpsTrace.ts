@@ -0,0 +1,218 @@
+import * as FileSystem from 'expo-file-system';
+import * as Location from 'expo-location';
+import { Platform } from 'react-native';
+import { LocationProvider } from '@/utils/locationProvider';
+
+// GPS trace recording and replay for useLocationTracking.
+// A trace captures every raw reading the hook receives so a session can be fed back
+// through the same validation, smoothing and signal logic on a desk (or in tests).
+
+export interface TracePositionReading {
+  kind: 'position';
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  altitude: number | null;
+  speed: number | null;
+  heading: number | null;
+  accepted: boolean;
+  rejection?: { rule: string; reason: string };
+}
+
+export interface TraceHeadingReading {
+  kind: 'heading';
+  timestamp: number;
+  trueHeading: number;
+  magHeading: number;
+  accuracy: number;
+}
+
+export type TraceReading = TracePositionReading | TraceHeadingReading;
+
+export interface GpsTrace {
+  version: 1;
+  startedAt: number;
+  platform: string;
+  readings: TraceReading[];
+}
+
+const TRACE_DIRECTORY = `${FileSystem.documentDirectory}gps-traces/`;
+
+// Readings are stamped on the fix clock (position.timestamp). Compass readings carry no
+// timestamp, so they are placed on it by the offset between `now` and the latest fix.
+export function createTraceRecorder(now: () => number = Date.now) {
+  let trace: GpsTrace = { version: 1, startedAt: Date.now(), platform: Platform.OS, readings: [] };
+  let fixClockOffset = 0;
+
+  const recordPosition = (
+    position: Location.LocationObject,
+    rejection: { rule: string; reason: string } | null
+  ) => {
+    fixClockOffset = position.timestamp - now();
+    trace.readings.push({
+      kind: 'position',
+      timestamp: position.timestamp,
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      accuracy: position.coords.accuracy,
+      altitude: position.coords.altitude,
+      speed: position.coords.speed,
+      heading: position.coords.heading,
+      accepted: !rejection,
+      ...(rejection ? { rejection: { rule: rejection.rule, reason: rejection.reason } } : {}),
+    });
+  };
+
+  const recordHeading = (heading: Location.LocationHeadingObject) => {
+    trace.readings.push({
+      kind: 'heading',
+      timestamp: now() + fixClockOffset,
+      trueHeading: heading.trueHeading,
+      magHeading: heading.magHeading,
+      accuracy: heading.accuracy,
+    });
+  };
+
+  const clear = () => {
+    trace = { version: 1, startedAt: Date.now(), platform: Platform.OS, readings: [] };
+    fixClockOffset = 0;
+  };
+
+  return {
+    recordPosition,
+    recordHeading,
+    clear,
+    getTrace: () => trace,
+  };
+}
+
+export type TraceRecorder = ReturnType<typeof createTraceRecorder>;
+
+// Write a trace as JSON into the app's documents directory and return its URI
+export async function saveTrace(trace: GpsTrace, name = `trace-${trace.startedAt}`): Promise<string> {
+  const info = await FileSystem.getInfoAsync(TRACE_DIRECTORY);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(TRACE_DIRECTORY, { intermediates: true });
+  }
+
+  const uri = `${TRACE_DIRECTORY}${name}.json`;
+  await FileSystem.writeAsStringAsync(uri, JSON.stringify(trace));
+  console.log(`💾 GPS trace saved: ${trace.readings.length} readings → ${uri}`);
+  return uri;
+}
+
+export async function loadTrace(uri: string): Promise<GpsTrace> {
+  return parseTrace(await FileSystem.readAsStringAsync(uri));
+}
+
+export async function listTraces(): Promise<string[]> {
+  const info = await FileSystem.getInfoAsync(TRACE_DIRECTORY);
+  if (!info.exists) return [];
+
+  const files = await FileSystem.readDirectoryAsync(TRACE_DIRECTORY);
+  return files.filter(file => file.endsWith('.json')).map(file => `${TRACE_DIRECTORY}${file}`);
+}
+
+// The most recent trace saved under its default name (trace-<startedAt>), if any
+export async function loadLatestTrace(): Promise<GpsTrace | null> {
+  const uris = await listTraces();
+  const latest = uris
+    .filter(uri => /\/trace-\d+\.json$/.test(uri))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .pop();
+  return latest ? loadTrace(latest) : null;
+}
+
+export function parseTrace(json: string): GpsTrace {
+  const trace = JSON.parse(json) as GpsTrace;
+  if (trace.version !== 1 || !Array.isArray(trace.readings)) {
+    throw new Error('Unsupported GPS trace format');
+  }
+  // Readings are replayed in time order regardless of how they were written
+  trace.readings = [...trace.readings].sort((a, b) => a.timestamp - b.timestamp);
+  return trace;
+}
+
+const toLocationObject = (reading: TracePositionReading): Location.LocationObject => ({
+  timestamp: reading.timestamp,
+  coords: {
+    latitude: reading.latitude,
+    longitude: reading.longitude,
+    accuracy: reading.accuracy,
+    altitude: reading.altitude,
+    altitudeAccuracy: null,
+    speed: reading.speed,
+    heading: reading.heading,
+  },
+});
+
+// Location provider that feeds a recorded trace back with its original timing (scaled by `speed`).
+// The replayer keeps a virtual clock in trace time so that time-based rules
+// (teleportation, signal loss) see the same intervals as during recording.
+export function createTraceReplayer(trace: GpsTrace, options: { speed?: number } = {}): LocationProvider {
+  const { speed = 1 } = options;
+  const readings = trace.readings;
+  const traceStart = readings.length > 0 ? readings[0].timestamp : trace.startedAt;
+
+  let cursor = 0;
+  let replayStartedAt = 0;
+
+  // Current time on the trace's own timeline
+  const now = () => replayStartedAt === 0
+    ? traceStart
+    : traceStart + (Date.now() - replayStartedAt) * speed;
+
+  const nextPosition = (): TracePositionReading | null => {
+    while (cursor < readings.length) {
+      const reading = readings[cursor++];
+      if (reading.kind === 'position') return reading;
+    }
+    return null;
+  };
+
+  // The next position in the trace
+  const getCurrentPosition = async (): Promise<Location.LocationObject> => {
+    const reading = nextPosition();
+    if (!reading) throw new Error('GPS trace exhausted');
+    if (replayStartedAt === 0) replayStartedAt = Date.now() - (reading.timestamp - traceStart) / speed;
+    return toLocationObject(reading);
+  };
+
+  // Schedule the remaining readings of a given kind from the current cursor onwards
+  const schedule = <T extends TraceReading>(kind: T['kind'], emit: (reading: T) => void) => {
+    if (replayStartedAt === 0) replayStartedAt = Date.now();
+    let timers: ReturnType<typeof setTimeout>[] = [];
+
+    readings.slice(cursor).forEach(reading => {
+      if (reading.kind !== kind) return;
+      const delay = Math.max(0, (reading.timestamp - now()) / speed);
+      timers.push(setTimeout(() => emit(reading as T), delay));
+    });
+
+    return {
+      remove: () => {
+        timers.forEach(clearTimeout);
+        timers = [];
+      },
+    };
+  };
+
+  const watchPosition = async (_options: unknown, callback: Location.LocationCallback) =>
+    schedule<TracePositionReading>('position', reading => callback(toLocationObject(reading)));
+
+  const watchHeading = async (callback: Location.LocationHeadingCallback) =>
+    schedule<TraceHeadingReading>('heading', reading => callback({
+      trueHeading: reading.trueHeading,
+      magHeading: reading.magHeading,
+      accuracy: reading.accuracy,
+    }));
+
+  return {
+    requestPermissions: async () => true,
+    getCurrentPosition,
+    watchPosition,
+    watchHeading,
+    now,
+  };
+}
@@ -0,0 +1,82 @@
+import { en } from '@/locales/en';
+import { es, Messages } from '@/locales/es';
+import { zhCN } from '@/locales/zh-CN';
+import { settingsStore } from '@/services/settingsStore';
+import { Locale, MessageKey, MessageParams, PluralCategory, PluralForms } from '@/types/i18n';
+import { AppLanguage } from '@/types/settings';
+
+// Message lookup, plurals and number formatting for the app language
+
+export type TranslationKey = MessageKey<Messages>;
+
+export type Translate = (key: TranslationKey, params?: MessageParams) => string;
+
+const CATALOGS: Record<Locale, Messages> = {
+  es,
+  en,
+  'zh-CN': zhCN,
+};
+
+// For device languages without a catalog
+const FALLBACK_LOCALE: Locale = 'en';
+
+// Hermes has no Intl.PluralRules; the shipped languages only need these
+const PLURAL_RULES: Record<Locale, (count: number) => PluralCategory> = {
+  es: count => (count === 1 ? 'one' : 'other'),
+  en: count => (count === 1 ? 'one' : 'other'),
+  'zh-CN': () => 'other',
+};
+
+export const getDeviceLocale = (): Locale => {
+  let tag = '';
+  try {
+    tag = Intl.DateTimeFormat().resolvedOptions().locale;
+  } catch {
+    // No Intl support - use the fallback
+  }
+  const language = tag.toLowerCase().split(/[-_]/)[0];
+  if (language === 'es') return 'es';
+  if (language === 'en') return 'en';
+  if (language === 'zh') return 'zh-CN';
+  return FALLBACK_LOCALE;
+};
+
+export const resolveLocale = (language: AppLanguage): Locale =>
+  language === 'system' ? getDeviceLocale() : language;
+
+// Locale of the current settings, for code outside components
+export const getLocale = (): Locale => resolveLocale(settingsStore.get().language);
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions, locale: Locale = getLocale()): string => {
+  try {
+    return new Intl.NumberFormat(locale, options).format(value);
+  } catch {
+    return options?.maximumFractionDigits !== undefined ? value.toFixed(options.maximumFractionDigits) : String(value);
+  }
+};
+
+const lookup = (catalog: Messages, key: string): string | PluralForms | undefined => {
+  let node: unknown = catalog;
+  for (const part of key.split('.')) {
+    if (typeof node !== 'object' || node === null) return undefined;
+    node = (node as Record<string, unknown>)[part];
+  }
+  return typeof node === 'string' || (typeof node === 'object' && node !== null) ? (node as string | PluralForms) : undefined;
+};
+
+export const translate = (locale: Locale, key: TranslationKey, params: MessageParams = {}): string => {
+  const message = lookup(CATALOGS[locale], key) ?? lookup(es, key);
+  if (message === undefined) return key;
+
+  const text = typeof message === 'string'
+    ? message
+    : message[PLURAL_RULES[locale](Number(params.count))] ?? message.other;
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? formatNumber(value, undefined, locale) : value;
+  });
+};
+
+// Translate in the current settings' language (components use useTranslation to re-render)
+export const t: Translate = (key, params) => translate(getLocale(), key, params);
@@ -0,0 +1,69 @@
+import * as Location from 'expo-location';
+import { Platform } from 'react-native';
+
+// Everything useLocationTracking needs from a location source. The expo implementation
+// is the default; simulated and replayed sources let the hook run without a device GPS.
+
+export interface LocationWatchOptions {
+  highAccuracy: boolean;
+  timeInterval: number;
+  distanceInterval: number;
+}
+
+export interface LocationProvider {
+  requestPermissions: () => Promise<boolean>;
+  getCurrentPosition: (options: { highAccuracy: boolean }) => Promise<Location.LocationObject>;
+  watchPosition: (
+    options: LocationWatchOptions,
+    callback: Location.LocationCallback
+  ) => Promise<Location.LocationSubscription>;
+  // Optional: sources without a compass simply don't provide it
+  watchHeading?: (callback: Location.LocationHeadingCallback) => Promise<Location.LocationSubscription>;
+  // Clock the hook uses for time-based validation and timestamps
+  now: () => number;
+}
+
+const toExpoAccuracy = (highAccuracy: boolean) =>
+  highAccuracy ? Location.Accuracy.BestForNavigation : Location.Accuracy.High;
+
+export const expoLocationProvider: LocationProvider = {
+  requestPermissions: async () => {
+    // Request foreground location permission
+    const { status: foregroundStatus } = await Location.requestForegroundPermissionsAsync();
+    if (foregroundStatus !== 'granted') return false;
+
+    // Request background permission for better tracking
+    if (Platform.OS !== 'web') {
+      try {
+        await Location.requestBackgroundPermissionsAsync();
+      } catch (bgError) {
+        console.log('Background permission not available:', bgError);
+      }
+    }
+
+    return true;
+  },
+
+  getCurrentPosition: ({ highAccuracy }) =>
+    Location.getCurrentPositionAsync({
+      accuracy: toExpoAccuracy(highAccuracy),
+    }),
+
+  watchPosition: ({ highAccuracy, timeInterval, distanceInterval }, callback) =>
+    Location.watchPositionAsync(
+      {
+        accuracy: toExpoAccuracy(highAccuracy),
+        timeInterval,
+        distanceInterval,
+        mayShowUserSettingsDialog: true,
+      },
+      callback
+    ),
+
+  // Compass heading is only used on iOS; Android derives heading from the GPS course
+  watchHeading: Platform.OS === 'ios'
+    ? (callback) => Location.watchHeadingAsync(callback)
+    : undefined,
+
+  now: () => Date.now(),
+};
@@ -0,0 +1,255 @@
+import { calculateDistance } from '@/utils/geo';
+
+// Location validation pipeline used by useLocationTracking.
+// Every check is a named rule that can be disabled or tuned individually.
+
+export type LocationRuleName =
+  | 'zeroCoordinate'
+  | 'invalidNumber'
+  | 'outOfRange'
+  | 'nullIsland'
+  | 'catastrophicAccuracy'
+  | 'teleportation'
+  | 'roundCoordinateJump'
+  | 'stuckGps'
+  | 'suspiciousPrecision'
+  | 'jumpWhileMoving';
+
+export interface LocationFix {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
+export interface ValidationContext {
+  lastValidLocation: {
+    latitude: number;
+    longitude: number;
+    timestamp: number;
+    isMoving: boolean;
+  } | null;
+  history: { lat: number; lng: number; timestamp: number }[];
+  consecutiveRejections: number;
+  now: number;
+}
+
+export interface LocationValidationConfig {
+  zeroCoordinate: { enabled: boolean };
+  invalidNumber: { enabled: boolean };
+  outOfRange: { enabled: boolean };
+  nullIsland: { enabled: boolean; radiusDegrees: number };
+  catastrophicAccuracy: { enabled: boolean; maxAccuracy: number };
+  teleportation: { enabled: boolean; maxSpeed: number; minTimeDiff: number; maxTimeDiff: number };
+  roundCoordinateJump: { enabled: boolean; minJumpDistance: number; tolerance: number };
+  stuckGps: { enabled: boolean; sampleCount: number; tolerance: number };
+  suspiciousPrecision: { enabled: boolean; decimals: number };
+  jumpWhileMoving: { enabled: boolean; maxJumpDistance: number };
+}
+
+export type LocationValidationOverrides = {
+  [K in LocationRuleName]?: Partial<LocationValidationConfig[K]>;
+};
+
+export type LocationValidationResult =
+  | { valid: true }
+  | { valid: false; rule: LocationRuleName; reason: string };
+
+type LocationRule<K extends LocationRuleName> = (
+  fix: LocationFix,
+  context: ValidationContext,
+  config: LocationValidationConfig[K]
+) => string | null;
+
+export const DEFAULT_LOCATION_VALIDATION_CONFIG: LocationValidationConfig = {
+  zeroCoordinate: { enabled: true },
+  invalidNumber: { enabled: true },
+  outOfRange: { enabled: true },
+  nullIsland: { enabled: true, radiusDegrees: 0.1 }, // ~11km around [0,0]
+  catastrophicAccuracy: { enabled: true, maxAccuracy: 1000 },
+  teleportation: { enabled: true, maxSpeed: 50, minTimeDiff: 1, maxTimeDiff: 60 }, // 50 m/s = 180 km/h
+  roundCoordinateJump: { enabled: true, minJumpDistance: 10000, tolerance: 0.001 },
+  stuckGps: { enabled: true, sampleCount: 3, tolerance: 0.000001 },
+  suspiciousPrecision: { enabled: true, decimals: 0 },
+  jumpWhileMoving: { enabled: true, maxJumpDistance: 1000 },
+};
+
+// Rules run in this order; the first one to reject wins
+export const LOCATION_RULE_ORDER: LocationRuleName[] = [
+  'zeroCoordinate',
+  'invalidNumber',
+  'outOfRange',
+  'nullIsland',
+  'catastrophicAccuracy',
+  'teleportation',
+  'roundCoordinateJump',
+  'stuckGps',
+  'suspiciousPrecision',
+  'jumpWhileMoving',
+];
+
+const distanceFromLastValid = (fix: LocationFix, context: ValidationContext): number | null => {
+  if (!context.lastValidLocation) return null;
+  return calculateDistance(
+    context.lastValidLocation.latitude,
+    context.lastValidLocation.longitude,
+    fix.latitude,
+    fix.longitude
+  );
+};
+
+// Reject ANY coordinate that is exactly 0 (the main culprit)
+export const zeroCoordinateRule: LocationRule<'zeroCoordinate'> = ({ latitude, longitude }) => {
+  if (latitude === 0 || longitude === 0) {
+    return `Zero coordinate detected [${latitude}, ${longitude}]`;
+  }
+  return null;
+};
+
+// Reject NaN, null, undefined, or infinite values
+export const invalidNumberRule: LocationRule<'invalidNumber'> = ({ latitude, longitude }) => {
+  if (
+    latitude === null || longitude === null ||
+    latitude === undefined || longitude === undefined ||
+    !isFinite(latitude) || !isFinite(longitude)
+  ) {
+    return `Invalid coordinate values [${latitude}, ${longitude}]`;
+  }
+  return null;
+};
+
+// Reject coordinates outside Earth's valid ranges
+export const outOfRangeRule: LocationRule<'outOfRange'> = ({ latitude, longitude }) => {
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return `Coordinates outside valid Earth range [${latitude}, ${longitude}]`;
+  }
+  return null;
+};
+
+// Reject coordinates that are suspiciously close to [0,0]
+export const nullIslandRule: LocationRule<'nullIsland'> = ({ latitude, longitude }, _context, config) => {
+  const distanceFromZero = Math.sqrt(latitude * latitude + longitude * longitude);
+  if (distanceFromZero < config.radiusDegrees) {
+    return `Suspiciously close to [0,0]: distance ${distanceFromZero.toFixed(6)}`;
+  }
+  return null;
+};
+
+// Reject extremely poor accuracy (likely GPS malfunction)
+export const catastrophicAccuracyRule: LocationRule<'catastrophicAccuracy'> = ({ accuracy }, _context, config) => {
+  if (accuracy && accuracy > config.maxAccuracy) {
+    return `Accuracy catastrophically poor: ${accuracy}m`;
+  }
+  return null;
+};
+
+// Reject movements faster than a realistic speed for a mobile device
+export const teleportationRule: LocationRule<'teleportation'> = (fix, context, config) => {
+  const distance = distanceFromLastValid(fix, context);
+  if (distance === null || !context.lastValidLocation) return null;
+
+  const timeDiff = (context.now - context.lastValidLocation.timestamp) / 1000;
+
+  if (distance > config.maxSpeed * timeDiff && timeDiff > config.minTimeDiff && timeDiff < config.maxTimeDiff) {
+    return `Impossible teleportation: ${distance.toFixed(0)}m in ${timeDiff.toFixed(1)}s (${(distance/timeDiff).toFixed(1)} m/s)`;
+  }
+  return null;
+};
+
+// Reject sudden large jumps to "round" coordinates (common GPS error pattern)
+export const roundCoordinateJumpRule: LocationRule<'roundCoordinateJump'> = (fix, context, config) => {
+  const distance = distanceFromLastValid(fix, context);
+  if (distance === null || distance <= config.minJumpDistance) return null;
+
+  const latIsRound = Math.abs(fix.latitude - Math.round(fix.latitude)) < config.tolerance;
+  const lngIsRound = Math.abs(fix.longitude - Math.round(fix.longitude)) < config.tolerance;
+
+  if (latIsRound || lngIsRound) {
+    return `Large jump to suspiciously round coordinates [${fix.latitude}, ${fix.longitude}]`;
+  }
+  return null;
+};
+
+// Reject fixes while the GPS is "stuck" reporting identical coordinates
+export const stuckGpsRule: LocationRule<'stuckGps'> = (fix, context, config) => {
+  if (context.history.length < config.sampleCount) return null;
+
+  const recent = context.history.slice(-config.sampleCount);
+  const isSame = (lat: number, lng: number) =>
+    Math.abs(lat - recent[0].lat) < config.tolerance &&
+    Math.abs(lng - recent[0].lng) < config.tolerance;
+
+  if (recent.every(loc => isSame(loc.lat, loc.lng)) && isSame(fix.latitude, fix.longitude)) {
+    return 'GPS stuck at identical coordinates';
+  }
+  return null;
+};
+
+// Reject fixes where BOTH coordinates have no more than `decimals` decimal places,
+// which usually indicates a default/fallback value rather than a real reading
+export const suspiciousPrecisionRule: LocationRule<'suspiciousPrecision'> = ({ latitude, longitude }, _context, config) => {
+  const factor = Math.pow(10, config.decimals);
+  const isTruncated = (value: number) => Math.abs(value * factor - Math.round(value * factor)) < 1e-9;
+
+  if (isTruncated(latitude) && isTruncated(longitude)) {
+    return `Suspiciously precise coordinates [${latitude}, ${longitude}]`;
+  }
+  return null;
+};
+
+// When moving, reject a sudden far-away coordinate unless we are already rejecting fixes
+export const jumpWhileMovingRule: LocationRule<'jumpWhileMoving'> = (fix, context, config) => {
+  if (!context.lastValidLocation?.isMoving) return null;
+
+  const distance = distanceFromLastValid(fix, context);
+  if (distance !== null && distance > config.maxJumpDistance && context.consecutiveRejections === 0) {
+    return `Suspicious jump while moving: ${distance.toFixed(0)}m`;
+  }
+  return null;
+};
+
+export const locationValidationRules: { [K in LocationRuleName]: LocationRule<K> } = {
+  zeroCoordinate: zeroCoordinateRule,
+  invalidNumber: invalidNumberRule,
+  outOfRange: outOfRangeRule,
+  nullIsland: nullIslandRule,
+  catastrophicAccuracy: catastrophicAccuracyRule,
+  teleportation: teleportationRule,
+  roundCoordinateJump: roundCoordinateJumpRule,
+  stuckGps: stuckGpsRule,
+  suspiciousPrecision: suspiciousPrecisionRule,
+  jumpWhileMoving: jumpWhileMovingRule,
+};
+
+// Merge per-rule overrides on top of the defaults
+export function resolveValidationConfig(overrides: LocationValidationOverrides = {}): LocationValidationConfig {
+  const config = { ...DEFAULT_LOCATION_VALIDATION_CONFIG };
+  (Object.keys(overrides) as LocationRuleName[]).forEach(<K extends LocationRuleName>(name: K) => {
+    config[name] = { ...DEFAULT_LOCATION_VALIDATION_CONFIG[name], ...overrides[name] };
+  });
+  return config;
+}
+
+const runRule = <K extends LocationRuleName>(
+  name: K,
+  fix: LocationFix,
+  context: ValidationContext,
+  config: LocationValidationConfig
+): string | null => {
+  if (!config[name].enabled) return null;
+  return locationValidationRules[name](fix, context, config[name]);
+};
+
+// Run every enabled rule in order and report the first rejection
+export function validateLocation(
+  fix: LocationFix,
+  context: ValidationContext,
+  config: LocationValidationConfig = DEFAULT_LOCATION_VALIDATION_CONFIG
+): LocationValidationResult {
+  for (const name of LOCATION_RULE_ORDER) {
+    const reason = runRule(name, fix, context, config);
+    if (reason) {
+      return { valid: false, rule: name, reason };
+    }
+  }
+  return { valid: true };
+}
@@ -0,0 +1,84 @@
+import { Region } from 'react-native-maps';
+import { LatLng, ParkingLot } from '@/types/parking';
+import { isInBounds } from '@/services/parkingRepository';
+import { regionToBounds } from '@/hooks/useParkingLots';
+import { calculateBearing, calculateDistance, relativeBearing } from '@/utils/geo';
+
+// Edge-of-screen pointers to parking lots outside the visible map region
+
+export interface OffscreenPointer {
+  lot: ParkingLot;
+  distance: number; // meters from the user (or the map center when the user is unknown)
+  bearing: number; // degrees relative to the map heading, 0 = up
+  x: number; // screen position of the pointer center
+  y: number;
+}
+
+export interface ScreenInsets {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+interface OffscreenPointerOptions {
+  limit?: number;
+  heading?: number; // map camera heading in degrees
+  minFreeSpaces?: number; // skip lots that are (nearly) full
+}
+
+// Where a ray from the center of the inset rectangle at `bearing` meets its border
+export const pointOnScreenEdge = (
+  bearing: number,
+  size: { width: number; height: number },
+  insets: ScreenInsets
+): { x: number; y: number } => {
+  const halfWidth = (size.width - insets.left - insets.right) / 2;
+  const halfHeight = (size.height - insets.top - insets.bottom) / 2;
+  const centerX = insets.left + halfWidth;
+  const centerY = insets.top + halfHeight;
+
+  const radians = (bearing * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians); // Screen y grows downwards
+  const scale = Math.min(
+    Math.abs(dx) > 1e-6 ? halfWidth / Math.abs(dx) : Infinity,
+    Math.abs(dy) > 1e-6 ? halfHeight / Math.abs(dy) : Infinity
+  );
+
+  return { x: centerX + dx * scale, y: centerY + dy * scale };
+};
+
+// The closest lots with space outside `region`, placed on the screen edge towards them
+export const getOffscreenPointers = (
+  lots: ParkingLot[],
+  region: Region,
+  origin: LatLng | null,
+  size: { width: number; height: number },
+  insets: ScreenInsets,
+  options: OffscreenPointerOptions = {}
+): OffscreenPointer[] => {
+  const { limit = 3, heading = 0, minFreeSpaces = 1 } = options;
+  const visible = regionToBounds(region);
+  const from = origin ?? { latitude: region.latitude, longitude: region.longitude };
+
+  return lots
+    .filter(lot =>
+      lot.availability.freeSpaces >= minFreeSpaces &&
+      !isInBounds(lot.location.latitude, lot.location.longitude, visible)
+    )
+    .map(lot => ({
+      lot,
+      distance: calculateDistance(from.latitude, from.longitude, lot.location.latitude, lot.location.longitude),
+    }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ lot, distance }) => {
+      // Direction on screen is measured from the map center, not the user
+      const bearing = relativeBearing(
+        calculateBearing(region.latitude, region.longitude, lot.location.latitude, lot.location.longitude),
+        heading
+      );
+      return { lot, distance, bearing, ...pointOnScreenEdge(bearing, size, insets) };
+    });
+};
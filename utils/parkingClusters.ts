@@ -0,0 +1,100 @@
+import { Region } from 'react-native-maps';
+import { LatLng, ParkingLot } from '@/types/parking';
+
+// Grid clustering for parking markers. Cells are anchored to absolute coordinates and
+// their size snaps to powers of two, so clusters stay stable while the user pans.
+
+export interface ParkingCluster {
+  id: string;
+  coordinate: LatLng;
+  lots: ParkingLot[];
+  totalFreeSpaces: number;
+  // Region that fits every lot of the cluster, used for tap-to-zoom
+  region: Region;
+}
+
+export type ParkingMarkerItem =
+  | { type: 'lot'; lot: ParkingLot }
+  | { type: 'cluster'; cluster: ParkingCluster };
+
+export interface ClusterOptions {
+  streetLevelDelta?: number; // Below this longitudeDelta every lot gets its own marker
+  gridColumns?: number; // Approximate number of cells across the viewport
+  minClusterSize?: number;
+}
+
+export const STREET_LEVEL_DELTA = 0.02; // ≈ 2km across
+
+export const isStreetLevel = (region: Region, streetLevelDelta = STREET_LEVEL_DELTA) =>
+  region.longitudeDelta <= streetLevelDelta;
+
+const regionForLots = (lots: ParkingLot[]): Region => {
+  const latitudes = lots.map(lot => lot.location.latitude);
+  const longitudes = lots.map(lot => lot.location.longitude);
+  const north = Math.max(...latitudes);
+  const south = Math.min(...latitudes);
+  const east = Math.max(...longitudes);
+  const west = Math.min(...longitudes);
+
+  return {
+    latitude: (north + south) / 2,
+    longitude: (east + west) / 2,
+    // 40% padding so the outermost markers aren't on the screen edge
+    latitudeDelta: Math.max((north - south) * 1.4, 0.005),
+    longitudeDelta: Math.max((east - west) * 1.4, 0.005),
+  };
+};
+
+export function clusterParkingLots(
+  lots: ParkingLot[],
+  region: Region | null,
+  options: ClusterOptions = {}
+): ParkingMarkerItem[] {
+  const {
+    streetLevelDelta = STREET_LEVEL_DELTA,
+    gridColumns = 6,
+    minClusterSize = 2,
+  } = options;
+
+  if (!region || isStreetLevel(region, streetLevelDelta)) {
+    return lots.map(lot => ({ type: 'lot', lot }));
+  }
+
+  const cellSize = Math.pow(2, Math.ceil(Math.log2(region.longitudeDelta / gridColumns)));
+  const cells = new Map<string, ParkingLot[]>();
+
+  lots.forEach(lot => {
+    const key = `${Math.floor(lot.location.latitude / cellSize)}:${Math.floor(lot.location.longitude / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(lot);
+    } else {
+      cells.set(key, [lot]);
+    }
+  });
+
+  const items: ParkingMarkerItem[] = [];
+
+  cells.forEach((cellLots, key) => {
+    if (cellLots.length < minClusterSize) {
+      cellLots.forEach(lot => items.push({ type: 'lot', lot }));
+      return;
+    }
+
+    items.push({
+      type: 'cluster',
+      cluster: {
+        id: `cluster-${cellSize}-${key}`,
+        coordinate: {
+          latitude: cellLots.reduce((sum, lot) => sum + lot.location.latitude, 0) / cellLots.length,
+          longitude: cellLots.reduce((sum, lot) => sum + lot.location.longitude, 0) / cellLots.length,
+        },
+        lots: cellLots,
+        totalFreeSpaces: cellLots.reduce((sum, lot) => sum + lot.availability.freeSpaces, 0),
+        region: regionForLots(cellLots),
+      },
+    });
+  });
+
+  return items;
+}
@@ -0,0 +1,8 @@
+// Colour scale for free parking spaces, shared by every parking marker
+export const getSpaceColor = (spaces: number) => {
+  if (spaces >= 40) return '#10B981'; // Green - many spaces
+  if (spaces >= 20) return '#22C55E'; // Light green - good spaces
+  if (spaces >= 10) return '#F59E0B'; // Yellow - moderate spaces
+  if (spaces >= 5) return '#EF4444';  // Red - few spaces
+  return '#9CA3AF'; // Gray - very few spaces
+};
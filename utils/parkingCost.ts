@@ -0,0 +1,30 @@
+import { ParkingPricing, ParkingRate } from '@/types/parking';
+
+// Cost of a stay under a single rate, in the rate's currency
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const calculateParkingCost = (rate: ParkingRate, durationMinutes: number, dailyMax?: number): number => {
+  const billable = Math.max(0, durationMinutes - (rate.firstMinutesFree ?? 0));
+  if (billable === 0) return 0;
+
+  switch (rate.per) {
+    case 'entry':
+      return rate.amount;
+    case 'day':
+      return Math.ceil(billable / MINUTES_PER_DAY) * rate.amount;
+    case 'hour': {
+      // Started hours are charged in full; each day is capped at dailyMax
+      const fullDays = Math.floor(billable / MINUTES_PER_DAY);
+      const remainder = billable - fullDays * MINUTES_PER_DAY;
+      const dayCost = 24 * rate.amount;
+      const remainderCost = Math.ceil(remainder / 60) * rate.amount;
+      if (dailyMax === undefined) return fullDays * dayCost + remainderCost;
+      return fullDays * Math.min(dayCost, dailyMax) + Math.min(remainderCost, dailyMax);
+    }
+  }
+};
+
+// The rate a timed stay is billed with: hourly if the lot has one
+export const getSessionRate = (pricing: ParkingPricing): ParkingRate | undefined =>
+  pricing.rates.find(rate => rate.per === 'hour') ?? pricing.rates[0];
@@ -0,0 +1,260 @@
+import { GpsTrace } from '@/utils/gpsTrace';
+import { calculateDistance } from '@/utils/geo';
+
+// Detects "just parked" (driving → stopped → walking) and "back in the car"
+// (walking → driving) from a stream of location samples. Pure and clock-free:
+// time only advances with sample timestamps, so recorded traces replay exactly.
+
+export type MotionActivity = 'automotive' | 'walking' | 'running' | 'cycling' | 'stationary' | 'unknown';
+
+export interface MotionSample {
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  speed?: number | null; // m/s; derived from consecutive positions when missing
+  accuracy?: number | null;
+  activity?: MotionActivity; // Optional motion-coprocessor hint
+}
+
+export type ParkingDetectorPhase = 'unknown' | 'driving' | 'stopped' | 'walking';
+
+export type ParkingDetectorEvent =
+  | {
+      type: 'parked';
+      latitude: number; // Where the car stopped
+      longitude: number;
+      accuracy?: number;
+      timestamp: number; // When the car stopped
+      detectedAt: number;
+      confidence: number; // 0-1
+    }
+  | {
+      type: 'returnedToCar';
+      timestamp: number;
+      distanceFromSpot: number | null; // meters between the parked spot and where driving resumed
+    };
+
+export interface ParkingDetectorConfig {
+  speedWindow: number; // ms of samples whose median speed is used
+  drivingSpeed: number; // m/s at or above which the user is driving
+  minDrivingDuration: number; // ms of driving before a stop can count as parking
+  stoppedSpeed: number; // m/s below which the user is stationary
+  walkingSpeedMin: number;
+  walkingSpeedMax: number;
+  minWalkingDuration: number; // ms of walking after the stop
+  minWalkingDistance: number; // meters walked away from the stop point
+  maxAccuracy: number; // meters; worse samples are ignored
+  returnDrivingDuration: number; // ms of driving after parking that means "back in the car"
+  returnMaxDistance: number; // meters from the spot driving must resume within (Infinity = anywhere)
+}
+
+export const DEFAULT_PARKING_DETECTOR_CONFIG: ParkingDetectorConfig = {
+  speedWindow: 10 * 1000,
+  drivingSpeed: 6, // ~22 km/h
+  minDrivingDuration: 60 * 1000,
+  stoppedSpeed: 0.4,
+  walkingSpeedMin: 0.5,
+  walkingSpeedMax: 2.5,
+  minWalkingDuration: 30 * 1000,
+  minWalkingDistance: 25,
+  maxAccuracy: 50,
+  returnDrivingDuration: 20 * 1000,
+  returnMaxDistance: 150,
+};
+
+type SampleClass = 'driving' | 'walking' | 'stopped' | 'ambiguous';
+
+interface TimedSpeed {
+  timestamp: number;
+  speed: number;
+}
+
+interface SpotPosition {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export function createParkingDetector(overrides: Partial<ParkingDetectorConfig> = {}) {
+  const config: ParkingDetectorConfig = { ...DEFAULT_PARKING_DETECTOR_CONFIG, ...overrides };
+
+  let phase: ParkingDetectorPhase = 'unknown';
+  let speeds: TimedSpeed[] = [];
+  let lastSample: MotionSample | null = null;
+
+  let drivingDuration = 0; // Accumulated driving since the last parking
+  let drivingStreakStart: number | null = null; // Continuous driving (for "back in the car")
+  let drivingStreakPosition: SpotPosition | null = null;
+  let stop: (SpotPosition & { timestamp: number }) | null = null;
+  let walkingDuration = 0;
+  let sawWalkingActivity = false;
+  let parkedSpot: SpotPosition | null = null;
+
+  const resetStop = () => {
+    stop = null;
+    walkingDuration = 0;
+    sawWalkingActivity = false;
+  };
+
+  const classify = (speed: number, activity?: MotionActivity): SampleClass => {
+    if (activity === 'automotive') return 'driving';
+    if (activity === 'walking' || activity === 'running') return 'walking';
+    if (speed >= config.drivingSpeed) return 'driving';
+    if (speed < config.stoppedSpeed || activity === 'stationary') return 'stopped';
+    if (speed >= config.walkingSpeedMin && speed <= config.walkingSpeedMax) return 'walking';
+    // Between walking and driving (crawling traffic, jogging): no new evidence
+    return 'ambiguous';
+  };
+
+  const sampleSpeed = (sample: MotionSample): number | null => {
+    if (sample.speed !== undefined && sample.speed !== null && sample.speed >= 0) return sample.speed;
+    if (!lastSample || sample.timestamp <= lastSample.timestamp) return null;
+    const distance = calculateDistance(lastSample.latitude, lastSample.longitude, sample.latitude, sample.longitude);
+    return distance / ((sample.timestamp - lastSample.timestamp) / 1000);
+  };
+
+  const process = (sample: MotionSample): ParkingDetectorEvent | null => {
+    if (sample.accuracy !== undefined && sample.accuracy !== null && sample.accuracy > config.maxAccuracy) {
+      return null;
+    }
+    if (lastSample && sample.timestamp <= lastSample.timestamp) return null;
+
+    const rawSpeed = sampleSpeed(sample);
+    const elapsed = lastSample ? sample.timestamp - lastSample.timestamp : 0;
+    lastSample = sample;
+    if (rawSpeed === null) return null;
+
+    speeds.push({ timestamp: sample.timestamp, speed: rawSpeed });
+    speeds = speeds.filter(s => sample.timestamp - s.timestamp <= config.speedWindow);
+    const speed = median(speeds.map(s => s.speed));
+    const sampleClass = classify(speed, sample.activity);
+
+    let event: ParkingDetectorEvent | null = null;
+
+    if (sampleClass === 'driving') {
+      drivingDuration += elapsed;
+      if (drivingStreakStart === null) {
+        drivingStreakStart = sample.timestamp;
+        drivingStreakPosition = { latitude: sample.latitude, longitude: sample.longitude };
+      }
+
+      // Driving again after parking: the user is back in the car
+      if (parkedSpot && sample.timestamp - drivingStreakStart >= config.returnDrivingDuration) {
+        const distanceFromSpot = drivingStreakPosition
+          ? calculateDistance(
+              parkedSpot.latitude,
+              parkedSpot.longitude,
+              drivingStreakPosition.latitude,
+              drivingStreakPosition.longitude
+            )
+          : null;
+        if (distanceFromSpot === null || distanceFromSpot <= config.returnMaxDistance) {
+          event = { type: 'returnedToCar', timestamp: sample.timestamp, distanceFromSpot };
+        }
+        // Either way this is a new drive; the old spot no longer applies
+        parkedSpot = null;
+        drivingDuration = sample.timestamp - drivingStreakStart;
+      }
+
+      // A stop that ends in driving was traffic, not parking
+      resetStop();
+      phase = 'driving';
+      return event;
+    }
+
+    drivingStreakStart = null;
+    drivingStreakPosition = null;
+    if (sampleClass === 'ambiguous') return null;
+
+    // Not coming from a drive: nothing to detect until the user drives again
+    if (drivingDuration < config.minDrivingDuration) {
+      phase = sampleClass;
+      return null;
+    }
+
+    if (!stop) {
+      stop = { latitude: sample.latitude, longitude: sample.longitude, accuracy: sample.accuracy ?? undefined, timestamp: sample.timestamp };
+    }
+
+    if (sampleClass === 'stopped') {
+      phase = 'stopped';
+      // Stationary fixes before walking off are at the car; the first stop fix may still be rolling
+      if (walkingDuration === 0) {
+        stop = { ...stop, latitude: sample.latitude, longitude: sample.longitude, accuracy: sample.accuracy ?? undefined };
+      }
+      return null;
+    }
+
+    // Walking away from the stop
+    phase = 'walking';
+    walkingDuration += elapsed;
+    sawWalkingActivity = sawWalkingActivity || sample.activity === 'walking' || sample.activity === 'running';
+
+    const walkedDistance = calculateDistance(stop.latitude, stop.longitude, sample.latitude, sample.longitude);
+    if (walkingDuration >= config.minWalkingDuration && walkedDistance >= config.minWalkingDistance) {
+      // Stood still for a while before walking off (engine off, getting out)
+      const stoppedFirst = sample.timestamp - stop.timestamp - walkingDuration >= 10 * 1000;
+      event = {
+        type: 'parked',
+        latitude: stop.latitude,
+        longitude: stop.longitude,
+        accuracy: stop.accuracy,
+        timestamp: stop.timestamp,
+        detectedAt: sample.timestamp,
+        confidence: Math.min(1, 0.6 + (sawWalkingActivity ? 0.2 : 0) + (stoppedFirst ? 0.2 : 0)),
+      };
+      parkedSpot = { latitude: stop.latitude, longitude: stop.longitude, accuracy: stop.accuracy };
+      drivingDuration = 0;
+      resetStop();
+    }
+
+    return event;
+  };
+
+  const reset = () => {
+    phase = 'unknown';
+    speeds = [];
+    lastSample = null;
+    drivingDuration = 0;
+    drivingStreakStart = null;
+    drivingStreakPosition = null;
+    parkedSpot = null;
+    resetStop();
+  };
+
+  return {
+    process,
+    reset,
+    getPhase: () => phase,
+    // Keep in sync with spots the user saved or cleared by hand
+    setParkedSpot: (spot: SpotPosition | null) => {
+      parkedSpot = spot;
+    },
+    config,
+  };
+}
+
+export type ParkingDetector = ReturnType<typeof createParkingDetector>;
+
+// Run the detector over a recorded trace (accepted position readings only)
+export const detectParkingInTrace = (
+  trace: GpsTrace,
+  overrides: Partial<ParkingDetectorConfig> = {}
+): ParkingDetectorEvent[] => {
+  const detector = createParkingDetector(overrides);
+  const events: ParkingDetectorEvent[] = [];
+
+  trace.readings.forEach(reading => {
+    if (reading.kind !== 'position' || !reading.accepted) return;
+    const event = detector.process(reading);
+    if (event) events.push(event);
+  });
+
+  return events;
+};
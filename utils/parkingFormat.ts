@@ -0,0 +1,133 @@
+import { OpeningHours, ParkingAmenity, ParkingPricing, ParkingRate } from '@/types/parking';
+import { getLocale, t } from '@/utils/i18n';
+
+// Display helpers for parking lot details, in the app language
+
+const DAY_KEYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+export const formatAmenity = (amenity: ParkingAmenity): string => t(`formats.amenities.${amenity}`);
+
+// Format the time since an update for display
+export const formatAge = (age: number | null): string => {
+  if (age === null) return t('formats.age.noData');
+  const seconds = Math.round(age / 1000);
+  if (seconds < 60) return t('formats.age.seconds', { count: seconds });
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return t('formats.age.minutes', { count: minutes });
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return t('formats.age.hours', { count: hours });
+  return t('formats.age.days', { count: Math.round(hours / 24) });
+};
+
+// Local time of day, "HH:MM"
+export const formatClockTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+};
+
+// Clock-style duration: "1:05:09" or "5:09"
+export const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.floor(Math.abs(ms) / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+// Length of a stay: "45 min", "2 h 15 min"
+export const formatStayDuration = (ms: number): string => {
+  const totalMinutes = Math.max(0, Math.round(ms / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return t('formats.duration.minutes', { minutes });
+  return minutes > 0 ? t('formats.duration.hoursMinutes', { hours, minutes }) : t('formats.duration.hours', { hours });
+};
+
+export const formatAmount = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat(getLocale(), { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount} ${currency}`;
+  }
+};
+
+export const formatRate = (rate: ParkingRate, currency: string): string => {
+  const amount = formatAmount(rate.amount, currency);
+  const price = rate.per === 'hour'
+    ? t('formats.rates.perHour', { amount })
+    : rate.per === 'day'
+      ? t('formats.rates.perDay', { amount })
+      : t('formats.rates.perEntry', { amount });
+  const label = rate.label ? `${rate.label}: ` : '';
+  const free = rate.firstMinutesFree ? ` ${t('formats.rates.firstMinutesFree', { minutes: rate.firstMinutesFree })}` : '';
+  return `${label}${price}${free}`;
+};
+
+export const formatPricing = (pricing: ParkingPricing): string[] => {
+  const lines = pricing.rates.map(rate => formatRate(rate, pricing.currency));
+  if (pricing.dailyMax !== undefined) {
+    lines.push(t('formats.rates.dailyMax', { amount: formatAmount(pricing.dailyMax, pricing.currency) }));
+  }
+  return lines;
+};
+
+// Day of week and minutes since midnight in the lot's timezone (device time if unknown)
+const getLocalTime = (date: Date, timezone?: string): { day: number; minutes: number } => {
+  if (timezone) {
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }).formatToParts(date);
+      const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+      const day = WEEKDAY_INDEX[part('weekday')];
+      if (day !== undefined) {
+        return { day, minutes: Number(part('hour')) * 60 + Number(part('minute')) };
+      }
+    } catch {
+      // Timezone not supported by this Intl implementation - fall through to device time
+    }
+  }
+  return { day: date.getDay(), minutes: date.getHours() * 60 + date.getMinutes() };
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isOpenAt = (hours: OpeningHours, date: Date = new Date()): boolean => {
+  if (hours.is24h) return true;
+  const { day, minutes } = getLocalTime(date, hours.timezone);
+  const yesterday = (day + 6) % 7;
+
+  return hours.periods.some(period => {
+    const open = toMinutes(period.open);
+    const close = toMinutes(period.close);
+    const overnight = close <= open;
+
+    if (period.day === day) {
+      return overnight ? minutes >= open : minutes >= open && minutes < close;
+    }
+    // Overnight period that started yesterday
+    return overnight && period.day === yesterday && minutes < close;
+  });
+};
+
+// Opening hours of every day of the week, starting on Monday
+export const formatWeeklyHours = (hours: OpeningHours): { day: string; hours: string }[] =>
+  [1, 2, 3, 4, 5, 6, 0].map(day => {
+    const dayName = t(`formats.weekdays.${DAY_KEYS[day]}`);
+    if (hours.is24h) return { day: dayName, hours: t('formats.openingHours.allDay') };
+    const periods = hours.periods.filter(period => period.day === day);
+    return {
+      day: dayName,
+      hours: periods.length > 0
+        ? periods.map(period => `${period.open}–${period.close}`).join(', ')
+        : t('formats.openingHours.closed'),
+    };
+  });
@@ -0,0 +1,42 @@
+import { ParkingHistoryEntry } from '@/types/parkingHistory';
+import { getLocale } from '@/utils/i18n';
+
+// Trip log grouping and totals for the history screen and receipts
+
+export interface HistoryMonth {
+  key: string; // YYYY-MM
+  title: string; // Month in the app language, e.g. "octubre de 2026"
+  data: ParkingHistoryEntry[];
+  totals: Record<string, number>; // Spent per currency
+}
+
+const monthKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+};
+
+export const getHistoryTotals = (entries: ParkingHistoryEntry[]): Record<string, number> =>
+  entries.reduce<Record<string, number>>((totals, entry) => {
+    if (entry.currency) {
+      totals[entry.currency] = Math.round(((totals[entry.currency] ?? 0) + entry.cost) * 100) / 100;
+    }
+    return totals;
+  }, {});
+
+// Entries grouped by the month the stay ended in, newest month first
+export const groupHistoryByMonth = (entries: ParkingHistoryEntry[]): HistoryMonth[] => {
+  const months = new Map<string, ParkingHistoryEntry[]>();
+  [...entries]
+    .sort((a, b) => b.departedAt - a.departedAt)
+    .forEach(entry => {
+      const key = monthKey(entry.departedAt);
+      months.set(key, [...(months.get(key) ?? []), entry]);
+    });
+
+  return Array.from(months.entries()).map(([key, data]) => ({
+    key,
+    title: new Date(data[0].departedAt).toLocaleDateString(getLocale(), { month: 'long', year: 'numeric' }),
+    data,
+    totals: getHistoryTotals(data),
+  }));
+};
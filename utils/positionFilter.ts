@@ -0,0 +1,190 @@
+// Constant-velocity Kalman filter used to fuse GPS fixes into a smooth position.
+// Each axis (north/east, in meters on a local tangent plane) is filtered independently
+// with a [position, velocity] state, weighting every fix by its reported accuracy.
+
+export interface PositionFilterOptions {
+  processNoise?: number; // Acceleration noise (m/s²) - higher follows turns faster, lower smooths more
+  defaultAccuracy?: number; // Used when a fix has no accuracy (m)
+  maxPredictionTime?: number; // Stop dead-reckoning after this long without a fix (s)
+}
+
+export interface PositionEstimate {
+  latitude: number;
+  longitude: number;
+  velocityNorth: number; // m/s
+  velocityEast: number; // m/s
+  speed: number; // m/s
+  course: number | null; // Degrees from north, null when (almost) stationary
+  uncertainty: number; // 1-sigma horizontal position error (m)
+  timestamp: number;
+}
+
+interface AxisState {
+  position: number;
+  velocity: number;
+  // Covariance [[p00, p01], [p01, p11]]
+  p00: number;
+  p01: number;
+  p11: number;
+}
+
+const EARTH_RADIUS = 6371e3;
+const DEG_TO_RAD = Math.PI / 180;
+const REBASE_DISTANCE = 10000; // Move the tangent-plane origin after 10km to limit projection error
+const INITIAL_VELOCITY_VARIANCE = 25; // (5 m/s)²
+
+const createAxis = (position: number, variance: number): AxisState => ({
+  position,
+  velocity: 0,
+  p00: variance,
+  p01: 0,
+  p11: INITIAL_VELOCITY_VARIANCE,
+});
+
+const predictAxis = (axis: AxisState, dt: number, q: number): AxisState => {
+  const dt2 = dt * dt;
+  const dt3 = dt2 * dt;
+  const dt4 = dt3 * dt;
+
+  return {
+    position: axis.position + axis.velocity * dt,
+    velocity: axis.velocity,
+    p00: axis.p00 + 2 * dt * axis.p01 + dt2 * axis.p11 + (q * dt4) / 4,
+    p01: axis.p01 + dt * axis.p11 + (q * dt3) / 2,
+    p11: axis.p11 + q * dt2,
+  };
+};
+
+const updateAxis = (axis: AxisState, measurement: number, variance: number): AxisState => {
+  const innovation = measurement - axis.position;
+  const s = axis.p00 + variance;
+  const k0 = axis.p00 / s;
+  const k1 = axis.p01 / s;
+
+  return {
+    position: axis.position + k0 * innovation,
+    velocity: axis.velocity + k1 * innovation,
+    p00: (1 - k0) * axis.p00,
+    p01: (1 - k0) * axis.p01,
+    p11: axis.p11 - k1 * axis.p01,
+  };
+};
+
+export function createPositionFilter(options: PositionFilterOptions = {}) {
+  const {
+    processNoise = 1.5,
+    defaultAccuracy = 20,
+    maxPredictionTime = 5,
+  } = options;
+
+  const q = processNoise * processNoise;
+
+  let origin: { latitude: number; longitude: number } | null = null;
+  let north: AxisState | null = null;
+  let east: AxisState | null = null;
+  let lastTimestamp = 0;
+  let lastMeasurementTimestamp = 0;
+
+  const toLocal = (latitude: number, longitude: number) => ({
+    north: (latitude - origin!.latitude) * DEG_TO_RAD * EARTH_RADIUS,
+    east: (longitude - origin!.longitude) * DEG_TO_RAD * EARTH_RADIUS * Math.cos(origin!.latitude * DEG_TO_RAD),
+  });
+
+  const toGeographic = (n: number, e: number) => ({
+    latitude: origin!.latitude + n / EARTH_RADIUS / DEG_TO_RAD,
+    longitude: origin!.longitude + e / (EARTH_RADIUS * Math.cos(origin!.latitude * DEG_TO_RAD)) / DEG_TO_RAD,
+  });
+
+  const getEstimate = (): PositionEstimate | null => {
+    if (!origin || !north || !east) return null;
+
+    const { latitude, longitude } = toGeographic(north.position, east.position);
+    const speed = Math.sqrt(north.velocity * north.velocity + east.velocity * east.velocity);
+    const course = speed > 0.5
+      ? ((Math.atan2(east.velocity, north.velocity) / DEG_TO_RAD) + 360) % 360
+      : null;
+
+    return {
+      latitude,
+      longitude,
+      velocityNorth: north.velocity,
+      velocityEast: east.velocity,
+      speed,
+      course,
+      uncertainty: Math.sqrt(north.p00 + east.p00),
+      timestamp: lastTimestamp,
+    };
+  };
+
+  // Re-anchor the tangent plane on the current estimate when we drift far from the origin
+  const rebaseIfNeeded = () => {
+    if (!north || !east) return;
+    if (Math.sqrt(north.position * north.position + east.position * east.position) < REBASE_DISTANCE) return;
+
+    origin = toGeographic(north.position, east.position);
+    north = { ...north, position: 0 };
+    east = { ...east, position: 0 };
+  };
+
+  const reset = () => {
+    origin = null;
+    north = null;
+    east = null;
+    lastTimestamp = 0;
+    lastMeasurementTimestamp = 0;
+  };
+
+  // Advance the estimate to `timestamp` without a measurement (dead reckoning)
+  const predict = (timestamp: number): PositionEstimate | null => {
+    if (!north || !east) return null;
+
+    const dt = (timestamp - lastTimestamp) / 1000;
+    if (dt <= 0) return getEstimate();
+
+    // After too long without a fix, keep the position but stop extrapolating velocity
+    if ((timestamp - lastMeasurementTimestamp) / 1000 > maxPredictionTime) {
+      north = { ...predictAxis({ ...north, velocity: 0 }, dt, q), velocity: 0 };
+      east = { ...predictAxis({ ...east, velocity: 0 }, dt, q), velocity: 0 };
+    } else {
+      north = predictAxis(north, dt, q);
+      east = predictAxis(east, dt, q);
+    }
+
+    lastTimestamp = timestamp;
+    return getEstimate();
+  };
+
+  // Fuse a GPS fix into the estimate, weighted by its accuracy
+  const update = (latitude: number, longitude: number, accuracy: number | undefined, timestamp: number): PositionEstimate => {
+    const variance = Math.pow(accuracy && accuracy > 0 ? accuracy : defaultAccuracy, 2);
+
+    if (!origin || !north || !east) {
+      origin = { latitude, longitude };
+      north = createAxis(0, variance);
+      east = createAxis(0, variance);
+      lastTimestamp = timestamp;
+      lastMeasurementTimestamp = timestamp;
+      return getEstimate()!;
+    }
+
+    predict(timestamp);
+
+    const measurement = toLocal(latitude, longitude);
+    north = updateAxis(north!, measurement.north, variance);
+    east = updateAxis(east!, measurement.east, variance);
+    lastMeasurementTimestamp = timestamp;
+    lastTimestamp = Math.max(lastTimestamp, timestamp);
+
+    rebaseIfNeeded();
+    return getEstimate()!;
+  };
+
+  return {
+    update,
+    predict,
+    reset,
+    getEstimate,
+  };
+}
+
+export type PositionFilter = ReturnType<typeof createPositionFilter>;
@@ -0,0 +1,69 @@
+import { Reservation, ReservationStatus } from '@/types/reservation';
+
+// Reservation lifecycle and cancellation policy. Pure: callers pass the clock.
+
+// Late arrivals keep the space this long before becoming a no-show
+export const ARRIVAL_GRACE_MINUTES = 15;
+// Check-in opens this long before the arrival time
+export const CHECK_IN_WINDOW_MINUTES = 30;
+// Full refund until this long before arrival, half refund after that
+export const FREE_CANCELLATION_MINUTES = 60;
+export const LATE_CANCELLATION_REFUND = 0.5;
+
+const MINUTE = 60 * 1000;
+
+const TRANSITIONS: Record<ReservationStatus, ReservationStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['active', 'cancelled', 'noShow'],
+  active: ['completed'],
+  completed: [],
+  cancelled: [],
+  noShow: [],
+};
+
+export const canTransition = (from: ReservationStatus, to: ReservationStatus) => TRANSITIONS[from].includes(to);
+
+export const isUpcomingReservation = (reservation: Reservation) =>
+  reservation.status === 'pending' || reservation.status === 'confirmed' || reservation.status === 'active';
+
+export const getReservationEnd = (reservation: Reservation) =>
+  (reservation.checkedInAt ?? reservation.arrivalAt) + reservation.durationMinutes * MINUTE;
+
+export const canCheckIn = (reservation: Reservation, now: number) =>
+  reservation.status === 'confirmed' &&
+  now >= reservation.arrivalAt - CHECK_IN_WINDOW_MINUTES * MINUTE &&
+  now <= reservation.arrivalAt + ARRIVAL_GRACE_MINUTES * MINUTE;
+
+export interface CancellationTerms {
+  allowed: boolean;
+  refund: number;
+  refundRatio: number;
+}
+
+export const getCancellationTerms = (reservation: Reservation, now: number): CancellationTerms => {
+  if (!canTransition(reservation.status, 'cancelled') || now >= reservation.arrivalAt) {
+    return { allowed: false, refund: 0, refundRatio: 0 };
+  }
+  // Not yet confirmed by the operator, or far enough ahead: everything back
+  const isFree =
+    reservation.status === 'pending' || reservation.arrivalAt - now >= FREE_CANCELLATION_MINUTES * MINUTE;
+  const refundRatio = isFree ? 1 : LATE_CANCELLATION_REFUND;
+  return { allowed: true, refundRatio, refund: Math.round(reservation.price * refundRatio * 100) / 100 };
+};
+
+// Time-driven transitions: missed arrivals become no-shows, finished stays complete
+export const advanceReservation = (reservation: Reservation, now: number): Reservation => {
+  if (reservation.status === 'confirmed' && now > reservation.arrivalAt + ARRIVAL_GRACE_MINUTES * MINUTE) {
+    return { ...reservation, status: 'noShow', endedAt: now };
+  }
+  if (reservation.status === 'active' && now >= getReservationEnd(reservation)) {
+    return { ...reservation, status: 'completed', endedAt: now };
+  }
+  return reservation;
+};
+
+// Short code for the gate keypad; no 0/O or 1/I to avoid misreading
+const GATE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const generateGateCode = (length = 6) =>
+  Array.from({ length }, () => GATE_CODE_ALPHABET[Math.floor(Math.random() * GATE_CODE_ALPHABET.length)]).join('');
@@ -0,0 +1,112 @@
+import { LatLng } from '@/types/parking';
+import { Route, RouteStep } from '@/services/routingProvider';
+import { calculateDistance } from '@/utils/geo';
+
+// Where the user is along a route: snapped position, what is left and the next maneuver
+
+export interface RouteProgress {
+  distanceAlong: number; // meters travelled along the route geometry
+  distanceFromRoute: number; // meters between the user and the closest point on the route
+  distanceRemaining: number;
+  durationRemaining: number; // seconds, scaled from the route's own estimate
+  nextStep: RouteStep | null;
+  nextStepIndex: number;
+  distanceToNextStep: number;
+}
+
+const METERS_PER_DEGREE = 111320;
+
+// Distance ahead of a maneuver at which it counts as passed
+const STEP_PASSED_MARGIN = 5;
+
+// Cumulative distance at each route vertex
+export const getCumulativeDistances = (coordinates: LatLng[]): number[] => {
+  const cumulative = [0];
+  for (let i = 1; i < coordinates.length; i++) {
+    const a = coordinates[i - 1];
+    const b = coordinates[i];
+    cumulative.push(cumulative[i - 1] + calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude));
+  }
+  return cumulative;
+};
+
+// Closest point on the polyline to `point`, using a local flat projection per segment
+export const projectOntoRoute = (
+  point: LatLng,
+  coordinates: LatLng[],
+  cumulative: number[] = getCumulativeDistances(coordinates)
+): { distanceFromRoute: number; distanceAlong: number; segmentIndex: number } => {
+  if (coordinates.length === 1) {
+    const only = coordinates[0];
+    return {
+      distanceFromRoute: calculateDistance(point.latitude, point.longitude, only.latitude, only.longitude),
+      distanceAlong: 0,
+      segmentIndex: 0,
+    };
+  }
+
+  const cosLat = Math.cos((point.latitude * Math.PI) / 180);
+  const toLocal = (p: LatLng) => ({
+    x: (p.longitude - point.longitude) * cosLat * METERS_PER_DEGREE,
+    y: (p.latitude - point.latitude) * METERS_PER_DEGREE,
+  });
+
+  let best = { distanceFromRoute: Infinity, distanceAlong: 0, segmentIndex: 0 };
+
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    const a = toLocal(coordinates[i]);
+    const b = toLocal(coordinates[i + 1]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared)) : 0;
+    const distance = Math.hypot(a.x + t * dx, a.y + t * dy);
+
+    if (distance < best.distanceFromRoute) {
+      best = {
+        distanceFromRoute: distance,
+        distanceAlong: cumulative[i] + t * (cumulative[i + 1] - cumulative[i]),
+        segmentIndex: i,
+      };
+    }
+  }
+
+  return best;
+};
+
+export const getRouteProgress = (route: Route, position: LatLng, cumulative?: number[]): RouteProgress => {
+  const distances = cumulative ?? getCumulativeDistances(route.coordinates);
+  const totalDistance = distances[distances.length - 1] || route.distance;
+  const { distanceFromRoute, distanceAlong } = projectOntoRoute(position, route.coordinates, distances);
+
+  const distanceRemaining = Math.max(0, totalDistance - distanceAlong);
+  const durationRemaining = totalDistance > 0 ? route.duration * (distanceRemaining / totalDistance) : 0;
+
+  // Maneuver i happens after the distances of every step before it
+  let stepStart = 0;
+  let nextStepIndex = -1;
+  let distanceToNextStep = distanceRemaining;
+  for (let i = 0; i < route.steps.length; i++) {
+    if (i > 0 && stepStart > distanceAlong + STEP_PASSED_MARGIN) {
+      nextStepIndex = i;
+      distanceToNextStep = stepStart - distanceAlong;
+      break;
+    }
+    stepStart += route.steps[i].distance;
+  }
+
+  // Past every intermediate maneuver: only the arrival is left
+  if (nextStepIndex === -1 && route.steps.length > 0) {
+    nextStepIndex = route.steps.length - 1;
+  }
+
+  return {
+    distanceAlong,
+    distanceFromRoute,
+    distanceRemaining,
+    durationRemaining,
+    nextStep: nextStepIndex >= 0 ? route.steps[nextStepIndex] : null,
+    nextStepIndex,
+    distanceToNextStep,
+  };
+};
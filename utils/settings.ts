@@ -0,0 +1,58 @@
+import { AppLanguage, AppSettings, GpsProfile, NavigationZoom } from '@/types/settings';
+import { SpeechLanguage } from '@/utils/speechRecognizer';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  units: 'metric',
+  mapType: 'standard',
+  navigationZoom: 'close',
+  gpsProfile: 'precise',
+  language: 'system',
+  theme: 'system',
+  locationSource: 'device',
+};
+
+// Choices offered on the settings screen, in display order
+export const SETTING_OPTIONS: { [K in keyof AppSettings]: AppSettings[K][] } = {
+  units: ['metric', 'imperial'],
+  mapType: ['standard', 'satellite', 'hybrid'],
+  navigationZoom: ['close', 'medium', 'far'],
+  gpsProfile: ['precise', 'balanced', 'batterySaver'],
+  language: ['system', 'es', 'en', 'zh-CN'],
+  theme: ['system', 'light', 'dark'],
+  locationSource: ['device', 'record', 'replay', 'simulatedDrive', 'simulatedParking'],
+};
+
+interface GpsProfileConfig {
+  enableHighAccuracy: boolean;
+  distanceInterval: number; // m
+  timeInterval: number; // ms
+  minAccuracy: number; // m
+  headingSamples: number;
+  followThrottle: number; // ms between camera follow animations
+}
+
+// Location tracking options per power profile: fewer, coarser fixes save battery
+export const GPS_PROFILES: Record<GpsProfile, GpsProfileConfig> = {
+  precise: { enableHighAccuracy: true, distanceInterval: 1, timeInterval: 500, minAccuracy: 30, headingSamples: 5, followThrottle: 800 },
+  balanced: { enableHighAccuracy: true, distanceInterval: 5, timeInterval: 1000, minAccuracy: 50, headingSamples: 5, followThrottle: 1200 },
+  batterySaver: { enableHighAccuracy: false, distanceInterval: 15, timeInterval: 3000, minAccuracy: 100, headingSamples: 3, followThrottle: 2000 },
+};
+
+interface CameraZoom {
+  altitude: number; // iOS
+  zoom: number; // Android / Google Maps
+}
+
+// Camera distance in tracking (navigation) and overview mode for each zoom preference
+export const NAVIGATION_CAMERAS: Record<NavigationZoom, { tracking: CameraZoom; overview: CameraZoom }> = {
+  close: { tracking: { altitude: 200, zoom: 19 }, overview: { altitude: 500, zoom: 17 } },
+  medium: { tracking: { altitude: 400, zoom: 18 }, overview: { altitude: 1000, zoom: 16 } },
+  far: { tracking: { altitude: 800, zoom: 17 }, overview: { altitude: 2000, zoom: 15 } },
+};
+
+// Voice search language for the app language; undefined follows the device
+export const getSpeechLanguage = (language: AppLanguage): SpeechLanguage | undefined => {
+  if (language === 'es') return 'es-ES';
+  if (language === 'en') return 'en-US';
+  return undefined;
+};
@@ -0,0 +1,181 @@
+import * as Location from 'expo-location';
+import { LocationProvider } from '@/utils/locationProvider';
+
+// Scripted location source for development and tests: follows a route over time,
+// adds GPS-like noise, and can simulate signal dropouts or a denied permission.
+
+export interface SimulatedRoutePoint {
+  latitude: number;
+  longitude: number;
+  at: number; // Seconds since the simulation started
+}
+
+export interface SimulatedDropout {
+  start: number; // Seconds since the simulation started
+  end: number;
+  // 'silent' emits nothing, 'zero' emits the [0,0] fixes a failing chipset reports
+  mode?: 'silent' | 'zero';
+}
+
+export interface SimulatedLocationOptions {
+  route: SimulatedRoutePoint[];
+  loop?: boolean;
+  noise?: number; // Standard deviation of position noise (m)
+  accuracy?: number; // Reported accuracy (m)
+  updateInterval?: number; // ms between watchPosition callbacks
+  dropouts?: SimulatedDropout[];
+  permissionGranted?: boolean;
+  failInitialFixes?: number; // Number of getCurrentPosition calls that throw before succeeding
+  emitHeading?: boolean;
+  seed?: number; // Seed for the noise generator, for reproducible runs
+  clock?: () => number;
+}
+
+const METERS_PER_DEGREE = 111320;
+
+// Small deterministic PRNG (mulberry32)
+export function createSeededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const bearingBetween = (from: SimulatedRoutePoint, to: SimulatedRoutePoint) => {
+  const dLat = to.latitude - from.latitude;
+  const dLng = (to.longitude - from.longitude) * Math.cos(from.latitude * Math.PI / 180);
+  return ((Math.atan2(dLng, dLat) * 180) / Math.PI + 360) % 360;
+};
+
+const metersBetween = (from: SimulatedRoutePoint, to: SimulatedRoutePoint) => {
+  const dLat = (to.latitude - from.latitude) * METERS_PER_DEGREE;
+  const dLng = (to.longitude - from.longitude) * METERS_PER_DEGREE * Math.cos(from.latitude * Math.PI / 180);
+  return Math.sqrt(dLat * dLat + dLng * dLng);
+};
+
+export function createSimulatedLocationProvider(options: SimulatedLocationOptions): LocationProvider {
+  const {
+    route,
+    loop = false,
+    noise = 3,
+    accuracy = 5,
+    updateInterval = 1000,
+    dropouts = [],
+    permissionGranted = true,
+    failInitialFixes = 0,
+    emitHeading = true,
+    seed = 1,
+    clock = Date.now,
+  } = options;
+
+  if (route.length === 0) {
+    throw new Error('Simulated location provider needs at least one route point');
+  }
+
+  const random = createSeededRandom(seed);
+  const startedAt = clock();
+  const duration = route[route.length - 1].at;
+  let failedFixes = 0;
+
+  // Box-Muller transform for normally distributed noise
+  const gaussian = () => {
+    const u = Math.max(random(), Number.EPSILON);
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+
+  const elapsedSeconds = () => {
+    const elapsed = (clock() - startedAt) / 1000;
+    return loop && duration > 0 ? elapsed % duration : elapsed;
+  };
+
+  const activeDropout = (t: number) => dropouts.find(dropout => t >= dropout.start && t < dropout.end);
+
+  // Interpolated position, speed and course along the route at time t
+  const sampleRoute = (t: number) => {
+    if (route.length === 1 || t <= route[0].at) {
+      return { ...route[0], speed: 0, heading: route.length > 1 ? bearingBetween(route[0], route[1]) : 0 };
+    }
+
+    for (let i = 1; i < route.length; i++) {
+      const from = route[i - 1];
+      const to = route[i];
+      if (t <= to.at) {
+        const segmentDuration = to.at - from.at;
+        const ratio = segmentDuration > 0 ? (t - from.at) / segmentDuration : 1;
+        return {
+          latitude: from.latitude + (to.latitude - from.latitude) * ratio,
+          longitude: from.longitude + (to.longitude - from.longitude) * ratio,
+          speed: segmentDuration > 0 ? metersBetween(from, to) / segmentDuration : 0,
+          heading: bearingBetween(from, to),
+        };
+      }
+    }
+
+    const last = route[route.length - 1];
+    return { ...last, speed: 0, heading: bearingBetween(route[route.length - 2], last) };
+  };
+
+  const readPosition = (): Location.LocationObject | null => {
+    const t = elapsedSeconds();
+    const dropout = activeDropout(t);
+    if (dropout && (dropout.mode ?? 'silent') === 'silent') return null;
+
+    const sample = sampleRoute(t);
+    const isZero = dropout?.mode === 'zero';
+    const northNoise = gaussian() * noise;
+    const eastNoise = gaussian() * noise;
+
+    return {
+      timestamp: clock(),
+      coords: {
+        latitude: isZero ? 0 : sample.latitude + northNoise / METERS_PER_DEGREE,
+        longitude: isZero
+          ? 0
+          : sample.longitude + eastNoise / (METERS_PER_DEGREE * Math.cos(sample.latitude * Math.PI / 180)),
+        accuracy: isZero ? 0 : accuracy,
+        altitude: null,
+        altitudeAccuracy: null,
+        speed: sample.speed,
+        heading: sample.heading,
+      },
+    };
+  };
+
+  const createInterval = (tick: () => void): Location.LocationSubscription => {
+    const timer = setInterval(tick, updateInterval);
+    return { remove: () => clearInterval(timer) };
+  };
+
+  return {
+    requestPermissions: async () => permissionGranted,
+
+    getCurrentPosition: async () => {
+      if (failedFixes < failInitialFixes) {
+        failedFixes++;
+        throw new Error(`Simulated GPS failure (${failedFixes}/${failInitialFixes})`);
+      }
+      const position = readPosition();
+      if (!position) throw new Error('Simulated GPS signal dropout');
+      return position;
+    },
+
+    watchPosition: async (_options, callback) => createInterval(() => {
+      const position = readPosition();
+      if (position) callback(position);
+    }),
+
+    watchHeading: emitHeading
+      ? async (callback) => createInterval(() => {
+        const { heading } = sampleRoute(elapsedSeconds());
+        callback({ trueHeading: heading, magHeading: heading, accuracy: 3 });
+      })
+      : undefined,
+
+    now: clock,
+  };
+}
@@ -0,0 +1,72 @@
+import { ExpoSpeechRecognitionModule } from 'expo-speech-recognition';
+
+// Everything voice search needs from a speech-to-text engine. The expo implementation
+// is the default; the text recognizer lets the search flow run without a microphone.
+
+export type SpeechLanguage = 'es-ES' | 'en-US';
+
+export interface SpeechRecognitionHandlers {
+  onPartial: (transcript: string) => void;
+  onFinal: (transcript: string) => void;
+  onError: (code: string, message: string) => void;
+  onEnd: () => void;
+}
+
+export interface SpeechRecognitionSession {
+  stop: () => void; // Finish listening and deliver the final transcript
+  abort: () => void; // Cancel without a result
+}
+
+export interface SpeechRecognizer {
+  isAvailable: () => boolean;
+  requestPermissions: () => Promise<boolean>;
+  start: (language: SpeechLanguage, handlers: SpeechRecognitionHandlers) => SpeechRecognitionSession;
+}
+
+export const expoSpeechRecognizer: SpeechRecognizer = {
+  isAvailable: () => {
+    try {
+      return ExpoSpeechRecognitionModule.isRecognitionAvailable();
+    } catch {
+      return false;
+    }
+  },
+
+  requestPermissions: async () => {
+    const { granted } = await ExpoSpeechRecognitionModule.requestPermissionsAsync();
+    return granted;
+  },
+
+  start: (language, { onPartial, onFinal, onError, onEnd }) => {
+    const subscriptions = [
+      ExpoSpeechRecognitionModule.addListener('result', (event) => {
+        const transcript = event.results[0]?.transcript ?? '';
+        if (event.isFinal) {
+          onFinal(transcript);
+        } else {
+          onPartial(transcript);
+        }
+      }),
+      ExpoSpeechRecognitionModule.addListener('error', (event) => {
+        // Aborting is our own doing, not a failure
+        if (event.error !== 'aborted') onError(event.error, event.message);
+      }),
+      ExpoSpeechRecognitionModule.addListener('end', () => {
+        subscriptions.forEach(subscription => subscription.remove());
+        onEnd();
+      }),
+    ];
+
+    ExpoSpeechRecognitionModule.start({
+      lang: language,
+      interimResults: true,
+      continuous: false,
+      addsPunctuation: false,
+    });
+
+    return {
+      stop: () => ExpoSpeechRecognitionModule.stop(),
+      abort: () => ExpoSpeechRecognitionModule.abort(),
+    };
+  },
+};
@@ -0,0 +1,25 @@
+// Accent- and case-insensitive matching for place and parking lot search
+
+export const normalizeSearchText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// How well `query` matches the best of `fields`: 0 = no match, 3 = exact
+export const matchScore = (query: string, fields: (string | undefined)[]): number => {
+  const q = normalizeSearchText(query);
+  if (!q) return 0;
+
+  return fields.reduce((best, field) => {
+    if (!field) return best;
+    const f = normalizeSearchText(field);
+    if (f === q) return Math.max(best, 3);
+    if (f.startsWith(q)) return Math.max(best, 2);
+    if (f.includes(` ${q}`)) return Math.max(best, 1.5);
+    if (f.includes(q)) return Math.max(best, 1);
+    return best;
+  }, 0);
+};
@@ -0,0 +1,58 @@
+import { SpeechLanguage, SpeechRecognizer } from '@/utils/speechRecognizer';
+
+// Scripted speech recognizer for development and tests: "hears" fixed text,
+// revealing it word by word as partial results until stopped.
+
+export interface TextSpeechRecognizerOptions {
+  // Transcript to return, per language or for any language
+  transcript: string | Partial<Record<SpeechLanguage, string>>;
+  wordInterval?: number; // ms between partial results
+  permissionGranted?: boolean;
+  error?: { code: string; message: string }; // Fail every session with this error
+}
+
+export function createTextSpeechRecognizer(options: TextSpeechRecognizerOptions): SpeechRecognizer {
+  const {
+    transcript,
+    wordInterval = 150,
+    permissionGranted = true,
+    error,
+  } = options;
+
+  return {
+    isAvailable: () => true,
+    requestPermissions: async () => permissionGranted,
+
+    start: (language, { onPartial, onFinal, onError, onEnd }) => {
+      const text = typeof transcript === 'string' ? transcript : transcript[language] ?? '';
+      const words = text.split(/\s+/).filter(Boolean);
+      let heard = 0;
+      let finished = false;
+
+      const finish = (deliver: boolean) => {
+        if (finished) return;
+        finished = true;
+        clearInterval(timer);
+        if (deliver) {
+          if (error) {
+            onError(error.code, error.message);
+          } else {
+            onFinal(text);
+          }
+        }
+        onEnd();
+      };
+
+      const timer = setInterval(() => {
+        if (heard >= words.length) return;
+        heard++;
+        onPartial(words.slice(0, heard).join(' '));
+      }, wordInterval);
+
+      return {
+        stop: () => finish(true),
+        abort: () => finish(false),
+      };
+    },
+  };
+}
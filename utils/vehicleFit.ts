@@ -0,0 +1,31 @@
+import { ParkingLot } from '@/types/parking';
+import { Vehicle, VehicleSize } from '@/types/vehicle';
+import { t } from '@/utils/i18n';
+
+export const VEHICLE_SIZES: VehicleSize[] = ['motorcycle', 'small', 'medium', 'large', 'van'];
+
+export const formatVehicleSize = (size: VehicleSize) => t(`vehicles.sizes.${size}`);
+
+// Typical roof height per size class, used when the user didn't enter one
+const TYPICAL_HEIGHTS: Record<VehicleSize, number> = {
+  motorcycle: 1.3,
+  small: 1.5,
+  medium: 1.6,
+  large: 1.9,
+  van: 2.5,
+};
+
+export const getVehicleHeight = (vehicle: Vehicle) => vehicle.height ?? TYPICAL_HEIGHTS[vehicle.size];
+
+// Whether the vehicle may enter and park in the lot
+export const lotFitsVehicle = (lot: ParkingLot, vehicle: Vehicle): boolean => {
+  const restrictions = lot.restrictions;
+  if (!restrictions) return true;
+  if (restrictions.maxHeight !== undefined && getVehicleHeight(vehicle) > restrictions.maxHeight) return false;
+  if (restrictions.evOnly && !vehicle.isElectric) return false;
+  if (restrictions.motorcycleOnly && vehicle.size !== 'motorcycle') return false;
+  return true;
+};
+
+export const describeVehicle = (vehicle: Vehicle) =>
+  [vehicle.make, vehicle.model].filter(Boolean).join(' ') || formatVehicleSize(vehicle.size);
@@ -0,0 +1,56 @@
+// Turns a spoken transcript (Spanish or English) into a search action
+
+export type VoiceCommand =
+  | { type: 'nearestFreeLot' }
+  | { type: 'search'; query: string; navigate: boolean };
+
+const NEAREST_FREE_LOT = [
+  /\b(nearest|closest)\s+(free\s+|available\s+|open\s+)?(parking(\s+lot)?|car\s*park|lot|spot|space)\b/i,
+  /\b(aparcamiento|parking|estacionamiento|plaza|sitio)\s+(libre\s+|disponible\s+)?m[aá]s\s+cercan[oa]\b/i,
+  /\bm[aá]s\s+cercan[oa]\s+(aparcamiento|parking|estacionamiento|plaza)\b/i,
+];
+
+// Leading phrases that ask to be taken somewhere
+const NAVIGATE_PREFIXES = [
+  /^(please\s+)?(take\s+me|navigate|drive|go|get\s+me)\s+to\s+/i,
+  /^(por\s+favor\s+)?(ll[eé]vame|ll[eé]veme|navega|navegar|ir|vamos|conduce)\s+(a|al|hacia|hasta)\s+/i,
+];
+
+// Leading phrases that ask for parking around a place
+const PARKING_NEAR_PREFIXES = [
+  /^(find\s+|show\s+me\s+|search\s+(for\s+)?)?(a\s+)?(parking|car\s*park|parking\s+lot)s?\s+(near|by|at|around|close\s+to)\s+/i,
+  /^(busca(r)?\s+|buscar\s+|mu[eé]strame\s+)?(un\s+)?(aparcamiento|parking|estacionamiento)s?\s+(cerca\s+de(l)?|en|junto\s+a(l)?|por)\s+/i,
+  /^(d[oó]nde\s+)?(aparcar|estacionar)\s+(cerca\s+de(l)?|en|junto\s+a(l)?)\s+/i,
+];
+
+const cleanTranscript = (transcript: string) =>
+  transcript
+    .replace(/[¿?¡!.,;]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const parseVoiceCommand = (transcript: string): VoiceCommand | null => {
+  let text = cleanTranscript(transcript);
+  if (!text) return null;
+
+  if (NEAREST_FREE_LOT.some(pattern => pattern.test(text))) {
+    return { type: 'nearestFreeLot' };
+  }
+
+  let navigate = false;
+  const navigatePrefix = NAVIGATE_PREFIXES.find(pattern => pattern.test(text));
+  if (navigatePrefix) {
+    navigate = true;
+    text = text.replace(navigatePrefix, '');
+  }
+
+  const parkingPrefix = PARKING_NEAR_PREFIXES.find(pattern => pattern.test(text));
+  if (parkingPrefix) {
+    text = text.replace(parkingPrefix, '');
+  }
+
+  // "the Bund" / "la Torre de Cantón": drop the article so names match
+  text = text.replace(/^(the|el|la|los|las)\s+/i, '');
+
+  return text ? { type: 'search', query: text, navigate } : null;
+};